@@ -0,0 +1,65 @@
+import { PrismaClient } from '@prisma/client'
+import { decryptSecret, encryptSecret, isEncryptedSecret, needsReencryption } from '../src/lib/encryption'
+
+const prisma = new PrismaClient()
+
+/**
+ * 加密数据库中的提供商密钥
+ * 默认只加密明文的旧数据；--rotate 同时把旧主密钥加密的数据改用当前主密钥；--dry-run 只统计不写入
+ */
+const rotate = process.argv.includes('--rotate')
+const dryRun = process.argv.includes('--dry-run')
+
+function shouldUpdate(value: string): boolean {
+  return rotate ? needsReencryption(value) : !isEncryptedSecret(value)
+}
+
+async function main() {
+  console.log(`🔐 开始${rotate ? '轮换' : '加密'}提供商密钥${dryRun ? '（仅检查）' : ''}...`)
+
+  const providers = await prisma.provider.findMany({
+    where: { apiKey: { not: null } },
+    select: { id: true, name: true, apiKey: true },
+  })
+
+  let providerCount = 0
+  for (const provider of providers) {
+    if (!provider.apiKey || !shouldUpdate(provider.apiKey)) continue
+
+    const apiKey = encryptSecret(decryptSecret(provider.apiKey))
+    if (!dryRun) {
+      await prisma.provider.update({ where: { id: provider.id }, data: { apiKey } })
+    }
+    console.log(`  提供商 ${provider.name}`)
+    providerCount++
+  }
+
+  const poolKeys = await prisma.providerKey.findMany({
+    select: { id: true, key: true },
+  })
+
+  let poolKeyCount = 0
+  for (const poolKey of poolKeys) {
+    if (!shouldUpdate(poolKey.key)) continue
+
+    const key = encryptSecret(decryptSecret(poolKey.key))
+    if (!dryRun) {
+      await prisma.providerKey.update({ where: { id: poolKey.id }, data: { key } })
+    }
+    poolKeyCount++
+  }
+
+  console.log(`✅ 完成：提供商密钥 ${providerCount} 个，密钥池密钥 ${poolKeyCount} 个${dryRun ? '需要更新' : '已更新'}`)
+  if (rotate && !dryRun) {
+    console.log('💡 确认服务正常后即可移除 PROVIDER_KEY_SECRET_PREVIOUS')
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ 加密提供商密钥失败:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -27,6 +27,7 @@ async function main() {
     create: {
       name: 'anthropic',
       displayName: 'Anthropic',
+      type: 'anthropic',
       baseUrl: 'https://api.anthropic.com/v1',
       isEnabled: true,
       order: 2,
@@ -0,0 +1,46 @@
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+/**
+ * 创建对话全文搜索使用的文本搜索配置、函数和 GIN 索引，可以重复执行
+ * Prisma schema 无法描述这些对象，每次 db:migrate 或 db:reset 重建数据库后需要重新执行
+ */
+const statements = [
+  // 基于 simple 的配置：不做词干处理，中英文混合内容都按原词匹配
+  `DO $$
+  BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'fimai_cjk') THEN
+      CREATE TEXT SEARCH CONFIGURATION fimai_cjk (COPY = simple);
+    END IF;
+  END
+  $$`,
+  // 中日韩文字之间没有空格，在每个字两边加空格让解析器按字分词，查询时用短语匹配保证字的顺序
+  String.raw`CREATE OR REPLACE FUNCTION fimai_search_text(input text) RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+    SELECT regexp_replace(coalesce(input, ''), '([\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff])', ' \1 ', 'g')
+  $$`,
+  `CREATE INDEX IF NOT EXISTS messages_content_search_idx
+    ON messages USING GIN (to_tsvector('fimai_cjk'::regconfig, fimai_search_text(content)))`,
+  `CREATE INDEX IF NOT EXISTS conversations_title_search_idx
+    ON conversations USING GIN (to_tsvector('fimai_cjk'::regconfig, fimai_search_text(title)))`,
+]
+
+async function main() {
+  console.log('🔎 开始创建对话全文搜索索引...')
+
+  for (const statement of statements) {
+    await prisma.$executeRawUnsafe(statement)
+  }
+
+  console.log('✅ 完成：对话搜索已使用全文索引')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ 创建全文搜索索引失败:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
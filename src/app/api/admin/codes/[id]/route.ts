@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkUserPermission } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function DELETE(
   request: NextRequest,
@@ -8,13 +9,12 @@ export async function DELETE(
 ) {
   try {
     const { id: codeId } = params
-    const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -2,19 +2,20 @@ import { NextRequest, NextResponse } from 'next/server'
 import { checkUserPermission } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { generateInviteCode } from '@/lib/codes'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
     const type = searchParams.get('type') || 'invite' // 'invite' or 'access'
     const limit = parseInt(searchParams.get('limit') || '50')
     const offset = parseInt(searchParams.get('offset') || '0')
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -80,11 +81,19 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, type, role, maxUses, expiresAt } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { type, role, maxUses, expiresAt } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !type) {
+    if (!type) {
       return NextResponse.json(
-        { error: 'adminUserId and type are required' },
+        { error: 'type is required' },
         { status: 400 }
       )
     }
@@ -160,11 +169,19 @@ export async function POST(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, codeId, type } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { codeId, type } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !codeId || !type) {
+    if (!codeId || !type) {
       return NextResponse.json(
-        { error: 'adminUserId, codeId, and type are required' },
+        { error: 'codeId and type are required' },
         { status: 400 }
       )
     }
@@ -212,11 +229,19 @@ export async function DELETE(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, codeId, type, action, ...updateData } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { codeId, type, action, ...updateData } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !codeId || !type || !action) {
+    if (!codeId || !type || !action) {
       return NextResponse.json(
-        { error: 'adminUserId, codeId, type, and action are required' },
+        { error: 'codeId, type, and action are required' },
         { status: 400 }
       )
     }
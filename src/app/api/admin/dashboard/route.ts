@@ -1,16 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSystemStats } from '@/lib/db/admin'
 import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -3,18 +3,20 @@ import { checkUserPermission } from '@/lib/auth'
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import path from 'path'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 const execAsync = promisify(exec)
 
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, confirmText } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { confirmText } = data
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -99,13 +101,12 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -9,16 +9,13 @@ import {
 // 获取用户的模型分组排序配置
 export const GET = withAuth(async (request: NextRequest, userId: string) => {
   try {
-    const { searchParams } = new URL(request.url)
-    const targetUserId = searchParams.get('userId') || userId
-
     // 获取分组排序配置
-    let groupOrders = await getUserModelGroupOrders(targetUserId)
+    let groupOrders = await getUserModelGroupOrders(userId)
 
     // 如果没有配置，初始化默认配置
     if (groupOrders.length === 0) {
-      await initializeDefaultGroupOrders(targetUserId)
-      groupOrders = await getUserModelGroupOrders(targetUserId)
+      await initializeDefaultGroupOrders(userId)
+      groupOrders = await getUserModelGroupOrders(userId)
     }
 
     return createApiResponse(groupOrders, 200, '获取分组排序配置成功')
@@ -31,13 +28,13 @@ export const GET = withAuth(async (request: NextRequest, userId: string) => {
 // 更新用户的模型分组排序配置
 export const PUT = withAuth(async (request: NextRequest, authUserId: string) => {
   try {
-    const { userId, groupOrders } = await request.json()
+    const { groupOrders } = await request.json()
 
-    // 使用认证的用户ID，或者验证权限
-    const targetUserId = userId || authUserId;
+    // 只能修改当前登录用户的配置
+    const targetUserId = authUserId;
 
-    if (!targetUserId || !Array.isArray(groupOrders)) {
-      return createErrorResponse('参数错误：需要userId和groupOrders数组', 400)
+    if (!Array.isArray(groupOrders)) {
+      return createErrorResponse('参数错误：需要groupOrders数组', 400)
     }
 
     console.log('Updating group orders for user:', targetUserId, 'orders:', groupOrders);
@@ -68,14 +65,8 @@ export const PUT = withAuth(async (request: NextRequest, authUserId: string) =>
 // 重置用户的分组排序为默认配置
 export const POST = withAuth(async (request: NextRequest, authUserId: string) => {
   try {
-    const { userId } = await request.json()
-
     // 使用认证的用户ID
-    const targetUserId = userId || authUserId;
-
-    if (!targetUserId) {
-      return createErrorResponse('参数错误：需要userId', 400)
-    }
+    const targetUserId = authUserId;
 
     const success = await initializeDefaultGroupOrders(targetUserId)
 
@@ -1,19 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -78,12 +78,13 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    const { adminUserId, pricingType, inputPrice, outputPrice, usagePrice } = await request.json()
+    const adminUserId = await getUserFromRequest(request)
+    const { pricingType, inputPrice, outputPrice, usagePrice } = await request.json()
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { parseFallbackModelIds } from '@/lib/chat-fallback'
+import { parseSamplingLimits } from '@/lib/sampling'
+import { parseModelCapabilities } from '@/lib/model-capabilities'
+import { parseToolNames } from '@/lib/tools/catalog'
 
 // 获取单个模型
 export async function GET(
@@ -48,13 +54,14 @@ export async function PATCH(
 ) {
   try {
     const data = await request.json()
-    const { adminUserId, isEnabled, name, description, group } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { isEnabled, name, description, group, alias, fallbackModelIds, samplingLimits, enabledTools } = data
     const { id: modelId } = await params
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -67,6 +74,77 @@ export async function PATCH(
       )
     }
 
+    // 检查别名是否已被其他模型使用
+    const normalizedAlias = typeof alias === 'string' ? alias.trim() || null : alias
+    if (normalizedAlias) {
+      const aliasOwner = await prisma.model.findUnique({
+        where: { alias: normalizedAlias },
+        select: { id: true },
+      })
+
+      if (aliasOwner && aliasOwner.id !== modelId) {
+        return NextResponse.json(
+          { error: 'Alias is already used by another model' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // 校验备用模型：必须存在，且不能包含模型自身
+    let normalizedFallbackIds: string | null | undefined = undefined
+    if (fallbackModelIds !== undefined) {
+      const ids = Array.isArray(fallbackModelIds)
+        ? fallbackModelIds.filter((id: unknown): id is string => typeof id === 'string')
+        : parseFallbackModelIds(fallbackModelIds)
+      const uniqueIds = Array.from(new Set(ids))
+
+      if (uniqueIds.includes(modelId)) {
+        return NextResponse.json(
+          { error: 'A model cannot fall back to itself' },
+          { status: 400 }
+        )
+      }
+
+      const existingCount = await prisma.model.count({
+        where: { id: { in: uniqueIds } },
+      })
+      if (existingCount !== uniqueIds.length) {
+        return NextResponse.json(
+          { error: 'Fallback model not found' },
+          { status: 400 }
+        )
+      }
+
+      normalizedFallbackIds = uniqueIds.length > 0 ? uniqueIds.join(',') : null
+    }
+
+    // 模型能力：上下文长度为空时不裁剪消息，最大输出长度为空时不限制
+    const capabilities = parseModelCapabilities(data)
+    if ('error' in capabilities) {
+      return NextResponse.json(
+        { error: capabilities.error },
+        { status: 400 }
+      )
+    }
+
+    // 对所有用户启用的内置工具
+    const parsedTools = enabledTools !== undefined ? parseToolNames(enabledTools) : undefined
+    if (parsedTools && 'error' in parsedTools) {
+      return NextResponse.json(
+        { error: parsedTools.error },
+        { status: 400 }
+      )
+    }
+
+    // 校验用户可设置的采样参数范围
+    const parsedLimits = parseSamplingLimits(samplingLimits)
+    if ('error' in parsedLimits) {
+      return NextResponse.json(
+        { error: parsedLimits.error },
+        { status: 400 }
+      )
+    }
+
     // 更新模型
     const updatedModel = await prisma.model.update({
       where: { id: modelId },
@@ -75,6 +153,11 @@ export async function PATCH(
         ...(name && { name }),
         ...(description !== undefined && { description }),
         ...(group !== undefined && { group }),
+        ...(normalizedAlias !== undefined && { alias: normalizedAlias }),
+        ...(normalizedFallbackIds !== undefined && { fallbackModelIds: normalizedFallbackIds }),
+        ...(samplingLimits !== undefined && { samplingLimits: parsedLimits.data ?? Prisma.DbNull }),
+        ...capabilities.data,
+        ...(parsedTools && { enabledTools: parsedTools.data }),
       },
       include: {
         provider: {
@@ -104,14 +187,13 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
     const { id: modelId } = await params
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
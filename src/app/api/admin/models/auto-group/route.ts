@@ -2,17 +2,19 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { checkUserPermission } from '@/lib/auth'
 import { getAIModelCategoryName } from '@/utils/aiModelUtils'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 // 自动分组接口
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, providerId, modelIds } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { providerId, modelIds } = data
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -83,11 +85,19 @@ export async function POST(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, modelIds, groupName } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { modelIds, groupName } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !Array.isArray(modelIds) || !groupName) {
+    if (!Array.isArray(modelIds) || !groupName) {
       return NextResponse.json(
-        { error: 'adminUserId, modelIds array, and groupName are required' },
+        { error: 'modelIds array and groupName are required' },
         { status: 400 }
       )
     }
@@ -143,11 +153,19 @@ export async function PATCH(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, modelIds } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { modelIds } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !Array.isArray(modelIds)) {
+    if (!Array.isArray(modelIds)) {
       return NextResponse.json(
-        { error: 'adminUserId and modelIds array are required' },
+        { error: 'modelIds array is required' },
         { status: 400 }
       )
     }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 interface BatchModelData {
   modelId: string
@@ -11,7 +12,6 @@ interface BatchModelData {
 }
 
 interface BatchCreateRequest {
-  adminUserId: string
   providerId: string
   models: BatchModelData[]
 }
@@ -19,11 +19,19 @@ interface BatchCreateRequest {
 export async function POST(request: NextRequest) {
   try {
     const data: BatchCreateRequest = await request.json()
-    const { adminUserId, providerId, models } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { providerId, models } = data
 
-    if (!adminUserId || !providerId || !Array.isArray(models) || models.length === 0) {
+    if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId, providerId, and models array are required' },
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!providerId || !Array.isArray(models) || models.length === 0) {
+      return NextResponse.json(
+        { error: 'providerId and models array are required' },
         { status: 400 }
       )
     }
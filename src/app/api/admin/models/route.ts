@@ -1,16 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkUserPermission } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -77,11 +77,19 @@ export async function GET(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, modelId, isEnabled, ...updateData } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { modelId, isEnabled, ...updateData } = data
 
-    if (!adminUserId || !modelId) {
+    if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId and modelId are required' },
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!modelId) {
+      return NextResponse.json(
+        { error: 'modelId is required' },
         { status: 400 }
       )
     }
@@ -139,11 +147,19 @@ export async function PATCH(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, providerId, modelId, name, description, group, ...modelData } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { providerId, modelId, name, description, group, ...modelData } = data
 
-    if (!adminUserId || !providerId || !modelId || !name) {
+    if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId, providerId, modelId, and name are required' },
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!providerId || !modelId || !name) {
+      return NextResponse.json(
+        { error: 'providerId, modelId, and name are required' },
         { status: 400 }
       )
     }
@@ -230,12 +246,13 @@ export async function POST(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, models } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { models } = data
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -279,11 +296,19 @@ export async function PUT(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, modelId } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { modelId } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !modelId) {
+    if (!modelId) {
       return NextResponse.json(
-        { error: 'adminUserId and modelId are required' },
+        { error: 'modelId is required' },
         { status: 400 }
       )
     }
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { serializeProvider, updateProvider } from '@/lib/db/providers'
+import { decryptSecret } from '@/lib/encryption'
+
+// 查看提供商的完整 API Key（其他接口只返回遮盖后的密钥）
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const adminUserId = await getUserFromRequest(request)
+    const { id: providerId } = await params
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const provider = await prisma.provider.findUnique({
+      where: { id: providerId },
+      select: { name: true, apiKey: true },
+    })
+
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'Provider not found' },
+        { status: 404 }
+      )
+    }
+
+    console.log(`Provider API key revealed: ${provider.name} by user ${adminUserId}`)
+
+    return NextResponse.json({ apiKey: provider.apiKey ? decryptSecret(provider.apiKey) : null })
+  } catch (error) {
+    console.error('Error revealing provider API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to reveal provider API key' },
+      { status: 500 }
+    )
+  }
+}
+
+// 更换提供商的 API Key，传入空字符串时清除
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const data = await request.json()
+    const adminUserId = await getUserFromRequest(request)
+    const { id: providerId } = await params
+    const { apiKey } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (typeof apiKey !== 'string') {
+      return NextResponse.json(
+        { error: 'apiKey is required' },
+        { status: 400 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const provider = await prisma.provider.findUnique({
+      where: { id: providerId },
+      select: { id: true },
+    })
+
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'Provider not found' },
+        { status: 404 }
+      )
+    }
+
+    const updatedProvider = await updateProvider(providerId, { apiKey: apiKey.trim() })
+
+    return NextResponse.json(serializeProvider(updatedProvider))
+  } catch (error) {
+    console.error('Error replacing provider API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to replace provider API key' },
+      { status: 500 }
+    )
+  }
+}
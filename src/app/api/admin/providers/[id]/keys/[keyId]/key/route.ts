@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getProviderKey, serializeProviderKey, updateProviderKey } from '@/lib/db/provider-keys'
+import { decryptSecret } from '@/lib/encryption'
+
+// 查看密钥池中的完整密钥
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; keyId: string }> }
+) {
+  try {
+    const adminUserId = await getUserFromRequest(request)
+    const { id: providerId, keyId } = await params
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const providerKey = await getProviderKey(keyId, providerId)
+    if (!providerKey) {
+      return NextResponse.json(
+        { error: 'Provider key not found' },
+        { status: 404 }
+      )
+    }
+
+    console.log(`Provider pool key revealed: ${keyId} by user ${adminUserId}`)
+
+    return NextResponse.json({ key: decryptSecret(providerKey.key) })
+  } catch (error) {
+    console.error('Error revealing provider key:', error)
+    return NextResponse.json(
+      { error: 'Failed to reveal provider key' },
+      { status: 500 }
+    )
+  }
+}
+
+// 更换密钥池中的密钥，保留统计数据
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; keyId: string }> }
+) {
+  try {
+    const data = await request.json()
+    const adminUserId = await getUserFromRequest(request)
+    const { id: providerId, keyId } = await params
+    const key = typeof data.key === 'string' ? data.key.trim() : ''
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!key) {
+      return NextResponse.json(
+        { error: 'key is required' },
+        { status: 400 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    // 新密钥不再沿用旧密钥的冷却状态
+    const providerKey = await updateProviderKey(keyId, providerId, { key, cooldownUntil: null })
+    if (!providerKey) {
+      return NextResponse.json(
+        { error: 'Provider key not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(serializeProviderKey(providerKey))
+  } catch (error) {
+    console.error('Error replacing provider key:', error)
+    return NextResponse.json(
+      { error: 'Failed to replace provider key' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { deleteProviderKey, serializeProviderKey, updateProviderKey } from '@/lib/db/provider-keys'
+
+// 更新密钥：修改备注、启用/禁用、解除冷却
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; keyId: string }> }
+) {
+  try {
+    const data = await request.json()
+    const adminUserId = await getUserFromRequest(request)
+    const { id: providerId, keyId } = await params
+    const { name, isEnabled, resetCooldown } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const providerKey = await updateProviderKey(keyId, providerId, {
+      ...(name !== undefined && { name: typeof name === 'string' ? name.trim() || null : null }),
+      ...(typeof isEnabled === 'boolean' && { isEnabled }),
+      ...(resetCooldown && { cooldownUntil: null }),
+    })
+
+    if (!providerKey) {
+      return NextResponse.json(
+        { error: 'Provider key not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(serializeProviderKey(providerKey))
+  } catch (error) {
+    console.error('Error updating provider key:', error)
+    return NextResponse.json(
+      { error: 'Failed to update provider key' },
+      { status: 500 }
+    )
+  }
+}
+
+// 从密钥池删除密钥
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; keyId: string }> }
+) {
+  try {
+    const adminUserId = await getUserFromRequest(request)
+    const { id: providerId, keyId } = await params
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const deleted = await deleteProviderKey(keyId, providerId)
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Provider key not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting provider key:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete provider key' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { createProviderKey, getProviderKeys, serializeProviderKey } from '@/lib/db/provider-keys'
+
+// 获取提供商的密钥池及各密钥的使用情况
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const adminUserId = await getUserFromRequest(request)
+    const { id: providerId } = await params
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const keys = await getProviderKeys(providerId)
+
+    return NextResponse.json(keys.map(serializeProviderKey))
+  } catch (error) {
+    console.error('Error fetching provider keys:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch provider keys' },
+      { status: 500 }
+    )
+  }
+}
+
+// 向密钥池添加密钥
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const data = await request.json()
+    const adminUserId = await getUserFromRequest(request)
+    const { id: providerId } = await params
+    const { key, name } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!key || typeof key !== 'string' || !key.trim()) {
+      return NextResponse.json(
+        { error: 'key is required' },
+        { status: 400 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const provider = await prisma.provider.findUnique({
+      where: { id: providerId },
+      select: { id: true },
+    })
+
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'Provider not found' },
+        { status: 404 }
+      )
+    }
+
+    const providerKey = await createProviderKey({
+      providerId,
+      key: key.trim(),
+      name: typeof name === 'string' ? name.trim() : undefined,
+    })
+
+    return NextResponse.json(serializeProviderKey(providerKey), { status: 201 })
+  } catch (error) {
+    console.error('Error creating provider key:', error)
+    return NextResponse.json(
+      { error: 'Failed to create provider key' },
+      { status: 500 }
+    )
+  }
+}
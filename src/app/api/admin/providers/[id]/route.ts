@@ -1,14 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { PROVIDER_TYPES, isProviderType } from '@/lib/adapters'
+import { KEY_SELECTION_STRATEGIES } from '@/lib/db/provider-keys'
+import { serializeProvider } from '@/lib/db/providers'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const adminUserId = await getUserFromRequest(request)
     const { id: providerId } = await params
 
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
     // 获取提供商信息
     const provider = await prisma.provider.findUnique({
       where: { id: providerId },
@@ -26,7 +47,7 @@ export async function GET(
       )
     }
 
-    return NextResponse.json(provider)
+    return NextResponse.json(serializeProvider(provider))
   } catch (error) {
     console.error('Error fetching provider:', error)
     return NextResponse.json(
@@ -42,13 +63,14 @@ export async function PATCH(
 ) {
   try {
     const data = await request.json()
-    const { adminUserId, ...updateData } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { ...updateData } = data
     const { id: providerId } = await params
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -61,6 +83,31 @@ export async function PATCH(
       )
     }
 
+    if (updateData.type !== undefined && !isProviderType(updateData.type)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${PROVIDER_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // 密钥只能通过单独的 api-key 接口更换
+    if (updateData.apiKey !== undefined) {
+      return NextResponse.json(
+        { error: 'apiKey cannot be updated here, use /api/admin/providers/[id]/api-key' },
+        { status: 400 }
+      )
+    }
+
+    if (
+      updateData.keySelection !== undefined &&
+      !(KEY_SELECTION_STRATEGIES as readonly string[]).includes(updateData.keySelection)
+    ) {
+      return NextResponse.json(
+        { error: `keySelection must be one of: ${KEY_SELECTION_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
     // 检查提供商是否存在
     const provider = await prisma.provider.findUnique({
       where: { id: providerId }
@@ -99,13 +146,15 @@ export async function PATCH(
             name: true,
             isEnabled: true,
             group: true,
+            alias: true,
+            fallbackModelIds: true,
           },
           orderBy: { order: 'asc' },
         },
       },
     })
 
-    return NextResponse.json(updatedProvider)
+    return NextResponse.json(serializeProvider(updatedProvider))
 
   } catch (error) {
     console.error('Error updating provider:', error)
@@ -121,14 +170,13 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
     const { id: providerId } = await params
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -1,16 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { PROVIDER_TYPES, isProviderType } from '@/lib/adapters'
+import { KEY_SELECTION_STRATEGIES } from '@/lib/db/provider-keys'
+import { serializeProvider } from '@/lib/db/providers'
+import { encryptSecret } from '@/lib/encryption'
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -33,6 +37,8 @@ export async function GET(request: NextRequest) {
             name: true,
             isEnabled: true,
             group: true,
+            alias: true,
+            fallbackModelIds: true,
           },
           orderBy: { order: 'asc' },
         },
@@ -40,7 +46,7 @@ export async function GET(request: NextRequest) {
       orderBy: { order: 'asc' },
     })
 
-    return NextResponse.json(providers)
+    return NextResponse.json(providers.map(serializeProvider))
 
   } catch (error) {
     console.error('Error fetching providers:', error)
@@ -54,11 +60,33 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, name, displayName, baseUrl, apiKey, icon, description } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { name, displayName, type = 'openai', keySelection = 'round_robin', baseUrl, apiKey, icon, description } = data
 
-    if (!adminUserId || !name || !displayName) {
+    if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId, name, and displayName are required' },
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!name || !displayName) {
+      return NextResponse.json(
+        { error: 'name and displayName are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!isProviderType(type)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${PROVIDER_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!(KEY_SELECTION_STRATEGIES as readonly string[]).includes(keySelection)) {
+      return NextResponse.json(
+        { error: `keySelection must be one of: ${KEY_SELECTION_STRATEGIES.join(', ')}` },
         { status: 400 }
       )
     }
@@ -95,8 +123,10 @@ export async function POST(request: NextRequest) {
       data: {
         name,
         displayName,
+        type,
+        keySelection,
         baseUrl,
-        apiKey,
+        apiKey: apiKey ? encryptSecret(apiKey) : null,
         icon,
         description,
         isEnabled: true,
@@ -110,13 +140,15 @@ export async function POST(request: NextRequest) {
             name: true,
             isEnabled: true,
             group: true,
+            alias: true,
+            fallbackModelIds: true,
           },
           orderBy: { order: 'asc' },
         },
       },
     })
 
-    return NextResponse.json(newProvider, { status: 201 })
+    return NextResponse.json(serializeProvider(newProvider), { status: 201 })
 
   } catch (error) {
     console.error('Error creating provider:', error)
@@ -130,12 +162,13 @@ export async function POST(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, providers } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { providers } = data
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getShareById, revokeShare } from '@/lib/db/shares'
+
+// 管理员撤销任意分享链接
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const adminUserId = await getUserFromRequest(request)
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const share = await getShareById(id)
+    if (!share || share.revokedAt) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 })
+    }
+
+    await revokeShare(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking share:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke share' },
+      { status: 500 }
+    )
+  }
+}
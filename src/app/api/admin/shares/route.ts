@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getActiveShares } from '@/lib/db/shares'
+
+// 获取所有有效的分享链接
+export async function GET(request: NextRequest) {
+  try {
+    const adminUserId = await getUserFromRequest(request)
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    const { shares, total } = await getActiveShares({ limit, offset })
+    return NextResponse.json({ shares, total })
+  } catch (error) {
+    console.error('Error fetching shares:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch shares' },
+      { status: 500 }
+    )
+  }
+}
@@ -7,6 +7,7 @@ import {
   setSystemSetting,
   DEFAULT_SYSTEM_SETTINGS
 } from '@/lib/db/system-settings'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,12 +18,12 @@ export async function GET(request: NextRequest) {
       const value = await getSystemSetting(key)
       return NextResponse.json({ key, value })
     }
-    // For fetching all settings, require adminUserId and admin permission
-    const adminUserId = searchParams.get('adminUserId')
+    // For fetching all settings, require an admin session
+    const adminUserId = await getUserFromRequest(request)
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -66,11 +67,19 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, key, value, type } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { key, value, type } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !key || value === undefined) {
+    if (!key || value === undefined) {
       return NextResponse.json(
-        { error: 'adminUserId, key, and value are required' },
+        { error: 'key and value are required' },
         { status: 400 }
       )
     }
@@ -109,11 +118,19 @@ export async function POST(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, settings } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { settings } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !settings || typeof settings !== 'object') {
+    if (!settings || typeof settings !== 'object') {
       return NextResponse.json(
-        { error: 'adminUserId and settings object are required' },
+        { error: 'settings object is required' },
         { status: 400 }
       )
     }
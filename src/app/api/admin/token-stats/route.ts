@@ -5,11 +5,12 @@ import {
   getTokenUsageLeaderboard, 
   getModelUsageStats 
 } from '@/lib/db/token-usage'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
     const action = searchParams.get('action')
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
@@ -19,8 +20,8 @@ export async function GET(request: NextRequest) {
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -101,6 +102,7 @@ export async function GET(request: NextRequest) {
             OR: [
               { limitType: { not: 'none' } },
               { tokenLimit: { not: null } },
+              { enabledTools: { isEmpty: false } },
             ]
           },
           include: {
@@ -1,19 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { parseToolNames } from '@/lib/tools/catalog'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -48,19 +49,20 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
+    const adminUserId = await getUserFromRequest(request)
     const { 
-      adminUserId, 
       limitType,
       limitPeriod,
       tokenLimit,
       costLimit,
-      resetUsage
+      resetUsage,
+      enabledTools
     } = await request.json()
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -106,6 +108,18 @@ export async function POST(
       updateData.costLimit = null
     }
 
+    // 为该用户额外启用的内置工具
+    if (enabledTools !== undefined) {
+      const parsedTools = parseToolNames(enabledTools)
+      if ('error' in parsedTools) {
+        return NextResponse.json(
+          { error: parsedTools.error },
+          { status: 400 }
+        )
+      }
+      updateData.enabledTools = parsedTools.data
+    }
+
     // 如果需要重置使用量
     if (resetUsage) {
       updateData.tokenUsed = 0
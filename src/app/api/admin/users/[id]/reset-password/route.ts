@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { checkUserPermission } from '@/lib/auth'
 import bcrypt from 'bcryptjs'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { revokeUserSessions } from '@/lib/db/sessions'
 
 // 管理员重置用户密码
 export async function POST(
@@ -10,13 +12,14 @@ export async function POST(
 ) {
   try {
     const data = await request.json()
-    const { adminUserId, newPassword } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { newPassword } = data
     const { id: userId } = await params
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -59,6 +62,9 @@ export async function POST(
       }
     })
 
+    // 重置密码后让该用户所有已登录的会话失效
+    await revokeUserSessions(userId)
+
     return NextResponse.json({ 
       success: true, 
       message: `密码已成功重置` 
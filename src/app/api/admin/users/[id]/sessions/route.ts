@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { revokeUserSessions } from '@/lib/db/sessions'
+
+/**
+ * 强制下线：吊销指定用户的所有会话
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const adminUserId = await getUserFromRequest(request)
+    const { id: userId } = await params
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(adminUserId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const revoked = await revokeUserSessions(userId)
+
+    return NextResponse.json({ success: true, revoked })
+
+  } catch (error) {
+    console.error('Error revoking user sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke user sessions' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,11 +6,12 @@ import {
   updateUserPermissions 
 } from '@/lib/db/admin'
 import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const adminUserId = searchParams.get('adminUserId')
+    const adminUserId = await getUserFromRequest(request)
     const includeStats = searchParams.get('includeStats') === 'true'
     const role = searchParams.get('role') as 'ADMIN' | 'USER' | 'GUEST' | null
     const isActive = searchParams.get('isActive')
@@ -19,8 +20,8 @@ export async function GET(request: NextRequest) {
 
     if (!adminUserId) {
       return NextResponse.json(
-        { error: 'adminUserId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -55,11 +56,19 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, username, email, password, role = 'USER' } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { username, email, password, role = 'USER' } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !username) {
+    if (!username) {
       return NextResponse.json(
-        { error: 'adminUserId and username are required' },
+        { error: 'username is required' },
         { status: 400 }
       )
     }
@@ -167,11 +176,19 @@ export async function POST(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, userId, action, ...updateData } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { userId, action, ...updateData } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !userId || !action) {
+    if (!userId || !action) {
       return NextResponse.json(
-        { error: 'adminUserId, userId, and action are required' },
+        { error: 'userId and action are required' },
         { status: 400 }
       )
     }
@@ -227,11 +244,19 @@ export async function PATCH(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const data = await request.json()
-    const { adminUserId, userId } = data
+    const adminUserId = await getUserFromRequest(request)
+    const { userId } = data
+
+    if (!adminUserId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!adminUserId || !userId) {
+    if (!userId) {
       return NextResponse.json(
-        { error: 'adminUserId and userId are required' },
+        { error: 'userId is required' },
         { status: 400 }
       )
     }
@@ -1,23 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkUserPermission } from '@/lib/auth';
+import { getUserFromRequest } from '@/lib/api-utils';
+import { getProviderAdapter } from '@/lib/adapters';
+import { selectProviderKey } from '@/lib/db/provider-keys';
 
 interface AIRenameRequest {
   modelId: string;
   aiConfig: {
-    apiKey: string;
-    baseUrl: string;
+    // 使用已保存提供商的密钥（由服务端读取）
+    providerId: string;
     model: string;
   };
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getUserFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const hasPermission = await checkUserPermission(userId, 'admin_panel');
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
     const { modelId, aiConfig }: AIRenameRequest = await request.json();
 
     if (!modelId) {
       return NextResponse.json({ error: 'Model ID is required' }, { status: 400 });
     }
 
-    if (!aiConfig.apiKey) {
+    if (!aiConfig?.providerId || !aiConfig.model) {
+      return NextResponse.json({ error: 'AI provider and model are required' }, { status: 400 });
+    }
+
+    const provider = await prisma.provider.findUnique({
+      where: { id: aiConfig.providerId },
+      select: { id: true, type: true, baseUrl: true, apiKey: true, keySelection: true },
+    });
+
+    if (!provider?.baseUrl) {
+      return NextResponse.json({ error: 'AI provider is not configured' }, { status: 400 });
+    }
+
+    const providerKey = await selectProviderKey(provider);
+    if (!providerKey) {
       return NextResponse.json({ error: 'AI API Key is required' }, { status: 400 });
     }
 
@@ -43,13 +72,10 @@ export async function POST(request: NextRequest) {
 请直接输出格式化后的模型名称，不要包含其他解释文字。`;
 
     // 调用AI API
-    const response = await fetch(`${aiConfig.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${aiConfig.apiKey}`,
-      },
-      body: JSON.stringify({
+    const adapter = getProviderAdapter(provider.type);
+    const response = await adapter.sendChatRequest(
+      { baseUrl: provider.baseUrl, apiKey: providerKey.key },
+      {
         model: aiConfig.model,
         messages: [
           {
@@ -57,10 +83,11 @@ export async function POST(request: NextRequest) {
             content: prompt
           }
         ],
+        stream: false,
         temperature: 0.1,
         max_tokens: 100,
-      }),
-    });
+      }
+    );
 
     if (!response.ok) {
       const errorData = await response.text();
@@ -71,7 +98,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const data = await response.json();
+    const data = adapter.parseCompletion(await response.json(), aiConfig.model);
     const renamedName = data.choices?.[0]?.message?.content?.trim() || modelId;
 
     return NextResponse.json({
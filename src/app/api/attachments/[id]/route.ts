@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { deleteUnsentAttachment, getAttachmentById, getAttachmentData } from '@/lib/db/attachments'
+
+// 获取附件的文件内容，只有上传者可以访问
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserFromRequest(request)
+    const { id } = await params
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const attachment = await getAttachmentById(id)
+    if (!attachment || attachment.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    const data = await getAttachmentData(attachment)
+    // 图片在页面中显示，其他文件作为下载
+    const disposition = attachment.kind === 'image' ? 'inline' : 'attachment'
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'Cache-Control': 'private, max-age=86400',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch attachment' },
+      { status: 500 }
+    )
+  }
+}
+
+// 删除还没有发送的附件（发送前从输入框中移除）
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserFromRequest(request)
+    const { id } = await params
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const attachment = await getAttachmentById(id)
+    if (!attachment || attachment.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await deleteUnsentAttachment(attachment))) {
+      return NextResponse.json(
+        { error: 'Attachment has already been sent' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete attachment' },
+      { status: 500 }
+    )
+  }
+}
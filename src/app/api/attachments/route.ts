@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { createAttachment } from '@/lib/db/attachments'
+import { MAX_ATTACHMENT_SIZE } from '@/lib/attachments'
+
+// 上传附件，发送消息时通过 attachmentIds 引用
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'file is required' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return NextResponse.json(
+        { error: `File must be at most ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB` },
+        { status: 413 }
+      )
+    }
+
+    const result = await createAttachment(userId, {
+      fileName: file.name,
+      mimeType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+    })
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(result.attachment, { status: 201 })
+  } catch (error) {
+    console.error('Error uploading attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload attachment' },
+      { status: 500 }
+    )
+  }
+}
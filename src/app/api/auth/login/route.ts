@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { loginUser } from '@/lib/auth'
+import { createSession } from '@/lib/db/sessions'
+import { getUserChatConfig } from '@/lib/chat-permissions'
+import { setSessionCookie } from '@/lib/session'
 
 export async function POST(request: NextRequest) {
   try {
@@ -29,7 +32,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    return NextResponse.json({
+    // 创建服务端会话，令牌通过 HTTP-only Cookie 下发
+    const { session, token } = await createSession({
+      userId: result.user!.id,
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim(),
+    })
+
+    const chatConfig = await getUserChatConfig(result.user!.id)
+
+    const response = NextResponse.json({
       success: true,
       user: {
         id: result.user!.id,
@@ -39,8 +51,13 @@ export async function POST(request: NextRequest) {
         isActive: result.user!.isActive,
         canShareAccessCode: result.user!.canShareAccessCode,
       },
+      chatConfig,
     })
 
+    setSessionCookie(response, token, session.expiresAt)
+
+    return response
+
   } catch (error) {
     console.error('Login error:', error)
     return NextResponse.json(
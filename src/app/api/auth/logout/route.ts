@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionIdFromRequest } from '@/lib/api-utils'
+import { revokeSession } from '@/lib/db/sessions'
+import { clearSessionCookie } from '@/lib/session'
+
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = getSessionIdFromRequest(request)
+
+    // 服务端吊销当前会话
+    if (sessionId) {
+      await revokeSession(sessionId)
+    }
+
+    const response = NextResponse.json({ success: true })
+    clearSessionCookie(response)
+
+    return response
+
+  } catch (error) {
+    console.error('Logout error:', error)
+    return NextResponse.json(
+      { error: 'Logout failed' },
+      { status: 500 }
+    )
+  }
+}
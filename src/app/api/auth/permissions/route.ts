@@ -1,16 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkUserPermission, getUserAllowedModels } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
+    const userId = await getUserFromRequest(request)
     const action = searchParams.get('action')
 
     if (!userId) {
       return NextResponse.json(
-        { error: 'userId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
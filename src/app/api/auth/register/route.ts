@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { registerUser } from '@/lib/auth'
+import { createSession } from '@/lib/db/sessions'
+import { setSessionCookie } from '@/lib/session'
 
 export async function POST(request: NextRequest) {
   try {
@@ -43,7 +45,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    return NextResponse.json({
+    // 注册成功后直接登录
+    const { session, token } = await createSession({
+      userId: result.user!.id,
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim(),
+    })
+
+    const response = NextResponse.json({
       success: true,
       user: {
         id: result.user!.id,
@@ -53,6 +62,10 @@ export async function POST(request: NextRequest) {
       },
     }, { status: 201 })
 
+    setSessionCookie(response, token, session.expiresAt)
+
+    return response
+
   } catch (error) {
     console.error('Registration error:', error)
     return NextResponse.json(
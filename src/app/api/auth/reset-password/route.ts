@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
 import { z } from 'zod'
 import bcrypt from 'bcryptjs'
+import { revokeUserSessions } from '@/lib/db/sessions'
 
 const schema = z.object({
   resetToken: z.string().min(1, '重置令牌不能为空'),
@@ -52,6 +53,9 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    // 重置密码后让所有已登录的会话失效
+    await revokeUserSessions(user.id)
+
     return NextResponse.json({
       success: true,
       message: '密码已成功重置'
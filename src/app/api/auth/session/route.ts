@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getUserChatConfig } from '@/lib/chat-permissions'
+import { clearSessionCookie } from '@/lib/session'
+
+/**
+ * 获取当前登录用户（用于页面刷新后恢复登录状态）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+
+    if (!userId) {
+      const response = NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+      clearSessionCookie(response)
+      return response
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        role: true,
+        isActive: true,
+        canShareAccessCode: true,
+        hostUserId: true,
+        createdAt: true,
+      },
+    })
+
+    const chatConfig = await getUserChatConfig(userId)
+
+    return NextResponse.json({
+      success: true,
+      user,
+      chatConfig,
+    })
+
+  } catch (error) {
+    console.error('Error fetching session:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch session' },
+      { status: 500 }
+    )
+  }
+}
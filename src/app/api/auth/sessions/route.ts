@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionIdFromRequest, getUserFromRequest } from '@/lib/api-utils'
+import { getUserSessions, revokeSession, revokeUserSessions } from '@/lib/db/sessions'
+
+/**
+ * 获取当前用户的登录会话列表
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const currentSessionId = getSessionIdFromRequest(request)
+    const sessions = await getUserSessions(userId)
+
+    return NextResponse.json(
+      sessions.map(session => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        isCurrent: session.id === currentSessionId,
+      }))
+    )
+
+  } catch (error) {
+    console.error('Error fetching sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * 吊销会话
+ * 传入 sessionId 吊销单个会话，否则吊销除当前会话外的所有会话
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const sessionId = searchParams.get('sessionId')
+    const currentSessionId = getSessionIdFromRequest(request)
+
+    if (sessionId) {
+      const sessions = await getUserSessions(userId)
+      if (!sessions.some(session => session.id === sessionId)) {
+        return NextResponse.json(
+          { error: 'Session not found' },
+          { status: 404 }
+        )
+      }
+
+      await revokeSession(sessionId)
+      return NextResponse.json({ success: true, revoked: 1 })
+    }
+
+    const revoked = await revokeUserSessions(userId, currentSessionId || undefined)
+    return NextResponse.json({ success: true, revoked })
+
+  } catch (error) {
+    console.error('Error revoking sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke sessions' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { checkChatPermissions } from '@/lib/chat-permissions'
+import { clearComparison, getCompareCandidate } from '@/lib/chat-compare'
+import { isConversationOwner, resolveParentMessageId, saveChatTurn } from '@/lib/db/conversations'
+
+// 多模型对比：保留其中一个模型的回复，与本轮的用户消息一起保存为对话的下一轮
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { compareId, modelId, conversationId } = await request.json()
+    if (typeof compareId !== 'string' || typeof modelId !== 'string' || typeof conversationId !== 'string') {
+      return NextResponse.json(
+        { error: 'compareId, modelId and conversationId are required' },
+        { status: 400 }
+      )
+    }
+
+    const permissions = await checkChatPermissions(userId, modelId)
+    if (!permissions.canSaveToDatabase) {
+      return NextResponse.json(
+        { error: 'Conversations cannot be saved for this user' },
+        { status: 403 }
+      )
+    }
+
+    if (!(await isConversationOwner(conversationId, userId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const candidate = getCompareCandidate(userId, compareId, modelId)
+    if (!candidate) {
+      return NextResponse.json(
+        { error: 'Comparison not found or expired' },
+        { status: 404 }
+      )
+    }
+
+    if (candidate.conversationId && candidate.conversationId !== conversationId) {
+      return NextResponse.json(
+        { error: 'Comparison belongs to another conversation' },
+        { status: 400 }
+      )
+    }
+
+    // 在新对话中对比时，回复接在对话当前分支的最后一条消息之后
+    const parentId = candidate.conversationId
+      ? candidate.parentMessageId
+      : await resolveParentMessageId(conversationId, undefined)
+
+    // Token 使用量在对比时已经记录
+    const { userMessage, assistantMessage } = await saveChatTurn({
+      conversationId,
+      userId,
+      providerId: candidate.providerId,
+      modelId: candidate.modelId,
+      parentId,
+      userContent: candidate.userContent,
+      userAttachmentIds: candidate.userAttachmentIds,
+      sentAt: candidate.sentAt,
+      assistant: {
+        content: candidate.content,
+        reasoning: candidate.reasoning,
+        toolCalls: candidate.toolCalls,
+        finishReason: candidate.finishReason,
+        tokenUsage: candidate.tokenUsage,
+      },
+    })
+    clearComparison(userId, compareId)
+
+    return NextResponse.json({ userMessage, assistantMessage }, { status: 201 })
+  } catch (error) {
+    console.error('Error keeping compared reply:', error)
+    return NextResponse.json(
+      { error: 'Failed to save the selected reply' },
+      { status: 500 }
+    )
+  }
+}
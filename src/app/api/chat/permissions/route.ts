@@ -4,18 +4,19 @@ import {
   checkGuestHostPermissions, 
   getUserChatConfig 
 } from '@/lib/chat-permissions'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
+    const userId = await getUserFromRequest(request)
     const modelId = searchParams.get('modelId')
     const action = searchParams.get('action')
 
     if (!userId) {
       return NextResponse.json(
-        { error: 'userId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
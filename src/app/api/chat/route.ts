@@ -3,16 +3,44 @@ import { prisma } from '@/lib/prisma';
 import { checkChatPermissions } from '@/lib/chat-permissions';
 import { estimateTokens, extractTokenUsage } from '@/lib/token-counter';
 import { recordTokenUsage } from '@/lib/db/token-usage';
+import { getApiKeyFromRequest, getUserFromRequest } from '@/lib/api-utils';
+import { apiKeyAllowsModel, apiKeyHasScope } from '@/lib/db/api-keys';
+import { CHAT_PROVIDER_SELECT, getFallbackChain, sendChatWithFallback, type ChatModel } from '@/lib/chat-fallback';
+import { buildChatContext, createSummarizer } from '@/lib/chat-context';
+import { getMessageText } from '@/lib/openai-gateway';
+import { removeImageParts } from '@/lib/adapters/content';
+import type { ChatCompletionRequest, ChatMessage } from '@/lib/adapters';
+import { buildAttachmentContent, getUserAttachments } from '@/lib/db/attachments';
+import { MAX_ATTACHMENTS_PER_MESSAGE } from '@/lib/attachments';
+import { createGenerationStream, startGeneration, toReasoningEvent } from '@/lib/chat-generation';
+import {
+  findConversationMessage,
+  getConversationChatSettings,
+  isConversationOwner,
+  resolveParentMessageId,
+  saveChatTurn,
+  saveContextSummary,
+} from '@/lib/db/conversations';
+import { resolveSamplingParams } from '@/lib/sampling';
+import { getMissingCapabilities, getModelSamplingLimits, type ModelCapabilityKey } from '@/lib/model-capabilities';
+import { getEnabledToolNames, getToolDefinitions } from '@/lib/tools';
+import { completeChatWithTools, streamChatWithTools, type ToolLoopOptions } from '@/lib/chat-tools';
+import { isValidCompareId, saveCompareCandidate } from '@/lib/chat-compare';
+import type { ToolCallRecord } from '@/lib/tools/catalog';
 
 interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
+  attachmentIds?: string[]; // 用户消息的附件（通过 /api/attachments 上传）
 }
 
 interface ChatRequest {
   messages: Message[];
-  userId: string;
   modelId: string;
+  conversationId?: string; // 保存到数据库的对话，本轮的用户消息和回复由服务端保存
+  parentMessageId?: string | null; // 新用户消息所在的父消息，null 表示对话的第一条消息（编辑第一条消息时）
+  replyToMessageId?: string; // 重新生成：为已保存的用户消息生成新的回复，不再保存用户消息
+  compareId?: string; // 多模型对比：同一问题的各模型请求使用相同的对比ID，回复不保存，由用户选择保留其中一个
   stream?: boolean;
   temperature?: number;
   max_tokens?: number;
@@ -23,10 +51,28 @@ interface ChatRequest {
 
 export async function POST(request: NextRequest) {
   try {
+    // 优先使用 API 密钥认证（脚本、CI 等程序化调用），其次使用登录会话
+    const apiKey = await getApiKeyFromRequest(request);
+    if (!apiKey && request.headers.get('authorization')?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Invalid or expired API key' }, { status: 401 });
+    }
+
+    const userId = apiKey ? apiKey.userId : await getUserFromRequest(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    if (apiKey && !apiKeyHasScope(apiKey, 'chat')) {
+      return NextResponse.json({ error: 'API key does not have the chat scope' }, { status: 403 });
+    }
+
     const {
       messages,
-      userId,
       modelId,
+      conversationId,
+      parentMessageId: requestedParentId,
+      replyToMessageId,
+      compareId,
       stream = true,
       temperature,
       max_tokens,
@@ -35,12 +81,20 @@ export async function POST(request: NextRequest) {
       presence_penalty,
     }: ChatRequest = await request.json();
 
-    if (!messages || messages.length === 0 || !userId || !modelId) {
+    if (!messages || messages.length === 0 || !modelId) {
       return NextResponse.json({
-        error: 'Missing or empty required fields: messages, userId, modelId'
+        error: 'Missing or empty required fields: messages, modelId'
       }, { status: 400 });
     }
 
+    if (compareId !== undefined && (!isValidCompareId(compareId) || !stream)) {
+      return NextResponse.json({ error: 'Compare mode requires a valid compareId and streaming' }, { status: 400 });
+    }
+
+    if (apiKey && !apiKeyAllowsModel(apiKey, modelId)) {
+      return NextResponse.json({ error: 'API key is not allowed to use this model' }, { status: 403 });
+    }
+
     // 检查用户聊天权限
     const permissions = await checkChatPermissions(userId, modelId);
     if (!permissions.canChat) {
@@ -50,18 +104,57 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (conversationId && !(await isConversationOwner(conversationId, userId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    // 消息的附件必须是用户自己上传的
+    if (messages.some(m => (m.attachmentIds?.length ?? 0) > MAX_ATTACHMENTS_PER_MESSAGE)) {
+      return NextResponse.json(
+        { error: `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments` },
+        { status: 400 }
+      );
+    }
+    const attachmentIds = [...new Set(messages.flatMap(m => m.attachmentIds ?? []))];
+    const attachments = await getUserAttachments(attachmentIds, userId);
+    if (attachments.length !== attachmentIds.length) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    // 对话的设置：提示词预设的系统提示词添加在消息开头，对话和预设的采样参数作为默认值
+    const { preset, samplingParams, contextStrategy, contextSummary } = conversationId
+      ? await getConversationChatSettings(conversationId)
+      : { preset: null, samplingParams: {}, contextStrategy: 'truncate', contextSummary: null };
+
+    // 本轮的用户消息（最后一条消息）与回复一起保存；对比模式在用户选择保留回复时才保存
+    const savesToConversation = !!conversationId && permissions.canSaveToDatabase;
+    const persist = savesToConversation && !compareId;
+    const sentAt = new Date();
+    const lastMessage = messages[messages.length - 1];
+    let userContent = lastMessage.role === 'user' ? lastMessage.content : null;
+    const userAttachmentIds = lastMessage.role === 'user' ? lastMessage.attachmentIds : undefined;
+
+    // 消息树中本轮新消息的位置：重新生成时接在已有的用户消息下，否则作为新的用户消息
+    let parentMessageId: string | null = null;
+    if (savesToConversation) {
+      const replyTo = replyToMessageId ? await findConversationMessage(conversationId!, replyToMessageId) : null;
+      if (replyTo?.role === 'user') {
+        userContent = null;
+        parentMessageId = replyTo.id;
+      } else {
+        parentMessageId = await resolveParentMessageId(conversationId!, requestedParentId);
+      }
+    }
+
+    // 保存到数据库的对话使用可恢复的生成：上游回复由服务端读取并保存，客户端断开后可以重新连接
+    const resumable = stream && persist;
+
     // 根据模型ID获取提供商配置
     const model = await prisma.model.findUnique({
       where: { id: modelId },
       include: {
         provider: {
-          select: {
-            id: true,
-            name: true,
-            baseUrl: true,
-            apiKey: true,
-            isEnabled: true,
-          },
+          select: CHAT_PROVIDER_SELECT,
         },
       },
     });
@@ -80,38 +173,129 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!model.provider.apiKey || !model.provider.baseUrl) {
+    if (!model.provider.baseUrl) {
       return NextResponse.json({
         error: 'Provider configuration incomplete'
       }, { status: 500 });
     }
 
-    // 在发送请求前计算输入的token数量（用于备份和比较）
-    const userMessage = messages[messages.length - 1];
-    const promptContent = messages.map(m => m.content).join('\n');
-    const estimatedPromptTokens = estimateTokens(promptContent);
+    // 本轮消息需要的模型能力：模型不支持时直接拒绝，而不是由上游报错
+    const requiredCapabilities: ModelCapabilityKey[] = (userAttachmentIds ?? [])
+      .some(id => attachments.find(a => a.id === id)?.kind === 'image') ? ['supportsVision'] : [];
+    if (getMissingCapabilities(model, requiredCapabilities).length > 0) {
+      return NextResponse.json(
+        { error: 'Model does not support image input' },
+        { status: 400 }
+      );
+    }
 
-    // 构建请求URL
-    const apiUrl = `${model.provider.baseUrl}/chat/completions`;
+    // 回退链：主模型失败（限流、上游故障）时按管理员配置的顺序尝试备用模型，跳过不具备所需能力的备用模型
+    // 对比模式只使用选择的模型
+    const chain = compareId ? [model] : (await getFallbackChain(model, (id) =>
+      permissions.allowedModels.includes(id) && (!apiKey || apiKeyAllowsModel(apiKey, id))
+    )).filter(candidate => getMissingCapabilities(candidate, requiredCapabilities).length === 0);
 
-    // 调用AI API
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${model.provider.apiKey}`,
+    // 客户端断开（关闭页面、点击停止）或流被取消时中止上游请求，不再继续生成和计费；
+    // 可恢复的生成在把生成ID发给客户端之后只能通过取消接口中止
+    const upstreamAbort = new AbortController();
+    const abortUpstream = () => upstreamAbort.abort();
+    request.signal.addEventListener('abort', abortUpstream, { once: true });
+
+    // 采样参数依次使用请求中的值、对话设置、预设和模型的默认配置，并限制在管理员为该模型配置的范围和最大输出长度内
+    const getSampling = (candidate: ChatModel) => resolveSamplingParams([
+      {
+        temperature,
+        maxTokens: max_tokens,
+        topP: top_p,
+        frequencyPenalty: frequency_penalty,
+        presencePenalty: presence_penalty,
       },
-      body: JSON.stringify({
-        model: model.modelId,
-        messages,
-        stream,
-        temperature: temperature ?? model.temperature ?? 0.7,
-        max_tokens: max_tokens ?? model.maxTokens ?? 2000,
-        ...(top_p !== undefined ? { top_p } : model.topP ? { top_p: model.topP } : {}),
-        ...(frequency_penalty !== undefined ? { frequency_penalty } : model.frequencyPenalty ? { frequency_penalty: model.frequencyPenalty } : {}),
-        ...(presence_penalty !== undefined ? { presence_penalty } : model.presencePenalty ? { presence_penalty: model.presencePenalty } : {}),
-      }),
+      samplingParams,
+      preset,
+      {
+        temperature: candidate.temperature ?? 0.7,
+        maxTokens: candidate.maxTokens ?? 2000,
+        topP: candidate.topP || undefined,
+        frequencyPenalty: candidate.frequencyPenalty || undefined,
+        presencePenalty: candidate.presencePenalty || undefined,
+      },
+    ], getModelSamplingLimits(candidate));
+
+    // 附件加入消息内容：文档的文本内联，图片作为多模态内容
+    const attachmentsById = new Map(attachments.map(a => [a.id, a]));
+    const contentMessages: ChatMessage[] = await Promise.all(messages.map(async (m) => ({
+      role: m.role,
+      content: await buildAttachmentContent(m.content, (m.attachmentIds ?? []).map(id => attachmentsById.get(id)!)),
+    })));
+
+    // 上下文裁剪：按回退链中最小的上下文长度裁剪较早的消息，对话选择总结时把裁剪的消息总结为滚动摘要
+    const contextLengths = chain.map(m => m.contextLength).filter((length): length is number => !!length);
+    const context = await buildChatContext(contentMessages, {
+      systemMessages: preset ? [{ role: 'system', content: preset.systemPrompt }] : [],
+      contextLength: contextLengths.length > 0 ? Math.min(...contextLengths) : null,
+      reservedTokens: getSampling(model).maxTokens,
+      summarizer: persist && contextStrategy === 'summarize'
+        ? createSummarizer(chain, { userId, conversationId }, upstreamAbort.signal)
+        : undefined,
+      previousSummary: contextSummary,
     });
+    const chatMessages = context.messages;
+
+    if (context.summary && context.summary.hash !== contextSummary?.hash) {
+      await saveContextSummary(conversationId!, context.summary).catch((error) => {
+        console.error('Error saving context summary:', error);
+      });
+    }
+
+    // 告知客户端未发送给模型的较早消息
+    const contextNotice = { excluded: context.excluded, summarized: !!context.summary };
+
+    // 发送给模型的图片的估算 token 数，上游没有返回用量时计入输入
+    const sentImageTokens = messages.slice(context.excluded)
+      .flatMap(m => m.attachmentIds ?? [])
+      .map(id => attachmentsById.get(id)!)
+      .filter(a => a.kind === 'image')
+      .reduce((sum, a) => sum + a.tokenCount, 0);
+
+    // 在发送请求前计算输入的token数量（用于备份和比较）
+    const promptContent = chatMessages.map(m => getMessageText(m.content)).join('\n');
+
+    const buildRequest = (candidate: ChatModel): ChatCompletionRequest => {
+      const sampling = getSampling(candidate);
+      // 管理员为模型或用户启用的内置工具，模型不支持工具调用时不发送
+      const toolNames = getEnabledToolNames(candidate, permissions.enabledTools);
+
+      return {
+        model: candidate.modelId,
+        // 不支持图片输入的模型只发送历史消息中图片的文件名
+        messages: candidate.supportsVision
+          ? chatMessages
+          : chatMessages.map(m => ({ ...m, content: removeImageParts(m.content) })),
+        stream,
+        temperature: sampling.temperature,
+        max_tokens: sampling.maxTokens,
+        top_p: sampling.topP,
+        frequency_penalty: sampling.frequencyPenalty,
+        presence_penalty: sampling.presencePenalty,
+        reasoning: candidate.supportsReasoning,
+        ...(toolNames.length > 0 && { tools: getToolDefinitions(toolNames) }),
+      };
+    };
+
+    // 调用AI API
+    const startedAt = Date.now();
+    const result = await sendChatWithFallback(chain, buildRequest, upstreamAbort.signal);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'No available API key for this model, please try again later' },
+        { status: 503 }
+      );
+    }
+
+    const { response, model: servedModel } = result;
+    const imageTokens = servedModel.supportsVision ? sentImageTokens : 0;
+    const estimatedPromptTokens = estimateTokens(promptContent) + imageTokens;
 
     if (!response.ok) {
       const errorData = await response.text();
@@ -122,130 +306,260 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 实际回答的模型（发生回退时与请求的模型不同）
+    const modelNotice = {
+      modelId: servedModel.id,
+      modelName: servedModel.name,
+      providerId: servedModel.provider.id,
+      providerName: servedModel.provider.displayName,
+      fallback: servedModel.id !== model.id,
+    };
+
+    // 模型发起工具调用时由服务端执行工具，并把结果发送给同一模型继续生成
+    const toolLoop: ToolLoopOptions = {
+      buildRequest,
+      context: { userId, signal: upstreamAbort.signal },
+    };
+
     // If client requested no streaming, return full JSON
     if (!stream) {
-      const json = await response.json();
-      return NextResponse.json(json);
+      const { completion: json, toolCalls } = await completeChatWithTools(result, toolLoop);
+
+      // 记录token使用情况（API未返回统计时由 recordTokenUsage 估算）
+      const reasoning = json.choices?.[0]?.message?.reasoning_content || '';
+      const usage = {
+        promptTokens: json.usage?.prompt_tokens,
+        completionTokens: json.usage?.completion_tokens,
+        totalTokens: json.usage?.total_tokens,
+        reasoningTokens: json.usage?.completion_tokens_details?.reasoning_tokens,
+        inputText: promptContent,
+        outputText: json.choices?.[0]?.message?.content || '',
+        imageTokens,
+      };
+
+      try {
+        if (persist) {
+          await saveChatTurn({
+            conversationId: conversationId!,
+            userId,
+            providerId: servedModel.provider.id,
+            modelId: servedModel.id,
+            parentId: parentMessageId,
+            userContent,
+            userAttachmentIds,
+            sentAt,
+            assistant: usage.outputText || reasoning || toolCalls.length > 0 ? {
+              content: usage.outputText,
+              finishReason: json.choices?.[0]?.finish_reason || null,
+              tokenUsage: json.usage,
+              toolCalls,
+              reasoning,
+            } : undefined,
+            usage,
+          });
+        } else {
+          await recordTokenUsage({
+            userId,
+            providerId: servedModel.provider.id,
+            modelId: servedModel.id,
+            ...usage,
+          });
+        }
+      } catch (error) {
+        console.error('Error saving chat result:', error);
+      }
+
+      return NextResponse.json({ ...json, served_model: modelNotice, context: contextNotice, tool_results: toolCalls });
+    }
+
+    if (resumable) {
+      const generation = await startGeneration({
+        conversationId: conversationId!,
+        userId,
+        providerId: servedModel.provider.id,
+        modelId: servedModel.id,
+        events: streamChatWithTools(result, toolLoop),
+        abort: upstreamAbort,
+        promptContent,
+        imageTokens,
+        userContent,
+        userAttachmentIds,
+        parentMessageId,
+      });
+
+      // 先告知客户端实际回答的模型和生成ID（用于断开后重新连接）
+      const prefix = `[MODEL_NOTICE]${JSON.stringify(modelNotice)}\n\n`
+        + `[CONTEXT]${JSON.stringify(contextNotice)}\n\n`
+        + `[GENERATION]${JSON.stringify({ id: generation.id, conversationId })}\n\n`;
+
+      // 生成ID随响应发出后，断开连接不再中止生成，客户端可以重新连接
+      request.signal.removeEventListener('abort', abortUpstream);
+
+      return new Response(createGenerationStream(generation, 0, 0, prefix), {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+        },
+      });
     }
 
     // 创建流式响应
     const encoder = new TextEncoder();
     const sseStream = new ReadableStream({
       async start(controller) {
-        const reader = response.body?.getReader();
-        if (!reader) {
-          controller.close();
-          return;
-        }
-
         let fullAssistantMessage = ''; // 用于记录完整的助手回复内容
+        let fullReasoning = ''; // 思考过程，上游没有返回用量时一起计入输出
+        const toolCalls: ToolCallRecord[] = [];
+        let finishReason: string | null = null;
+        let firstTokenAt: number | null = null; // 收到第一个字（包括思考过程）的时间
         let tokenUsage: any = null; // 用于记录token使用情况
-        let buffer = ''; // 用于处理被分割的JSON数据
+
+        // 客户端断开后不再写入
+        const send = (text: string) => {
+          if (!upstreamAbort.signal.aborted) {
+            controller.enqueue(encoder.encode(text));
+          }
+        };
 
         try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            // 解码数据
-            const chunk = new TextDecoder().decode(value);
-            buffer += chunk;
-            
-            // 处理每一行数据
-            while (buffer.includes('\n')) {
-              const lineEndIndex = buffer.indexOf('\n');
-              const line = buffer.substring(0, lineEndIndex).trim();
-              buffer = buffer.substring(lineEndIndex + 1);
-              
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6);
-                
-                if (data === '[DONE]') {
-                  controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-                  continue;
-                }
-                
-                try {
-                  // 尝试解析JSON
-                  const jsonData = JSON.parse(data);
-                  
-                  // 提取token使用信息（如果有）
-                  if (jsonData.usage) {
-                    tokenUsage = jsonData.usage;
-                  }
-                  
-                  // 收集助手回复内容（用于后续token估算）
-                  if (jsonData.choices && jsonData.choices[0].delta && jsonData.choices[0].delta.content) {
-                    fullAssistantMessage += jsonData.choices[0].delta.content;
-                  }
-                  
-                  // 移除可能包含的敏感信息
-                  delete jsonData.user;
-                  delete jsonData.provider;
-                  if (jsonData.model) {
-                    // 保留基本模型信息，移除详细配置
-                    jsonData.model = typeof jsonData.model === 'string' ? 
-                      jsonData.model : 
-                      { name: jsonData.model.name, id: jsonData.model.id };
-                  }
-                  
-                  // 确保输出的是有效的JSON
-                  const cleanJson = JSON.stringify(jsonData);
-                  controller.enqueue(encoder.encode(`data: ${cleanJson}\n\n`));
-                } catch (error) {
-                  // 记录无效的JSON数据
-                  console.error('无效的JSON数据:', data);
-                  
-                  // 尝试修复和处理不完整的JSON
-                  // 不向客户端发送错误的数据，而是在日志中记录
-                  if (data.length > 0) {
-                    console.log('Skipping malformed JSON chunk');
-                  }
-                }
+          // 先告知客户端实际回答的模型
+          send(`[MODEL_NOTICE]${JSON.stringify(modelNotice)}\n\n`);
+          send(`[CONTEXT]${JSON.stringify(contextNotice)}\n\n`);
+
+          for await (const event of streamChatWithTools(result, toolLoop)) {
+            // 工具调用的状态变化（执行中、完成）
+            if (event.type === 'tool') {
+              const index = toolCalls.findIndex(call => call.id === event.call.id);
+              if (index === -1) {
+                toolCalls.push(event.call);
+              } else {
+                toolCalls[index] = event.call;
               }
+              send(`[TOOL_CALL]${JSON.stringify(event.call)}\n\n`);
+              continue;
+            }
+            // 推理模型的思考过程，与回复正文分开发送
+            if (event.type === 'reasoning') {
+              firstTokenAt ??= Date.now();
+              fullReasoning += event.content;
+              send(toReasoningEvent(event.content));
+              continue;
             }
+
+            const { chunk } = event;
+            // 提取token使用信息（如果有）
+            if (chunk.usage) {
+              tokenUsage = chunk.usage;
+            }
+
+            // 收集助手回复内容（用于后续token估算）
+            const content = chunk.choices?.[0]?.delta?.content;
+            if (content) {
+              firstTokenAt ??= Date.now();
+              fullAssistantMessage += content;
+            }
+            finishReason = chunk.choices?.[0]?.finish_reason || finishReason;
+
+            // 只转发统一格式中的字段，避免泄露上游的额外信息
+            const cleanChunk = {
+              id: chunk.id,
+              object: chunk.object,
+              created: chunk.created,
+              model: chunk.model,
+              choices: chunk.choices,
+              ...(chunk.usage && { usage: chunk.usage }),
+            };
+            send(`data: ${JSON.stringify(cleanChunk)}\n\n`);
           }
+          send('data: [DONE]\n\n');
 
           // 在流结束后，如果API没有提供token统计，则进行估算
-          if (!tokenUsage && fullAssistantMessage) {
-            const estimatedCompletionTokens = estimateTokens(fullAssistantMessage);
-            tokenUsage = {
+          if (!tokenUsage && (fullReasoning || fullAssistantMessage)) {
+            const estimatedCompletionTokens = estimateTokens(fullReasoning + fullAssistantMessage);
+            send(`[TOKEN_USAGE]${JSON.stringify({
               prompt_tokens: estimatedPromptTokens, // 使用上面修正过的估算值
               completion_tokens: estimatedCompletionTokens,
               total_tokens: estimatedPromptTokens + estimatedCompletionTokens,
               is_estimated: true // 标记为估算值
-            };
+            })}\n\n`);
+          } else if (tokenUsage) {
+            // 在流结束后发送token使用情况
+            send(`[TOKEN_USAGE]${JSON.stringify(tokenUsage)}\n\n`);
           }
-
-          // 在流结束后发送token使用情况
-          if (tokenUsage) {
-            const tokenUsagePayload = `[TOKEN_USAGE]${JSON.stringify(tokenUsage)}\n\n`;
-            controller.enqueue(encoder.encode(tokenUsagePayload));
+        } catch (error) {
+          // 客户端主动断开时上游请求会被中止，属于正常情况
+          if (!upstreamAbort.signal.aborted) {
+            console.error('Stream processing error:', error);
+          }
+        } finally {
+          if (upstreamAbort.signal.aborted) {
+            console.log(`Chat stream cancelled by client after ${fullAssistantMessage.length} chars`);
           }
 
-          // 记录token使用情况
-          if (tokenUsage) {
+          // 记录token使用情况：上游没有返回用量（如中途取消）时按实际生成的内容估算
+          const completedAt = Date.now();
+          if (tokenUsage || fullReasoning || fullAssistantMessage) {
             try {
-              await recordTokenUsage({
+              const record = await recordTokenUsage({
                 userId,
-                providerId: model.provider.id,
-                modelId: model.id,
-                promptTokens: tokenUsage.prompt_tokens,
-                completionTokens: tokenUsage.completion_tokens,
-                totalTokens: tokenUsage.total_tokens,
-                inputText: userMessage.content,
-                outputText: fullAssistantMessage,
+                providerId: servedModel.provider.id,
+                modelId: servedModel.id,
+                promptTokens: tokenUsage?.prompt_tokens,
+                completionTokens: tokenUsage?.completion_tokens,
+                totalTokens: tokenUsage?.total_tokens,
+                reasoningTokens: tokenUsage?.completion_tokens_details?.reasoning_tokens,
+                inputText: promptContent,
+                outputText: fullReasoning + fullAssistantMessage,
+                imageTokens,
               });
+
+              // 对比模式：保留回复供用户选择，并告知客户端耗时、Token 数和费用
+              if (compareId && !upstreamAbort.signal.aborted) {
+                const usage = {
+                  prompt_tokens: record.promptTokens,
+                  completion_tokens: record.completionTokens,
+                  total_tokens: record.totalTokens,
+                  ...(tokenUsage?.completion_tokens_details && { completion_tokens_details: tokenUsage.completion_tokens_details }),
+                  ...(record.isEstimated && { is_estimated: true }),
+                };
+                saveCompareCandidate(compareId, {
+                  userId,
+                  conversationId: savesToConversation ? conversationId : undefined,
+                  parentMessageId,
+                  userContent,
+                  userAttachmentIds,
+                  sentAt,
+                  providerId: servedModel.provider.id,
+                  modelId: servedModel.id,
+                  content: fullAssistantMessage,
+                  reasoning: fullReasoning,
+                  toolCalls,
+                  finishReason: finishReason || 'stop',
+                  tokenUsage: usage,
+                });
+                send(`[COMPARE_RESULT]${JSON.stringify({
+                  latencyMs: completedAt - startedAt,
+                  firstTokenMs: firstTokenAt !== null ? firstTokenAt - startedAt : null,
+                  usage,
+                  cost: record.cost ?? 0,
+                })}\n\n`);
+              }
             } catch (error) {
               console.error('Error recording token usage:', error);
             }
           }
-        } catch (error) {
-          console.error('Stream processing error:', error);
-        } finally {
-          controller.close();
+
+          try {
+            controller.close();
+          } catch {
+            // 流已被客户端取消
+          }
         }
       },
+      cancel() {
+        upstreamAbort.abort();
+      },
     });
 
     return new Response(sseStream, {
@@ -6,11 +6,11 @@ import {
   disableAccessCode,
   enableAccessCode
 } from '@/lib/db/codes'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
     const code = searchParams.get('code')
 
     if (code) {
@@ -19,6 +19,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(result)
     }
 
+    // 未登录也可以验证访问码（注册页面使用），获取列表需要登录
+    const userId = await getUserFromRequest(request)
     if (userId) {
       // 获取用户的访问码列表
       const accessCodes = await getUserAccessCodes(userId)
@@ -40,13 +42,14 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const createdBy = await getUserFromRequest(request)
     const data = await request.json()
-    const { createdBy, allowedModelIds, expiresAt, maxUses } = data
+    const { allowedModelIds, expiresAt, maxUses } = data
 
     if (!createdBy) {
       return NextResponse.json(
-        { error: 'createdBy is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -69,12 +72,20 @@ export async function POST(request: NextRequest) {
 
 export async function PATCH(request: NextRequest) {
   try {
+    const userId = await getUserFromRequest(request)
     const data = await request.json()
-    const { codeId, userId, action } = data
+    const { codeId, action } = data
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!codeId || !userId || !action) {
+    if (!codeId || !action) {
       return NextResponse.json(
-        { error: 'codeId, userId, and action are required' },
+        { error: 'codeId and action are required' },
         { status: 400 }
       )
     }
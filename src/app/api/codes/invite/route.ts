@@ -4,11 +4,11 @@ import {
   getUserInviteCodes, 
   validateInviteCode 
 } from '@/lib/db/codes'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
     const code = searchParams.get('code')
 
     if (code) {
@@ -17,6 +17,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(result)
     }
 
+    // 未登录也可以验证邀请码（注册页面使用），获取列表需要登录
+    const userId = await getUserFromRequest(request)
     if (userId) {
       // 获取用户的邀请码列表
       const inviteCodes = await getUserInviteCodes(userId)
@@ -38,13 +40,14 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const createdBy = await getUserFromRequest(request)
     const data = await request.json()
-    const { createdBy, expiresAt, maxUses } = data
+    const { expiresAt, maxUses } = data
 
     if (!createdBy) {
       return NextResponse.json(
-        { error: 'createdBy is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
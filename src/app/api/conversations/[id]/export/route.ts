@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getConversationsForExport } from '@/lib/db/conversations'
+import { EXPORT_FORMATS, exportConversations, isExportFormat } from '@/lib/conversation-export'
+
+// 导出单个对话：?format=markdown|json|html|pdf
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const format = new URL(request.url).searchParams.get('format') || 'markdown'
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const [conversation] = await getConversationsForExport(userId, [id])
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const file = exportConversations([conversation], format)
+    // PDF 导出的打印页面在浏览器中打开，其他格式作为下载
+    const disposition = format === 'pdf' ? 'inline' : 'attachment'
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        'Cache-Control': 'no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to export conversation' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { deleteMessage, getMessageById, updateMessage } from '@/lib/db/conversations'
+import { deleteMessage, getMessageById, isConversationOwner, updateMessage } from '@/lib/db/conversations'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function DELETE(
   request: NextRequest,
@@ -15,6 +16,18 @@ export async function DELETE(
       )
     }
 
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isConversationOwner(id, userId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
     // 检查消息是否属于该对话
     const message = await getMessageById(messageId)
     if (!message) {
@@ -57,6 +70,18 @@ export async function PATCH(
       )
     }
 
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isConversationOwner(id, userId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
     const data = await request.json()
     const { content } = data
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getConversationMessages } from '@/lib/db/conversations'
+import { getConversationMessages, isConversationOwner, linkLegacyMessages } from '@/lib/db/conversations'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(
   request: NextRequest,
@@ -7,11 +8,24 @@ export async function GET(
 ) {
   try {
     const { id } = await params
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isConversationOwner(id, userId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
     const { searchParams } = new URL(request.url)
     const limit = parseInt(searchParams.get('limit') || '50')
     const offset = parseInt(searchParams.get('offset') || '0')
     const includeDeleted = searchParams.get('includeDeleted') === 'true'
 
+    await linkLegacyMessages(id)
     const messages = await getConversationMessages(id, {
       limit,
       offset,
@@ -3,7 +3,15 @@ import {
   getConversationById,
   updateConversation,
   deleteConversation,
+  isConversationOwner,
+  findConversationMessage,
+  linkLegacyMessages,
 } from '@/lib/db/conversations'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { parseSamplingParams } from '@/lib/sampling'
+import { CONTEXT_STRATEGIES, type ContextStrategy } from '@/lib/chat-context'
+import { parseTags } from '@/lib/conversation-filters'
+import { getUserFolder } from '@/lib/db/folders'
 
 export async function GET(
   request: NextRequest,
@@ -15,6 +23,19 @@ export async function GET(
       return NextResponse.json({ error: 'Missing id' }, { status: 400 })
     }
 
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isConversationOwner(id, userId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    await linkLegacyMessages(id)
     const conversation = await getConversationById(id)
     if (!conversation) {
       return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
@@ -40,13 +61,60 @@ export async function PATCH(
       return NextResponse.json({ error: 'Missing id' }, { status: 400 })
     }
 
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isConversationOwner(id, userId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
     const data = await request.json()
-    const { title, isArchived, isPinned } = data
+    const { title, isArchived, isPinned, folderId, tags, activeLeafId, samplingParams, contextStrategy } = data
+
+    const sampling = parseSamplingParams(samplingParams)
+    if ('error' in sampling) {
+      return NextResponse.json({ error: sampling.error }, { status: 400 })
+    }
+
+    if (contextStrategy !== undefined && !CONTEXT_STRATEGIES.includes(contextStrategy)) {
+      return NextResponse.json(
+        { error: `contextStrategy must be one of: ${CONTEXT_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // 移动到文件夹：文件夹必须是用户自己的
+    if (folderId && !(await getUserFolder(folderId, userId))) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 })
+    }
+
+    const parsedTags = tags === undefined ? null : parseTags(tags)
+    if (parsedTags && 'error' in parsedTags) {
+      return NextResponse.json({ error: parsedTags.error }, { status: 400 })
+    }
+
+    // 切换分支：当前分支必须是该对话中的消息
+    if (activeLeafId && !(await findConversationMessage(id, activeLeafId))) {
+      return NextResponse.json(
+        { error: 'Message does not belong to this conversation' },
+        { status: 400 }
+      )
+    }
 
     const updatedConversation = await updateConversation(id, {
       ...(title !== undefined && { title }),
       ...(isArchived !== undefined && { isArchived }),
       ...(isPinned !== undefined && { isPinned }),
+      ...(folderId !== undefined && { folderId: folderId || null }),
+      ...(parsedTags && { tags: parsedTags.data }),
+      ...(activeLeafId !== undefined && { activeLeafId }),
+      ...(samplingParams !== undefined && { samplingParams: sampling.data }),
+      ...(contextStrategy !== undefined && { contextStrategy: contextStrategy as ContextStrategy }),
     })
 
     return NextResponse.json(updatedConversation)
@@ -69,6 +137,18 @@ export async function DELETE(
       return NextResponse.json({ error: 'Missing id' }, { status: 400 })
     }
 
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isConversationOwner(id, userId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
     const deletedConversation = await deleteConversation(id)
     return NextResponse.json(deletedConversation)
   } catch (error) {
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { isConversationOwner } from '@/lib/db/conversations'
+import {
+  createConversationShare,
+  getConversationShares,
+  parseShareInput,
+} from '@/lib/db/shares'
+
+// 获取对话的分享链接
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isConversationOwner(id, userId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const shares = await getConversationShares(id)
+    return NextResponse.json(shares)
+  } catch (error) {
+    console.error('Error fetching conversation shares:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation shares' },
+      { status: 500 }
+    )
+  }
+}
+
+// 创建分享链接：{ password?, expiresAt? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const parsed = parseShareInput(await request.json())
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const share = await createConversationShare(userId, id, parsed.data)
+    if (!share) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(share, { status: 201 })
+  } catch (error) {
+    console.error('Error creating conversation share:', error)
+    return NextResponse.json(
+      { error: 'Failed to create conversation share' },
+      { status: 500 }
+    )
+  }
+}
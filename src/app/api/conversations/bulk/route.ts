@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { bulkDeleteConversations, bulkUpdateConversations } from '@/lib/db/conversations'
+import { getUserFolder } from '@/lib/db/folders'
+import { BULK_ACTIONS, MAX_BULK_CONVERSATIONS, type BulkAction } from '@/lib/conversation-filters'
+
+// 批量移动、归档、取消归档或删除对话，move 时 folderId 为 null 表示移出文件夹
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { ids, action, folderId } = await request.json()
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { error: 'ids must be a non-empty array of conversation IDs' },
+        { status: 400 }
+      )
+    }
+    if (ids.length > MAX_BULK_CONVERSATIONS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_CONVERSATIONS} conversations can be changed at once` },
+        { status: 400 }
+      )
+    }
+    if (!BULK_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${BULK_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    let count: number
+    switch (action as BulkAction) {
+      case 'move':
+        if (folderId && !(await getUserFolder(folderId, userId))) {
+          return NextResponse.json(
+            { error: 'Folder not found' },
+            { status: 404 }
+          )
+        }
+        count = await bulkUpdateConversations(userId, ids, { folderId: folderId || null })
+        break
+      case 'archive':
+      case 'unarchive':
+        count = await bulkUpdateConversations(userId, ids, { isArchived: action === 'archive' })
+        break
+      case 'delete':
+        count = await bulkDeleteConversations(userId, ids)
+        break
+    }
+
+    return NextResponse.json({ success: true, count })
+  } catch (error) {
+    console.error('Error updating conversations in bulk:', error)
+    return NextResponse.json(
+      { error: 'Failed to update conversations' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getConversationsForExport } from '@/lib/db/conversations'
+import {
+  EXPORT_FORMATS,
+  MAX_EXPORT_CONVERSATIONS,
+  exportConversations,
+  isExportFormat,
+} from '@/lib/conversation-export'
+
+// 批量导出对话：?format=markdown|json|html|pdf&ids=id1,id2，不传 ids 时导出用户的所有对话
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'json'
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const ids = searchParams.get('ids')?.split(',').map(id => id.trim()).filter(Boolean)
+    if (ids && ids.length > MAX_EXPORT_CONVERSATIONS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_EXPORT_CONVERSATIONS} conversations can be exported at once` },
+        { status: 400 }
+      )
+    }
+
+    const conversations = await getConversationsForExport(userId, ids, MAX_EXPORT_CONVERSATIONS)
+    if (conversations.length === 0) {
+      return NextResponse.json({ error: 'No conversations to export' }, { status: 404 })
+    }
+
+    const file = exportConversations(conversations, format)
+    const disposition = format === 'pdf' ? 'inline' : 'attachment'
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        'Cache-Control': 'no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting conversations:', error)
+    return NextResponse.json(
+      { error: 'Failed to export conversations' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getUserChatConfig } from '@/lib/chat-permissions'
+import { findImportedSourceIds, importConversation } from '@/lib/db/conversations'
+import { getImportPlaceholderModel, getModelById } from '@/lib/db/providers'
+import { IMPORT_FORMATS, parseImportData } from '@/lib/conversation-import'
+
+type ImportStatus = 'new' | 'duplicate' | 'empty'
+
+/**
+ * 导入其他应用导出的对话
+ * preview 为 true 时只返回每个对话的消息数、是否重复导入和无法导入的内容，不保存
+ * 保存时对话使用选择的模型（modelId），不选择时使用占位模型；默认跳过重复的对话
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const chatConfig = await getUserChatConfig(userId)
+    if (!chatConfig.canSaveToDatabase) {
+      return NextResponse.json(
+        { error: 'Conversations cannot be saved for this user' },
+        { status: 403 }
+      )
+    }
+
+    const { data, format, preview = false, modelId, skipDuplicates = true } = await request.json()
+    if (format !== undefined && format !== null && !(IMPORT_FORMATS as readonly string[]).includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${IMPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseImportData(data, format || undefined)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+    const { conversations } = parsed.data
+
+    // 同一来源已经导入过，或在文件中出现多次时为重复
+    const imported = await findImportedSourceIds(userId, conversations.map(conversation => conversation.sourceId))
+    const seen = new Set<string>()
+    const statuses: ImportStatus[] = conversations.map(conversation => {
+      if (conversation.messages.length === 0) return 'empty'
+      const duplicate = imported.has(conversation.sourceId) || seen.has(conversation.sourceId)
+      seen.add(conversation.sourceId)
+      return duplicate ? 'duplicate' : 'new'
+    })
+
+    if (preview) {
+      return NextResponse.json({
+        format: parsed.data.format,
+        conversations: conversations.map((conversation, index) => ({
+          index,
+          title: conversation.title,
+          createdAt: conversation.createdAt,
+          messageCount: conversation.messages.length,
+          status: statuses[index],
+          unsupported: conversation.unsupported,
+        })),
+      })
+    }
+
+    let model
+    if (modelId) {
+      model = chatConfig.allowedModels.includes(modelId) ? await getModelById(modelId) : null
+      if (!model) {
+        return NextResponse.json(
+          { error: 'Model not found or not allowed' },
+          { status: 400 }
+        )
+      }
+    } else {
+      model = await getImportPlaceholderModel()
+    }
+
+    const created = []
+    for (const [index, conversation] of conversations.entries()) {
+      if (statuses[index] === 'empty' || (statuses[index] === 'duplicate' && skipDuplicates)) continue
+      const saved = await importConversation(userId, model.providerId, model.id, conversation)
+      created.push({ id: saved.id, title: saved.title })
+    }
+
+    return NextResponse.json({
+      imported: created.length,
+      skipped: conversations.length - created.length,
+      conversations: created,
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error importing conversations:', error)
+    return NextResponse.json(
+      { error: 'Failed to import conversations' },
+      { status: 500 }
+    )
+  }
+}
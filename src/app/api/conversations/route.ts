@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getUserConversations, createConversation, searchConversations } from '@/lib/db/conversations'
+import { getAvailablePromptPreset } from '@/lib/db/prompt-presets'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { parseSamplingParams } from '@/lib/sampling'
+import { CONTEXT_STRATEGIES, type ContextStrategy } from '@/lib/chat-context'
+import { ARCHIVED_FILTERS, parseSearchFilters, type ArchivedFilter } from '@/lib/conversation-search'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
+    const userId = await getUserFromRequest(request)
     const query = searchParams.get('q')
     const includeArchived = searchParams.get('includeArchived') === 'true'
     const limit = parseInt(searchParams.get('limit') || '50')
@@ -12,22 +17,40 @@ export async function GET(request: NextRequest) {
 
     if (!userId) {
       return NextResponse.json(
-        { error: 'userId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
-    let conversations
+    // 带 q 时为全文搜索，返回匹配的消息而不是对话列表
     if (query) {
-      conversations = await searchConversations(userId, query, limit)
-    } else {
-      conversations = await getUserConversations(userId, {
-        includeArchived,
-        limit,
-        offset,
-      })
+      const filters = parseSearchFilters(searchParams)
+      if ('error' in filters) {
+        return NextResponse.json(
+          { error: filters.error },
+          { status: 400 }
+        )
+      }
+      return NextResponse.json(await searchConversations(userId, query, filters.data))
     }
 
+    const archived = searchParams.get('archived')
+    if (archived && !ARCHIVED_FILTERS.includes(archived as ArchivedFilter)) {
+      return NextResponse.json(
+        { error: `archived must be one of: ${ARCHIVED_FILTERS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const conversations = await getUserConversations(userId, {
+      includeArchived,
+      archived: (archived || undefined) as ArchivedFilter | undefined,
+      tags: searchParams.getAll('tag'),
+      pinnedOnly: searchParams.get('pinned') === 'true',
+      limit,
+      offset,
+    })
+
     return NextResponse.json(conversations)
   } catch (error) {
     console.error('Error fetching conversations:', error)
@@ -40,8 +63,48 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const data = await request.json()
-    const conversation = await createConversation(data)
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { providerId, modelId, title, presetId, samplingParams, contextStrategy } = await request.json()
+
+    const sampling = parseSamplingParams(samplingParams)
+    if ('error' in sampling) {
+      return NextResponse.json(
+        { error: sampling.error },
+        { status: 400 }
+      )
+    }
+
+    if (contextStrategy !== undefined && !CONTEXT_STRATEGIES.includes(contextStrategy)) {
+      return NextResponse.json(
+        { error: `contextStrategy must be one of: ${CONTEXT_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // 预设必须是用户自己的或共享的
+    if (presetId && !(await getAvailablePromptPreset(presetId, userId))) {
+      return NextResponse.json(
+        { error: 'Preset not found' },
+        { status: 404 }
+      )
+    }
+
+    const conversation = await createConversation({
+      userId,
+      providerId,
+      modelId,
+      title,
+      presetId: presetId || null,
+      samplingParams: sampling.data,
+      ...(contextStrategy !== undefined && { contextStrategy: contextStrategy as ContextStrategy }),
+    })
     return NextResponse.json(conversation, { status: 201 })
   } catch (error) {
     console.error('Error creating conversation:', error)
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getUserConversationTags } from '@/lib/db/conversations'
+
+// 获取用户使用过的标签及使用次数
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const tags = await getUserConversationTags(userId)
+    return NextResponse.json(tags)
+  } catch (error) {
+    console.error('Error fetching conversation tags:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation tags' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,43 +1,71 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getProviderAdapter } from '@/lib/adapters';
+import { prisma } from '@/lib/prisma';
+import { checkUserPermission } from '@/lib/auth';
+import { getUserFromRequest } from '@/lib/api-utils';
+import { selectProviderKey } from '@/lib/db/provider-keys';
 
 interface FetchModelsRequest {
-  apiKey: string;
-  baseUrl: string;
+  // 已保存的提供商使用服务端存储的密钥和地址，客户端不需要也拿不到完整密钥
+  providerId?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  type?: string;
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { apiKey, baseUrl }: FetchModelsRequest = await request.json();
+    const body: FetchModelsRequest = await request.json();
+    let { apiKey, baseUrl, type } = body;
+
+    if (body.providerId) {
+      const userId = await getUserFromRequest(request);
+      if (!userId) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+
+      const hasPermission = await checkUserPermission(userId, 'admin_panel');
+      if (!hasPermission) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+      }
+
+      const provider = await prisma.provider.findUnique({
+        where: { id: body.providerId },
+        select: { id: true, apiKey: true, keySelection: true, baseUrl: true, type: true },
+      });
+      if (!provider) {
+        return NextResponse.json({ error: 'Provider not found' }, { status: 404 });
+      }
+
+      // 使用存储的密钥时只发送到提供商保存的地址，忽略客户端传入的地址和类型
+      if (!apiKey) {
+        apiKey = (await selectProviderKey(provider))?.key;
+        baseUrl = provider.baseUrl ?? undefined;
+        type = provider.type;
+      }
+    }
 
     if (!apiKey) {
       return NextResponse.json({ error: 'API Key is required' }, { status: 400 });
     }
+    if (!baseUrl) {
+      return NextResponse.json({ error: 'Base URL is required' }, { status: 400 });
+    }
 
-    // 构建请求URL
-    const apiUrl = `${baseUrl}/models`;
-
-    // 获取模型列表
-    const response = await fetch(apiUrl, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-      },
-    });
+    // 根据提供商类型选择对应的模型列表接口
+    const adapter = getProviderAdapter(type);
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('Fetch Models API Error:', errorData);
+    let models: string[];
+    try {
+      models = await adapter.listModels({ baseUrl, apiKey });
+    } catch (error) {
+      console.error('Fetch Models API Error:', error);
       return NextResponse.json(
-        { error: 'Failed to fetch models', details: errorData },
-        { status: response.status }
+        { error: 'Failed to fetch models', details: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 502 }
       );
     }
 
-    const data = await response.json();
-    
-    // 提取模型ID列表
-    const models = data.data?.map((model: { id: string }) => model.id) || [];
-
     return NextResponse.json({
       success: true,
       models: models,
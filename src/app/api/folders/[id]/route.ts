@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import {
+  checkFolderParent,
+  deleteFolder,
+  getUserFolder,
+  parseFolderInput,
+  updateFolder,
+} from '@/lib/db/folders'
+
+// 重命名文件夹或移动到其他顶层文件夹中（parentId 为 null 时移到顶层）
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserFromRequest(request)
+    const { id } = await params
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await getUserFolder(id, userId))) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    const parsed = parseFolderInput(await request.json(), true)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.data.parentId) {
+      const parentError = await checkFolderParent(userId, id, parsed.data.parentId)
+      if (parentError) {
+        return NextResponse.json(
+          { error: parentError },
+          { status: 400 }
+        )
+      }
+    }
+
+    const folder = await updateFolder(id, parsed.data)
+    return NextResponse.json(folder)
+  } catch (error) {
+    console.error('Error updating folder:', error)
+    return NextResponse.json(
+      { error: 'Failed to update folder' },
+      { status: 500 }
+    )
+  }
+}
+
+// 删除文件夹，其中的对话不会被删除
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserFromRequest(request)
+    const { id } = await params
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await getUserFolder(id, userId))) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      )
+    }
+
+    await deleteFolder(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting folder:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete folder' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import {
+  checkFolderParent,
+  createFolder,
+  getUserFolders,
+  parseFolderInput,
+  type FolderData,
+} from '@/lib/db/folders'
+
+// 获取用户的对话文件夹
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const folders = await getUserFolders(userId)
+    return NextResponse.json(folders)
+  } catch (error) {
+    console.error('Error fetching folders:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch folders' },
+      { status: 500 }
+    )
+  }
+}
+
+// 创建文件夹，可以放在顶层文件夹中
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const parsed = parseFolderInput(await request.json())
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.data.parentId) {
+      const parentError = await checkFolderParent(userId, null, parsed.data.parentId)
+      if (parentError) {
+        return NextResponse.json(
+          { error: parentError },
+          { status: 400 }
+        )
+      }
+    }
+
+    const folder = await createFolder(userId, parsed.data as FolderData)
+    return NextResponse.json(folder, { status: 201 })
+  } catch (error) {
+    console.error('Error creating folder:', error)
+    return NextResponse.json(
+      { error: 'Failed to create folder' },
+      { status: 500 }
+    )
+  }
+}
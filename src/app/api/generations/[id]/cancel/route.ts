@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getGeneration } from '@/lib/db/generations'
+import { cancelGeneration, recoverGeneration, waitForGeneration } from '@/lib/chat-generation'
+
+// 停止生成，已生成的部分保存为助手消息
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const generation = await getGeneration(id, userId)
+    if (!generation) {
+      return NextResponse.json(
+        { error: 'Generation not found' },
+        { status: 404 }
+      )
+    }
+
+    // 等到已生成的部分保存后再返回，客户端随后可以加载保存的消息
+    if (cancelGeneration(id)) {
+      await waitForGeneration(id)
+    } else if ((await recoverGeneration(generation)).status === 'streaming') {
+      // 生成在其他进程中运行，只有运行它的进程能中止上游请求
+      return NextResponse.json(
+        { error: 'Generation is running on another server instance' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error cancelling generation:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel generation' },
+      { status: 500 }
+    )
+  }
+}
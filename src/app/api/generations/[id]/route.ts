@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getGeneration } from '@/lib/db/generations'
+import { createGenerationStream, recoverGeneration } from '@/lib/chat-generation'
+
+// 重新连接生成的流，从 offset（客户端已收到的字符数）和 reasoningOffset（已收到的思考过程字符数）继续接收
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const offset = parseInt(searchParams.get('offset') || '0') || 0
+    const reasoningOffset = parseInt(searchParams.get('reasoningOffset') || '0') || 0
+
+    const generation = await getGeneration(id, userId)
+    if (!generation) {
+      return NextResponse.json(
+        { error: 'Generation not found' },
+        { status: 404 }
+      )
+    }
+
+    // 服务重启等原因中断的生成先保存已有内容，再返回给客户端
+    const current = await recoverGeneration(generation)
+
+    return new Response(createGenerationStream(current, offset, reasoningOffset), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    })
+  } catch (error) {
+    console.error('Error resuming generation:', error)
+    return NextResponse.json(
+      { error: 'Failed to resume generation' },
+      { status: 500 }
+    )
+  }
+}
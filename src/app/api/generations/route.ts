@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getActiveGeneration } from '@/lib/db/generations'
+import { recoverGeneration } from '@/lib/chat-generation'
+
+// 获取对话中正在进行的生成（页面刷新后用于继续接收回复）
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const conversationId = searchParams.get('conversationId')
+    if (!conversationId) {
+      return NextResponse.json(
+        { error: 'conversationId is required' },
+        { status: 400 }
+      )
+    }
+
+    const active = await getActiveGeneration(conversationId, userId)
+    const generation = active && await recoverGeneration(active)
+    if (!generation || generation.status !== 'streaming') {
+      return NextResponse.json(null)
+    }
+
+    const { content, ...rest } = generation
+    return NextResponse.json({ ...rest, contentLength: content.length })
+  } catch (error) {
+    console.error('Error fetching active generation:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch active generation' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getConversationMessages, createMessage } from '@/lib/db/conversations'
+import { getConversationMessages, createMessage, isConversationOwner, linkLegacyMessages } from '@/lib/db/conversations'
 import { checkChatPermissions } from '@/lib/chat-permissions'
 import { recordTokenUsage } from '@/lib/db/token-usage'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const { searchParams } = new URL(request.url)
     const conversationId = searchParams.get('conversationId')
     const limit = parseInt(searchParams.get('limit') || '50')
@@ -18,6 +27,11 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    if (!(await isConversationOwner(conversationId, userId))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    await linkLegacyMessages(conversationId)
     const messages = await getConversationMessages(conversationId, {
       limit,
       offset,
@@ -36,9 +50,16 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const data = await request.json()
     const {
-      userId,
       modelId,
       providerId,
       conversationId,
@@ -52,7 +73,7 @@ export async function POST(request: NextRequest) {
       saveToDatabase = true, // 默认保存到数据库
     } = data
 
-    if (!userId || !modelId || !providerId || !role || !content) {
+    if (!modelId || !providerId || !role || !content) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -72,6 +93,10 @@ export async function POST(request: NextRequest) {
 
     // 根据用户类型决定是否保存到数据库
     if (permissions.canSaveToDatabase && saveToDatabase) {
+      if (!(await isConversationOwner(conversationId, userId))) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+      }
+
       try {
         message = await createMessage({
           conversationId,
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { prisma } from '@/lib/prisma'
+import {
+  deletePromptPreset,
+  getPromptPresetById,
+  parsePromptPresetInput,
+  updatePromptPreset,
+} from '@/lib/db/prompt-presets'
+
+/**
+ * 检查用户能否修改预设：共享预设只能由管理员修改，个人预设只能由创建者修改
+ */
+async function checkPresetAccess(presetId: string, userId: string) {
+  const preset = await getPromptPresetById(presetId)
+  const isAdmin = await checkUserPermission(userId, 'admin_panel')
+
+  if (!preset || (!preset.isShared && preset.userId !== userId)) {
+    return { error: 'Preset not found', status: 404, isAdmin }
+  }
+  if (preset.isShared ? !isAdmin : !(await checkUserPermission(userId, 'manage_presets'))) {
+    return { error: 'Access denied', status: 403, isAdmin }
+  }
+  return { preset, isAdmin }
+}
+
+// 更新提示词预设
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserFromRequest(request)
+    const { id } = await params
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const access = await checkPresetAccess(id, userId)
+    if (access.error) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    const parsed = parsePromptPresetInput(await request.json(), true)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.data.isShared !== undefined && !access.isAdmin) {
+      return NextResponse.json(
+        { error: 'Only administrators can share presets' },
+        { status: 403 }
+      )
+    }
+
+    if (parsed.data.modelId) {
+      const model = await prisma.model.findUnique({ where: { id: parsed.data.modelId } })
+      if (!model) {
+        return NextResponse.json(
+          { error: 'Model not found' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const preset = await updatePromptPreset(id, parsed.data)
+    return NextResponse.json(preset)
+  } catch (error) {
+    console.error('Error updating prompt preset:', error)
+    return NextResponse.json(
+      { error: 'Failed to update prompt preset' },
+      { status: 500 }
+    )
+  }
+}
+
+// 删除提示词预设
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserFromRequest(request)
+    const { id } = await params
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const access = await checkPresetAccess(id, userId)
+    if (access.error) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    await deletePromptPreset(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting prompt preset:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete prompt preset' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { prisma } from '@/lib/prisma'
+import {
+  createPromptPreset,
+  getAvailablePromptPresets,
+  parsePromptPresetInput,
+  type PromptPresetData,
+} from '@/lib/db/prompt-presets'
+
+// 获取可用的提示词预设：自己的预设和管理员共享的预设
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const presets = await getAvailablePromptPresets(userId)
+    return NextResponse.json(presets)
+  } catch (error) {
+    console.error('Error fetching prompt presets:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt presets' },
+      { status: 500 }
+    )
+  }
+}
+
+// 创建提示词预设，只有管理员可以创建共享预设
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const hasPermission = await checkUserPermission(userId, 'manage_presets')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const parsed = parsePromptPresetInput(await request.json())
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.data.isShared && !(await checkUserPermission(userId, 'admin_panel'))) {
+      return NextResponse.json(
+        { error: 'Only administrators can share presets' },
+        { status: 403 }
+      )
+    }
+
+    if (parsed.data.modelId) {
+      const model = await prisma.model.findUnique({ where: { id: parsed.data.modelId } })
+      if (!model) {
+        return NextResponse.json(
+          { error: 'Model not found' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const preset = await createPromptPreset(userId, parsed.data as PromptPresetData)
+    return NextResponse.json(preset, { status: 201 })
+  } catch (error) {
+    console.error('Error creating prompt preset:', error)
+    return NextResponse.json(
+      { error: 'Failed to create prompt preset' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getProviderById, updateProvider, deleteProvider } from '@/lib/db/providers'
+import { getProviderById, updateProvider, deleteProvider, serializeProvider } from '@/lib/db/providers'
+import { checkUserPermission } from '@/lib/auth'
+import { getUserFromRequest, sanitizeProvider } from '@/lib/api-utils'
+
+/**
+ * 检查管理员权限，失败时返回错误响应
+ */
+async function requireAdmin(request: NextRequest): Promise<NextResponse | null> {
+  const userId = await getUserFromRequest(request)
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const hasPermission = await checkUserPermission(userId, 'admin_panel')
+  if (!hasPermission) {
+    return NextResponse.json(
+      { error: 'Access denied' },
+      { status: 403 }
+    )
+  }
+
+  return null
+}
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     const { id } = await params
     const provider = await getProviderById(id)
     if (!provider) {
@@ -14,7 +47,7 @@ export async function GET(
         { status: 404 }
       )
     }
-    return NextResponse.json(provider)
+    return NextResponse.json(sanitizeProvider(provider))
   } catch (error) {
     console.error('Error fetching provider:', error)
     return NextResponse.json(
@@ -29,10 +62,15 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const denied = await requireAdmin(request)
+    if (denied) {
+      return denied
+    }
+
     const data = await request.json()
     const { id } = await params
     const provider = await updateProvider(id, data)
-    return NextResponse.json(provider)
+    return NextResponse.json(serializeProvider(provider))
   } catch (error) {
     console.error('Error updating provider:', error)
     return NextResponse.json(
@@ -47,6 +85,11 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const denied = await requireAdmin(request)
+    if (denied) {
+      return denied
+    }
+
     const { id } = await params
     await deleteProvider(id)
     return NextResponse.json({ success: true })
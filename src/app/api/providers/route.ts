@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getProviders, createProvider } from '@/lib/db/providers'
-import { withAuth, sanitizeProviders, createApiResponse, createErrorResponse } from '@/lib/api-utils'
+import { getProviders, createProvider, serializeProvider } from '@/lib/db/providers'
+import { checkUserPermission } from '@/lib/auth'
+import { withAuth, getUserFromRequest, sanitizeProviders, createApiResponse } from '@/lib/api-utils'
 
 export const GET = withAuth(async (request: NextRequest, userId: string) => {
   const { searchParams } = new URL(request.url)
@@ -16,9 +17,26 @@ export const GET = withAuth(async (request: NextRequest, userId: string) => {
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // 检查管理员权限
+    const hasPermission = await checkUserPermission(userId, 'admin_panel')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
     const data = await request.json()
     const provider = await createProvider(data)
-    return NextResponse.json(provider, { status: 201 })
+    return NextResponse.json(serializeProvider(provider), { status: 201 })
   } catch (error) {
     console.error('Error creating provider:', error)
     return NextResponse.json(
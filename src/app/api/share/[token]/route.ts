@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit } from '@/lib/api-utils'
+import { getActiveShareByToken, recordShareView, verifySharePassword } from '@/lib/db/shares'
+
+// 每个分享链接每分钟允许的密码尝试次数
+const MAX_PASSWORD_ATTEMPTS = 10
+
+async function readShare(token: string, password?: unknown) {
+  const share = await getActiveShareByToken(token)
+  if (!share) {
+    return NextResponse.json({ error: 'Share not found or expired' }, { status: 404 })
+  }
+
+  if (share.passwordHash) {
+    if (password === undefined) {
+      return NextResponse.json(
+        { error: 'Password required', passwordRequired: true },
+        { status: 401 }
+      )
+    }
+    if (!checkRateLimit(`share-password:${token}`, MAX_PASSWORD_ATTEMPTS).allowed) {
+      return NextResponse.json(
+        { error: 'Too many attempts, please try again later' },
+        { status: 429 }
+      )
+    }
+    if (!(await verifySharePassword(share, password))) {
+      return NextResponse.json(
+        { error: 'Incorrect password', passwordRequired: true },
+        { status: 403 }
+      )
+    }
+  }
+
+  await recordShareView(share.id)
+  return NextResponse.json({
+    ...(share.snapshot as object),
+    sharedAt: share.createdAt,
+    expiresAt: share.expiresAt,
+  })
+}
+
+// 公开访问分享的对话快照，不需要登录
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    return await readShare(token)
+  } catch (error) {
+    console.error('Error fetching share:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch share' },
+      { status: 500 }
+    )
+  }
+}
+
+// 访问有密码的分享：{ password }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const { password } = await request.json()
+    return await readShare(token, password ?? '')
+  } catch (error) {
+    console.error('Error fetching share:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch share' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserFromRequest } from '@/lib/api-utils'
+import { getShareById, revokeShare } from '@/lib/db/shares'
+
+// 撤销自己创建的分享链接
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const userId = await getUserFromRequest(request)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const share = await getShareById(id)
+    if (!share || share.userId !== userId || share.revokedAt) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 })
+    }
+
+    await revokeShare(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking share:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke share' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,11 +4,12 @@ import {
   getUserTokenStats, 
   getUserTokenHistory 
 } from '@/lib/db/token-usage'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
+    const userId = await getUserFromRequest(request)
     const action = searchParams.get('action')
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
@@ -17,8 +18,8 @@ export async function GET(request: NextRequest) {
 
     if (!userId) {
       return NextResponse.json(
-        { error: 'userId is required' },
-        { status: 400 }
+        { error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
@@ -52,9 +53,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getUserFromRequest(request)
     const data = await request.json()
     const {
-      userId,
       conversationId,
       messageId,
       providerId,
@@ -66,9 +67,16 @@ export async function POST(request: NextRequest) {
       outputText,
     } = data
 
-    if (!userId || !providerId || !modelId) {
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!providerId || !modelId) {
       return NextResponse.json(
-        { error: 'userId, providerId, and modelId are required' },
+        { error: 'providerId and modelId are required' },
         { status: 400 }
       )
     }
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revokeApiKey } from '@/lib/db/api-keys'
+import { getUserFromRequest } from '@/lib/api-utils'
+
+/**
+ * 吊销 API 密钥
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserFromRequest(request)
+    const { id } = await params
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const revoked = await revokeApiKey(id, userId)
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error revoking API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    )
+  }
+}
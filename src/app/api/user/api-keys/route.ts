@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  API_KEY_SCOPES,
+  createApiKey,
+  getUserApiKeys,
+  serializeApiKey,
+} from '@/lib/db/api-keys'
+import { checkUserPermission, getUserAllowedModels } from '@/lib/auth'
+import { getSystemSetting } from '@/lib/db/system-settings'
+import { getUserFromRequest } from '@/lib/api-utils'
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const apiKeys = await getUserApiKeys(userId)
+
+    return NextResponse.json({
+      apiKeys: apiKeys.map(serializeApiKey),
+      availableScopes: API_KEY_SCOPES,
+    })
+
+  } catch (error) {
+    console.error('Error fetching API keys:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserFromRequest(request)
+    const data = await request.json()
+    const { name, scopes = [], allowedModelIds = [], expiresAt } = data
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: 'name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (name.trim().length > 100) {
+      return NextResponse.json(
+        { error: 'name must be at most 100 characters' },
+        { status: 400 }
+      )
+    }
+
+    // 检查创建API密钥权限（访客不能创建）
+    const hasPermission = await checkUserPermission(userId, 'create_api_key')
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: 'No permission to create API keys' },
+        { status: 403 }
+      )
+    }
+
+    if (!Array.isArray(scopes) || scopes.some((scope: string) => !(API_KEY_SCOPES as readonly string[]).includes(scope))) {
+      return NextResponse.json(
+        { error: `scopes must be a subset of: ${API_KEY_SCOPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // 模型白名单只能包含用户本身有权使用的模型
+    if (!Array.isArray(allowedModelIds)) {
+      return NextResponse.json(
+        { error: 'allowedModelIds must be an array' },
+        { status: 400 }
+      )
+    }
+
+    if (allowedModelIds.length > 0) {
+      const userAllowedModels = await getUserAllowedModels(userId)
+      const invalidModelIds = allowedModelIds.filter((id: string) => !userAllowedModels.includes(id))
+      if (invalidModelIds.length > 0) {
+        return NextResponse.json(
+          { error: 'No permission to use some of the selected models', invalidModelIds },
+          { status: 403 }
+        )
+      }
+    }
+
+    let expiresAtDate: Date | undefined
+    if (expiresAt) {
+      expiresAtDate = new Date(expiresAt)
+      if (isNaN(expiresAtDate.getTime()) || expiresAtDate <= new Date()) {
+        return NextResponse.json(
+          { error: 'expiresAt must be a future date' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // 检查用户有效API密钥的数量限制
+    const maxApiKeys = await getSystemSetting('user_max_api_keys') || 10
+    const existingApiKeys = await getUserApiKeys(userId)
+    const activeApiKeys = existingApiKeys.filter(key =>
+      !key.revokedAt && (!key.expiresAt || key.expiresAt > new Date())
+    )
+
+    if (activeApiKeys.length >= maxApiKeys) {
+      return NextResponse.json(
+        { error: `最多只能拥有 ${maxApiKeys} 个有效的API密钥` },
+        { status: 400 }
+      )
+    }
+
+    const { apiKey, key } = await createApiKey({
+      userId,
+      name: name.trim(),
+      scopes,
+      allowedModelIds,
+      expiresAt: expiresAtDate,
+    })
+
+    // 明文密钥只在创建时返回一次
+    return NextResponse.json({
+      apiKey: serializeApiKey(apiKey),
+      key,
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    )
+  }
+}
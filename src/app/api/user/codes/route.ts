@@ -9,15 +9,24 @@ import {
 } from '@/lib/db/codes'
 import { checkUserPermission } from '@/lib/auth'
 import { getSystemSetting } from '@/lib/db/system-settings'
+import { getUserFromRequest } from '@/lib/api-utils'
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getUserFromRequest(request)
     const data = await request.json()
-    const { userId, type, ...codeData } = data
+    const { type, ...codeData } = data
 
-    if (!userId || !type) {
+    if (!userId) {
       return NextResponse.json(
-        { error: 'userId and type are required' },
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!type) {
+      return NextResponse.json(
+        { error: 'type is required' },
         { status: 400 }
       )
     }
@@ -110,12 +119,20 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const userId = await getUserFromRequest(request)
     const data = await request.json()
-    const { userId, codeId, type } = data
+    const { codeId, type } = data
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
 
-    if (!userId || !codeId || !type) {
+    if (!codeId || !type) {
       return NextResponse.json(
-        { error: 'userId, codeId, and type are required' },
+        { error: 'codeId and type are required' },
         { status: 400 }
       )
     }
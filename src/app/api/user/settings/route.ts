@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getUserFromRequest } from '@/lib/api-utils'
 import { getUserSettings, upsertUserSettings, updateUserDefaultModel } from '@/lib/db/users'
 import { prisma } from '@/lib/prisma'
+import { DEFAULT_CONVERSATION_FILTERS, parseConversationFilters } from '@/lib/conversation-filters'
 
 // 获取用户设置
 export async function GET(request: NextRequest) {
@@ -25,6 +26,7 @@ export async function GET(request: NextRequest) {
       enableLatex: true,
       enableCodeHighlight: true,
       messagePageSize: 50,
+      conversationFilters: DEFAULT_CONVERSATION_FILTERS,
     })
   } catch (error) {
     console.error('Error fetching user settings:', error)
@@ -56,8 +58,17 @@ export async function PATCH(request: NextRequest) {
       enableLatex,
       enableCodeHighlight,
       messagePageSize,
+      conversationFilters,
     } = data
 
+    const filters = conversationFilters === undefined ? null : parseConversationFilters(conversationFilters)
+    if (filters && 'error' in filters) {
+      return NextResponse.json(
+        { error: filters.error },
+        { status: 400 }
+      )
+    }
+
     const settings = await upsertUserSettings(userId, {
       defaultModelId,
       theme,
@@ -66,6 +77,7 @@ export async function PATCH(request: NextRequest) {
       enableLatex,
       enableCodeHighlight,
       messagePageSize,
+      ...(filters && { conversationFilters: filters.data }),
     })
 
     return NextResponse.json({
@@ -13,6 +13,21 @@ import { getModelGroups, getCategorySortOrder, getGroupIcon, getModelGroupsWithU
 import type { Message, AIProvider, AIModel, ChatHistory, TokenUsage } from '@/types';
 import React from 'react'; // Added for useRef
 import { MaterialChatLayout } from '@/components/MaterialChatLayout';
+import { PromptPresetDialog, type PromptPreset } from '@/components/PromptPresetDialog';
+import { SamplingSettingsDialog } from '@/components/SamplingSettingsDialog';
+import { ModelCompareDialog, type KeptCompareReply } from '@/components/ModelCompareDialog';
+import { ConversationExportDialog, type ExportScope } from '@/components/ConversationExportDialog';
+import { ConversationImportDialog } from '@/components/ConversationImportDialog';
+import { ConversationShareDialog } from '@/components/ConversationShareDialog';
+import type { ConversationSearchResult } from '@/components/ConversationSearch';
+import { ConversationSidebar } from '@/components/ConversationSidebar';
+import { DEFAULT_CONVERSATION_FILTERS, toConversationFilters, type ConversationFilters } from '@/lib/conversation-filters';
+import { exportConversations, type ExportConversation, type ExportFormat } from '@/lib/conversation-export';
+import { SAMPLING_PARAM_KEYS, type SamplingParams } from '@/lib/sampling';
+import { MODEL_CAPABILITY_KEYS, getModelSamplingLimits, type ModelCapabilities } from '@/lib/model-capabilities';
+import { MAX_ATTACHMENT_SIZE, MAX_ATTACHMENTS_PER_MESSAGE, getAttachmentType, type AttachmentInfo } from '@/lib/attachments';
+import type { ToolCallRecord } from '@/lib/tools/catalog';
+import { getBranchPath, getLatestLeaf, getSiblings, mergeMessages, removeSubtree } from '@/utils/messageTree';
 import { Box, Typography } from '@mui/material';
 
 interface Message {
@@ -20,8 +35,13 @@ interface Message {
   conversationId?: string;
   role: 'user' | 'assistant';
   content: string;
+  attachments?: AttachmentInfo[];
+  toolCalls?: ToolCallRecord[]; // 生成回复时的工具调用
+  reasoning?: string; // 推理模型的思考过程
   timestamp?: Date;
   createdAt?: string; // For API response compatibility
+  parentId?: string | null; // 消息树中的上一条消息
+  siblingIndex?: number; // 同一父消息下的版本序号
   modelInfo?: {
     modelId: string;
     modelName: string;
@@ -32,10 +52,18 @@ interface Message {
     prompt_tokens?: number;
     completion_tokens?: number;
     total_tokens?: number;
+    completion_tokens_details?: { reasoning_tokens?: number }; // 输出中的思考 Token
     is_estimated?: boolean;
   };
 }
 
+// 对话详情接口返回的消息，包含回答的模型和提供商
+interface ConversationTreeMessage extends Omit<Message, 'timestamp' | 'modelInfo'> {
+  providerId: string;
+  model?: { modelId: string; name: string } | null;
+  provider?: { name: string; displayName?: string | null } | null;
+}
+
 interface ChatHistory {
   id: string;
   title: string;
@@ -50,21 +78,36 @@ interface ChatHistory {
     id: string;
     name: string;
   };
+  folderId?: string | null;
+  tags?: string[];
+  isPinned?: boolean;
+  isArchived?: boolean;
 }
 
-interface AIModel {
+// 模型能力（图片输入、工具调用等）用于在模型选择器中显示和筛选
+interface AIModel extends ModelCapabilities {
   id: string;
   name: string;
   modelId: string;
   enabled: boolean;
+  isEnabled?: boolean; // 服务器返回的模型使用 isEnabled
   isCustom: boolean;
+  group?: string | null; // 管理员设置的分组
   customGroup?: string;
   order?: number;
+  // 模型的默认采样参数和管理员配置的范围
+  maxTokens?: number | null;
+  temperature?: number | null;
+  topP?: number | null;
+  frequencyPenalty?: number | null;
+  presencePenalty?: number | null;
+  samplingLimits?: unknown;
 }
 
 interface AIProvider {
   id: string;
   name: string;
+  displayName?: string; // 界面中显示的提供商名称
   apiKey: string;
   baseUrl: string;
   enabled: boolean;
@@ -72,6 +115,20 @@ interface AIProvider {
   order?: number;
 }
 
+// 进行中的可恢复生成，刷新页面后用于继续接收回复
+const ACTIVE_GENERATION_KEY = 'fimai-active-generation';
+
+// 读取一次流式响应的结果
+interface ChatStreamResult {
+  tokenUsage: Message['tokenUsage'] | null;
+  servedModel?: { providerId: string; modelId: string };
+  finishReason?: string;
+  generationId?: string;
+  received: number; // 已收到的回复字符数
+  reasoningReceived: number; // 已收到的思考过程字符数
+  completed: boolean; // 是否收到了 [DONE]
+}
+
 interface CustomGroup {
   id: string;
   name: string;
@@ -86,11 +143,48 @@ interface ConfigData {
   customCategoryOrder?: Record<string, string[]>; // 自定义分组排序
 }
 
+// 本地保存的聊天记录转换为导出格式（从 localStorage 读取时日期为字符串）
+function toExportConversation(history: ChatHistory): ExportConversation {
+  const toIsoString = (value?: Date | string) => value ? new Date(value).toISOString() : null;
+  return {
+    id: history.id,
+    title: history.title || '新对话',
+    createdAt: toIsoString(history.createdAt) || new Date().toISOString(),
+    updatedAt: toIsoString(history.updatedAt) || new Date().toISOString(),
+    messages: history.messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      reasoning: message.reasoning,
+      toolCalls: message.toolCalls,
+      attachments: message.attachments?.map(attachment => attachment.fileName),
+      model: message.modelInfo ? {
+        provider: message.modelInfo.providerName,
+        name: message.modelInfo.modelName,
+        modelId: message.modelInfo.modelId
+      } : null,
+      createdAt: toIsoString(message.timestamp || message.createdAt),
+      tokenUsage: message.tokenUsage as ExportConversation['messages'][number]['tokenUsage']
+    }))
+  };
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 function ChatPageContent() {
-  const { user, chatConfig } = useAuth();
+  const { user, chatConfig, logout } = useAuth();
   const router = useRouter();
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
+  // 已上传、随下一条消息发送的附件
+  const [pendingAttachments, setPendingAttachments] = useState<AttachmentInfo[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false); // 添加历史记录加载状态
   const [isWaitingFirstChar, setIsWaitingFirstChar] = useState(false); // 等待第一个字符
@@ -102,6 +196,26 @@ function ChatPageContent() {
   const [userSettings, setUserSettings] = useState<any>(null);
   const [chatHistories, setChatHistories] = useState<ChatHistory[]>([]);
   const [currentChatId, setCurrentChatId] = useState<string>('');
+  // 对话中所有分支的消息，messages 为当前显示的分支
+  const [messageTree, setMessageTree] = useState<Message[]>([]);
+  // 提示词预设，新对话在发送第一条消息前选择
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [presetDialogOpen, setPresetDialogOpen] = useState(false);
+  // 当前对话的采样参数，覆盖预设和模型的默认配置
+  const [samplingParams, setSamplingParams] = useState<SamplingParams>({});
+  const [samplingDialogOpen, setSamplingDialogOpen] = useState(false);
+  const [compareDialogOpen, setCompareDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+  // 从搜索结果跳转到的消息
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // 侧边栏的对话筛选条件，保存在用户设置中
+  const [conversationFilters, setConversationFilters] = useState<ConversationFilters>(DEFAULT_CONVERSATION_FILTERS);
+  // 超出上下文长度时的处理方式，以及最近一次请求中未发送给模型的较早消息
+  const [contextStrategy, setContextStrategy] = useState<'truncate' | 'summarize'>('truncate');
+  const [contextInfo, setContextInfo] = useState<{ excluded: number; summarized: boolean } | null>(null);
   const [showHistoryDropdown, setShowHistoryDropdown] = useState(false);
   const [showModelDropdown, setShowModelDropdown] = useState(false);
   const [drawerOpen, setDrawerOpen] = useState(false);
@@ -162,7 +276,11 @@ function ChatPageContent() {
     if (!user || !chatConfig?.canSaveToDatabase) return;
 
     try {
-      const response = await fetch(`/api/conversations?userId=${user.id}`);
+      const params = new URLSearchParams({ archived: conversationFilters.archived, limit: '200' });
+      conversationFilters.tags.forEach(tag => params.append('tag', tag));
+      if (conversationFilters.pinnedOnly) params.set('pinned', 'true');
+
+      const response = await fetch(`/api/conversations?${params}`);
       if (response.ok) {
         const conversations = await response.json();
         const histories: ChatHistory[] = conversations.map((conv: any) => ({
@@ -173,6 +291,10 @@ function ChatPageContent() {
           updatedAt: new Date(conv.updatedAt),
           provider: conv.provider,
           model: conv.model,
+          folderId: conv.folderId,
+          tags: conv.tags,
+          isPinned: conv.isPinned,
+          isArchived: conv.isArchived,
         }));
         setChatHistories(histories);
       }
@@ -181,6 +303,20 @@ function ChatPageContent() {
     }
   };
 
+  // 加载提示词预设
+  const loadPresets = async () => {
+    if (!user || !chatConfig?.canSaveToDatabase) return;
+
+    try {
+      const response = await fetch('/api/presets');
+      if (response.ok) {
+        setPresets(await response.json());
+      }
+    } catch (error) {
+      console.error('加载提示词预设失败:', error);
+    }
+  };
+
   // 保存聊天历史（对于访客用户，使用localStorage）
   const saveChatHistories = (histories: ChatHistory[]) => {
     if (user?.role === 'GUEST') {
@@ -198,7 +334,7 @@ function ChatPageContent() {
         // 确保用户已登录
         if (!user || !user.id) return;
         
-        const response = await fetch(`/api/admin/model-groups?userId=${user.id}`);
+        const response = await fetch('/api/admin/model-groups');
         if (response.ok) {
           const result = await response.json();
           if (result.success && Array.isArray(result.data)) {
@@ -213,10 +349,11 @@ function ChatPageContent() {
 
     const loadUserSettings = async () => {
       try {
-        const response = await fetch(`/api/user/settings?userId=${user.id}`);
+        const response = await fetch('/api/user/settings');
         if (response.ok) {
           const settings = await response.json();
           setUserSettings(settings);
+          setConversationFilters(toConversationFilters(settings.conversationFilters));
           return settings;
         }
       } catch (error) {
@@ -231,7 +368,7 @@ function ChatPageContent() {
 
     const loadProviders = async () => {
       try {
-        const response = await fetch(`/api/providers?userId=${user.id}`);
+        const response = await fetch('/api/providers');
         if (response.ok && isMounted) {
           const result = await response.json();
           console.log('Providers API response:', result);
@@ -283,12 +420,30 @@ function ChatPageContent() {
     };
   }, [user, providers.length]); // 添加 providers.length 作为依赖项
 
-  // 加载聊天历史的effect
+  // 加载聊天历史的effect，侧边栏筛选条件变化后重新加载
   useEffect(() => {
     if (user && chatConfig?.canSaveToDatabase) {
       loadChatHistories();
+      loadPresets();
+    }
+  }, [user, chatConfig, conversationFilters]);
+
+  // 刷新页面前有进行中的回复时，聊天历史加载后打开对应的对话
+  useEffect(() => {
+    if (restoredGenerationRef.current || chatHistories.length === 0) return;
+    restoredGenerationRef.current = true;
+
+    try {
+      const pending = JSON.parse(localStorage.getItem(ACTIVE_GENERATION_KEY) || 'null');
+      if (pending?.conversationId && chatHistories.some(h => h.id === pending.conversationId)) {
+        loadChatHistory(pending.conversationId);
+      } else if (pending) {
+        localStorage.removeItem(ACTIVE_GENERATION_KEY);
+      }
+    } catch {
+      localStorage.removeItem(ACTIVE_GENERATION_KEY);
     }
-  }, [user, chatConfig]);
+  }, [chatHistories]);
 
   // 设置默认模型（单独的effect避免循环依赖）
   useEffect(() => {
@@ -378,7 +533,12 @@ function ChatPageContent() {
       }
     }
     setMessages([]);
+    setMessageTree([]);
     setCurrentChatId('');
+    setSelectedPresetId('');
+    setSamplingParams({});
+    setContextStrategy('truncate');
+    setContextInfo(null);
   };
 
   // 保存当前聊天
@@ -453,7 +613,6 @@ function ChatPageContent() {
         body: JSON.stringify({
           messages: [{ role: 'user', content: titlePrompt }],
           modelId: titleModelId,
-          userId: user?.id || 'guest',
           temperature: 0.3,
           stream: false
         })
@@ -501,7 +660,12 @@ function ChatPageContent() {
         ...msg,
         timestamp: msg.timestamp || new Date(msg.createdAt || Date.now())
       })));
+      setMessageTree([]);
       setCurrentChatId(historyId);
+      setSelectedPresetId('');
+      setSamplingParams({});
+      setContextStrategy('truncate');
+      setContextInfo(null);
       setShowHistoryDropdown(false);
 
       // 2. 如果是数据库用户，验证消息完整性
@@ -509,21 +673,27 @@ function ChatPageContent() {
         // 延迟验证 (1秒后)
         setTimeout(async () => {
           try {
-            const response = await fetch(`/api/conversations/${historyId}/messages`);
-            if (response.ok) {
-              const serverMessages = await response.json();
-              
-              // Convert string timestamps to Date objects
-              const processedMessages = serverMessages.map((msg: any) => ({
-                ...msg,
-                timestamp: msg.createdAt ? new Date(msg.createdAt) : undefined
-              }));
-
-              // 3. 验证消息是否完整
-              if (serverMessages.length !== history.messages.length) {
-                // 使用服务器数据更新
-                setMessages(processedMessages);
-                toast.warning('聊天记录已从服务器同步');
+            const { tree, path, settings } = await fetchConversationTree(historyId);
+            setMessageTree(tree);
+            setSelectedPresetId(settings.presetId);
+            setSamplingParams(settings.samplingParams);
+            setContextStrategy(settings.contextStrategy);
+
+            // 3. 验证消息是否完整
+            if (path.length !== history.messages.length) {
+              // 使用服务器数据更新
+              setMessages(path);
+              toast.warning('聊天记录已从服务器同步');
+            }
+
+            // 刷新页面或网络中断前还在生成的回复，继续接收
+            const generationResponse = await fetch(`/api/generations?conversationId=${historyId}`);
+            if (generationResponse.ok) {
+              const generation = await generationResponse.json();
+              if (generation && !abortControllerRef.current) {
+                resumeActiveGeneration(generation);
+              } else if (!generation && localStorage.getItem(ACTIVE_GENERATION_KEY)?.includes(historyId)) {
+                localStorage.removeItem(ACTIVE_GENERATION_KEY);
               }
             }
           } catch (error) {
@@ -546,6 +716,67 @@ function ChatPageContent() {
     }
   };
 
+  // 打开搜索结果所在的对话，切换到包含匹配消息的分支并滚动到该消息
+  const openSearchResult = async (result: ConversationSearchResult) => {
+    if (isLoading) return;
+
+    setDrawerOpen(false);
+    setIsLoadingHistory(true);
+    try {
+      const { tree, path, settings } = await fetchConversationTree(result.conversationId);
+      const leafId = result.messageId ? getLatestLeaf(tree, result.messageId)?.id : undefined;
+      const branch = leafId ? getBranchPath(tree, leafId) : path;
+
+      // 已归档的对话不在会话列表中，加到列表里以便显示标题
+      if (!chatHistories.some(h => h.id === result.conversationId)) {
+        setChatHistories(prev => [{
+          id: result.conversationId,
+          title: result.title,
+          messages: [],
+          createdAt: new Date(result.createdAt),
+          updatedAt: new Date(result.createdAt)
+        }, ...prev]);
+      }
+
+      setMessageTree(tree);
+      setMessages(branch);
+      setCurrentChatId(result.conversationId);
+      setSelectedPresetId(settings.presetId);
+      setSamplingParams(settings.samplingParams);
+      setContextStrategy(settings.contextStrategy);
+      setContextInfo(null);
+      setHighlightedMessageId(result.messageId);
+      if (branch[branch.length - 1]?.id !== path[path.length - 1]?.id) {
+        saveActiveBranch(leafId, result.conversationId);
+      }
+    } catch (error) {
+      console.error('打开搜索结果失败:', error);
+      toast.error('打开搜索结果失败');
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  // 修改并保存侧边栏的筛选条件
+  const handleFiltersChange = (filters: ConversationFilters) => {
+    setConversationFilters(filters);
+    fetch('/api/user/settings', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conversationFilters: filters }),
+    }).catch(error => console.error('保存筛选条件失败:', error));
+  };
+
+  // 侧边栏批量操作后重新加载列表，当前对话被删除时清空聊天区域
+  const handleConversationsChanged = (deletedIds?: string[]) => {
+    if (deletedIds?.includes(currentChatId)) {
+      setMessages([]);
+      setMessageTree([]);
+      setCurrentChatId('');
+    }
+    loadChatHistories();
+  };
+
   // 删除历史聊天 - 乐观更新 + 延迟验证
   const deleteChatHistory = async (historyId: string) => {
     // 保存原始数据
@@ -558,6 +789,7 @@ function ChatPageContent() {
 
     if (currentChatId === historyId) {
       setMessages([]);
+      setMessageTree([]);
       setCurrentChatId('');
     }
 
@@ -610,6 +842,14 @@ function ChatPageContent() {
 
   // 创建一个引用来存储最新的AI回复
   const latestAIReply = React.useRef<{id: string, content: string} | null>(null);
+  // 当前回复请求的中止控制器，用于停止生成
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // 当前回复在服务端的生成ID
+  const activeGenerationRef = useRef<string | null>(null);
+  // 当前对话ID，供异步请求完成后判断对话是否已切换
+  const currentChatIdRef = useRef('');
+  // 刷新页面后是否已尝试恢复进行中的生成
+  const restoredGenerationRef = useRef(false);
   
   // 更新引用，在消息更改时
   useEffect(() => {
@@ -627,6 +867,17 @@ function ChatPageContent() {
     scrollToBottom();
   }, [messages]);
 
+  // 搜索结果的消息突出显示几秒后取消
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  useEffect(() => {
+    currentChatIdRef.current = currentChatId;
+  }, [currentChatId]);
+
   // 点击外部关闭下拉菜单
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -669,38 +920,346 @@ function ChatPageContent() {
     };
   };
 
-  // 发送完成后保存聊天
-  const saveMessageToDatabase = async (messageContent: string, messageRole: 'user' | 'assistant', tokenUsage?: any) => {
-    if (!user || !currentChatId || !chatConfig?.canSaveToDatabase) return;
-    
-    const currentModel = getCurrentModel();
-    if (!currentModel) return;
+  // 从服务器加载对话的所有消息和当前分支
+  const fetchConversationTree = async (conversationId: string) => {
+    const response = await fetch(`/api/conversations/${conversationId}`);
+    if (!response.ok) {
+      throw new Error(`Failed to load conversation: ${response.status}`);
+    }
+    const conversation = await response.json();
+
+    const tree: Message[] = ((conversation.messages || []) as ConversationTreeMessage[]).map(msg => ({
+      ...msg,
+      timestamp: msg.createdAt ? new Date(msg.createdAt) : undefined,
+      modelInfo: msg.role === 'assistant' && msg.model ? {
+        modelId: msg.model.modelId,
+        modelName: msg.model.name,
+        providerId: msg.providerId,
+        providerName: msg.provider?.displayName || msg.provider?.name || ''
+      } : undefined
+    }));
+    const leafId = conversation.activeLeafId || tree[tree.length - 1]?.id;
+    return {
+      tree,
+      path: getBranchPath(tree, leafId),
+      settings: {
+        presetId: (conversation.presetId || '') as string,
+        samplingParams: (conversation.samplingParams || {}) as SamplingParams,
+        contextStrategy: (conversation.contextStrategy === 'summarize' ? 'summarize' : 'truncate') as 'truncate' | 'summarize'
+      }
+    };
+  };
 
+  // 回复保存后用服务器的消息替换本地消息，之后的分支操作使用服务器的消息ID
+  const syncConversationTree = async (conversationId: string) => {
     try {
-      await fetch('/api/messages', {
+      const { tree, path } = await fetchConversationTree(conversationId);
+      if (currentChatIdRef.current === conversationId) {
+        setMessageTree(tree);
+        setMessages(path);
+      }
+    } catch (error) {
+      console.error('同步聊天记录失败:', error);
+    }
+  };
+
+  // 读取 /api/chat 或 /api/generations 的流式响应，内容追加到指定的AI消息
+  const readChatStream = async (
+    response: Response,
+    assistantMessageId: string,
+    signal: AbortSignal,
+    requestedModelName?: string
+  ): Promise<ChatStreamResult> => {
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('无法读取响应');
+
+    const result: ChatStreamResult = { tokenUsage: null, received: 0, reasoningReceived: 0, completed: false };
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const handleLine = (trimmedLine: string) => {
+      // 服务端告知实际回答的模型（主模型不可用时会回退到备用模型）
+      if (trimmedLine.startsWith('[MODEL_NOTICE]')) {
+        try {
+          const notice = JSON.parse(trimmedLine.slice('[MODEL_NOTICE]'.length));
+          result.servedModel = { providerId: notice.providerId, modelId: notice.modelId };
+          if (notice.fallback) {
+            toast.info(`${requestedModelName} 暂不可用，已由 ${notice.modelName} 回答`);
+            setMessages(prev => prev.map(msg =>
+              msg.id === assistantMessageId
+                ? { ...msg, modelInfo: { modelId: notice.modelId, modelName: notice.modelName, providerId: notice.providerId, providerName: notice.providerName } }
+                : msg
+            ));
+          }
+        } catch (err) {
+          console.warn('Failed to parse model notice:', trimmedLine, err);
+        }
+        return;
+      }
+      // 超出模型上下文长度时，服务端告知未发送给模型的较早消息数
+      if (trimmedLine.startsWith('[CONTEXT]')) {
+        try {
+          setContextInfo(JSON.parse(trimmedLine.slice('[CONTEXT]'.length)));
+        } catch (err) {
+          console.warn('Failed to parse context notice:', trimmedLine, err);
+        }
+        return;
+      }
+      // 模型调用工具时，服务端告知工具的执行状态和结果（重新连接时会重复发送，按调用ID更新）
+      if (trimmedLine.startsWith('[TOOL_CALL]')) {
+        try {
+          const call: ToolCallRecord = JSON.parse(trimmedLine.slice('[TOOL_CALL]'.length));
+          setIsWaitingFirstChar(false);
+          setMessages(prev => prev.map(msg => {
+            if (msg.id !== assistantMessageId) return msg;
+            const toolCalls = msg.toolCalls ?? [];
+            return {
+              ...msg,
+              toolCalls: toolCalls.some(c => c.id === call.id)
+                ? toolCalls.map(c => (c.id === call.id ? call : c))
+                : [...toolCalls, call]
+            };
+          }));
+        } catch (err) {
+          console.warn('Failed to parse tool call:', trimmedLine, err);
+        }
+        return;
+      }
+      // 推理模型的思考过程，与回复正文分开追加
+      if (trimmedLine.startsWith('[REASONING]')) {
+        try {
+          const { content } = JSON.parse(trimmedLine.slice('[REASONING]'.length));
+          if (content) {
+            setIsWaitingFirstChar(false);
+            setMessages(prev => prev.map(msg =>
+              msg.id === assistantMessageId ? { ...msg, reasoning: (msg.reasoning ?? '') + content } : msg
+            ));
+            result.reasoningReceived += content.length;
+          }
+        } catch (err) {
+          console.warn('Failed to parse reasoning:', trimmedLine, err);
+        }
+        return;
+      }
+      // 服务端保存回复时返回生成ID，连接中断后可以用它重新连接
+      if (trimmedLine.startsWith('[GENERATION]')) {
+        try {
+          const generation = JSON.parse(trimmedLine.slice('[GENERATION]'.length));
+          result.generationId = generation.id;
+          activeGenerationRef.current = generation.id;
+          localStorage.setItem(ACTIVE_GENERATION_KEY, JSON.stringify(generation));
+        } catch (err) {
+          console.warn('Failed to parse generation:', trimmedLine, err);
+        }
+        return;
+      }
+      // 只处理 SSE 数据行
+      const match = trimmedLine.match(/^data:\s*(.*)$/);
+      if (!match) return;
+      const dataStr = match[1];
+      if (dataStr === '[DONE]') {
+        result.completed = true;
+        return;
+      }
+      let parsed;
+      try {
+        parsed = JSON.parse(dataStr);
+      } catch (err) {
+        console.warn('Failed to parse SSE JSON:', dataStr, err);
+        return;
+      }
+      // 记录 token 使用信息
+      if (parsed.usage) {
+        result.tokenUsage = parsed.usage;
+        setTokenStats(prev => ({
+          input: prev.input + (parsed.usage.prompt_tokens || 0),
+          output: prev.output + (parsed.usage.completion_tokens || 0),
+          total: prev.total + (parsed.usage.total_tokens || 0),
+        }));
+      }
+      // 处理内容
+      const content = parsed.choices?.[0]?.delta?.content;
+      if (content) {
+        setIsWaitingFirstChar(false);
+        setMessages(prev => prev.map(msg =>
+          msg.id === assistantMessageId ? { ...msg, content: msg.content + content } : msg
+        ));
+        if (latestAIReply.current?.id === assistantMessageId) {
+          latestAIReply.current.content += content;
+        }
+        result.received += content.length;
+      }
+      if (parsed.choices?.[0]?.finish_reason) {
+        result.finishReason = parsed.choices[0].finish_reason;
+      }
+      // 回复被提供商的安全策略拦截
+      if (parsed.choices?.[0]?.finish_reason === 'content_filter') {
+        toast.warning('回复已被模型提供商的安全策略拦截');
+      }
+    };
+
+    // 处理流式响应，停止生成时读取会被中止
+    while (true) {
+      let readResult: ReadableStreamReadResult<Uint8Array>;
+      try {
+        readResult = await reader.read();
+      } catch (error) {
+        if (signal.aborted) {
+          result.finishReason = 'cancelled';
+          return result;
+        }
+        // 可恢复的生成由调用方重新连接
+        if (result.generationId) return result;
+        throw error;
+      }
+      const { done, value } = readResult;
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmedLine = line.trim();
+        if (trimmedLine) handleLine(trimmedLine);
+      }
+    }
+    if (buffer.trim()) handleLine(buffer.trim());
+
+    return result;
+  };
+
+  // 从已收到的位置重新连接服务端的生成，直到收到完整回复或重试次数用完
+  const followGeneration = async (
+    generationId: string,
+    assistantMessageId: string,
+    offset: number,
+    reasoningOffset: number,
+    signal: AbortSignal
+  ): Promise<ChatStreamResult> => {
+    const maxRetries = 3;
+    const retryDelay = 2000;
+    let received = offset;
+    let reasoningReceived = reasoningOffset;
+    let result: ChatStreamResult = { tokenUsage: null, generationId, received, reasoningReceived, completed: false };
+    activeGenerationRef.current = generationId;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        const response = await fetch(
+          `/api/generations/${generationId}?offset=${received}&reasoningOffset=${reasoningReceived}`,
+          { signal }
+        );
+        if (response.ok) {
+          result = { ...await readChatStream(response, assistantMessageId, signal), generationId };
+          received += result.received;
+          result.received = received;
+          reasoningReceived += result.reasoningReceived;
+          result.reasoningReceived = reasoningReceived;
+          if (result.completed || signal.aborted) return result;
+        } else if (response.status === 404) {
+          break;
+        }
+      } catch (error) {
+        if (signal.aborted) {
+          return { ...result, finishReason: 'cancelled' };
+        }
+        console.error(`Resume attempt ${attempt} failed:`, error);
+      }
+
+      if (attempt < maxRetries) {
+        await new Promise(resolve => setTimeout(resolve, retryDelay));
+      }
+    }
+    return result;
+  };
+
+  // 继续接收刷新页面前进行中的回复
+  const resumeActiveGeneration = async (generation: { id: string; conversationId: string }) => {
+    const assistantMessageId = `assistant-${Date.now()}`;
+    latestAIReply.current = { id: assistantMessageId, content: '' };
+    setMessages(prev => [...prev, {
+      id: assistantMessageId,
+      conversationId: currentChatId || undefined,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+    }]);
+    setIsLoading(true);
+    setIsWaitingFirstChar(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      const result = await followGeneration(generation.id, assistantMessageId, 0, 0, abortController.signal);
+      if (!latestAIReply.current?.content && result.finishReason === 'cancelled') {
+        setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId));
+      }
+      if (result.completed || result.finishReason === 'cancelled') {
+        localStorage.removeItem(ACTIVE_GENERATION_KEY);
+      } else {
+        toast.error('无法继续接收回复，回复会在生成完成后保存');
+      }
+      if (result.completed) {
+        await syncConversationTree(generation.conversationId);
+      }
+    } catch (error) {
+      console.error('继续接收回复失败:', error);
+    } finally {
+      setIsLoading(false);
+      setIsWaitingFirstChar(false);
+      abortControllerRef.current = null;
+      activeGenerationRef.current = null;
+    }
+  };
+
+  // 为新对话创建数据库记录，并添加到对话列表；失败时返回 null
+  const createConversation = async (firstMessage: Message, providerId: string, modelId: string): Promise<string | null> => {
+    try {
+      const title = await generateChatTitle(firstMessage.content || firstMessage.attachments?.[0]?.fileName || '新对话');
+      const convResponse = await fetch('/api/conversations', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          conversationId: currentChatId,
-          userId: user.id,
-          providerId: currentModel.provider.id,
-          modelId: currentModel.model.id,
-          role: messageRole,
-          content: messageContent,
-          tokenUsage: tokenUsage,
-          saveToDatabase: true,
+          providerId,
+          modelId,
+          title,
+          presetId: selectedPresetId || undefined,
+          samplingParams,
+          contextStrategy,
         }),
       });
-      
-      // 保存后更新本地聊天历史
-      saveCurrentChat();
+      if (!convResponse.ok) return null;
+
+      const conversation = await convResponse.json();
+      setCurrentChatId(conversation.id);
+
+      // Add the new chat to the history list immediately
+      const newHistory: ChatHistory = {
+        id: conversation.id,
+        title: conversation.title,
+        messages: [firstMessage],
+        createdAt: new Date(conversation.createdAt),
+        updatedAt: new Date(conversation.updatedAt),
+        provider: conversation.provider,
+        model: conversation.model,
+      };
+      setChatHistories(prev => [newHistory, ...prev]);
+      return conversation.id;
     } catch (error) {
-      console.error(`保存${messageRole === 'user' ? '用户' : 'AI'}消息失败:`, error);
+      console.error('创建对话失败:', error);
+      return null;
     }
   };
 
   // 发送消息到AI API的核心逻辑
-  const sendMessageToAI = async (userMessage: Message) => {
+  // history 为用户消息之前的消息；regenerate 表示为已有的用户消息重新生成回复
+  const sendMessageToAI = async (
+    userMessage: Message,
+    history: Message[] = messages,
+    options: { regenerate?: boolean } = {}
+  ) => {
     if (!user) return;
     
     const currentModel = getCurrentModel();
@@ -711,7 +1270,7 @@ function ChatPageContent() {
 
     // 检查聊天权限
     try {
-      const permissionResponse = await fetch(`/api/chat/permissions?userId=${user.id}&modelId=${currentModel.model.id}`);
+      const permissionResponse = await fetch(`/api/chat/permissions?modelId=${currentModel.model.id}`);
       const permissions = await permissionResponse.json();
 
       if (!permissions.canChat) {
@@ -730,6 +1289,9 @@ function ChatPageContent() {
       role: 'assistant',
       content: '',
       timestamp: new Date(),
+      parentId: userMessage.id,
+      // 重新生成时作为已有回复的新版本
+      siblingIndex: mergeMessages(messageTree, messages).filter(m => m.parentId === userMessage.id).length,
       modelInfo: currentModel ? {
         modelId: currentModel.model.modelId || currentModel.model.id,
         modelName: currentModel.model.name,
@@ -752,49 +1314,12 @@ function ChatPageContent() {
     // 如果是新对话且可以保存到数据库，创建对话
     let conversationId = currentChatId;
     if (!conversationId && chatConfig?.canSaveToDatabase) {
-      try {
-        const title = await generateChatTitle(userMessage.content);
-        const convResponse = await fetch('/api/conversations', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            userId: user.id,
-            providerId: currentModel.provider.id,
-            modelId: currentModel.model.id,
-            title,
-          }),
-        });
-
-        if (convResponse.ok) {
-          const conversation = await convResponse.json();
-          conversationId = conversation.id;
-          setCurrentChatId(conversationId);
-          
-          // Add the new chat to the history list immediately
-          const newHistory: ChatHistory = {
-            id: conversation.id,
-            title: conversation.title,
-            messages: [userMessage],
-            createdAt: new Date(conversation.createdAt),
-            updatedAt: new Date(conversation.updatedAt),
-            provider: conversation.provider,
-            model: conversation.model,
-          };
-          setChatHistories(prev => [newHistory, ...prev]);
-        }
-      } catch (error) {
-        console.error('创建对话失败:', error);
-      }
+      conversationId = await createConversation(userMessage, currentModel.provider.id, currentModel.model.id) || conversationId;
     }
 
-    // 保存用户消息到数据库
-    if (chatConfig?.canSaveToDatabase && conversationId) {
-      try {
-        await saveMessageToDatabase(userMessage.content, 'user');
-      } catch (error) {
-        console.error('保存用户消息失败:', error);
-      }
-    }
+    // 点击停止时中止请求，服务端随之中止上游生成
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
       let response: Response | null = null;
@@ -806,16 +1331,30 @@ function ChatPageContent() {
         try {
           const fetchResponse = await fetch('/api/chat', {
             method: 'POST',
+            signal: abortController.signal,
             headers: {
               'Content-Type': 'application/json',
             },
             body: JSON.stringify({
-              messages: [...messages, userMessage].map(msg => ({ // Send userMessage as well
+              messages: [...history, userMessage].map(msg => ({ // Send userMessage as well
                 role: msg.role,
-                content: msg.content
+                content: msg.content,
+                attachmentIds: msg.attachments?.map(a => a.id)
               })),
-              userId: user.id,
-              modelId: currentModel.model.id
+              modelId: currentModel.model.id,
+              // 对话的采样参数，服务端会限制在模型允许的范围内
+              temperature: samplingParams.temperature,
+              max_tokens: samplingParams.maxTokens,
+              top_p: samplingParams.topP,
+              frequency_penalty: samplingParams.frequencyPenalty,
+              presence_penalty: samplingParams.presencePenalty,
+              // 数据库用户的回复由服务端保存，刷新页面或网络中断后可以继续接收
+              ...(chatConfig?.canSaveToDatabase && conversationId && {
+                conversationId,
+                ...(options.regenerate
+                  ? { replyToMessageId: userMessage.id }
+                  : { parentMessageId: userMessage.parentId ?? null })
+              })
             }),
           });
 
@@ -827,6 +1366,7 @@ function ChatPageContent() {
           console.error(`Attempt ${attempt} failed:`, await fetchResponse.text());
         } catch (error) {
           lastError = error;
+          if (abortController.signal.aborted) break;
           console.error(`Attempt ${attempt} failed with error:`, error);
         }
         
@@ -836,6 +1376,14 @@ function ChatPageContent() {
         }
       }
 
+      // 回复开始前就停止了，移除空的回复
+      if (!response && abortController.signal.aborted) {
+        setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId));
+        setIsLoading(false);
+        setIsWaitingFirstChar(false);
+        return;
+      }
+
       if (!response) {
         setMessages(prev => prev.map(msg => 
             msg.id === assistantMessageId
@@ -847,70 +1395,39 @@ function ChatPageContent() {
         return;
       }
       
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('无法读取响应');
-
-      let finalTokenUsage: any = null;
-
-      // 处理流式响应
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = new TextDecoder().decode(value);
-        console.log('[SSE] raw chunk:', chunk);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-          console.log('[SSE] raw line:', trimmedLine);
-          if (!trimmedLine) continue;
-          // 只处理 SSE 数据行
-          const match = trimmedLine.match(/^data:\s*(.*)$/);
-          if (!match) continue;
-          const dataStr = match[1];
-          if (dataStr === '[DONE]') continue;
-          let parsed;
-          try {
-            parsed = JSON.parse(dataStr);
-          } catch (err) {
-            console.warn('Failed to parse SSE JSON:', dataStr, err);
-            continue;
-          }
-          // 记录 token 使用信息
-          if (parsed.usage) {
-            finalTokenUsage = parsed.usage;
-            setTokenStats(prev => ({
-              input: prev.input + (parsed.usage.prompt_tokens || 0),
-              output: prev.output + (parsed.usage.completion_tokens || 0),
-              total: prev.total + (parsed.usage.total_tokens || 0),
-            }));
-          }
-          // 处理内容
-          const content = parsed.choices?.[0]?.delta?.content;
-          if (content) {
-            if (isWaitingFirstChar) {
-              setIsWaitingFirstChar(false);
-            }
-            setMessages(prev => prev.map(msg =>
-              msg.id === assistantMessageId ? { ...msg, content: msg.content + content } : msg
-            ));
-            if (latestAIReply.current?.id === assistantMessageId) {
-              latestAIReply.current.content += content;
-            }
-          }
-        }
-      } // close while loop
+      let result = await readChatStream(response, assistantMessageId, abortController.signal, currentModel.model.name);
+
+      // 连接中断时重新连接，生成在服务端继续进行
+      if (!result.completed && result.generationId && !abortController.signal.aborted) {
+        toast.info('连接中断，正在重新连接...');
+        const resumed = await followGeneration(
+          result.generationId,
+          assistantMessageId,
+          result.received,
+          result.reasoningReceived,
+          abortController.signal
+        );
+        result = { ...resumed, servedModel: result.servedModel };
+      }
+
+      const { finishReason, generationId } = result;
       // 完成后更新状态
       setIsLoading(false);
-      
-      // 保存AI回复到数据库
-      if (chatConfig?.canSaveToDatabase && conversationId) {
-        const aiContent = latestAIReply.current?.content || '';
-        try {
-          await saveMessageToDatabase(aiContent, 'assistant', finalTokenUsage);
-        } catch (error) {
-          console.error('保存AI回复失败:', error);
+      setIsWaitingFirstChar(false);
+
+      // 停止生成时保留已生成的部分，没有内容时移除空的回复
+      if (!latestAIReply.current?.content && finishReason === 'cancelled') {
+        setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId));
+      }
+      // 用户消息和AI回复由服务端保存
+      if (generationId) {
+        if (result.completed || finishReason === 'cancelled') {
+          localStorage.removeItem(ACTIVE_GENERATION_KEY);
+        } else {
+          toast.error('连接已断开，回复会在生成完成后保存，刷新页面可继续查看');
+        }
+        if (result.completed) {
+          await syncConversationTree(conversationId);
         }
       }
 
@@ -928,12 +1445,79 @@ function ChatPageContent() {
       
       setIsLoading(false);
       toast.error('发送消息失败');
+    } finally {
+      abortControllerRef.current = null;
+      activeGenerationRef.current = null;
+    }
+  };
+
+  // 停止生成当前回复
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+
+    // 服务端的生成不随连接断开而停止，需要单独取消
+    const generationId = activeGenerationRef.current;
+    if (generationId) {
+      activeGenerationRef.current = null;
+      localStorage.removeItem(ACTIVE_GENERATION_KEY);
+      const conversationId = currentChatIdRef.current;
+      fetch(`/api/generations/${generationId}/cancel`, { method: 'POST' })
+        .then(() => syncConversationTree(conversationId))
+        .catch((error) => {
+          console.error('停止生成失败:', error);
+        });
     }
   };
 
+  // 上传附件：图片发送给支持图片的模型，文档提取文本后随消息发送
+  const handleAttachFiles = async (files: File[]) => {
+    if (files.length + pendingAttachments.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      toast.error(`每条消息最多添加 ${MAX_ATTACHMENTS_PER_MESSAGE} 个附件`);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        if (!getAttachmentType(file.name, file.type)) {
+          toast.error(`不支持的文件类型：${file.name}`);
+          continue;
+        }
+        if (file.size > MAX_ATTACHMENT_SIZE) {
+          toast.error(`文件不能超过 ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB：${file.name}`);
+          continue;
+        }
+
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await fetch('/api/attachments', { method: 'POST', body: formData });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          toast.error(`上传失败：${file.name}${data.error ? `（${data.error}）` : ''}`);
+          continue;
+        }
+        const attachment: AttachmentInfo = await response.json();
+        setPendingAttachments(prev => [...prev, attachment]);
+      }
+    } catch (error) {
+      console.error('上传附件失败:', error);
+      toast.error('上传附件失败');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // 移除还没有发送的附件
+  const handleRemoveAttachment = (id: string) => {
+    setPendingAttachments(prev => prev.filter(a => a.id !== id));
+    fetch(`/api/attachments/${id}`, { method: 'DELETE' }).catch(error => {
+      console.error('删除附件失败:', error);
+    });
+  };
+
   // 发送消息
   const handleSend = async () => {
-    if (!input.trim() || isLoading || !user) return;
+    if ((!input.trim() && pendingAttachments.length === 0) || isLoading || isUploading || !user) return;
 
     const currentModel = getCurrentModel();
     if (!currentModel) {
@@ -941,12 +1525,19 @@ function ChatPageContent() {
       return;
     }
 
+    if (pendingAttachments.some(a => a.kind === 'image') && !currentModel.model.supportsVision) {
+      toast.error('当前模型不支持图片输入，请切换到支持图片的模型或移除图片');
+      return;
+    }
+
     const userMessage: Message = {
       id: Date.now().toString(),
       conversationId: currentChatId || undefined,
       role: 'user',
       content: input.trim(),
+      attachments: pendingAttachments.length > 0 ? pendingAttachments : undefined,
       timestamp: new Date(),
+      parentId: messages[messages.length - 1]?.id ?? null,
       modelInfo: {
         modelId: currentModel.model.modelId || currentModel.model.id,
         modelName: currentModel.model.name,
@@ -962,14 +1553,114 @@ function ChatPageContent() {
     // 先添加用户消息
     setMessages(prev => [...prev, userMessage]);
     setInput('');
+    setPendingAttachments([]);
     
     // 发送消息到AI API
     await sendMessageToAI(userMessage);
   };
 
+  // 多模型对比：保留选择的回答，与对比的问题一起作为对话的下一轮
+  const handleKeepComparison = async (reply: KeptCompareReply) => {
+    const provider = providers.find(p => p.models?.some(m => m.id === reply.model.id));
+    const model = provider?.models.find(m => m.id === reply.model.id);
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: reply.prompt,
+      timestamp: new Date(),
+      parentId: messages[messages.length - 1]?.id ?? null
+    };
+
+    if (chatConfig?.canSaveToDatabase) {
+      const conversationId = currentChatId
+        || (provider ? await createConversation(userMessage, provider.id, reply.model.id) : null);
+      if (!conversationId) {
+        toast.error('创建对话失败');
+        return;
+      }
+
+      const response = await fetch('/api/chat/compare/keep', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ compareId: reply.compareId, modelId: reply.model.id, conversationId })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.error(response.status === 404 && data.error !== 'Conversation not found'
+          ? '对比结果已过期，请重新对比'
+          : '保留回答失败');
+        return;
+      }
+      await syncConversationTree(conversationId);
+    } else {
+      // 访客的消息只保存在本地
+      const assistantMessage: Message = {
+        id: `assistant-${Date.now()}`,
+        role: 'assistant',
+        content: reply.content,
+        reasoning: reply.reasoning || undefined,
+        toolCalls: reply.toolCalls.length > 0 ? reply.toolCalls : undefined,
+        tokenUsage: reply.tokenUsage,
+        timestamp: new Date(),
+        parentId: userMessage.id,
+        modelInfo: provider && model ? {
+          modelId: model.modelId || model.id,
+          modelName: model.name,
+          providerId: provider.id,
+          providerName: reply.model.provider || provider.name
+        } : undefined
+      };
+      setMessages(prev => [...prev, userMessage, assistantMessage]);
+    }
+
+    setCompareDialogOpen(false);
+    toast.success(`已保留 ${reply.model.name} 的回答`);
+  };
+
+  // 导出对话：保存到数据库的对话由服务器导出，访客等本地保存的聊天记录在浏览器中导出
+  const handleExport = async (scope: ExportScope, format: ExportFormat) => {
+    if (chatConfig?.canSaveToDatabase) {
+      const url = scope === 'current'
+        ? `/api/conversations/${currentChatId}/export?format=${format}`
+        : `/api/conversations/export?format=${format}`;
+      // PDF 导出为打印页面，在新窗口中打开
+      if (format === 'pdf') {
+        window.open(url, '_blank');
+        return;
+      }
+
+      const response = await fetch(url);
+      if (!response.ok) {
+        toast.error(response.status === 404 ? '没有可导出的对话' : '导出失败');
+        return;
+      }
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = decodeURIComponent(disposition.match(/filename\*=UTF-8''([^;]+)/)?.[1] || `fimai-chat.${format}`);
+      downloadBlob(await response.blob(), fileName);
+      return;
+    }
+
+    // 当前对话的最新消息可能还没有写入聊天记录
+    const histories = chatHistories.map(h => h.id === currentChatId ? { ...h, messages } : h);
+    const selected = scope === 'current' ? histories.filter(h => h.id === currentChatId) : histories;
+    if (selected.length === 0) {
+      toast.error('没有可导出的对话');
+      return;
+    }
+
+    const file = exportConversations(selected.map(toExportConversation), format);
+    const blob = new Blob([file.body], { type: file.contentType });
+    if (format === 'pdf') {
+      window.open(URL.createObjectURL(blob), '_blank');
+      return;
+    }
+    downloadBlob(blob, file.fileName);
+  };
+
   // 清空对话
   const handleClear = () => {
     setMessages([]);
+    setMessageTree([]);
     toast.success('对话已清空');
   };
 
@@ -981,45 +1672,42 @@ function ChatPageContent() {
     }
   };
 
-  // 删除消息
+  // 保存当前分支到服务器
+  const saveActiveBranch = (leafId: string | undefined, conversationId = currentChatId) => {
+    if (!conversationId || !chatConfig?.canSaveToDatabase || !leafId) return;
+
+    fetch(`/api/conversations/${conversationId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ activeLeafId: leafId }),
+    }).catch(error => console.error('保存当前分支失败:', error));
+  };
+
+  // 删除消息，之后的消息（包括其他分支）一并删除
   const handleDeleteMessage = async (messageId: string) => {
-    // 查找要删除的消息
-    const messageIndex = messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1) return;
-    
-    const message = messages[messageIndex];
-    let newMessages = [...messages];
-    
-    // 如果删除的是用户消息，同时删除后面的AI回复
-    if (message.role === 'user') {
-      const nextMessage = messages[messageIndex + 1];
-      if (nextMessage && nextMessage.role === 'assistant') {
-        newMessages = messages.filter(m => m.id !== messageId && m.id !== nextMessage.id);
-      } else {
-        newMessages = messages.filter(m => m.id !== messageId);
-      }
-    } else {
-      newMessages = messages.filter(m => m.id !== messageId);
-    }
-    
-    setMessages(newMessages);
+    const tree = mergeMessages(messageTree, messages);
+    const message = tree.find(m => m.id === messageId);
+    if (!message) return;
+
+    // 切换到相邻的版本，没有其他版本时回到上一条消息
+    const siblings = getSiblings(tree, message);
+    const remaining = removeSubtree(tree, messageId);
+    const remainingSiblings = getSiblings(remaining, message);
+    const next = remainingSiblings[Math.min(siblings.findIndex(m => m.id === messageId), remainingSiblings.length - 1)];
+    const leafId = next ? getLatestLeaf(remaining, next.id)?.id : message.parentId;
+
+    setMessageTree(remaining);
+    setMessages(getBranchPath(remaining, leafId));
     
     // 从数据库中删除消息
     if (currentChatId && chatConfig?.canSaveToDatabase) {
       try {
-        // 使用软删除API
+        // 使用软删除API，服务端同时删除之后的消息
         await fetch(`/api/conversations/${currentChatId}/messages/${messageId}`, {
           method: 'DELETE'
         });
-        
-        // 如果删除的是用户消息，也删除相应的AI回复
-        if (message.role === 'user') {
-          const nextMessage = messages[messageIndex + 1];
-          if (nextMessage && nextMessage.role === 'assistant') {
-            await fetch(`/api/conversations/${currentChatId}/messages/${nextMessage.id}`, {
-              method: 'DELETE'
-            });
-          }
+        if (next) {
+          saveActiveBranch(leafId ?? undefined);
         }
         
         toast.success('消息已删除');
@@ -1042,66 +1730,141 @@ function ChatPageContent() {
       .catch(() => toast.error('复制失败'));
   };
 
-  // 编辑消息
+  // 编辑消息：编辑后的消息作为新版本，原来的消息和回复保留在原分支中
   const handleEditMessage = (messageId: string, content: string) => {
     const messageIndex = messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1) return;
+    if (messageIndex === -1 || isLoading) return;
 
-    // 删除该消息及其后面的所有消息
-    const newMessages = messages.slice(0, messageIndex);
-    
-    // 如果删除的是用户消息，也从数据库中删除相应的消息
-    if (currentChatId && chatConfig?.canSaveToDatabase) {
-      const message = messages[messageIndex];
-      if (message.role === 'user') {
-        // 删除用户消息
-        fetch(`/api/conversations/${currentChatId}/messages/${messageId}`, {
-          method: 'DELETE'
-        }).catch(error => console.error('删除消息失败:', error));
-        
-        // 删除后面的AI回复
-        const nextMessage = messages[messageIndex + 1];
-        if (nextMessage && nextMessage.role === 'assistant') {
-          fetch(`/api/conversations/${currentChatId}/messages/${nextMessage.id}`, {
-            method: 'DELETE'
-          }).catch(error => console.error('删除消息失败:', error));
-        }
-      }
-    }
+    const original = messages[messageIndex];
+    const tree = mergeMessages(messageTree, messages);
+    const history = messages.slice(0, messageIndex);
 
-    // 添加编辑后的用户消息
     const userMessage: Message = {
       id: Date.now().toString(),
       conversationId: currentChatId || undefined,
       role: 'user',
       content: content,
+      attachments: original.attachments,
       timestamp: new Date(),
-      modelInfo: messages[messageIndex].modelInfo
+      parentId: original.parentId ?? null,
+      siblingIndex: getSiblings(tree, original).length,
+      modelInfo: original.modelInfo
     };
     
     // 更新消息列表
-    setMessages([...newMessages, userMessage]);
+    setMessageTree([...tree, userMessage]);
+    setMessages([...history, userMessage]);
     
     // 发送消息到AI API
-    sendMessageToAI(userMessage);
+    sendMessageToAI(userMessage, history);
   };
 
-  // 重试消息
+  // 重新生成回复：新回复作为已有回复的新版本
   const handleRetryMessage = (messageId: string) => {
     const messageIndex = messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1) return;
+    if (messageIndex === -1 || isLoading) return;
 
-    const messageToRetry = messages[messageIndex];
-    if (messageToRetry.role !== 'user') return;
+    // 重新生成AI回复时针对它的用户消息
+    const userIndex = messages[messageIndex].role === 'user' ? messageIndex : messageIndex - 1;
+    const userMessage = messages[userIndex];
+    if (!userMessage || userMessage.role !== 'user') return;
 
-    // 移除此消息之后的所有消息
-    const newMessages = messages.slice(0, messageIndex);
-    setMessages(newMessages);
+    setMessageTree(mergeMessages(messageTree, messages));
+    setMessages(messages.slice(0, userIndex + 1));
 
     // 重新发送
-    sendMessageToAI(messageToRetry);
+    sendMessageToAI(userMessage, messages.slice(0, userIndex), { regenerate: true });
+  };
+
+  // 切换消息的版本，显示该版本下最新的分支
+  const handleSwitchBranch = (messageId: string, offset: number) => {
+    if (isLoading) return;
+
+    const tree = mergeMessages(messageTree, messages);
+    const message = tree.find(m => m.id === messageId);
+    if (!message) return;
+
+    const siblings = getSiblings(tree, message);
+    const target = siblings[siblings.findIndex(m => m.id === messageId) + offset];
+    if (!target) return;
+
+    const leafId = getLatestLeaf(tree, target.id)?.id;
+    setMessageTree(tree);
+    setMessages(getBranchPath(tree, leafId));
+    saveActiveBranch(leafId);
   };
 
+  // 当前分支上有多个版本的消息，用于显示版本切换
+  const messageBranches = (() => {
+    const tree = mergeMessages(messageTree, messages);
+    const branches: Record<string, { index: number; count: number }> = {};
+    for (const message of messages) {
+      const siblings = getSiblings(tree, message);
+      if (siblings.length > 1) {
+        branches[message.id] = { index: siblings.findIndex(m => m.id === message.id), count: siblings.length };
+      }
+    }
+    return branches;
+  })();
+
+  // 选择提示词预设，预设指定了默认模型时切换到该模型
+  const handlePresetSelect = (presetId: string) => {
+    setSelectedPresetId(presetId);
+
+    const preset = presets.find(p => p.id === presetId);
+    if (preset?.modelId && chatModels.some(m => m.id === preset.modelId)) {
+      setSelectedModelId(preset.modelId);
+    }
+  };
+
+  // 保存对话的高级设置（采样参数和上下文管理），新对话在创建时一起保存
+  const handleSaveAdvancedSettings = async (params: SamplingParams, strategy: 'truncate' | 'summarize') => {
+    const previous = { params: samplingParams, strategy: contextStrategy };
+    setSamplingParams(params);
+    setContextStrategy(strategy);
+    setSamplingDialogOpen(false);
+
+    if (!currentChatId || !chatConfig?.canSaveToDatabase) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${currentChatId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ samplingParams: params, contextStrategy: strategy }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      toast.success('高级设置已保存');
+    } catch (error) {
+      console.error('保存高级设置失败:', error);
+      setSamplingParams(previous.params);
+      setContextStrategy(previous.strategy);
+      toast.error('保存高级设置失败');
+    }
+  };
+
+  // 可选择的模型
+  const chatModels = Array.isArray(providers) ? providers
+    .flatMap(p => 
+      Array.isArray(p.models) ? p.models
+        .filter(m => m.isEnabled || m.enabled)
+        .map(m => ({ 
+          id: m.id,
+          name: m.name,
+          group: m.group || getAIModelCategoryName(m.modelId),
+          provider: p.displayName || p.name,
+          capabilities: {
+            ...Object.fromEntries(MODEL_CAPABILITY_KEYS.map(key => [key, !!m[key]])),
+            contextLength: m.contextLength,
+            maxOutputTokens: m.maxOutputTokens
+          }
+        }))
+      : []
+    )
+  : [];
+
   // 处理模型选择
   const handleModelSelect = (modelId: string) => {
     if (isLoading) return;
@@ -1110,7 +1873,7 @@ function ChatPageContent() {
     
     // 保存用户默认模型设置
     if (user && user.id) {
-      fetch(`/api/user/settings?userId=${user.id}`, {
+      fetch('/api/user/settings', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -1169,70 +1932,160 @@ function ChatPageContent() {
     }
   };
 
+  // 未设置采样参数时使用的值：对话的预设，其次是当前模型的默认配置
+  const samplingDefaults: SamplingParams = (() => {
+    const preset = presets.find(p => p.id === selectedPresetId);
+    const model = getCurrentModel()?.model;
+    const defaults: SamplingParams = {};
+    for (const key of SAMPLING_PARAM_KEYS) {
+      const value = preset?.[key] ?? model?.[key];
+      if (value !== null && value !== undefined) {
+        defaults[key] = value;
+      }
+    }
+    return defaults;
+  })();
+
   // 只替换return部分
   return (
-    <MaterialChatLayout
-      title="FimAI Chat"
-      chatHistories={chatHistories}
-      messages={messages}
-      input={input}
-      isLoading={isLoading}
-      isLoadingHistory={isLoadingHistory}
-      onInputChange={(e) => setInput(e.target.value)}
-      onSend={handleSend}
-      onNewChat={createNewChat}
-      onSelectChat={loadChatHistory}
-      onDeleteChat={deleteChatHistory}
-      onKeyPress={handleKeyPress}
-      onLogout={() => { router.push('/login'); localStorage.removeItem('accessToken'); }}
-      onSettings={() => router.push('/config')}
-      onCopyMessage={handleCopyMessage}
-      onDeleteMessage={handleDeleteMessage}
-      onEditMessage={handleEditMessage}
-      onRetryMessage={handleRetryMessage}
-      drawerOpen={drawerOpen}
-      onDrawerToggle={handleDrawerToggle}
-      renderMessageContent={(message) => (
-        <Box sx={{ my: 0 }}>
-          <MarkdownRenderer
-            content={message.content}
-            isStreaming={
-              message === messages[messages.length - 1] && 
-              message.role === 'assistant' && 
-              (isLoading || (!message.content && isWaitingFirstChar))
-            }
-            randomChars={
-              isLoading && message === messages[messages.length - 1] && 
-              message.role === 'assistant' ? randomChars : ''
-            }
-            isLoading={isLoading}
+    <>
+      <MaterialChatLayout
+        title="FimAI Chat"
+        chatHistories={chatHistories}
+        messages={messages}
+        input={input}
+        isLoading={isLoading}
+        isLoadingHistory={isLoadingHistory}
+        onInputChange={(e) => setInput(e.target.value)}
+        onSend={handleSend}
+        onStop={handleStop}
+        onNewChat={createNewChat}
+        onSelectChat={loadChatHistory}
+        onDeleteChat={deleteChatHistory}
+        onSelectSearchResult={chatConfig?.canSaveToDatabase ? openSearchResult : undefined}
+        highlightedMessageId={highlightedMessageId}
+        historyList={chatConfig?.canSaveToDatabase ? (
+          <ConversationSidebar
+            conversations={chatHistories}
+            currentChatId={currentChatId}
+            filters={conversationFilters}
+            onFiltersChange={handleFiltersChange}
+            onSelectChat={loadChatHistory}
+            onDeleteChat={deleteChatHistory}
+            onChanged={handleConversationsChanged}
           />
-        </Box>
+        ) : undefined}
+        onKeyPress={handleKeyPress}
+        onLogout={async () => { await logout(); router.push('/login'); }}
+        onSettings={() => router.push('/config')}
+        onCopyMessage={handleCopyMessage}
+        onDeleteMessage={handleDeleteMessage}
+        onEditMessage={handleEditMessage}
+        onRetryMessage={handleRetryMessage}
+        messageBranches={messageBranches}
+        onSwitchBranch={handleSwitchBranch}
+        presets={chatConfig?.canSaveToDatabase ? presets : undefined}
+        selectedPresetId={selectedPresetId}
+        onPresetSelect={chatConfig?.canSaveToDatabase ? handlePresetSelect : undefined}
+        onManagePresets={() => setPresetDialogOpen(true)}
+        onOpenSettings={() => setSamplingDialogOpen(true)}
+        onOpenCompare={isLoading ? undefined : () => setCompareDialogOpen(true)}
+        onOpenExport={() => setExportDialogOpen(true)}
+        onOpenImport={chatConfig?.canSaveToDatabase ? () => setImportDialogOpen(true) : undefined}
+        onOpenShare={chatConfig?.canSaveToDatabase && currentChatId && messages.length > 0 ? () => setShareDialogOpen(true) : undefined}
+        contextInfo={contextInfo}
+        attachments={pendingAttachments}
+        isUploading={isUploading}
+        onAttachFiles={handleAttachFiles}
+        onRemoveAttachment={handleRemoveAttachment}
+        drawerOpen={drawerOpen}
+        onDrawerToggle={handleDrawerToggle}
+        renderMessageContent={(message) => (
+          <Box sx={{ my: 0 }}>
+            <MarkdownRenderer
+              content={message.content}
+              reasoning={message.reasoning}
+              isStreaming={
+                message === messages[messages.length - 1] && 
+                message.role === 'assistant' && 
+                (isLoading || (!message.content && isWaitingFirstChar))
+              }
+              randomChars={
+                isLoading && message === messages[messages.length - 1] && 
+                message.role === 'assistant' ? randomChars : ''
+              }
+              isLoading={isLoading}
+            />
+          </Box>
+        )}
+        userName={user?.username || "用户"}
+        modelName={getCurrentModel()?.model?.name}
+        providerName={getCurrentModel()?.provider?.displayName || getCurrentModel()?.provider?.name}
+        chatTitle={currentChatId ? chatHistories.find(h => h.id === currentChatId)?.title || '新对话' : '新对话'}
+        onChatTitleChange={handleChatTitleChange}
+        models={chatModels}
+        modelGroups={userGroupOrders}
+        onModelSelect={handleModelSelect}
+        currentModelId={selectedModelId}
+      />
+      <SamplingSettingsDialog
+        open={samplingDialogOpen}
+        value={samplingParams}
+        contextStrategy={contextStrategy}
+        canSummarize={!!chatConfig?.canSaveToDatabase}
+        defaults={samplingDefaults}
+        limits={getModelSamplingLimits(getCurrentModel()?.model ?? {})}
+        modelName={getCurrentModel()?.model.name}
+        onClose={() => setSamplingDialogOpen(false)}
+        onSave={handleSaveAdvancedSettings}
+      />
+      <ModelCompareDialog
+        open={compareDialogOpen}
+        models={chatModels}
+        defaultModelIds={selectedModelId ? [selectedModelId] : []}
+        history={messages.map(m => ({
+          role: m.role,
+          content: m.content,
+          attachmentIds: m.attachments?.map(a => a.id)
+        }))}
+        conversationId={chatConfig?.canSaveToDatabase ? currentChatId || null : null}
+        parentMessageId={messages[messages.length - 1]?.id ?? null}
+        samplingParams={samplingParams}
+        onClose={() => setCompareDialogOpen(false)}
+        onKeep={handleKeepComparison}
+      />
+      <ConversationExportDialog
+        open={exportDialogOpen}
+        canExportCurrent={Boolean(currentChatId) && messages.length > 0}
+        onClose={() => setExportDialogOpen(false)}
+        onExport={handleExport}
+      />
+      <ConversationShareDialog
+        open={shareDialogOpen}
+        conversationId={currentChatId}
+        onClose={() => setShareDialogOpen(false)}
+      />
+      <ConversationImportDialog
+        open={importDialogOpen}
+        models={chatModels}
+        onClose={() => setImportDialogOpen(false)}
+        onImported={(count) => {
+          toast.success(`已导入 ${count} 个对话`);
+          loadChatHistories();
+        }}
+      />
+      {user && (
+        <PromptPresetDialog
+          open={presetDialogOpen}
+          presets={presets}
+          models={chatModels}
+          userId={user.id}
+          isAdmin={user.role === 'ADMIN'}
+          onClose={() => setPresetDialogOpen(false)}
+          onChange={loadPresets}
+        />
       )}
-      userName={user?.username || "用户"}
-      modelName={getCurrentModel()?.model?.name}
-      providerName={getCurrentModel()?.provider?.displayName || getCurrentModel()?.provider?.name}
-      chatTitle={currentChatId ? chatHistories.find(h => h.id === currentChatId)?.title || '新对话' : '新对话'}
-      onChatTitleChange={handleChatTitleChange}
-      models={
-        Array.isArray(providers) ? providers
-          .flatMap(p => 
-            Array.isArray(p.models) ? p.models
-              .filter(m => m.isEnabled || m.enabled)
-              .map(m => ({ 
-                id: m.id,
-                name: m.name,
-                group: m.group || getAIModelCategoryName(m.modelId),
-                provider: p.displayName || p.name
-              }))
-            : []
-          )
-        : []
-      }
-      modelGroups={userGroupOrders}
-      onModelSelect={handleModelSelect}
-      currentModelId={selectedModelId}
-    />
+    </>
   );
 }
 
@@ -32,9 +32,9 @@ function ConfigPageContent() {
   const router = useRouter();
   const { mode } = useTheme();
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
     if (confirm('确定要退出登录吗？')) {
-      logout();
+      await logout();
       router.push('/login');
     }
   };
@@ -0,0 +1,148 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  Paper,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material'
+import { Lock as LockIcon } from '@mui/icons-material'
+import { MarkdownRenderer } from '@/components/MarkdownRenderer'
+
+// 分享的对话快照（不包含用户和提供商信息）
+interface SharedConversation {
+  title: string
+  createdAt: string
+  sharedAt: string
+  expiresAt: string | null
+  messages: Array<{
+    role: string
+    content: string
+    reasoning?: string | null
+    model?: string | null
+    createdAt?: string | null
+  }>
+}
+
+export default function SharePage() {
+  const { token } = useParams<{ token: string }>()
+  const [conversation, setConversation] = useState<SharedConversation | null>(null)
+  const [passwordRequired, setPasswordRequired] = useState(false)
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadShare = useCallback(async (withPassword?: string) => {
+    setIsLoading(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/share/${encodeURIComponent(token)}`, withPassword === undefined
+        ? undefined
+        : {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ password: withPassword })
+          })
+      const data = await response.json().catch(() => ({}))
+      if (response.ok) {
+        setConversation(data)
+        setPasswordRequired(false)
+      } else if (data.passwordRequired) {
+        setPasswordRequired(true)
+        if (withPassword !== undefined) setError('密码错误')
+      } else {
+        setError(response.status === 404 ? '分享链接不存在、已过期或已被撤销' : data.error || '加载失败')
+      }
+    } catch {
+      setError('加载失败，请稍后重试')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadShare()
+  }, [loadShare])
+
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password) loadShare(password)
+  }
+
+  if (isLoading && !passwordRequired) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      {passwordRequired && !conversation ? (
+        <Paper component="form" onSubmit={handlePasswordSubmit} sx={{ p: 4, maxWidth: 400, mx: 'auto' }}>
+          <Stack spacing={2} alignItems="center">
+            <LockIcon color="action" fontSize="large" />
+            <Typography variant="h6">此分享需要密码</Typography>
+            {error && <Alert severity="error" sx={{ width: '100%' }}>{error}</Alert>}
+            <TextField
+              type="password"
+              label="访问密码"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              fullWidth
+              autoFocus
+            />
+            <Button type="submit" variant="contained" fullWidth disabled={!password || isLoading}>
+              查看对话
+            </Button>
+          </Stack>
+        </Paper>
+      ) : conversation ? (
+        <>
+          <Box sx={{ mb: 3 }}>
+            <Typography variant="h5" gutterBottom>{conversation.title}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              分享于 {new Date(conversation.sharedAt).toLocaleString('zh-CN')}
+              {conversation.expiresAt && ` · ${new Date(conversation.expiresAt).toLocaleString('zh-CN')} 过期`}
+            </Typography>
+          </Box>
+          <Stack spacing={2}>
+            {conversation.messages.map((message, index) => (
+              <Paper
+                key={index}
+                variant="outlined"
+                sx={{ p: 2, bgcolor: message.role === 'user' ? 'action.hover' : 'background.paper' }}
+              >
+                <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+                  <Typography variant="subtitle2">{message.role === 'user' ? '用户' : '助手'}</Typography>
+                  {message.model && <Chip size="small" label={message.model} />}
+                  {message.createdAt && (
+                    <Typography variant="caption" color="text.secondary">
+                      {new Date(message.createdAt).toLocaleString('zh-CN')}
+                    </Typography>
+                  )}
+                </Stack>
+                <MarkdownRenderer content={message.content} reasoning={message.reasoning || ''} />
+              </Paper>
+            ))}
+          </Stack>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 4, textAlign: 'center' }}>
+            由 <Link href="/" style={{ textDecoration: 'underline' }}>FimAI Chat</Link> 分享的只读对话
+          </Typography>
+        </>
+      ) : (
+        <Alert severity="error">{error}</Alert>
+      )}
+    </Container>
+  )
+}
@@ -0,0 +1,255 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { ChatCompletionUsage } from '@/lib/adapters'
+import { checkChatPermissions } from '@/lib/chat-permissions'
+import { recordTokenUsage } from '@/lib/db/token-usage'
+import { getUserAllowedModels } from '@/lib/auth'
+import { sendChatWithFallback } from '@/lib/chat-fallback'
+import { resolveSamplingParams } from '@/lib/sampling'
+import { getMissingCapabilities, getModelSamplingLimits, type ModelCapabilityKey } from '@/lib/model-capabilities'
+import {
+  authenticateGatewayRequest,
+  getGatewayModelName,
+  getMessageText,
+  openAIError,
+  parseGatewayChatRequest,
+  resolveGatewayModel,
+} from '@/lib/openai-gateway'
+
+// 错误信息中的能力名称
+const CAPABILITY_NAMES: Record<ModelCapabilityKey, string> = {
+  supportsVision: 'image input',
+  supportsTools: 'tool calling',
+  supportsJsonMode: 'JSON mode',
+  supportsReasoning: 'reasoning',
+}
+
+/**
+ * OpenAI 兼容的 Chat Completions 接口
+ * 通过 Bearer API 密钥认证，模型可使用别名或 modelId 指定，配额和 Token 统计与网页聊天一致
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { apiKey, errorResponse } = await authenticateGatewayRequest(request, 'chat')
+    if (errorResponse) {
+      return errorResponse
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return openAIError('Request body must be valid JSON', 400)
+    }
+
+    const parsed = parseGatewayChatRequest(body)
+    if ('error' in parsed) {
+      return openAIError(parsed.error, 400)
+    }
+
+    const {
+      model: requestedModel,
+      messages,
+      stream,
+      temperature,
+      max_tokens,
+      top_p,
+      frequency_penalty,
+      presence_penalty,
+      extra = {},
+    } = parsed.data
+
+    const userId = apiKey.userId
+    const allowedModelIds = await getUserAllowedModels(userId)
+    const model = await resolveGatewayModel(requestedModel, apiKey, allowedModelIds)
+
+    if (!model) {
+      return openAIError(
+        `The model '${requestedModel}' does not exist or you do not have access to it.`,
+        404,
+        'invalid_request_error',
+        'model_not_found'
+      )
+    }
+
+    // 检查用户聊天权限（封禁、Token 和成本限制）
+    const permissions = await checkChatPermissions(userId, model.id)
+    if (!permissions.canChat) {
+      return openAIError(permissions.error || 'No permission to chat', 429, 'insufficient_quota', 'insufficient_quota')
+    }
+
+    if (!model.provider.baseUrl) {
+      return openAIError('Provider configuration incomplete', 500, 'server_error')
+    }
+
+    const publicModelName = getGatewayModelName(model)
+    const promptContent = messages.map(m => getMessageText(m.content)).join('\n')
+
+    // 请求需要模型不具备的能力（图片、工具、JSON 模式）时直接拒绝，而不是由上游报错
+    const required: ModelCapabilityKey[] = []
+    if (messages.some(m => Array.isArray(m.content) && m.content.some(part => part.type === 'image_url'))) {
+      required.push('supportsVision')
+    }
+    if (Array.isArray(extra.tools) && extra.tools.length > 0) {
+      required.push('supportsTools')
+    }
+    const responseFormat = extra.response_format as { type?: unknown } | undefined
+    if (responseFormat?.type === 'json_object' || responseFormat?.type === 'json_schema') {
+      required.push('supportsJsonMode')
+    }
+    const missing = getMissingCapabilities(model, required)
+    if (missing.length > 0) {
+      return openAIError(
+        `The model '${requestedModel}' does not support ${missing.map(key => CAPABILITY_NAMES[key]).join(', ')}.`,
+        400,
+        'invalid_request_error',
+        'model_not_supported'
+      )
+    }
+    // 非推理模型不转发推理参数
+    if (!model.supportsReasoning) {
+      delete extra.reasoning_effort
+    }
+
+    // 客户端断开时中止上游请求
+    const upstreamAbort = new AbortController()
+    request.signal.addEventListener('abort', () => upstreamAbort.abort(), { once: true })
+
+    // 从提供商的密钥池中选取密钥，限流或上游故障时退避重试
+    // 采样参数限制在管理员为模型配置的范围和最大输出长度内
+    const result = await sendChatWithFallback([model], (candidate) => {
+      const sampling = resolveSamplingParams([
+        {
+          temperature,
+          maxTokens: max_tokens,
+          topP: top_p,
+          frequencyPenalty: frequency_penalty,
+          presencePenalty: presence_penalty,
+        },
+        {
+          temperature: candidate.temperature ?? 0.7,
+          maxTokens: candidate.maxTokens ?? 2000,
+          topP: candidate.topP || undefined,
+          frequencyPenalty: candidate.frequencyPenalty || undefined,
+          presencePenalty: candidate.presencePenalty || undefined,
+        },
+      ], getModelSamplingLimits(candidate))
+
+      return {
+        model: candidate.modelId,
+        messages,
+        stream,
+        temperature: sampling.temperature,
+        max_tokens: sampling.maxTokens,
+        top_p: sampling.topP,
+        frequency_penalty: sampling.frequencyPenalty,
+        presence_penalty: sampling.presencePenalty,
+        reasoning: candidate.supportsReasoning,
+        // 其他 OpenAI 参数只透传给 OpenAI 兼容的上游
+        extra,
+      }
+    }, upstreamAbort.signal)
+
+    if (!result) {
+      return openAIError('No available upstream API key, please try again later', 503, 'server_error')
+    }
+
+    const { response, adapter } = result
+
+    if (!response.ok) {
+      const errorData = await response.text()
+      console.error('Gateway upstream error:', errorData)
+      return openAIError('Upstream provider request failed', response.status, 'upstream_error')
+    }
+
+    if (!stream) {
+      const json = adapter.parseCompletion(await response.json(), model.modelId)
+
+      try {
+        await recordTokenUsage({
+          userId,
+          providerId: model.provider.id,
+          modelId: model.id,
+          promptTokens: json.usage?.prompt_tokens,
+          completionTokens: json.usage?.completion_tokens,
+          totalTokens: json.usage?.total_tokens,
+          reasoningTokens: json.usage?.completion_tokens_details?.reasoning_tokens,
+          inputText: promptContent,
+          outputText: getMessageText(json.choices?.[0]?.message?.content),
+        })
+      } catch (error) {
+        console.error('Error recording token usage:', error)
+      }
+
+      return NextResponse.json({ ...json, model: publicModelName })
+    }
+
+    // 转发适配器统一后的 SSE 数据，同时收集内容和用量用于 Token 统计
+    const encoder = new TextEncoder()
+    const sseStream = new ReadableStream({
+      async start(controller) {
+        let fullAssistantMessage = ''
+        let tokenUsage: ChatCompletionUsage | null = null
+
+        try {
+          for await (const chunk of adapter.streamChunks(response, model.modelId)) {
+            if (chunk.usage) {
+              tokenUsage = chunk.usage
+            }
+
+            const delta = chunk.choices?.[0]?.delta?.content
+            if (delta) {
+              fullAssistantMessage += delta
+            }
+
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ ...chunk, model: publicModelName })}\n\n`))
+          }
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+        } catch (error) {
+          if (!upstreamAbort.signal.aborted) {
+            console.error('Gateway stream processing error:', error)
+          }
+        } finally {
+          // 上游没有返回用量（包括中途断开）时按实际生成的内容估算
+          if (tokenUsage || fullAssistantMessage) {
+            try {
+              await recordTokenUsage({
+                userId,
+                providerId: model.provider.id,
+                modelId: model.id,
+                promptTokens: tokenUsage?.prompt_tokens,
+                completionTokens: tokenUsage?.completion_tokens,
+                totalTokens: tokenUsage?.total_tokens,
+                reasoningTokens: tokenUsage?.completion_tokens_details?.reasoning_tokens,
+                inputText: promptContent,
+                outputText: fullAssistantMessage,
+              })
+            } catch (error) {
+              console.error('Error recording token usage:', error)
+            }
+          }
+
+          try {
+            controller.close()
+          } catch {
+            // 流已被客户端取消
+          }
+        }
+      },
+      cancel() {
+        upstreamAbort.abort()
+      },
+    })
+
+    return new Response(sseStream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    })
+
+  } catch (error) {
+    console.error('Gateway chat completion error:', error)
+    return openAIError('Internal server error', 500, 'server_error')
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserAllowedModels } from '@/lib/auth'
+import { apiKeyAllowsModel } from '@/lib/db/api-keys'
+import { getModels } from '@/lib/db/providers'
+import {
+  authenticateGatewayRequest,
+  getGatewayModelName,
+  openAIError,
+} from '@/lib/openai-gateway'
+
+/**
+ * OpenAI 兼容的模型列表（只返回该密钥可以使用的模型）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { apiKey, errorResponse } = await authenticateGatewayRequest(request, 'models')
+    if (errorResponse) {
+      return errorResponse
+    }
+
+    const allowedModelIds = await getUserAllowedModels(apiKey.userId)
+    const models = await getModels()
+
+    const data = []
+    const seen = new Set<string>()
+
+    for (const model of models) {
+      if (!model.provider?.isEnabled) continue
+      if (!allowedModelIds.includes(model.id) || !apiKeyAllowsModel(apiKey, model.id)) continue
+
+      // 多个提供商提供同名模型时只返回第一个（与 /v1/chat/completions 的解析顺序一致）
+      const id = getGatewayModelName(model)
+      if (seen.has(id)) continue
+      seen.add(id)
+
+      data.push({
+        id,
+        object: 'model',
+        created: Math.floor(new Date(model.createdAt).getTime() / 1000),
+        owned_by: model.provider.name,
+      })
+    }
+
+    return NextResponse.json({ object: 'list', data })
+
+  } catch (error) {
+    console.error('Error listing gateway models:', error)
+    return openAIError('Failed to list models', 500, 'server_error')
+  }
+}
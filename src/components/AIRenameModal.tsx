@@ -13,7 +13,6 @@ interface AIModel {
 interface AIProvider {
   id: string;
   name: string;
-  apiKey: string;
   baseUrl: string;
   enabled: boolean;
   models: AIModel[];
@@ -66,8 +65,7 @@ export function AIRenameModal({ isOpen, model, providers, onClose, onRename }: A
         body: JSON.stringify({
           modelId: model.modelId,
           aiConfig: {
-            apiKey: selectedModel.provider.apiKey,
-            baseUrl: selectedModel.provider.baseUrl,
+            providerId: selectedModel.providerId,
             model: selectedModel.modelId
           }
         }),
@@ -6,6 +6,12 @@ import { useToast } from '@/components/Toast';
 import Link from 'next/link';
 import { SortableList } from '@/components/SortableList';
 import TokenStatsAdmin from '@/components/TokenStatsAdmin';
+import ShareAdmin from '@/components/ShareAdmin';
+import ProviderKeyPool from '@/components/ProviderKeyPool';
+import ProviderApiKeyField from '@/components/ProviderApiKeyField';
+import { SAMPLING_PARAM_KEYS, SAMPLING_PARAM_LABELS, toSamplingLimits, type SamplingLimits, type SamplingParamKey } from '@/lib/sampling';
+import { MODEL_CAPABILITY_KEYS, MODEL_CAPABILITY_LABELS, type ModelCapabilities, type ModelCapabilityKey } from '@/lib/model-capabilities';
+import { BUILTIN_TOOL_LABELS, BUILTIN_TOOL_NAMES, type ToolName } from '@/lib/tools/catalog';
 import {
   Box,
   Typography,
@@ -211,7 +217,7 @@ export default function AdminConfig() {
   const { user: currentUser } = useAuth();
   const { success: toastSuccess, error: toastError } = useToast();
   const toast = { success: toastSuccess, error: toastError };
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'users' | 'invites' | 'system' | 'models'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'users' | 'invites' | 'system' | 'models' | 'tokens' | 'shares'>('dashboard');
   const [providers, setProviders] = useState<any[]>([]);
   const [models, setModels] = useState<any[]>([]);
   const [showAddProviderModal, setShowAddProviderModal] = useState(false);
@@ -296,7 +302,7 @@ export default function AdminConfig() {
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/admin/dashboard?adminUserId=${currentUser.id}`);
+      const response = await fetch('/api/admin/dashboard');
       if (response.ok) {
         const data = await response.json();
         setStats(data);
@@ -321,7 +327,7 @@ export default function AdminConfig() {
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/admin/users?adminUserId=${currentUser.id}`);
+      const response = await fetch('/api/admin/users');
       if (response.ok) {
         const data = await response.json();
         setUsers(data);
@@ -346,7 +352,7 @@ export default function AdminConfig() {
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/admin/codes?adminUserId=${currentUser.id}&type=invite`);
+      const response = await fetch('/api/admin/codes?type=invite');
       if (response.ok) {
         const data = await response.json();
         setInviteCodes(data);
@@ -365,7 +371,7 @@ export default function AdminConfig() {
     if (!currentUser) return;
 
     try {
-      const response = await fetch(`/api/admin/system-settings?adminUserId=${currentUser.id}`);
+      const response = await fetch('/api/admin/system-settings');
       if (response.ok) {
         const data = await response.json();
         setSystemSettings(data);
@@ -387,7 +393,7 @@ export default function AdminConfig() {
     if (!currentUser) return;
 
     try {
-      const response = await fetch(`/api/admin/model-groups?userId=${currentUser.id}`);
+      const response = await fetch('/api/admin/model-groups');
       if (response.ok) {
         const result = await response.json();
         if (result.success && Array.isArray(result.data)) {
@@ -405,7 +411,7 @@ export default function AdminConfig() {
 
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/admin/providers?adminUserId=${currentUser.id}`);
+      const response = await fetch('/api/admin/providers');
       if (response.ok) {
         const data = await response.json();
         console.log('Admin Providers API response:', data);
@@ -445,7 +451,6 @@ export default function AdminConfig() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           ...providerData,
         }),
       });
@@ -473,7 +478,6 @@ export default function AdminConfig() {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           ...providerData,
         }),
       });
@@ -501,7 +505,7 @@ export default function AdminConfig() {
     }
 
     try {
-      const response = await fetch(`/api/admin/providers/${providerId}?adminUserId=${currentUser.id}`, {
+      const response = await fetch(`/api/admin/providers/${providerId}`, {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -543,7 +547,6 @@ export default function AdminConfig() {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           isEnabled: !isEnabled,
         }),
       });
@@ -613,7 +616,6 @@ export default function AdminConfig() {
     try {
       // 2. 延迟验证 - 发送API请求
       const updateData = {
-        adminUserId: currentUser.id,
         providers: reorderedProviders.map((provider, index) => ({
           id: provider.id,
           order: index
@@ -710,11 +712,10 @@ export default function AdminConfig() {
 
     try {
       // 2. 延迟验证 - 发送API请求
-      const response = await fetch(`/api/admin/model-groups?userId=${currentUser.id}`, {
+      const response = await fetch('/api/admin/model-groups', {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId: currentUser.id,
           groupOrders: newGroupOrders
         }),
       });
@@ -732,7 +733,6 @@ export default function AdminConfig() {
           statusText: response.statusText,
           errorData,
           requestData: {
-            userId: currentUser.id,
             groupOrders: newGroupOrders
           }
         });
@@ -760,8 +760,9 @@ export default function AdminConfig() {
   const fetchModelsFromAPI = async (provider: any) => {
     if (!currentUser) return;
 
-    if (!provider.baseUrl || !provider.apiKey) {
-      toast.error('提供商缺少Base URL或API Key，请先配置');
+    // 密钥由服务端读取，可能来自默认 API Key 或密钥池
+    if (!provider.baseUrl) {
+      toast.error('提供商缺少Base URL，请先配置');
       return;
     }
 
@@ -777,8 +778,9 @@ export default function AdminConfig() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          apiKey: provider.apiKey,
+          providerId: provider.id,
           baseUrl: provider.baseUrl,
+          type: provider.type,
         }),
         signal: controller.signal,
       });
@@ -829,7 +831,6 @@ export default function AdminConfig() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            adminUserId: currentUser.id,
             providerId: provider.id,
             models: models.map((modelId: string) => ({
               modelId: modelId,
@@ -929,7 +930,6 @@ export default function AdminConfig() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           providerId: selectedProviderId,
           modelId: modelData.modelId,
           name: modelData.name,
@@ -1000,7 +1000,6 @@ export default function AdminConfig() {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           isEnabled: !isEnabled,
         }),
       });
@@ -1081,7 +1080,7 @@ export default function AdminConfig() {
   };
 
   // 更新编辑后的模型
-  const updateEditedModel = async (data: { id: string; name: string; group?: string }) => {
+  const updateEditedModel = async (data: { id: string; name: string; group?: string; alias?: string; fallbackModelIds: string[]; capabilities: ModelCapabilities; enabledTools: ToolName[]; samplingLimits: SamplingLimits | null }) => {
     if (!currentUser) return;
 
     // 保存原始模型数据
@@ -1115,7 +1114,12 @@ export default function AdminConfig() {
               ? { 
                   ...model, 
                   name: data.name, 
-                  group: data.group
+                  group: data.group,
+                  alias: data.alias || null,
+                  fallbackModelIds: data.fallbackModelIds.join(',') || null,
+                  ...data.capabilities,
+                  enabledTools: data.enabledTools,
+                  samplingLimits: data.samplingLimits
                 }
               : model
           )
@@ -1131,13 +1135,17 @@ export default function AdminConfig() {
 
     try {
       // 发送API请求
-      const response = await fetch(`/api/admin/models/${data.id}?adminUserId=${currentUser.id}`, {
+      const response = await fetch(`/api/admin/models/${data.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           name: data.name,
-          group: data.group
+          group: data.group,
+          alias: data.alias || null,
+          fallbackModelIds: data.fallbackModelIds,
+          ...data.capabilities,
+          enabledTools: data.enabledTools,
+          samplingLimits: data.samplingLimits
         }),
       });
 
@@ -1190,7 +1198,7 @@ export default function AdminConfig() {
     }
 
     try {
-      const response = await fetch(`/api/admin/models/${modelId}?adminUserId=${currentUser.id}`, {
+      const response = await fetch(`/api/admin/models/${modelId}`, {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -1223,7 +1231,6 @@ export default function AdminConfig() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           providerId: providerId,
         }),
       });
@@ -1265,7 +1272,6 @@ export default function AdminConfig() {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           modelIds: groupData.modelIds,
           groupName: groupData.groupName,
         }),
@@ -1385,7 +1391,6 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
             method: 'PATCH',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-              adminUserId: currentUser.id,
               name: newName,
             }),
           });
@@ -1493,7 +1498,6 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           models: reorderedModels.map((model, index) => ({
             id: model.id,
             order: index
@@ -1580,7 +1584,6 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           isActive: !isActive,
         }),
       });
@@ -1656,7 +1659,7 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
 
     // 2. 发送API请求
     try {
-      const response = await fetch(`/api/admin/users/${userId}?adminUserId=${currentUser.id}`, {
+      const response = await fetch(`/api/admin/users/${userId}`, {
         method: 'DELETE'
       });
 
@@ -1691,7 +1694,6 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-              adminUserId: currentUser.id,
               type: 'invite',
               maxUses,
             }),
@@ -1733,7 +1735,7 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
     if (!currentUser) return;
 
     try {
-      const response = await fetch(`/api/admin/codes/${codeId}?adminUserId=${currentUser.id}`, {
+      const response = await fetch(`/api/admin/codes/${codeId}`, {
         method: 'DELETE'
       });
 
@@ -1760,7 +1762,6 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           ...settings,
         }),
       });
@@ -1785,10 +1786,10 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
 
     try {
       // 加载用户排行榜
-      const leaderboardResponse = await fetch(`/api/admin/stats?userId=${currentUser.id}&type=users`);
+      const leaderboardResponse = await fetch('/api/admin/stats?type=users');
       
       // 加载模型统计
-      const modelStatsResponse = await fetch(`/api/admin/stats?userId=${currentUser.id}&type=models`);
+      const modelStatsResponse = await fetch('/api/admin/stats?type=models');
       
       if (leaderboardResponse.ok && modelStatsResponse.ok) {
         const userLeaderboard = await leaderboardResponse.json();
@@ -1938,7 +1939,6 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           username: createUserData.username,
           email: createUserData.email || undefined, // 如果为空字符串，则传undefined
           password: password,
@@ -1981,7 +1981,6 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           newPassword: resetPasswordData.newPassword
         }),
       });
@@ -2304,6 +2303,7 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
               <Tab label="邀请码管理" value="invites" />
               <Tab label="模型管理" value="models" />
               <Tab label="Token统计" value="tokens" />
+              <Tab label="分享链接" value="shares" />
               <Tab label="系统设置" value="system" />
             </Tabs>
           </Paper>
@@ -2374,6 +2374,22 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
                 </div>
               </div>
 
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  网页读取工具允许的域名
+                </label>
+                <textarea
+                  value={systemSettings.tool_fetch_allowed_hosts || ''}
+                  onChange={(e) => setSystemSettings({ ...systemSettings, tool_fetch_allowed_hosts: e.target.value })}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white font-mono text-sm"
+                  placeholder={'例如:\nen.wikipedia.org\n*.example.com'}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  每行一个域名，*.example.com 匹配所有子域名。为空时网页读取工具不能访问任何网址。
+                </p>
+              </div>
+
               <div className="flex items-center mb-4">
                 <input
                   type="checkbox"
@@ -3330,6 +3346,13 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
           </Box>
         )}
 
+        {/* 分享链接审计 */}
+        {activeTab === 'shares' && (
+          <Box sx={{ p: 3 }}>
+            <ShareAdmin />
+          </Box>
+        )}
+
         {/* 添加提供商模态框 */}
         {showAddProviderModal && (
           <ProviderModal
@@ -3426,6 +3449,7 @@ ${modelsToRename.map((m: any) => m.modelId).join('\n')}`;
           onSubmit={updateEditedModel}
           model={editingModel}
           groupOptions={userGroupOrders.map(g => g.groupName)}
+          modelOptions={models}
         />
         <CreateUserModal
           isOpen={showCreateUserModal}
@@ -3452,8 +3476,10 @@ function ProviderModal({ isOpen, onClose, onSubmit, title, initialData }: Provid
   const { error: toastError } = useToast();
   const [formData, setFormData] = useState({
     name: initialData?.displayName || initialData?.name || '',
+    type: initialData?.type || 'openai',
+    keySelection: initialData?.keySelection || 'round_robin',
     baseUrl: initialData?.baseUrl || '',
-    apiKey: initialData?.apiKey || '',
+    apiKey: '',
     icon: (() => {
       // 如果是自定义 emoji，返回 'custom'，否则返回原值
       if (initialData?.icon?.startsWith('custom:')) {
@@ -3478,6 +3504,13 @@ function ProviderModal({ isOpen, onClose, onSubmit, title, initialData }: Provid
     return initialData?.icon?.startsWith('custom:') || true; // 默认显示自定义输入框
   });
 
+  // 提供商接口类型，决定请求格式和流式事件的解析方式
+  const providerTypeOptions = [
+    { value: 'openai', label: 'OpenAI 兼容', baseUrlPlaceholder: 'https://api.openai.com/v1' },
+    { value: 'anthropic', label: 'Anthropic Messages', baseUrlPlaceholder: 'https://api.anthropic.com/v1' },
+    { value: 'gemini', label: 'Google Gemini', baseUrlPlaceholder: 'https://generativelanguage.googleapis.com/v1beta' },
+  ];
+
   // 常用的 AI 提供商图标选项 - 优先使用 lobehub icons，其次使用 emoji
   const iconOptions = [
     // 国际主流 AI 提供商
@@ -3558,9 +3591,11 @@ function ProviderModal({ isOpen, onClose, onSubmit, title, initialData }: Provid
       return;
     }
 
-    // 生成 name 和 displayName
+    // 生成 name 和 displayName；编辑时密钥通过单独的更换操作修改
+    const { apiKey, ...rest } = formData;
     const submitData = {
-      ...formData,
+      ...rest,
+      ...(!initialData?.id && { apiKey }),
       name: formData.name.toLowerCase().replace(/\s+/g, '-'),
       displayName: formData.name,
       // 如果是自定义 emoji，使用用户输入的值
@@ -3582,7 +3617,7 @@ function ProviderModal({ isOpen, onClose, onSubmit, title, initialData }: Provid
         <span className="hidden sm:inline-block sm:align-middle sm:h-screen"></span>&#8203;
         
         <div 
-          className="inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-md sm:w-full relative p-6"
+          className={`inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle ${initialData?.id ? 'sm:max-w-2xl' : 'sm:max-w-md'} sm:w-full relative p-6`}
           onClick={(e) => e.stopPropagation()}
         >
           <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
@@ -3684,6 +3719,26 @@ function ProviderModal({ isOpen, onClose, onSubmit, title, initialData }: Provid
               )}
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                接口类型 <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={formData.type}
+                onChange={(e) => setFormData(prevState => ({ ...prevState, type: e.target.value }))}
+                onClick={(e) => e.stopPropagation()}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white pointer-events-auto"
+                style={{ pointerEvents: 'auto' }}
+                required
+              >
+                {providerTypeOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                 Base URL <span className="text-red-500">*</span>
@@ -3695,7 +3750,7 @@ function ProviderModal({ isOpen, onClose, onSubmit, title, initialData }: Provid
                 onClick={(e) => e.stopPropagation()}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white pointer-events-auto"
                 style={{ pointerEvents: 'auto' }}
-                placeholder="https://api.openai.com/v1"
+                placeholder={providerTypeOptions.find(opt => opt.value === formData.type)?.baseUrlPlaceholder}
                 required
               />
             </div>
@@ -3704,15 +3759,19 @@ function ProviderModal({ isOpen, onClose, onSubmit, title, initialData }: Provid
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                 API Key
               </label>
-              <input
-                type="password"
-                value={formData.apiKey}
-                onChange={(e) => setFormData(prevState => ({ ...prevState, apiKey: e.target.value }))}
-                onClick={(e) => e.stopPropagation()}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white pointer-events-auto"
-                style={{ pointerEvents: 'auto' }}
-                placeholder="sk-..."
-              />
+              {initialData?.id ? (
+                <ProviderApiKeyField providerId={initialData.id} maskedApiKey={initialData.maskedApiKey} />
+              ) : (
+                <input
+                  type="password"
+                  value={formData.apiKey}
+                  onChange={(e) => setFormData(prevState => ({ ...prevState, apiKey: e.target.value }))}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white pointer-events-auto"
+                  style={{ pointerEvents: 'auto' }}
+                  placeholder="sk-..."
+                />
+              )}
             </div>
 
             <div>
@@ -3745,6 +3804,26 @@ function ProviderModal({ isOpen, onClose, onSubmit, title, initialData }: Provid
               </label>
             </div>
 
+            {/* 密钥池只能在提供商创建后管理 */}
+            {initialData?.id && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  密钥池
+                </label>
+                <select
+                  value={formData.keySelection}
+                  onChange={(e) => setFormData(prevState => ({ ...prevState, keySelection: e.target.value }))}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-full mb-2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white pointer-events-auto"
+                  style={{ pointerEvents: 'auto' }}
+                >
+                  <option value="round_robin">轮询</option>
+                  <option value="least_used">最少使用</option>
+                </select>
+                <ProviderKeyPool providerId={initialData.id} />
+              </div>
+            )}
+
             <div className="flex justify-end space-x-3 pt-4">
               <button
                 type="button"
@@ -4360,7 +4439,6 @@ function AIRenameModal({ isOpen, onClose, providerId, providers, onSubmit }: AIR
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           newPassword: resetPasswordData.newPassword
         }),
       });
@@ -4483,22 +4561,37 @@ function ResetPasswordModal({
   );
 }
 
+// 备用模型选项：加载提供商时展开的模型，附带提供商名称
+interface FallbackModelOption {
+  id: string;
+  name: string;
+  providerName: string;
+}
+
 // 编辑模型对话框组件
 interface EditModelModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: { id: string, name: string, group?: string }) => void;
+  onSubmit: (data: { id: string, name: string, group?: string, alias?: string, fallbackModelIds: string[], capabilities: ModelCapabilities, enabledTools: ToolName[], samplingLimits: SamplingLimits | null }) => void;
   model: any;
   groupOptions: string[];
+  modelOptions: FallbackModelOption[];
 }
 
-function EditModelModal({ isOpen, onClose, onSubmit, model, groupOptions = [] }: EditModelModalProps) {
+function EditModelModal({ isOpen, onClose, onSubmit, model, groupOptions = [], modelOptions = [] }: EditModelModalProps) {
   const { error: toastError } = useToast();
   const [formData, setFormData] = useState({
     id: '',
     modelId: '',
     name: '',
     group: '',
+    alias: '',
+    fallbackModelIds: [] as string[],
+    contextLength: '',
+    maxOutputTokens: '',
+    capabilities: {} as Partial<Record<ModelCapabilityKey, boolean>>,
+    enabledTools: [] as ToolName[],
+    samplingLimits: {} as Partial<Record<SamplingParamKey, { min: string; max: string }>>,
   });
 
   // 初始化表单数据
@@ -4509,6 +4602,18 @@ function EditModelModal({ isOpen, onClose, onSubmit, model, groupOptions = [] }:
         modelId: model.modelId || '',
         name: model.name || '',
         group: model.group || '',
+        alias: model.alias || '',
+        fallbackModelIds: model.fallbackModelIds ? model.fallbackModelIds.split(',') : [],
+        contextLength: model.contextLength ? String(model.contextLength) : '',
+        maxOutputTokens: model.maxOutputTokens ? String(model.maxOutputTokens) : '',
+        capabilities: Object.fromEntries(MODEL_CAPABILITY_KEYS.map(key => [key, !!model[key]])),
+        enabledTools: model.enabledTools || [],
+        samplingLimits: Object.fromEntries(
+          Object.entries(toSamplingLimits(model.samplingLimits)).map(([key, range]) => [
+            key,
+            { min: range?.min?.toString() ?? '', max: range?.max?.toString() ?? '' }
+          ])
+        ),
       });
     }
   }, [model]);
@@ -4521,18 +4626,64 @@ function EditModelModal({ isOpen, onClose, onSubmit, model, groupOptions = [] }:
       return;
     }
 
+    // 空的范围不保存，具体的取值由服务端校验
+    const samplingLimits: SamplingLimits = {};
+    for (const key of SAMPLING_PARAM_KEYS) {
+      const range = formData.samplingLimits[key];
+      if (!range || (range.min === '' && range.max === '')) continue;
+      samplingLimits[key] = {
+        ...(range.min !== '' && { min: Number(range.min) }),
+        ...(range.max !== '' && { max: Number(range.max) }),
+      };
+    }
+
     onSubmit({
       id: formData.id,
       name: formData.name.trim(),
       group: formData.group || undefined,
+      alias: formData.alias.trim() || undefined,
+      fallbackModelIds: formData.fallbackModelIds,
+      capabilities: {
+        ...Object.fromEntries(MODEL_CAPABILITY_KEYS.map(key => [key, !!formData.capabilities[key]])),
+        contextLength: formData.contextLength ? parseInt(formData.contextLength) : null,
+        maxOutputTokens: formData.maxOutputTokens ? parseInt(formData.maxOutputTokens) : null,
+      },
+      enabledTools: formData.enabledTools,
+      samplingLimits: Object.keys(samplingLimits).length > 0 ? samplingLimits : null,
+    });
+  };
+
+  // 调整备用模型的顺序
+  const moveFallbackModel = (index: number, offset: number) => {
+    setFormData(prev => {
+      const ids = [...prev.fallbackModelIds];
+      const target = index + offset;
+      if (target < 0 || target >= ids.length) return prev;
+      [ids[index], ids[target]] = [ids[target], ids[index]];
+      return { ...prev, fallbackModelIds: ids };
     });
   };
 
+  const updateSamplingLimit = (key: SamplingParamKey, bound: 'min' | 'max', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      samplingLimits: {
+        ...prev.samplingLimits,
+        [key]: { min: '', max: '', ...prev.samplingLimits[key], [bound]: value }
+      }
+    }));
+  };
+
+  const getModelLabel = (id: string) => {
+    const option = modelOptions.find(m => m.id === id);
+    return option ? `${option.name}（${option.providerName}）` : id;
+  };
+
   if (!isOpen || !model) return null;
 
   return (
     <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md mx-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
         <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
           编辑模型
         </h3>
@@ -4569,6 +4720,22 @@ function EditModelModal({ isOpen, onClose, onSubmit, model, groupOptions = [] }:
             </p>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              模型别名（可选）
+            </label>
+            <input
+              type="text"
+              value={formData.alias}
+              onChange={(e) => setFormData(prev => ({ ...prev, alias: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              placeholder="例如: gpt-4o"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              通过 /v1 接口调用时可使用别名代替模型ID，别名全局唯一
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
               模型分组
@@ -4597,6 +4764,175 @@ function EditModelModal({ isOpen, onClose, onSubmit, model, groupOptions = [] }:
             </p>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              备用模型（可选）
+            </label>
+            {formData.fallbackModelIds.length > 0 && (
+              <ol className="mb-2 space-y-1">
+                {formData.fallbackModelIds.map((id, index) => (
+                  <li key={id} className="flex items-center justify-between px-3 py-1.5 text-sm bg-gray-50 dark:bg-gray-700 rounded-md text-gray-900 dark:text-white">
+                    <span className="truncate">{index + 1}. {getModelLabel(id)}</span>
+                    <span className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                      <button type="button" onClick={() => moveFallbackModel(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-700 disabled:opacity-30">↑</button>
+                      <button type="button" onClick={() => moveFallbackModel(index, 1)} disabled={index === formData.fallbackModelIds.length - 1} className="text-gray-500 hover:text-gray-700 disabled:opacity-30">↓</button>
+                      <button
+                        type="button"
+                        onClick={() => setFormData(prev => ({ ...prev, fallbackModelIds: prev.fallbackModelIds.filter(fid => fid !== id) }))}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <select
+              value=""
+              onChange={(e) => {
+                const id = e.target.value;
+                if (id) setFormData(prev => ({ ...prev, fallbackModelIds: [...prev.fallbackModelIds, id] }));
+              }}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+            >
+              <option value="">-- 添加备用模型 --</option>
+              {modelOptions
+                .filter(m => m.id !== formData.id && !formData.fallbackModelIds.includes(m.id))
+                .map(m => (
+                  <option key={m.id} value={m.id}>
+                    {m.name}（{m.providerName}）
+                  </option>
+                ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              上游限流或故障时按顺序尝试，例如其他提供商上的同一模型，或更便宜的模型
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              上下文长度（可选）
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={formData.contextLength}
+              onChange={(e) => setFormData(prev => ({ ...prev, contextLength: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              placeholder="例如: 128000"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              单位为 token，超出时较早的消息不会发送给模型；留空则发送全部消息
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              最大输出长度（可选）
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={formData.maxOutputTokens}
+              onChange={(e) => setFormData(prev => ({ ...prev, maxOutputTokens: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              placeholder="例如: 16384"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              单位为 token，请求的最大 Token 数不会超过该值
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              模型能力
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {MODEL_CAPABILITY_KEYS.map((key) => (
+                <div key={key} className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id={`capability-${key}`}
+                    checked={!!formData.capabilities[key]}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      capabilities: { ...prev.capabilities, [key]: e.target.checked }
+                    }))}
+                    className="h-4 w-4 text-gray-600 focus:ring-gray-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor={`capability-${key}`} className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                    {MODEL_CAPABILITY_LABELS[key]}
+                  </label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              聊天时拒绝模型不支持的请求（如向不支持图片输入的模型发送图片），聊天页面按能力显示和筛选模型
+            </p>
+          </div>
+
+          {formData.capabilities.supportsTools && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                内置工具
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {BUILTIN_TOOL_NAMES.map((name) => (
+                  <div key={name} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id={`tool-${name}`}
+                      checked={formData.enabledTools.includes(name)}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        enabledTools: e.target.checked
+                          ? [...prev.enabledTools, name]
+                          : prev.enabledTools.filter(tool => tool !== name)
+                      }))}
+                      className="h-4 w-4 text-gray-600 focus:ring-gray-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor={`tool-${name}`} className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+                      {BUILTIN_TOOL_LABELS[name]}
+                    </label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                对所有用户启用，也可以在用户限制中为单个用户启用；网页读取只能访问 AI 高级设置中允许的域名
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              采样参数范围（可选）
+            </label>
+            <div className="space-y-2">
+              {SAMPLING_PARAM_KEYS.map((key) => (
+                <div key={key} className="flex items-center space-x-2">
+                  <span className="w-28 text-sm text-gray-700 dark:text-gray-300 flex-shrink-0">
+                    {SAMPLING_PARAM_LABELS[key]}
+                  </span>
+                  {(['min', 'max'] as const).map((bound) => (
+                    <input
+                      key={bound}
+                      type="number"
+                      step="any"
+                      value={formData.samplingLimits[key]?.[bound] ?? ''}
+                      onChange={(e) => updateSamplingLimit(key, bound, e.target.value)}
+                      placeholder={bound === 'min' ? '最小值' : '最大值'}
+                      className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              用户在对话中设置的参数会被限制在此范围内，例如为昂贵的模型限制最大 Token 数
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
               描述（可选）
@@ -0,0 +1,83 @@
+'use client';
+
+import { Box, Chip, Tooltip } from '@mui/material';
+import { InsertDriveFile as FileIcon } from '@mui/icons-material';
+import { formatFileSize, type AttachmentInfo } from '@/lib/attachments';
+
+interface AttachmentListProps {
+  attachments: AttachmentInfo[];
+  align?: 'left' | 'right';
+  onRemove?: (id: string) => void; // 传入时显示删除按钮（输入框中还没有发送的附件）
+}
+
+/**
+ * 消息的附件：图片显示缩略图，文档显示文件名，点击后在新窗口打开
+ */
+export function AttachmentList({ attachments, align = 'left', onRemove }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: 1,
+        justifyContent: align === 'right' ? 'flex-end' : 'flex-start'
+      }}
+    >
+      {attachments.map(attachment => {
+        const url = `/api/attachments/${attachment.id}`;
+        const label = `${attachment.fileName}（${formatFileSize(attachment.size)}，约 ${attachment.tokenCount} tokens）`;
+
+        if (attachment.kind === 'image' && !onRemove) {
+          return (
+            <Tooltip key={attachment.id} title={label}>
+              <Box
+                component="a"
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                sx={{ display: 'block', lineHeight: 0 }}
+              >
+                <Box
+                  component="img"
+                  src={url}
+                  alt={attachment.fileName}
+                  sx={{
+                    maxWidth: 240,
+                    maxHeight: 240,
+                    borderRadius: 1,
+                    border: '1px solid',
+                    borderColor: 'divider',
+                    objectFit: 'cover'
+                  }}
+                />
+              </Box>
+            </Tooltip>
+          );
+        }
+
+        return (
+          <Tooltip key={attachment.id} title={label}>
+            <Chip
+              size="small"
+              variant="outlined"
+              icon={attachment.kind === 'image' ? undefined : <FileIcon />}
+              avatar={attachment.kind === 'image'
+                ? <Box component="img" src={url} alt="" sx={{ objectFit: 'cover' }} />
+                : undefined}
+              label={attachment.fileName}
+              component="a"
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              clickable
+              onDelete={onRemove ? () => onRemove(attachment.id) : undefined}
+              sx={{ maxWidth: 240 }}
+            />
+          </Tooltip>
+        );
+      })}
+    </Box>
+  );
+}
@@ -13,7 +13,6 @@ interface AIModel {
 interface AIProvider {
   id: string;
   name: string;
-  apiKey: string;
   baseUrl: string;
   enabled: boolean;
   models: AIModel[];
@@ -94,8 +93,7 @@ export function BatchRenameModal({ isOpen, provider, providers, onClose, onRenam
           body: JSON.stringify({
             modelId: model.modelId,
             aiConfig: {
-              apiKey: selectedModel.provider.apiKey,
-              baseUrl: selectedModel.provider.baseUrl,
+              providerId: selectedModel.providerId,
               model: selectedModel.modelId
             }
           }),
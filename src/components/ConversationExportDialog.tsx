@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  Stack,
+  Typography
+} from '@mui/material';
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS, type ExportFormat } from '@/lib/conversation-export';
+
+export type ExportScope = 'current' | 'all';
+
+interface ConversationExportDialogProps {
+  open: boolean;
+  canExportCurrent: boolean; // 当前是否打开了有消息的对话
+  onClose: () => void;
+  onExport: (scope: ExportScope, format: ExportFormat) => Promise<void>;
+}
+
+const FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
+  markdown: '保留代码块和公式原文',
+  json: '包含模型、时间和 Token 使用量，便于备份和处理',
+  html: '单个网页文件，代码语法高亮，公式以 KaTeX 显示',
+  pdf: '在新窗口中打开打印页面，选择“另存为 PDF”',
+};
+
+export function ConversationExportDialog({
+  open,
+  canExportCurrent,
+  onClose,
+  onExport
+}: ConversationExportDialogProps) {
+  const [scope, setScope] = useState<ExportScope>('current');
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const selectedScope = canExportCurrent ? scope : 'all';
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(selectedScope, format);
+      onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={isExporting ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>导出对话</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <FormControl>
+            <FormLabel>范围</FormLabel>
+            <RadioGroup value={selectedScope} onChange={(e) => setScope(e.target.value as ExportScope)}>
+              <FormControlLabel value="current" control={<Radio />} label="当前对话" disabled={!canExportCurrent} />
+              <FormControlLabel value="all" control={<Radio />} label="全部对话" />
+            </RadioGroup>
+          </FormControl>
+          <FormControl>
+            <FormLabel>格式</FormLabel>
+            <RadioGroup value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)}>
+              {EXPORT_FORMATS.map(item => (
+                <FormControlLabel
+                  key={item}
+                  value={item}
+                  control={<Radio />}
+                  label={
+                    <>
+                      <Typography variant="body2">{EXPORT_FORMAT_LABELS[item]}</Typography>
+                      <Typography variant="caption" color="text.secondary">{FORMAT_DESCRIPTIONS[item]}</Typography>
+                    </>
+                  }
+                />
+              ))}
+            </RadioGroup>
+          </FormControl>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isExporting}>取消</Button>
+        <Button
+          variant="contained"
+          onClick={handleExport}
+          disabled={isExporting}
+          startIcon={isExporting ? <CircularProgress size={16} /> : undefined}
+        >
+          导出
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+
+interface ImportModel {
+  id: string;
+  name: string;
+  provider?: string;
+}
+
+// 预览中的一个对话
+interface ImportPreviewItem {
+  index: number;
+  title: string;
+  createdAt: string | null;
+  messageCount: number;
+  status: 'new' | 'duplicate' | 'empty';
+  unsupported: Record<string, number>; // 无法导入的内容及数量
+}
+
+interface ConversationImportDialogProps {
+  open: boolean;
+  models: ImportModel[]; // 可以关联到导入对话的模型
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+const FORMAT_OPTIONS = [
+  { value: '', label: '自动识别' },
+  { value: 'chatgpt', label: 'ChatGPT（conversations.json）' },
+  { value: 'claude', label: 'Claude（conversations.json）' },
+  { value: 'openai', label: 'OpenAI 消息 JSON' }
+];
+
+const STATUS_CHIPS = {
+  new: { label: '新对话', color: 'success' },
+  duplicate: { label: '已导入过', color: 'warning' },
+  empty: { label: '没有可导入的消息', color: 'default' }
+} as const;
+
+// 导入文件的最大大小
+const MAX_IMPORT_FILE_SIZE = 100 * 1024 * 1024;
+
+export function ConversationImportDialog({
+  open,
+  models,
+  onClose,
+  onImported
+}: ConversationImportDialogProps) {
+  const [data, setData] = useState<unknown>(null);
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState('');
+  const [modelId, setModelId] = useState('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [preview, setPreview] = useState<ImportPreviewItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // 每次打开时清空上一次选择的文件
+  useEffect(() => {
+    if (open) {
+      setData(null);
+      setFileName('');
+      setFormat('');
+      setPreview(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const requestImport = async (content: unknown, selectedFormat: string, isPreview: boolean) => {
+    const response = await fetch('/api/conversations/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        data: content,
+        format: selectedFormat || undefined,
+        preview: isPreview,
+        modelId: modelId || undefined,
+        skipDuplicates
+      })
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || `请求失败: ${response.status}`);
+    }
+    return result;
+  };
+
+  const loadPreview = async (content: unknown, selectedFormat: string) => {
+    setIsWorking(true);
+    setError(null);
+    setPreview(null);
+    try {
+      const result = await requestImport(content, selectedFormat, true);
+      setPreview(result.conversations);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '无法解析导入文件');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setPreview(null);
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      setData(null);
+      setError(`文件不能超过 ${MAX_IMPORT_FILE_SIZE / 1024 / 1024} MB`);
+      return;
+    }
+
+    try {
+      const content = JSON.parse(await file.text());
+      setData(content);
+      await loadPreview(content, format);
+    } catch {
+      setData(null);
+      setError('文件不是有效的 JSON');
+    }
+  };
+
+  const handleFormatChange = (value: string) => {
+    setFormat(value);
+    if (data !== null) {
+      loadPreview(data, value);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const result = await requestImport(data, format, false);
+      onImported(result.imported);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '导入失败');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const counts = {
+    new: preview?.filter(item => item.status === 'new').length ?? 0,
+    duplicate: preview?.filter(item => item.status === 'duplicate').length ?? 0,
+    empty: preview?.filter(item => item.status === 'empty').length ?? 0
+  };
+  const importCount = counts.new + (skipDuplicates ? 0 : counts.duplicate);
+
+  return (
+    <Dialog open={open} onClose={isWorking ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>导入对话</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            支持 ChatGPT 和 Claude 导出文件中的 conversations.json（Claude 的导出需要先解压），以及 OpenAI 消息格式的 JSON。
+            只导入文本消息，图片、附件和工具调用等内容会在预览中列出。
+          </Typography>
+          <Stack direction="row" spacing={2} alignItems="center">
+            <Button variant="outlined" component="label" disabled={isWorking}>
+              选择文件
+              <input type="file" accept=".json,application/json" hidden onChange={handleFileChange} />
+            </Button>
+            <Typography variant="body2" noWrap>{fileName || '未选择文件'}</Typography>
+          </Stack>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              select
+              size="small"
+              label="格式"
+              value={format}
+              onChange={(e) => handleFormatChange(e.target.value)}
+              disabled={isWorking}
+              sx={{ minWidth: 240 }}
+            >
+              {FORMAT_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="关联模型"
+              value={modelId}
+              onChange={(e) => setModelId(e.target.value)}
+              disabled={isWorking}
+              helperText="不选择时关联到占位模型，继续对话时可以切换模型"
+              sx={{ minWidth: 240 }}
+            >
+              <MenuItem value="">占位模型（导入的模型）</MenuItem>
+              {models.map(model => (
+                <MenuItem key={model.id} value={model.id}>
+                  {model.provider ? `${model.provider} / ${model.name}` : model.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+
+          {error && <Alert severity="error">{error}</Alert>}
+          {isWorking && !preview && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+              <CircularProgress size={24} />
+            </Box>
+          )}
+
+          {preview && (
+            <>
+              <Typography variant="body2">
+                共 {preview.length} 个对话：{counts.new} 个新对话，{counts.duplicate} 个已导入过，{counts.empty} 个没有可导入的消息
+              </Typography>
+              <FormControlLabel
+                control={<Checkbox checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />}
+                label="跳过已导入过的对话"
+                disabled={counts.duplicate === 0}
+              />
+              <List dense sx={{ maxHeight: 360, overflow: 'auto', border: 1, borderColor: 'divider', borderRadius: 1 }}>
+                {preview.map(item => {
+                  const unsupported = Object.entries(item.unsupported);
+                  return (
+                    <ListItem key={item.index} divider>
+                      <ListItemText
+                        primary={item.title}
+                        secondary={[
+                          `${item.messageCount} 条消息`,
+                          item.createdAt ? new Date(item.createdAt).toLocaleString() : '',
+                          unsupported.length > 0
+                            ? `无法导入：${unsupported.map(([label, count]) => `${label} ×${count}`).join('，')}`
+                            : ''
+                        ].filter(Boolean).join(' · ')}
+                        primaryTypographyProps={{ noWrap: true }}
+                      />
+                      <Chip
+                        size="small"
+                        label={STATUS_CHIPS[item.status].label}
+                        color={STATUS_CHIPS[item.status].color}
+                        sx={{ ml: 1, flexShrink: 0 }}
+                      />
+                    </ListItem>
+                  );
+                })}
+              </List>
+            </>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isWorking}>取消</Button>
+        <Button
+          variant="contained"
+          onClick={handleImport}
+          disabled={isWorking || !preview || importCount === 0}
+          startIcon={isWorking && preview ? <CircularProgress size={16} /> : undefined}
+        >
+          {preview ? `导入 ${importCount} 个对话` : '导入'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  IconButton,
+  InputAdornment,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Clear as ClearIcon,
+  FilterList as FilterListIcon,
+  Search as SearchIcon
+} from '@mui/icons-material';
+import {
+  highlightSearchTerms,
+  parseSearchTerms,
+  type ArchivedFilter,
+  type ConversationSearchHit
+} from '@/lib/conversation-search';
+
+// 接口返回的时间是字符串
+export type ConversationSearchResult = Omit<ConversationSearchHit, 'createdAt'> & { createdAt: string };
+
+interface ConversationSearchProps {
+  models: Array<{ id: string; name: string; provider?: string }>;
+  onSelect: (result: ConversationSearchResult) => void;
+  onActiveChange?: (active: boolean) => void; // 有搜索词时侧边栏只显示搜索结果
+}
+
+const ARCHIVED_OPTIONS: Array<{ value: ArchivedFilter; label: string }> = [
+  { value: 'exclude', label: '不含已归档' },
+  { value: 'include', label: '包含已归档' },
+  { value: 'only', label: '仅已归档' }
+];
+
+// 输入停止后再搜索
+const SEARCH_DELAY = 300;
+
+const Highlighted = ({ text, terms }: { text: string; terms: string[] }) => (
+  <>
+    {highlightSearchTerms(text, terms).map((part, index) => (
+      part.match
+        ? <Box key={index} component="mark" sx={{ bgcolor: 'warning.light', color: 'inherit', borderRadius: 0.5 }}>{part.text}</Box>
+        : <span key={index}>{part.text}</span>
+    ))}
+  </>
+);
+
+/**
+ * 侧边栏的对话全文搜索，点击结果跳转到匹配的消息
+ */
+export function ConversationSearch({ models, onSelect, onActiveChange }: ConversationSearchProps) {
+  const [query, setQuery] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [modelId, setModelId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [archived, setArchived] = useState<ArchivedFilter>('exclude');
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const [results, setResults] = useState<ConversationSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedQuery = query.trim();
+  const terms = parseSearchTerms(query);
+
+  useEffect(() => {
+    onActiveChange?.(trimmedQuery !== '');
+  }, [trimmedQuery, onActiveChange]);
+
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q: trimmedQuery, archived });
+      if (modelId) params.set('modelId', modelId);
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      if (pinnedOnly) params.set('pinned', 'true');
+
+      setIsSearching(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/conversations?${params}`, { signal: controller.signal });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || `请求失败: ${response.status}`);
+        }
+        setResults(data);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : '搜索失败');
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmedQuery, modelId, from, to, archived, pinnedOnly]);
+
+  const activeFilterCount = [modelId, from, to, archived !== 'exclude', pinnedOnly].filter(Boolean).length;
+
+  return (
+    <Box sx={{ px: 2, pb: 1 }}>
+      <TextField
+        size="small"
+        fullWidth
+        placeholder="搜索对话"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <SearchIcon fontSize="small" />
+            </InputAdornment>
+          ),
+          endAdornment: (
+            <InputAdornment position="end">
+              {query && (
+                <IconButton size="small" onClick={() => setQuery('')}>
+                  <ClearIcon fontSize="small" />
+                </IconButton>
+              )}
+              <Tooltip title="筛选">
+                <IconButton
+                  size="small"
+                  edge="end"
+                  color={activeFilterCount > 0 ? 'primary' : 'default'}
+                  onClick={() => setShowFilters(prev => !prev)}
+                >
+                  <FilterListIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </InputAdornment>
+          )
+        }}
+      />
+
+      {showFilters && (
+        <Stack spacing={1.5} sx={{ mt: 1.5 }}>
+          <TextField
+            select
+            size="small"
+            label="模型"
+            value={modelId}
+            onChange={(e) => setModelId(e.target.value)}
+          >
+            <MenuItem value="">全部模型</MenuItem>
+            {models.map(model => (
+              <MenuItem key={model.id} value={model.id}>
+                {model.provider ? `${model.provider} / ${model.name}` : model.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Stack direction="row" spacing={1}>
+            <TextField
+              size="small"
+              type="date"
+              label="开始日期"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+            <TextField
+              size="small"
+              type="date"
+              label="结束日期"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+          </Stack>
+          <TextField
+            select
+            size="small"
+            label="归档"
+            value={archived}
+            onChange={(e) => setArchived(e.target.value as ArchivedFilter)}
+          >
+            {ARCHIVED_OPTIONS.map(option => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </TextField>
+          <FormControlLabel
+            control={<Checkbox size="small" checked={pinnedOnly} onChange={(e) => setPinnedOnly(e.target.checked)} />}
+            label="仅置顶的对话"
+          />
+        </Stack>
+      )}
+
+      {trimmedQuery && (
+        <Box sx={{ mt: 1 }}>
+          {error && <Alert severity="error" sx={{ mb: 1 }}>{error}</Alert>}
+          {isSearching && results.length === 0 ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : !error && results.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+              没有找到匹配的对话
+            </Typography>
+          ) : (
+            <List dense disablePadding>
+              {results.map(result => (
+                <ListItemButton
+                  key={`${result.conversationId}-${result.messageId ?? 'title'}`}
+                  onClick={() => onSelect(result)}
+                  sx={{ borderRadius: 1, alignItems: 'flex-start', px: 1 }}
+                >
+                  <ListItemText
+                    primary={
+                      <Stack direction="row" spacing={0.5} alignItems="center">
+                        <Typography variant="body2" fontWeight={500} noWrap sx={{ flexGrow: 1 }}>
+                          <Highlighted text={result.title || '新会话'} terms={terms} />
+                        </Typography>
+                        {result.isPinned && <Chip size="small" label="置顶" sx={{ height: 18 }} />}
+                        {result.isArchived && <Chip size="small" label="已归档" sx={{ height: 18 }} />}
+                      </Stack>
+                    }
+                    secondary={
+                      <>
+                        {result.snippet && (
+                          <Typography component="span" variant="caption" sx={{ display: 'block', wordBreak: 'break-word' }}>
+                            {result.role === 'user' ? '用户：' : ''}
+                            <Highlighted text={result.snippet} terms={terms} />
+                          </Typography>
+                        )}
+                        <Typography component="span" variant="caption" color="text.secondary">
+                          {[result.modelName, new Date(result.createdAt).toLocaleDateString('zh-CN')].filter(Boolean).join(' · ')}
+                        </Typography>
+                      </>
+                    }
+                    secondaryTypographyProps={{ component: 'div' }}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { ContentCopy as CopyIcon, LinkOff as LinkOffIcon } from '@mui/icons-material';
+
+// 分享链接（接口不返回快照和密码）
+interface ConversationShare {
+  id: string;
+  token: string;
+  title: string;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  viewCount: number;
+  createdAt: string;
+}
+
+interface ConversationShareDialogProps {
+  open: boolean;
+  conversationId: string;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 0, label: '永不过期' },
+  { value: 1, label: '1 天' },
+  { value: 7, label: '7 天' },
+  { value: 30, label: '30 天' }
+];
+
+const getShareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+export function ConversationShareDialog({
+  open,
+  conversationId,
+  onClose
+}: ConversationShareDialogProps) {
+  const [shares, setShares] = useState<ConversationShare[]>([]);
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !conversationId) return;
+
+    setPassword('');
+    setError(null);
+    setNotice(null);
+    setIsLoading(true);
+    fetch(`/api/conversations/${conversationId}/shares`)
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(`${response.status}`))))
+      .then(setShares)
+      .catch(() => setError('加载分享链接失败'))
+      .finally(() => setIsLoading(false));
+  }, [open, conversationId]);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(token));
+      setNotice('链接已复制到剪贴板');
+    } catch {
+      setNotice(`复制失败，请手动复制：${getShareUrl(token)}`);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          password: password || undefined,
+          expiresAt: expiryDays ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString() : undefined
+        })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `请求失败: ${response.status}`);
+      }
+      setShares(prev => [data, ...prev]);
+      setPassword('');
+      await copyLink(data.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '创建分享链接失败');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    const response = await fetch(`/api/shares/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      setError('撤销分享链接失败');
+      return;
+    }
+    setShares(prev => prev.filter(share => share.id !== id));
+    setNotice('分享链接已撤销，之后无法再访问');
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>分享对话</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            分享链接包含对话当前分支的快照，之后的消息不会出现在分享中。任何拿到链接（和密码）的人都可以查看。
+          </Typography>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              select
+              size="small"
+              label="有效期"
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(Number(e.target.value))}
+              sx={{ minWidth: 140 }}
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              type="password"
+              label="访问密码（可选）"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              fullWidth
+            />
+          </Stack>
+          {error && <Alert severity="error">{error}</Alert>}
+          {notice && <Alert severity="success">{notice}</Alert>}
+
+          <Typography variant="subtitle2">已创建的链接</Typography>
+          {isLoading ? (
+            <CircularProgress size={24} sx={{ alignSelf: 'center' }} />
+          ) : shares.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">还没有分享链接</Typography>
+          ) : (
+            <List dense disablePadding>
+              {shares.map(share => {
+                const expired = share.expiresAt && new Date(share.expiresAt).getTime() <= Date.now();
+                return (
+                  <ListItem
+                    key={share.id}
+                    divider
+                    secondaryAction={
+                      <>
+                        <Tooltip title="复制链接">
+                          <span>
+                            <IconButton size="small" onClick={() => copyLink(share.token)} disabled={!!expired}>
+                              <CopyIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="撤销">
+                          <IconButton size="small" edge="end" onClick={() => handleRevoke(share.id)}>
+                            <LinkOffIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    }
+                  >
+                    <ListItemText
+                      primary={`/share/${share.token.slice(0, 8)}…`}
+                      secondary={[
+                        `创建于 ${new Date(share.createdAt).toLocaleString('zh-CN')}`,
+                        share.expiresAt
+                          ? (expired ? '已过期' : `${new Date(share.expiresAt).toLocaleString('zh-CN')} 过期`)
+                          : '永不过期',
+                        share.hasPassword ? '有密码' : '',
+                        `${share.viewCount} 次查看`
+                      ].filter(Boolean).join(' · ')}
+                      primaryTypographyProps={{ fontFamily: 'monospace' }}
+                    />
+                  </ListItem>
+                );
+              })}
+            </List>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>关闭</Button>
+        <Button
+          variant="contained"
+          onClick={handleCreate}
+          disabled={isCreating || !conversationId}
+          startIcon={isCreating ? <CircularProgress size={16} /> : undefined}
+        >
+          创建并复制链接
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,694 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  DndContext,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Archive as ArchiveIcon,
+  Checklist as ChecklistIcon,
+  CreateNewFolder as CreateNewFolderIcon,
+  Delete as DeleteIcon,
+  DriveFileMove as DriveFileMoveIcon,
+  FilterList as FilterListIcon,
+  Folder as FolderIcon,
+  FolderOpen as FolderOpenIcon,
+  History as HistoryIcon,
+  MoreVert as MoreVertIcon,
+  PushPin as PushPinIcon,
+  Unarchive as UnarchiveIcon
+} from '@mui/icons-material';
+import {
+  MAX_FOLDER_NAME_LENGTH,
+  MAX_TAGS,
+  type BulkAction,
+  type ConversationFilters
+} from '@/lib/conversation-filters';
+import type { ArchivedFilter } from '@/lib/conversation-search';
+
+export interface SidebarConversation {
+  id: string;
+  title: string;
+  folderId?: string | null;
+  tags?: string[];
+  isPinned?: boolean;
+  isArchived?: boolean;
+}
+
+interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
+
+interface ConversationSidebarProps {
+  conversations: SidebarConversation[];
+  currentChatId?: string;
+  filters: ConversationFilters;
+  onFiltersChange: (filters: ConversationFilters) => void;
+  onSelectChat: (id: string) => void;
+  onDeleteChat: (id: string) => void;
+  onChanged: (deletedIds?: string[]) => void; // 对话移动、归档、删除或修改标签后重新加载列表
+}
+
+const ARCHIVED_OPTIONS: Array<{ value: ArchivedFilter; label: string }> = [
+  { value: 'exclude', label: '不含已归档' },
+  { value: 'include', label: '包含已归档' },
+  { value: 'only', label: '仅已归档' }
+];
+
+// 拖放目标：文件夹或顶层（移出文件夹）
+const ROOT_DROP_ID = 'drop:root';
+const folderDropId = (folderId: string) => `drop:${folderId}`;
+
+const requestJson = async (url: string, method: string, body?: unknown) => {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `请求失败: ${response.status}`);
+  }
+  return data;
+};
+
+function DraggableItem({ id, children }: { id: string; children: React.ReactNode }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id });
+  return (
+    <div ref={setNodeRef} {...attributes} {...listeners} style={{ opacity: isDragging ? 0.5 : 1 }}>
+      {children}
+    </div>
+  );
+}
+
+function DropArea({ id, children }: { id: string; children: React.ReactNode }) {
+  const { setNodeRef, isOver } = useDroppable({ id });
+  return (
+    <Box ref={setNodeRef} sx={{ borderRadius: 1, bgcolor: isOver ? 'action.selected' : undefined }}>
+      {children}
+    </Box>
+  );
+}
+
+function FolderNameDialog({
+  open,
+  title,
+  initialName,
+  onClose,
+  onSave
+}: {
+  open: boolean;
+  title: string;
+  initialName: string;
+  onClose: () => void;
+  onSave: (name: string) => void;
+}) {
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) onSave(name.trim());
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            label="文件夹名称"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            inputProps={{ maxLength: MAX_FOLDER_NAME_LENGTH }}
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>取消</Button>
+          <Button type="submit" variant="contained" disabled={!name.trim()}>保存</Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+function TagDialog({
+  conversation,
+  options,
+  onClose,
+  onSave
+}: {
+  conversation: SidebarConversation | null;
+  options: string[];
+  onClose: () => void;
+  onSave: (tags: string[]) => void;
+}) {
+  const [tags, setTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (conversation) setTags(conversation.tags ?? []);
+  }, [conversation]);
+
+  return (
+    <Dialog open={!!conversation} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>编辑标签</DialogTitle>
+      <DialogContent>
+        <Autocomplete
+          multiple
+          freeSolo
+          options={options}
+          value={tags}
+          onChange={(_, value) => setTags(value.map(tag => tag.trim()).filter(Boolean).slice(0, MAX_TAGS))}
+          renderInput={(params) => (
+            <TextField {...params} size="small" label="标签" placeholder="输入后按回车添加" sx={{ mt: 1 }} />
+          )}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>取消</Button>
+        <Button variant="contained" onClick={() => onSave(tags)}>保存</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+/**
+ * 侧边栏的会话列表：文件夹（可拖放、最多嵌套一层）、标签、筛选和批量操作
+ */
+export function ConversationSidebar({
+  conversations,
+  currentChatId,
+  filters,
+  onFiltersChange,
+  onSelectChat,
+  onDeleteChat,
+  onChanged
+}: ConversationSidebarProps) {
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<string[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // 新建或重命名文件夹
+  const [folderDialog, setFolderDialog] = useState<{ folder?: Folder; parentId?: string | null } | null>(null);
+  const [tagTarget, setTagTarget] = useState<SidebarConversation | null>(null);
+  const [folderMenu, setFolderMenu] = useState<{ anchor: HTMLElement; folder: Folder } | null>(null);
+  const [conversationMenu, setConversationMenu] = useState<{ anchor: HTMLElement; conversation: SidebarConversation } | null>(null);
+  const [moveMenu, setMoveMenu] = useState<{ anchor: HTMLElement; ids: string[] } | null>(null);
+  const [deleteFolderTarget, setDeleteFolderTarget] = useState<Folder | null>(null);
+  const [confirmBulkDelete, setConfirmBulkDelete] = useState(false);
+
+  // 移动一点距离后才开始拖动，不影响点击
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  const loadFolders = useCallback(async () => {
+    try {
+      setFolders(await requestJson('/api/folders', 'GET'));
+    } catch (err) {
+      console.error('加载文件夹失败:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFolders();
+  }, [loadFolders]);
+
+  // 对话列表变化后标签可能有增减
+  useEffect(() => {
+    requestJson('/api/conversations/tags', 'GET')
+      .then((tags: Array<{ tag: string }>) => setAvailableTags(tags.map(item => item.tag)))
+      .catch(err => console.error('加载标签失败:', err));
+  }, [conversations]);
+
+  // 列表刷新后去掉已经不在列表中的选择
+  useEffect(() => {
+    setSelectedIds(prev => prev.filter(id => conversations.some(c => c.id === id)));
+  }, [conversations]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const folderIds = new Set(folders.map(folder => folder.id));
+  const topFolders = folders.filter(folder => !folder.parentId);
+  const subfoldersOf = (folderId: string) => folders.filter(folder => folder.parentId === folderId);
+  // 文件夹已被删除时对话显示为未归类
+  const conversationsIn = (folderId: string | null) => conversations.filter(conversation => (
+    (conversation.folderId && folderIds.has(conversation.folderId) ? conversation.folderId : null) === folderId
+  ));
+
+  const bulkUpdate = (ids: string[], action: BulkAction, folderId?: string | null) => run(async () => {
+    await requestJson('/api/conversations/bulk', 'POST', { ids, action, folderId });
+    onChanged(action === 'delete' ? ids : undefined);
+  }, '操作失败');
+
+  const moveConversations = (ids: string[], folderId: string | null) => {
+    if (ids.every(id => (conversations.find(c => c.id === id)?.folderId ?? null) === folderId)) return;
+    bulkUpdate(ids, 'move', folderId);
+  };
+
+  const moveFolder = (folder: Folder, parentId: string | null) => {
+    if (folder.parentId === parentId || folder.id === parentId) return;
+    if (parentId && (folders.find(f => f.id === parentId)?.parentId || subfoldersOf(folder.id).length > 0)) {
+      setError('文件夹最多只能嵌套一层');
+      return;
+    }
+    run(async () => {
+      await requestJson(`/api/folders/${folder.id}`, 'PATCH', { parentId });
+      await loadFolders();
+    }, '移动文件夹失败');
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over) return;
+    const targetFolderId = over.id === ROOT_DROP_ID ? null : String(over.id).slice('drop:'.length);
+    const [type, id] = String(active.id).split(':');
+
+    if (type === 'conversation') {
+      // 拖动已选中的对话时移动所有选中的对话
+      moveConversations(selectedIds.includes(id) ? selectedIds : [id], targetFolderId);
+    } else {
+      const folder = folders.find(f => f.id === id);
+      if (folder) moveFolder(folder, targetFolderId);
+    }
+  };
+
+  const handleSaveFolder = (name: string) => {
+    const dialog = folderDialog;
+    setFolderDialog(null);
+    run(async () => {
+      if (dialog?.folder) {
+        await requestJson(`/api/folders/${dialog.folder.id}`, 'PATCH', { name });
+      } else {
+        await requestJson('/api/folders', 'POST', { name, parentId: dialog?.parentId ?? null });
+      }
+      await loadFolders();
+    }, '保存文件夹失败');
+  };
+
+  const handleDeleteFolder = () => {
+    const folder = deleteFolderTarget;
+    setDeleteFolderTarget(null);
+    if (!folder) return;
+    run(async () => {
+      await requestJson(`/api/folders/${folder.id}`, 'DELETE');
+      await loadFolders();
+      onChanged();
+    }, '删除文件夹失败');
+  };
+
+  const handleSaveTags = (tags: string[]) => {
+    const conversation = tagTarget;
+    setTagTarget(null);
+    if (!conversation) return;
+    run(async () => {
+      await requestJson(`/api/conversations/${conversation.id}`, 'PATCH', { tags });
+      onChanged();
+    }, '保存标签失败');
+  };
+
+  const toggleFolder = (folderId: string) => {
+    setCollapsedFolderIds(prev => prev.includes(folderId) ? prev.filter(id => id !== folderId) : [...prev, folderId]);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const toggleSelectionMode = () => {
+    setSelectionMode(prev => !prev);
+    setSelectedIds([]);
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    const tags = filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag];
+    onFiltersChange({ ...filters, tags });
+  };
+
+  const activeFilterCount = filters.tags.length + (filters.archived !== 'exclude' ? 1 : 0) + (filters.pinnedOnly ? 1 : 0);
+  const tagOptions = [...new Set([...filters.tags, ...availableTags])];
+  const selectedAllArchived = selectedIds.length > 0
+    && selectedIds.every(id => conversations.find(c => c.id === id)?.isArchived);
+
+  const renderConversation = (conversation: SidebarConversation, depth: number) => (
+    <DraggableItem key={conversation.id} id={`conversation:${conversation.id}`}>
+      <ListItem
+        disablePadding
+        secondaryAction={selectionMode ? undefined : (
+          <IconButton
+            edge="end"
+            size="small"
+            onClick={(e) => setConversationMenu({ anchor: e.currentTarget, conversation })}
+          >
+            <MoreVertIcon fontSize="small" />
+          </IconButton>
+        )}
+      >
+        <ListItemButton
+          selected={conversation.id === currentChatId}
+          onClick={() => selectionMode ? toggleSelected(conversation.id) : onSelectChat(conversation.id)}
+          sx={{ pl: 2 + depth * 2 }}
+        >
+          <ListItemIcon sx={{ minWidth: 36 }}>
+            {selectionMode ? (
+              <Checkbox edge="start" size="small" checked={selectedIds.includes(conversation.id)} disableRipple tabIndex={-1} sx={{ p: 0 }} />
+            ) : conversation.isPinned ? (
+              <PushPinIcon fontSize="small" />
+            ) : (
+              <HistoryIcon fontSize="small" />
+            )}
+          </ListItemIcon>
+          <ListItemText
+            primary={conversation.title || '新会话'}
+            primaryTypographyProps={{ noWrap: true }}
+            secondary={(conversation.tags?.length || conversation.isArchived) ? (
+              <Box component="span" sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+                {conversation.isArchived && <Chip component="span" size="small" label="已归档" sx={{ height: 18, fontSize: 11 }} />}
+                {conversation.tags?.map(tag => (
+                  <Chip key={tag} component="span" size="small" variant="outlined" label={tag} sx={{ height: 18, fontSize: 11 }} />
+                ))}
+              </Box>
+            ) : undefined}
+            secondaryTypographyProps={{ component: 'div' }}
+          />
+        </ListItemButton>
+      </ListItem>
+    </DraggableItem>
+  );
+
+  const renderFolder = (folder: Folder, depth: number) => {
+    const expanded = !collapsedFolderIds.includes(folder.id);
+    const subfolders = depth === 0 ? subfoldersOf(folder.id) : [];
+    const items = conversationsIn(folder.id);
+
+    return (
+      <Box key={folder.id}>
+        <DropArea id={folderDropId(folder.id)}>
+          <DraggableItem id={`folder:${folder.id}`}>
+            <ListItem
+              disablePadding
+              secondaryAction={
+                <IconButton edge="end" size="small" onClick={(e) => setFolderMenu({ anchor: e.currentTarget, folder })}>
+                  <MoreVertIcon fontSize="small" />
+                </IconButton>
+              }
+            >
+              <ListItemButton onClick={() => toggleFolder(folder.id)} sx={{ pl: 2 + depth * 2 }}>
+                <ListItemIcon sx={{ minWidth: 36 }}>
+                  {expanded ? <FolderOpenIcon fontSize="small" /> : <FolderIcon fontSize="small" />}
+                </ListItemIcon>
+                <ListItemText
+                  primary={folder.name}
+                  primaryTypographyProps={{ noWrap: true, fontWeight: 500 }}
+                />
+                <Typography variant="caption" color="text.secondary" sx={{ mr: 1 }}>{items.length}</Typography>
+              </ListItemButton>
+            </ListItem>
+          </DraggableItem>
+        </DropArea>
+        {expanded && (
+          <>
+            {subfolders.map(subfolder => renderFolder(subfolder, depth + 1))}
+            {items.map(conversation => renderConversation(conversation, depth + 1))}
+          </>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" sx={{ px: 2 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1 }}>
+          {conversations.length} 个对话
+        </Typography>
+        <Tooltip title="新建文件夹">
+          <IconButton size="small" onClick={() => setFolderDialog({ parentId: null })}>
+            <CreateNewFolderIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="筛选">
+          <IconButton size="small" color={activeFilterCount > 0 ? 'primary' : 'default'} onClick={() => setShowFilters(prev => !prev)}>
+            <FilterListIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title={selectionMode ? '退出多选' : '多选'}>
+          <IconButton size="small" color={selectionMode ? 'primary' : 'default'} onClick={toggleSelectionMode}>
+            <ChecklistIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+
+      {showFilters && (
+        <Stack spacing={1.5} sx={{ px: 2, py: 1 }}>
+          {tagOptions.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+              {tagOptions.map(tag => (
+                <Chip
+                  key={tag}
+                  size="small"
+                  label={tag}
+                  color={filters.tags.includes(tag) ? 'primary' : 'default'}
+                  variant={filters.tags.includes(tag) ? 'filled' : 'outlined'}
+                  onClick={() => toggleTagFilter(tag)}
+                />
+              ))}
+            </Box>
+          )}
+          <TextField
+            select
+            size="small"
+            label="归档"
+            value={filters.archived}
+            onChange={(e) => onFiltersChange({ ...filters, archived: e.target.value as ArchivedFilter })}
+          >
+            {ARCHIVED_OPTIONS.map(option => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </TextField>
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={filters.pinnedOnly}
+                onChange={(e) => onFiltersChange({ ...filters, pinnedOnly: e.target.checked })}
+              />
+            }
+            label="仅置顶的对话"
+          />
+        </Stack>
+      )}
+
+      {selectionMode && (
+        <Stack direction="row" alignItems="center" spacing={0.5} sx={{ px: 2, py: 0.5, bgcolor: 'action.hover' }}>
+          <Typography variant="body2" sx={{ flexGrow: 1 }}>已选 {selectedIds.length} 个</Typography>
+          <Button size="small" onClick={() => setSelectedIds(conversations.map(c => c.id))}>全选</Button>
+          <Tooltip title="移动到文件夹">
+            <span>
+              <IconButton size="small" disabled={selectedIds.length === 0} onClick={(e) => setMoveMenu({ anchor: e.currentTarget, ids: selectedIds })}>
+                <DriveFileMoveIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={selectedAllArchived ? '取消归档' : '归档'}>
+            <span>
+              <IconButton
+                size="small"
+                disabled={selectedIds.length === 0}
+                onClick={() => bulkUpdate(selectedIds, selectedAllArchived ? 'unarchive' : 'archive')}
+              >
+                {selectedAllArchived ? <UnarchiveIcon fontSize="small" /> : <ArchiveIcon fontSize="small" />}
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="删除">
+            <span>
+              <IconButton size="small" disabled={selectedIds.length === 0} onClick={() => setConfirmBulkDelete(true)}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Stack>
+      )}
+
+      {error && <Alert severity="error" onClose={() => setError(null)} sx={{ mx: 2, my: 1 }}>{error}</Alert>}
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <List dense>
+          {topFolders.map(folder => renderFolder(folder, 0))}
+          <DropArea id={ROOT_DROP_ID}>
+            {topFolders.length > 0 && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', px: 2, pt: 1 }}>
+                未归类（拖到这里移出文件夹）
+              </Typography>
+            )}
+            {conversationsIn(null).map(conversation => renderConversation(conversation, 0))}
+          </DropArea>
+        </List>
+      </DndContext>
+
+      <Menu anchorEl={folderMenu?.anchor} open={!!folderMenu} onClose={() => setFolderMenu(null)}>
+        {folderMenu && !folderMenu.folder.parentId && (
+          <MenuItem onClick={() => { setFolderDialog({ parentId: folderMenu.folder.id }); setFolderMenu(null); }}>
+            新建子文件夹
+          </MenuItem>
+        )}
+        <MenuItem onClick={() => { setFolderDialog({ folder: folderMenu?.folder }); setFolderMenu(null); }}>
+          重命名
+        </MenuItem>
+        {folderMenu?.folder.parentId && (
+          <MenuItem onClick={() => { moveFolder(folderMenu.folder, null); setFolderMenu(null); }}>
+            移到顶层
+          </MenuItem>
+        )}
+        <MenuItem onClick={() => { setDeleteFolderTarget(folderMenu?.folder ?? null); setFolderMenu(null); }} sx={{ color: 'error.main' }}>
+          删除
+        </MenuItem>
+      </Menu>
+
+      <Menu anchorEl={conversationMenu?.anchor} open={!!conversationMenu} onClose={() => setConversationMenu(null)}>
+        <MenuItem onClick={() => { setTagTarget(conversationMenu?.conversation ?? null); setConversationMenu(null); }}>
+          编辑标签
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            if (conversationMenu) setMoveMenu({ anchor: conversationMenu.anchor, ids: [conversationMenu.conversation.id] });
+            setConversationMenu(null);
+          }}
+        >
+          移动到文件夹
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            if (conversationMenu) {
+              const { conversation } = conversationMenu;
+              bulkUpdate([conversation.id], conversation.isArchived ? 'unarchive' : 'archive');
+            }
+            setConversationMenu(null);
+          }}
+        >
+          {conversationMenu?.conversation.isArchived ? '取消归档' : '归档'}
+        </MenuItem>
+        <MenuItem
+          onClick={() => { if (conversationMenu) onDeleteChat(conversationMenu.conversation.id); setConversationMenu(null); }}
+          sx={{ color: 'error.main' }}
+        >
+          删除
+        </MenuItem>
+      </Menu>
+
+      <Menu anchorEl={moveMenu?.anchor} open={!!moveMenu} onClose={() => setMoveMenu(null)}>
+        <MenuItem onClick={() => { if (moveMenu) moveConversations(moveMenu.ids, null); setMoveMenu(null); }}>
+          移出文件夹
+        </MenuItem>
+        {topFolders.flatMap(folder => [folder, ...subfoldersOf(folder.id)]).map(folder => (
+          <MenuItem
+            key={folder.id}
+            onClick={() => { if (moveMenu) moveConversations(moveMenu.ids, folder.id); setMoveMenu(null); }}
+            sx={{ pl: folder.parentId ? 4 : 2 }}
+          >
+            {folder.name}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <FolderNameDialog
+        open={!!folderDialog}
+        title={folderDialog?.folder ? '重命名文件夹' : folderDialog?.parentId ? '新建子文件夹' : '新建文件夹'}
+        initialName={folderDialog?.folder?.name ?? ''}
+        onClose={() => setFolderDialog(null)}
+        onSave={handleSaveFolder}
+      />
+
+      <TagDialog
+        conversation={tagTarget}
+        options={availableTags}
+        onClose={() => setTagTarget(null)}
+        onSave={handleSaveTags}
+      />
+
+      <Dialog open={!!deleteFolderTarget} onClose={() => setDeleteFolderTarget(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>删除文件夹</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            删除「{deleteFolderTarget?.name}」及其子文件夹，其中的对话会移出文件夹，不会被删除。
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteFolderTarget(null)}>取消</Button>
+          <Button color="error" variant="contained" onClick={handleDeleteFolder}>删除</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={confirmBulkDelete} onClose={() => setConfirmBulkDelete(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>删除对话</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            确定删除选中的 {selectedIds.length} 个对话吗？删除后无法恢复。
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmBulkDelete(false)}>取消</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={() => {
+              setConfirmBulkDelete(false);
+              bulkUpdate(selectedIds, 'delete');
+            }}
+          >
+            删除
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
@@ -10,14 +11,40 @@ import 'katex/dist/katex.min.css';
 
 interface MarkdownRendererProps {
   content: string;
+  reasoning?: string; // 推理模型的思考过程，显示在正文之前
   className?: string;
   isStreaming?: boolean;
   randomChars?: string;
   isLoading?: boolean;
 }
 
+// 可折叠的思考过程：用户没有手动展开或收起时，思考中展开，开始输出正文后收起
+function ReasoningSection({ reasoning, isThinking }: { reasoning: string; isThinking: boolean }) {
+  const [expanded, setExpanded] = useState<boolean | null>(null);
+  const open = expanded ?? isThinking;
+
+  return (
+    <div className="not-prose mb-3">
+      <button
+        type="button"
+        onClick={() => setExpanded(!open)}
+        className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+      >
+        <span className={`inline-block transition-transform ${open ? 'rotate-90' : ''}`}>▶</span>
+        {isThinking ? '思考中…' : '思考过程'}
+      </button>
+      {open && (
+        <div className="mt-2 border-l-2 border-gray-300 dark:border-gray-600 pl-3 text-xs leading-relaxed text-gray-500 dark:text-gray-400 whitespace-pre-wrap">
+          {reasoning}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function MarkdownRenderer({ 
   content, 
+  reasoning = '',
   className = '', 
   isStreaming = false, 
   randomChars = '',
@@ -27,6 +54,7 @@ export function MarkdownRenderer({
 
   return (
     <div className={`prose prose-sm dark:prose-invert max-w-none ${className} ${isStreaming ? 'streaming-content' : ''}`}>
+      {reasoning && <ReasoningSection reasoning={reasoning} isThinking={isStreaming && !content} />}
       <ReactMarkdown
         remarkPlugins={[remarkGfm, remarkMath]}
         rehypePlugins={[rehypeKatex]}
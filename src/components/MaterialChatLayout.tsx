@@ -21,11 +21,15 @@ import {
   Menu,
   MenuItem,
   Avatar,
-  Stack
+  Stack,
+  Button,
+  CircularProgress,
+  Chip
 } from '@mui/material';
 import { 
   Menu as MenuIcon,
   Send as SendIcon,
+  Stop as StopIcon,
   Add as AddIcon,
   Delete as DeleteIcon,
   MoreVert as MoreVertIcon,
@@ -37,18 +41,41 @@ import {
   SmartToy as SmartToyIcon,
   ContentCopy as CopyIcon,
   Edit as EditIcon,
-  Refresh as RefreshIcon
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  Tune as TuneIcon,
+  CompareArrows as CompareArrowsIcon,
+  FileDownload as FileDownloadIcon,
+  FileUpload as FileUploadIcon,
+  Share as ShareIcon,
+  AttachFile as AttachFileIcon
 } from '@mui/icons-material';
 import { ThemeToggle } from './MaterialUI';
 import { useTheme } from '@/contexts/ThemeContext';
 import { sortGroupsByUserOrder, getModelGroups } from '@/utils/aiModelUtils';
 import { AIIcon } from './AIIcon';
 import { MessageActions } from './MessageActions';
+import { AttachmentList } from './AttachmentList';
+import { ToolCallList } from './ToolCallList';
+import { ConversationSearch, type ConversationSearchResult } from './ConversationSearch';
+import { ATTACHMENT_ACCEPT, type AttachmentInfo } from '@/lib/attachments';
+import type { ToolCallRecord } from '@/lib/tools/catalog';
+import {
+  MODEL_CAPABILITY_KEYS,
+  MODEL_CAPABILITY_LABELS,
+  formatTokenLength,
+  getModelCapabilityKeys,
+  type ModelCapabilities,
+  type ModelCapabilityKey
+} from '@/lib/model-capabilities';
 
 interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  attachments?: AttachmentInfo[];
+  toolCalls?: ToolCallRecord[]; // 生成回复时的工具调用
+  reasoning?: string; // 推理模型的思考过程
   timestamp?: Date;
   modelInfo?: {
     modelId: string;
@@ -60,6 +87,7 @@ interface ChatMessage {
     prompt_tokens?: number;
     completion_tokens?: number;
     total_tokens?: number;
+    completion_tokens_details?: { reasoning_tokens?: number }; // 输出中的思考 Token
     is_estimated?: boolean;
   };
 }
@@ -78,9 +106,13 @@ interface MaterialChatLayoutProps {
   isLoadingHistory?: boolean; // 添加历史记录加载状态
   onInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onSend: () => void;
+  onStop?: () => void; // 停止生成
   onNewChat: () => void;
   onSelectChat: (id: string) => void;
   onDeleteChat: (id: string) => void;
+  onSelectSearchResult?: (result: ConversationSearchResult) => void; // 打开搜索结果所在的对话并跳转到消息
+  highlightedMessageId?: string | null; // 滚动到并突出显示的消息（搜索结果）
+  historyList?: ReactNode; // 替换默认的会话列表（文件夹、标签和批量操作）
   onKeyPress?: (e: React.KeyboardEvent) => void;
   onLogout?: () => void;
   onSettings?: () => void;
@@ -92,7 +124,8 @@ interface MaterialChatLayoutProps {
     id: string, 
     name: string,
     group?: string,
-    provider?: string
+    provider?: string,
+    capabilities?: ModelCapabilities
   }>;
   modelGroups?: Array<{ groupName: string; order: number }>;
   onModelSelect?: (modelId: string) => void;
@@ -103,6 +136,22 @@ interface MaterialChatLayoutProps {
   onDeleteMessage?: (messageId: string) => void;
   onEditMessage?: (messageId: string, content: string) => void;
   onRetryMessage?: (messageId: string) => void;
+  messageBranches?: Record<string, { index: number; count: number }>; // 有多个版本的消息
+  onSwitchBranch?: (messageId: string, offset: number) => void;
+  presets?: Array<{ id: string; name: string; isShared: boolean }>; // 新对话可选的提示词预设
+  selectedPresetId?: string;
+  onPresetSelect?: (presetId: string) => void;
+  onManagePresets?: () => void;
+  onOpenSettings?: () => void; // 打开对话的高级设置（采样参数）
+  onOpenCompare?: () => void; // 打开多模型对比
+  onOpenExport?: () => void; // 打开对话导出
+  onOpenImport?: () => void; // 打开从其他应用导入对话
+  onOpenShare?: () => void; // 打开当前对话的分享链接
+  contextInfo?: { excluded: number; summarized: boolean } | null; // 最近一次请求中超出上下文长度的较早消息
+  attachments?: AttachmentInfo[]; // 输入框中待发送的附件
+  isUploading?: boolean;
+  onAttachFiles?: (files: File[]) => void;
+  onRemoveAttachment?: (id: string) => void;
   drawerOpen?: boolean;
   onDrawerToggle?: () => void;
 }
@@ -118,9 +167,13 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
   isLoadingHistory = false,
   onInputChange,
   onSend,
+  onStop,
   onNewChat,
   onSelectChat,
   onDeleteChat,
+  onSelectSearchResult,
+  highlightedMessageId = null,
+  historyList,
   onKeyPress,
   onLogout,
   onSettings,
@@ -138,6 +191,22 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
   onDeleteMessage,
   onEditMessage,
   onRetryMessage,
+  messageBranches = {},
+  onSwitchBranch,
+  presets = [],
+  selectedPresetId = '',
+  onPresetSelect,
+  onManagePresets,
+  onOpenSettings,
+  onOpenCompare,
+  onOpenExport,
+  onOpenImport,
+  onOpenShare,
+  contextInfo = null,
+  attachments = [],
+  isUploading = false,
+  onAttachFiles,
+  onRemoveAttachment,
   drawerOpen = false,
   onDrawerToggle
 }) => {
@@ -146,6 +215,11 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
   const [modelMenuAnchorEl, setModelMenuAnchorEl] = React.useState<null | HTMLElement>(null);
   const [isEditingTitle, setIsEditingTitle] = React.useState(false);
   const [editableTitle, setEditableTitle] = React.useState(chatTitle);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  // 模型选择器中按能力筛选
+  const [capabilityFilter, setCapabilityFilter] = React.useState<ModelCapabilityKey[]>([]);
+  // 侧边栏有搜索词时隐藏会话列表
+  const [isSearchActive, setIsSearchActive] = React.useState(false);
   const { mode } = useTheme();
   
   // 创建消息气泡的引用数组 - 移到组件顶层，避免hooks顺序问题
@@ -160,6 +234,12 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
       }
     });
   }, [messages]);
+
+  // 消息加载完成后滚动到突出显示的消息
+  React.useEffect(() => {
+    if (!highlightedMessageId || isLoadingHistory) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedMessageId, isLoadingHistory, messages]);
   
   const handleMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorEl(event.currentTarget);
@@ -189,6 +269,11 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
     if (onSettings) onSettings();
   };
 
+  const handleImport = () => {
+    handleMenuClose();
+    if (onOpenImport) onOpenImport();
+  };
+
   const handleLogout = () => {
     handleMenuClose();
     if (onLogout) onLogout();
@@ -257,38 +342,49 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
           <Typography>新建会话</Typography>
         </Box>
       </Box>
-      <List sx={{ overflow: 'auto', flexGrow: 1 }}>
-        {chatHistories.map((chat) => (
-          <ListItem 
-            key={chat.id}
-            disablePadding
-            secondaryAction={
-              <IconButton 
-                edge="end" 
-                onClick={(e) => { 
-                  e.stopPropagation();
-                  onDeleteChat(chat.id);
-                }}
+      <Box sx={{ overflow: 'auto', flexGrow: 1 }}>
+        {onSelectSearchResult && (
+          <ConversationSearch
+            models={models}
+            onSelect={onSelectSearchResult}
+            onActiveChange={setIsSearchActive}
+          />
+        )}
+        {!isSearchActive && (historyList ?? (
+          <List>
+            {chatHistories.map((chat) => (
+              <ListItem 
+                key={chat.id}
+                disablePadding
+                secondaryAction={
+                  <IconButton 
+                    edge="end" 
+                    onClick={(e) => { 
+                      e.stopPropagation();
+                      onDeleteChat(chat.id);
+                    }}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                }
               >
-                <DeleteIcon fontSize="small" />
-              </IconButton>
-            }
-          >
-            <ListItemButton onClick={() => onSelectChat(chat.id)}>
-              <ListItemIcon>
-                <HistoryIcon />
-              </ListItemIcon>
-              <ListItemText 
-                primary={chat.title || '新会话'} 
-                primaryTypographyProps={{ 
-                  noWrap: true,
-                  sx: { maxWidth: '160px' }
-                }}
-              />
-            </ListItemButton>
-          </ListItem>
+                <ListItemButton onClick={() => onSelectChat(chat.id)}>
+                  <ListItemIcon>
+                    <HistoryIcon />
+                  </ListItemIcon>
+                  <ListItemText 
+                    primary={chat.title || '新会话'} 
+                    primaryTypographyProps={{ 
+                      noWrap: true,
+                      sx: { maxWidth: '160px' }
+                    }}
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+          </List>
         ))}
-      </List>
+      </Box>
       <Box sx={{ p: 2, display: 'flex', justifyContent: 'center' }}>
         <ThemeToggle />
       </Box>
@@ -298,9 +394,12 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
   // 获取带有自定义分组的模型数据
   const getGroupedModels = () => {
     // 首先按分组归类模型
-    const modelsByGroup: Record<string, Array<{id: string, name: string, provider?: string}>> = {};
+    const modelsByGroup: Record<string, Array<{id: string, name: string, provider?: string, capabilities?: ModelCapabilities}>> = {};
     
     models.forEach(model => {
+      // 按能力筛选
+      if (!capabilityFilter.every(key => model.capabilities?.[key])) return;
+
       const groupName = model.group || '其他';
       if (!modelsByGroup[groupName]) {
         modelsByGroup[groupName] = [];
@@ -308,7 +407,8 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
       modelsByGroup[groupName].push({
         id: model.id,
         name: model.name,
-        provider: model.provider
+        provider: model.provider,
+        capabilities: model.capabilities
       });
     });
     
@@ -322,6 +422,12 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
   };
 
   const groupedModels = getGroupedModels();
+  // 只显示至少一个模型具备的能力作为筛选项
+  const capabilityOptions = MODEL_CAPABILITY_KEYS.filter(key => models.some(model => model.capabilities?.[key]));
+
+  const toggleCapabilityFilter = (key: ModelCapabilityKey) => {
+    setCapabilityFilter(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
 
   return (
     <Box sx={{ display: 'flex', height: '100vh', overflow: 'hidden' }}>
@@ -439,11 +545,30 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
                   onClose={handleModelMenuClose}
                   PaperProps={{
                     style: {
-                      maxHeight: 400,
-                      width: 250,
+                      maxHeight: 440,
+                      width: 320,
                     },
                   }}
                 >
+                  {capabilityOptions.length > 0 && (
+                    <Box sx={{ px: 2, pb: 1, display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                      {capabilityOptions.map(key => (
+                        <Chip
+                          key={key}
+                          size="small"
+                          label={MODEL_CAPABILITY_LABELS[key]}
+                          color={capabilityFilter.includes(key) ? 'primary' : 'default'}
+                          variant={capabilityFilter.includes(key) ? 'filled' : 'outlined'}
+                          onClick={() => toggleCapabilityFilter(key)}
+                        />
+                      ))}
+                    </Box>
+                  )}
+                  {groupedModels.length === 0 && (
+                    <Typography variant="body2" color="text.secondary" sx={{ px: 2, py: 1 }}>
+                      没有符合条件的模型
+                    </Typography>
+                  )}
                   {groupedModels.map(({groupName, models: groupModels}) => {
                     return (
                       <div key={groupName}>
@@ -492,9 +617,32 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
                             }}>
                               <AIIcon modelId={groupName} size={16} />
                             </Box>
-                            <Typography variant="body2" noWrap>
-                              {model.name}
-                            </Typography>
+                            <Box sx={{ minWidth: 0, flex: 1 }}>
+                              <Typography variant="body2" noWrap>
+                                {model.name}
+                              </Typography>
+                              {/* 模型能力标签 */}
+                              {model.capabilities && (
+                                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.25 }}>
+                                  {getModelCapabilityKeys(model.capabilities).map(key => (
+                                    <Chip
+                                      key={key}
+                                      size="small"
+                                      label={MODEL_CAPABILITY_LABELS[key]}
+                                      sx={{ height: 18, fontSize: '0.65rem' }}
+                                    />
+                                  ))}
+                                  {model.capabilities.contextLength && (
+                                    <Chip
+                                      size="small"
+                                      variant="outlined"
+                                      label={`${formatTokenLength(model.capabilities.contextLength)} 上下文`}
+                                      sx={{ height: 18, fontSize: '0.65rem' }}
+                                    />
+                                  )}
+                                </Box>
+                              )}
+                            </Box>
                           </MenuItem>
                         ))}
                       </div>
@@ -504,6 +652,38 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
               </>
             )}
             
+            {onOpenCompare && (
+              <Tooltip title="多模型对比">
+                <IconButton color="inherit" onClick={onOpenCompare}>
+                  <CompareArrowsIcon />
+                </IconButton>
+              </Tooltip>
+            )}
+
+            {onOpenShare && (
+              <Tooltip title="分享对话">
+                <IconButton color="inherit" onClick={onOpenShare}>
+                  <ShareIcon />
+                </IconButton>
+              </Tooltip>
+            )}
+
+            {onOpenExport && (
+              <Tooltip title="导出对话">
+                <IconButton color="inherit" onClick={onOpenExport}>
+                  <FileDownloadIcon />
+                </IconButton>
+              </Tooltip>
+            )}
+
+            {onOpenSettings && (
+              <Tooltip title="高级设置">
+                <IconButton color="inherit" onClick={onOpenSettings}>
+                  <TuneIcon />
+                </IconButton>
+              </Tooltip>
+            )}
+
             <IconButton
               aria-label="more"
               aria-controls="menu-appbar"
@@ -536,6 +716,14 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
                   <ListItemText>设置</ListItemText>
                 </MenuItem>
               )}
+              {onOpenImport && (
+                <MenuItem onClick={handleImport}>
+                  <ListItemIcon>
+                    <FileUploadIcon fontSize="small" />
+                  </ListItemIcon>
+                  <ListItemText>导入对话</ListItemText>
+                </MenuItem>
+              )}
               {onLogout && (
                 <MenuItem onClick={handleLogout}>
                   <ListItemIcon>
@@ -619,17 +807,45 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
                 <Typography variant="body1" textAlign="center">
                   开始一个新的对话，输入您的问题或指令。
                 </Typography>
+                {/* 提示词预设：在发送第一条消息前选择 */}
+                {onPresetSelect && (
+                  <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 3 }}>
+                    <TextField
+                      select
+                      size="small"
+                      label="提示词预设"
+                      value={selectedPresetId}
+                      onChange={(e) => onPresetSelect(e.target.value)}
+                      sx={{ minWidth: 220 }}
+                    >
+                      <MenuItem value="">无</MenuItem>
+                      {presets.map(preset => (
+                        <MenuItem key={preset.id} value={preset.id}>
+                          {preset.name}{preset.isShared ? '（共享）' : ''}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    {onManagePresets && (
+                      <Button size="small" onClick={onManagePresets}>
+                        管理预设
+                      </Button>
+                    )}
+                  </Stack>
+                )}
               </Box>
             ) : !isLoadingHistory && (
-              messages.map((message) => {
+              messages.map((message, index) => {
+                const isExcluded = !!contextInfo && index < contextInfo.excluded;
                 return (
+                  <React.Fragment key={message.id}>
                   <Box 
-                    key={message.id} 
+                    id={`message-${message.id}`}
                     sx={{ 
                       display: 'flex', 
                       flexDirection: message.role === 'user' ? 'row-reverse' : 'row',
                       mb: 2,
-                      gap: 1
+                      gap: 1,
+                      opacity: isExcluded ? 0.5 : 1
                     }}
                   >
                     {/* 头像区域 */}
@@ -681,13 +897,27 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
                             : (mode === 'light' ? '#ffffff' : '#1e1e1e'),
                           borderRadius: 2,
                           position: 'relative',
-                          cursor: 'default' // 确保鼠标样式正常
+                          cursor: 'default', // 确保鼠标样式正常
+                          outline: message.id === highlightedMessageId ? '2px solid' : 'none',
+                          outlineColor: 'warning.main'
                         }}
                       >
+                        {message.toolCalls && message.toolCalls.length > 0 && (
+                          <ToolCallList toolCalls={message.toolCalls} />
+                        )}
                         {/* 消息内容或编辑框 */}
                         {renderMessageContent(message)}
                       </Paper>
 
+                      {message.attachments && message.attachments.length > 0 && (
+                        <Box sx={{ mt: 1 }}>
+                          <AttachmentList
+                            attachments={message.attachments}
+                            align={message.role === 'user' ? 'right' : 'left'}
+                          />
+                        </Box>
+                      )}
+
                       {/* 消息操作按钮 - 移至气泡外部 */}
                       <Box 
                         sx={{ 
@@ -697,6 +927,30 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
                           padding: '5px 0', // 添加上下内边距，扩大可点击区域
                         }}
                       >
+                        {/* 版本切换：编辑和重新生成产生的其他版本 */}
+                        {messageBranches[message.id] && (
+                          <Box sx={{ display: 'flex', alignItems: 'center', color: 'text.secondary' }}>
+                            <IconButton
+                              size="small"
+                              title="上一个版本"
+                              disabled={isLoading || messageBranches[message.id].index === 0}
+                              onClick={() => onSwitchBranch?.(message.id, -1)}
+                            >
+                              <ChevronLeftIcon fontSize="small" />
+                            </IconButton>
+                            <Typography variant="caption">
+                              {messageBranches[message.id].index + 1}/{messageBranches[message.id].count}
+                            </Typography>
+                            <IconButton
+                              size="small"
+                              title="下一个版本"
+                              disabled={isLoading || messageBranches[message.id].index === messageBranches[message.id].count - 1}
+                              onClick={() => onSwitchBranch?.(message.id, 1)}
+                            >
+                              <ChevronRightIcon fontSize="small" />
+                            </IconButton>
+                          </Box>
+                        )}
                         <MessageActions
                           content={message.content}
                           messageRole={message.role}
@@ -711,6 +965,17 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
                       </Box>
                     </Box>
                   </Box>
+                  {/* 超出上下文长度的消息在最后一条之后标注 */}
+                  {contextInfo && index === contextInfo.excluded - 1 && (
+                    <Divider sx={{ mb: 2 }}>
+                      <Typography variant="caption" color="text.secondary">
+                        {contextInfo.summarized
+                          ? `以上 ${contextInfo.excluded} 条消息超出上下文长度，已总结为摘要发送给模型`
+                          : `以上 ${contextInfo.excluded} 条消息超出上下文长度，未发送给模型`}
+                      </Typography>
+                    </Divider>
+                  )}
+                  </React.Fragment>
                 );
               })
             )}
@@ -731,25 +996,72 @@ export const MaterialChatLayout: React.FC<MaterialChatLayoutProps> = ({
             width: '100%', 
             mx: 'auto' 
           }}>
+            {attachments.length > 0 && (
+              <Box sx={{ mb: 1 }}>
+                <AttachmentList attachments={attachments} onRemove={onRemoveAttachment} />
+              </Box>
+            )}
             <TextField
               fullWidth
               placeholder="输入消息..."
               value={input}
               onChange={onInputChange}
               onKeyPress={onKeyPress}
+              onPaste={(e) => {
+                // 粘贴的图片和文件作为附件
+                const files = Array.from(e.clipboardData.files);
+                if (files.length > 0 && onAttachFiles) {
+                  e.preventDefault();
+                  onAttachFiles(files);
+                }
+              }}
               disabled={isLoading}
               multiline
               maxRows={4}
               InputProps={{
+                startAdornment: onAttachFiles && (
+                  <InputAdornment position="start">
+                    <Tooltip title="添加图片或文件">
+                      <span>
+                        <IconButton
+                          onClick={() => fileInputRef.current?.click()}
+                          disabled={isLoading || isUploading}
+                        >
+                          {isUploading ? <CircularProgress size={20} /> : <AttachFileIcon />}
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      hidden
+                      accept={ATTACHMENT_ACCEPT}
+                      onChange={(e) => {
+                        const files = Array.from(e.target.files || []);
+                        e.target.value = '';
+                        if (files.length > 0) onAttachFiles(files);
+                      }}
+                    />
+                  </InputAdornment>
+                ),
                 endAdornment: (
                   <InputAdornment position="end">
-                    <IconButton 
-                      onClick={onSend} 
-                      disabled={isLoading || !input.trim()}
-                      color="primary"
-                    >
-                      <SendIcon />
-                    </IconButton>
+                    {isLoading && onStop ? (
+                      <Tooltip title="停止生成">
+                        <IconButton onClick={onStop} color="primary">
+                          <StopIcon />
+                        </IconButton>
+                      </Tooltip>
+                    ) : (
+                      <IconButton 
+                        onClick={onSend} 
+                        disabled={isLoading || isUploading || (!input.trim() && attachments.length === 0)}
+                        color="primary"
+                      >
+                        <SendIcon />
+                      </IconButton>
+                    )}
                   </InputAdornment>
                 )
               }}
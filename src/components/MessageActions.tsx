@@ -30,6 +30,7 @@ interface MessageActionsProps {
     prompt_tokens?: number;
     completion_tokens?: number;
     total_tokens?: number;
+    completion_tokens_details?: { reasoning_tokens?: number }; // 输出中的思考 Token
     is_estimated?: boolean;
   };
   isInMessageBubble?: boolean; // 是否在消息气泡内
@@ -359,11 +360,11 @@ export function MessageActions({
           </IconButton>
         )}
 
-        {messageRole === 'user' && onResend && (
+        {onResend && (
           <IconButton
             onClick={handleResend}
             size="small"
-            title="重新发送"
+            title={messageRole === 'user' ? '重新发送' : '重新生成'}
             sx={{ color: 'text.secondary' }}
           >
             <RefreshIcon fontSize="small" />
@@ -393,7 +394,10 @@ export function MessageActions({
               alignItems: 'center'
             }}
           >
-            [输入: {tokenUsage.prompt_tokens ?? '未知'}, 输出: {tokenUsage.completion_tokens ?? '未知'}]
+            [输入: {tokenUsage.prompt_tokens ?? '未知'}, 输出: {tokenUsage.completion_tokens ?? '未知'}
+            {tokenUsage.completion_tokens_details?.reasoning_tokens
+              ? `, 其中思考: ${tokenUsage.completion_tokens_details.reasoning_tokens}`
+              : ''}]
             {tokenUsage.is_estimated && <span> (估算)</span>}
           </Typography>
         )}
@@ -0,0 +1,372 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { ToolCallList } from '@/components/ToolCallList';
+import { MAX_COMPARE_MODELS, MIN_COMPARE_MODELS } from '@/lib/chat-compare';
+import type { SamplingParams } from '@/lib/sampling';
+import type { ToolCallRecord } from '@/lib/tools/catalog';
+
+interface CompareModel {
+  id: string;
+  name: string;
+  provider?: string;
+}
+
+interface CompareUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+  is_estimated?: boolean;
+}
+
+// 一个模型的回复
+interface CompareColumn {
+  model: CompareModel;
+  status: 'streaming' | 'done' | 'error';
+  content: string;
+  reasoning: string;
+  toolCalls: ToolCallRecord[];
+  error?: string;
+  latencyMs?: number; // 从发送请求到回复结束的时间，收到后才能保留该回复
+  firstTokenMs?: number | null; // 从发送请求到收到第一个字的时间
+  usage?: CompareUsage;
+  cost?: number;
+}
+
+// 用户选择保留的回复
+export interface KeptCompareReply {
+  compareId: string;
+  model: CompareModel;
+  prompt: string;
+  content: string;
+  reasoning: string;
+  toolCalls: ToolCallRecord[];
+  tokenUsage?: CompareUsage;
+}
+
+interface ModelCompareDialogProps {
+  open: boolean;
+  models: CompareModel[]; // 可选择的模型
+  defaultModelIds?: string[];
+  history: Array<{ role: 'user' | 'assistant'; content: string; attachmentIds?: string[] }>; // 当前分支的消息，作为对比的上下文
+  conversationId?: string | null; // 已保存的对话，服务端使用对话的预设和设置
+  parentMessageId?: string | null; // 当前分支的最后一条消息
+  samplingParams: SamplingParams;
+  onClose: () => void;
+  onKeep: (reply: KeptCompareReply) => Promise<void>;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export function ModelCompareDialog({
+  open,
+  models,
+  defaultModelIds = [],
+  history,
+  conversationId,
+  parentMessageId,
+  samplingParams,
+  onClose,
+  onKeep
+}: ModelCompareDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [prompt, setPrompt] = useState('');
+  const [submittedPrompt, setSubmittedPrompt] = useState('');
+  const [columns, setColumns] = useState<CompareColumn[]>([]);
+  const [compareId, setCompareId] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [keepingId, setKeepingId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 每次打开时清空上一次的对比；在渲染时比较 open 的变化，只使用打开那一刻的模型列表，
+  // 之后父组件传入新的数组不会清空正在进行的对比
+  const [wasOpen, setWasOpen] = useState(false);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setSelectedIds(defaultModelIds.filter(id => models.some(m => m.id === id)).slice(0, MAX_COMPARE_MODELS));
+      setPrompt('');
+      setSubmittedPrompt('');
+      setColumns([]);
+      setCompareId('');
+    }
+  }
+
+  const updateColumn = (index: number, update: (column: CompareColumn) => CompareColumn) => {
+    setColumns(prev => prev.map((column, i) => (i === index ? update(column) : column)));
+  };
+
+  // 读取一个模型的流式回复
+  const runModel = async (index: number, model: CompareModel, id: string, text: string, signal: AbortSignal) => {
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          messages: [...history, { role: 'user', content: text }],
+          modelId: model.id,
+          compareId: id,
+          temperature: samplingParams.temperature,
+          max_tokens: samplingParams.maxTokens,
+          top_p: samplingParams.topP,
+          frequency_penalty: samplingParams.frequencyPenalty,
+          presence_penalty: samplingParams.presencePenalty,
+          ...(conversationId && { conversationId, parentMessageId: parentMessageId ?? null })
+        })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `请求失败: ${response.status}`);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) throw new Error('无法读取响应');
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      const handleLine = (line: string) => {
+        if (line.startsWith('[REASONING]')) {
+          const { content } = JSON.parse(line.slice('[REASONING]'.length));
+          updateColumn(index, c => ({ ...c, reasoning: c.reasoning + content }));
+          return;
+        }
+        if (line.startsWith('[TOOL_CALL]')) {
+          const call: ToolCallRecord = JSON.parse(line.slice('[TOOL_CALL]'.length));
+          updateColumn(index, c => ({
+            ...c,
+            toolCalls: c.toolCalls.some(t => t.id === call.id)
+              ? c.toolCalls.map(t => (t.id === call.id ? call : t))
+              : [...c.toolCalls, call]
+          }));
+          return;
+        }
+        if (line.startsWith('[COMPARE_RESULT]')) {
+          const result = JSON.parse(line.slice('[COMPARE_RESULT]'.length));
+          updateColumn(index, c => ({
+            ...c,
+            latencyMs: result.latencyMs,
+            firstTokenMs: result.firstTokenMs,
+            usage: result.usage,
+            cost: result.cost
+          }));
+          return;
+        }
+        const match = line.match(/^data:\s*(.*)$/);
+        if (!match || match[1] === '[DONE]') return;
+        const content = JSON.parse(match[1]).choices?.[0]?.delta?.content;
+        if (content) {
+          updateColumn(index, c => ({ ...c, content: c.content + content }));
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const trimmedLine = line.trim();
+          if (!trimmedLine) continue;
+          try {
+            handleLine(trimmedLine);
+          } catch (err) {
+            console.warn('Failed to parse compare stream line:', trimmedLine, err);
+          }
+        }
+      }
+      updateColumn(index, c => ({ ...c, status: 'done' }));
+    } catch (error) {
+      if (signal.aborted) {
+        updateColumn(index, c => ({ ...c, status: 'done' }));
+        return;
+      }
+      updateColumn(index, c => ({
+        ...c,
+        status: 'error',
+        error: error instanceof Error ? error.message : '请求失败'
+      }));
+    }
+  };
+
+  const handleStart = async () => {
+    const text = prompt.trim();
+    const selected = selectedIds
+      .map(id => models.find(m => m.id === id))
+      .filter((m): m is CompareModel => !!m);
+    if (!text || selected.length < MIN_COMPARE_MODELS) return;
+
+    const id = crypto.randomUUID();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setCompareId(id);
+    setSubmittedPrompt(text);
+    setColumns(selected.map(model => ({ model, status: 'streaming', content: '', reasoning: '', toolCalls: [] })));
+    setIsRunning(true);
+
+    await Promise.all(selected.map((model, index) => runModel(index, model, id, text, abortController.signal)));
+
+    setIsRunning(false);
+    abortControllerRef.current = null;
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleClose = () => {
+    handleStop();
+    onClose();
+  };
+
+  const handleKeep = async (column: CompareColumn) => {
+    setKeepingId(column.model.id);
+    try {
+      await onKeep({
+        compareId,
+        model: column.model,
+        prompt: submittedPrompt,
+        content: column.content,
+        reasoning: column.reasoning,
+        toolCalls: column.toolCalls,
+        tokenUsage: column.usage
+      });
+    } finally {
+      setKeepingId(null);
+    }
+  };
+
+  const canStart = !isRunning && !!prompt.trim() && selectedIds.length >= MIN_COMPARE_MODELS;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xl" fullWidth>
+      <DialogTitle>多模型对比</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <TextField
+            select
+            label={`对比的模型（${MIN_COMPARE_MODELS} - ${MAX_COMPARE_MODELS} 个）`}
+            value={selectedIds}
+            disabled={isRunning}
+            SelectProps={{
+              multiple: true,
+              renderValue: (value) => (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                  {(value as string[]).map(id => (
+                    <Chip key={id} size="small" label={models.find(m => m.id === id)?.name || id} />
+                  ))}
+                </Box>
+              )
+            }}
+            onChange={(e) => {
+              const value = e.target.value as unknown as string[];
+              setSelectedIds(value.slice(0, MAX_COMPARE_MODELS));
+            }}
+          >
+            {models.map(model => (
+              <MenuItem
+                key={model.id}
+                value={model.id}
+                disabled={!selectedIds.includes(model.id) && selectedIds.length >= MAX_COMPARE_MODELS}
+              >
+                <Checkbox size="small" checked={selectedIds.includes(model.id)} />
+                <ListItemText primary={model.name} secondary={model.provider} />
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            label="问题"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            disabled={isRunning}
+            multiline
+            minRows={2}
+            maxRows={6}
+            helperText={history.length > 0 ? `当前对话的 ${history.length} 条消息会作为上下文一起发送` : undefined}
+          />
+
+          {columns.length > 0 && (
+            <Box
+              sx={{
+                display: 'grid',
+                gap: 2,
+                gridTemplateColumns: { xs: '1fr', md: `repeat(${columns.length}, minmax(0, 1fr))` }
+              }}
+            >
+              {columns.map(column => (
+                <Paper key={column.model.id} variant="outlined" sx={{ p: 2, display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                    <Typography variant="subtitle2" noWrap sx={{ flex: 1 }}>
+                      {column.model.name}
+                    </Typography>
+                    {column.status === 'streaming' && <CircularProgress size={14} />}
+                  </Box>
+                  <Typography variant="caption" color="text.secondary" sx={{ mb: 1 }}>
+                    {column.latencyMs !== undefined ? (
+                      <>
+                        {column.firstTokenMs != null && `首字 ${formatSeconds(column.firstTokenMs)} · `}
+                        总耗时 {formatSeconds(column.latencyMs)}
+                        {' · '}{column.usage?.total_tokens ?? 0} tokens
+                        {column.usage?.is_estimated && '（估算）'}
+                        {' · '}${(column.cost ?? 0).toFixed(4)}
+                      </>
+                    ) : column.model.provider}
+                  </Typography>
+                  <Box sx={{ flex: 1, maxHeight: '55vh', overflow: 'auto' }}>
+                    {column.toolCalls.length > 0 && <ToolCallList toolCalls={column.toolCalls} />}
+                    {column.status === 'error' ? (
+                      <Typography variant="body2" color="error">{column.error}</Typography>
+                    ) : (
+                      <MarkdownRenderer
+                        content={column.content}
+                        reasoning={column.reasoning}
+                        isStreaming={column.status === 'streaming'}
+                      />
+                    )}
+                  </Box>
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    sx={{ mt: 1.5, alignSelf: 'flex-start' }}
+                    disabled={isRunning || column.latencyMs === undefined || keepingId !== null}
+                    onClick={() => handleKeep(column)}
+                  >
+                    {keepingId === column.model.id ? '保存中...' : '保留此回答'}
+                  </Button>
+                </Paper>
+              ))}
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>关闭</Button>
+        {isRunning ? (
+          <Button color="error" onClick={handleStop}>停止</Button>
+        ) : (
+          <Button variant="contained" onClick={handleStart} disabled={!canStart}>开始对比</Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
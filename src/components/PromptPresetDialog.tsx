@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Delete as DeleteIcon, Edit as EditIcon } from '@mui/icons-material';
+
+export interface PromptPreset {
+  id: string;
+  userId: string;
+  name: string;
+  systemPrompt: string;
+  modelId: string | null;
+  isShared: boolean;
+  temperature: number | null;
+  maxTokens: number | null;
+  topP: number | null;
+  frequencyPenalty: number | null;
+  presencePenalty: number | null;
+}
+
+interface PromptPresetDialogProps {
+  open: boolean;
+  presets: PromptPreset[];
+  models: Array<{ id: string; name: string; provider?: string }>;
+  userId: string;
+  isAdmin: boolean; // 管理员可以创建和修改共享预设
+  onClose: () => void;
+  onChange: () => void; // 预设变更后重新加载列表
+}
+
+// 表单中的采样参数字段
+const SAMPLING_FIELDS = [
+  { key: 'temperature', label: '温度 (0-2)', step: 0.1 },
+  { key: 'maxTokens', label: '最大 Token 数', step: 1 },
+  { key: 'topP', label: 'Top P (0-1)', step: 0.05 },
+  { key: 'frequencyPenalty', label: '频率惩罚 (-2-2)', step: 0.1 },
+  { key: 'presencePenalty', label: '存在惩罚 (-2-2)', step: 0.1 },
+] as const;
+
+type SamplingKey = typeof SAMPLING_FIELDS[number]['key'];
+
+interface PresetForm {
+  name: string;
+  systemPrompt: string;
+  modelId: string;
+  isShared: boolean;
+  sampling: Record<SamplingKey, string>;
+}
+
+const emptyForm = (): PresetForm => ({
+  name: '',
+  systemPrompt: '',
+  modelId: '',
+  isShared: false,
+  sampling: { temperature: '', maxTokens: '', topP: '', frequencyPenalty: '', presencePenalty: '' },
+});
+
+export function PromptPresetDialog({ open, presets, models, userId, isAdmin, onClose, onChange }: PromptPresetDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' 表示新建
+  const [form, setForm] = useState<PresetForm>(emptyForm);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 共享预设只有管理员可以修改，个人预设只有创建者可以修改
+  const canEdit = (preset: PromptPreset) => preset.isShared ? isAdmin : preset.userId === userId;
+
+  const startEdit = (preset?: PromptPreset) => {
+    setError('');
+    if (!preset) {
+      setEditingId('new');
+      setForm(emptyForm());
+      return;
+    }
+    setEditingId(preset.id);
+    setForm({
+      name: preset.name,
+      systemPrompt: preset.systemPrompt,
+      modelId: preset.modelId || '',
+      isShared: preset.isShared,
+      sampling: Object.fromEntries(
+        SAMPLING_FIELDS.map(({ key }) => [key, preset[key] === null ? '' : String(preset[key])])
+      ) as Record<SamplingKey, string>,
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const body: Record<string, unknown> = {
+        name: form.name,
+        systemPrompt: form.systemPrompt,
+        modelId: form.modelId || null,
+        ...Object.fromEntries(
+          SAMPLING_FIELDS.map(({ key }) => [key, form.sampling[key] === '' ? null : Number(form.sampling[key])])
+        ),
+      };
+      if (isAdmin) {
+        body.isShared = form.isShared;
+      }
+
+      const response = await fetch(editingId === 'new' ? '/api/presets' : `/api/presets/${editingId}`, {
+        method: editingId === 'new' ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || '保存预设失败');
+        return;
+      }
+
+      setEditingId(null);
+      onChange();
+    } catch (err) {
+      console.error('保存预设失败:', err);
+      setError('保存预设失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: PromptPreset) => {
+    if (!confirm(`确定要删除预设「${preset.name}」吗？`)) return;
+
+    try {
+      const response = await fetch(`/api/presets/${preset.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || '删除预设失败');
+        return;
+      }
+      onChange();
+    } catch (err) {
+      console.error('删除预设失败:', err);
+      setError('删除预设失败');
+    }
+  };
+
+  const handleClose = () => {
+    setEditingId(null);
+    setError('');
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{editingId ? (editingId === 'new' ? '新建预设' : '编辑预设') : '提示词预设'}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {editingId ? (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField
+              autoFocus
+              fullWidth
+              label="名称"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <TextField
+              fullWidth
+              multiline
+              minRows={4}
+              maxRows={12}
+              label="系统提示词"
+              value={form.systemPrompt}
+              onChange={(e) => setForm({ ...form, systemPrompt: e.target.value })}
+            />
+            <TextField
+              select
+              fullWidth
+              label="默认模型"
+              value={form.modelId}
+              onChange={(e) => setForm({ ...form, modelId: e.target.value })}
+            >
+              <MenuItem value="">不指定</MenuItem>
+              {models.map(model => (
+                <MenuItem key={model.id} value={model.id}>
+                  {model.name}{model.provider ? ` (${model.provider})` : ''}
+                </MenuItem>
+              ))}
+            </TextField>
+
+            <Typography variant="body2" color="text.secondary">
+              采样参数（留空则使用模型的默认配置）
+            </Typography>
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+              {SAMPLING_FIELDS.map(({ key, label, step }) => (
+                <TextField
+                  key={key}
+                  size="small"
+                  type="number"
+                  label={label}
+                  value={form.sampling[key]}
+                  inputProps={{ step }}
+                  onChange={(e) => setForm({ ...form, sampling: { ...form.sampling, [key]: e.target.value } })}
+                />
+              ))}
+            </Box>
+
+            {isAdmin && (
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={form.isShared}
+                    onChange={(e) => setForm({ ...form, isShared: e.target.checked })}
+                  />
+                }
+                label="共享给所有用户"
+              />
+            )}
+          </Stack>
+        ) : presets.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+            还没有预设，新建一个预设来保存常用的系统提示词和模型参数。
+          </Typography>
+        ) : (
+          <List dense>
+            {presets.map(preset => (
+              <ListItem
+                key={preset.id}
+                secondaryAction={canEdit(preset) && (
+                  <>
+                    <IconButton edge="end" size="small" onClick={() => startEdit(preset)} title="编辑">
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton edge="end" size="small" onClick={() => handleDelete(preset)} title="删除" sx={{ ml: 1 }}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </>
+                )}
+              >
+                <ListItemText
+                  primary={
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <span>{preset.name}</span>
+                      {preset.isShared && <Chip label="共享" size="small" />}
+                    </Stack>
+                  }
+                  secondary={preset.systemPrompt}
+                  secondaryTypographyProps={{ noWrap: true }}
+                  sx={{ pr: 8 }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {editingId ? (
+          <>
+            <Button onClick={() => setEditingId(null)}>返回</Button>
+            <Button
+              variant="contained"
+              onClick={handleSave}
+              disabled={isSaving || !form.name.trim() || !form.systemPrompt.trim()}
+            >
+              保存
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button onClick={handleClose}>关闭</Button>
+            <Button variant="contained" onClick={() => startEdit()}>新建预设</Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState } from 'react';
+
+interface ProviderApiKeyFieldProps {
+  providerId: string;
+  maskedApiKey: string | null;
+}
+
+/**
+ * 已保存提供商的默认 API Key：只显示遮盖后的密钥，查看完整密钥和更换密钥需要单独操作
+ */
+export default function ProviderApiKeyField({ providerId, maskedApiKey }: ProviderApiKeyFieldProps) {
+  const [masked, setMasked] = useState(maskedApiKey);
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [newApiKey, setNewApiKey] = useState('');
+  const [error, setError] = useState('');
+
+  // 查看完整密钥
+  const handleReveal = async () => {
+    if (revealed !== null) {
+      setRevealed(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/providers/${providerId}/api-key`);
+      if (response.ok) {
+        const data = await response.json();
+        setRevealed(data.apiKey || '');
+        setError('');
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || '获取密钥失败');
+      }
+    } catch (err) {
+      console.error('Reveal provider API key error:', err);
+      setError('网络错误');
+    }
+  };
+
+  // 更换密钥，留空保存即清除
+  const handleReplace = async () => {
+    try {
+      const response = await fetch(`/api/admin/providers/${providerId}/api-key`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiKey: newApiKey.trim() }),
+      });
+
+      if (response.ok) {
+        const updated = await response.json();
+        setMasked(updated.maskedApiKey);
+        setRevealed(null);
+        setNewApiKey('');
+        setIsReplacing(false);
+        setError('');
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || '更换密钥失败');
+      }
+    } catch (err) {
+      console.error('Replace provider API key error:', err);
+      setError('网络错误');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <span className="flex-1 px-3 py-2 text-sm font-mono break-all border border-gray-200 dark:border-gray-700 rounded-md bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-300">
+          {revealed !== null ? revealed || '未设置' : masked || '未设置'}
+        </span>
+        {masked && (
+          <button
+            type="button"
+            onClick={handleReveal}
+            className="text-xs text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            {revealed !== null ? '隐藏' : '显示'}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setIsReplacing(prev => !prev)}
+          className="text-xs text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          {isReplacing ? '取消' : '更换'}
+        </button>
+      </div>
+
+      {isReplacing && (
+        <div className="flex space-x-2">
+          <input
+            type="password"
+            value={newApiKey}
+            onChange={(e) => setNewApiKey(e.target.value)}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+            placeholder="新的 API Key，留空则清除"
+          />
+          <button
+            type="button"
+            onClick={handleReplace}
+            className="px-3 py-2 text-sm bg-gray-800 text-white rounded-md hover:bg-gray-900"
+          >
+            保存
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
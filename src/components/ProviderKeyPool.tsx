@@ -0,0 +1,339 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+
+interface ProviderKeyInfo {
+  id: string;
+  name: string | null;
+  maskedKey: string;
+  isEnabled: boolean;
+  status: 'active' | 'cooldown' | 'disabled';
+  requestCount: number;
+  errorCount: number;
+  lastUsedAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  cooldownUntil: string | null;
+}
+
+interface ProviderKeyPoolProps {
+  providerId: string;
+}
+
+const STATUS_LABELS: Record<ProviderKeyInfo['status'], { label: string; className: string }> = {
+  active: { label: '正常', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  cooldown: { label: '冷却中', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' },
+  disabled: { label: '已禁用', className: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString('zh-CN') : '-');
+
+// 移除已查看的完整密钥
+const withoutKey = (revealed: Record<string, string>, keyId: string) => {
+  const next = { ...revealed };
+  delete next[keyId];
+  return next;
+};
+
+/**
+ * 提供商密钥池管理：添加多个账号的密钥，查看每个密钥的请求次数、最近错误和状态
+ */
+export default function ProviderKeyPool({ providerId }: ProviderKeyPoolProps) {
+  const [keys, setKeys] = useState<ProviderKeyInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [newKey, setNewKey] = useState('');
+  const [newKeyName, setNewKeyName] = useState('');
+  // 已查看的完整密钥，按密钥ID保存
+  const [revealedKeys, setRevealedKeys] = useState<Record<string, string>>({});
+
+  // 加载密钥池
+  const loadKeys = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/providers/${providerId}/keys`);
+      if (response.ok) {
+        setKeys(await response.json());
+        setError('');
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || '加载密钥池失败');
+      }
+    } catch (err) {
+      console.error('Load provider keys error:', err);
+      setError('网络错误：无法加载密钥池');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [providerId]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  // 添加密钥
+  const handleAdd = async () => {
+    if (!newKey.trim()) {
+      setError('请输入 API Key');
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/providers/${providerId}/keys`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: newKey.trim(), name: newKeyName.trim() }),
+      });
+
+      if (response.ok) {
+        const created = await response.json();
+        setKeys(prev => [...prev, created]);
+        setNewKey('');
+        setNewKeyName('');
+        setError('');
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || '添加密钥失败');
+      }
+    } catch (err) {
+      console.error('Add provider key error:', err);
+      setError('网络错误');
+    }
+  };
+
+  // 更新密钥（启用/禁用、解除冷却）
+  const updateKey = async (keyId: string, data: { isEnabled?: boolean; resetCooldown?: boolean }) => {
+    try {
+      const response = await fetch(`/api/admin/providers/${providerId}/keys/${keyId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (response.ok) {
+        const updated = await response.json();
+        setKeys(prev => prev.map(k => (k.id === keyId ? updated : k)));
+        setError('');
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || '更新密钥失败');
+      }
+    } catch (err) {
+      console.error('Update provider key error:', err);
+      setError('网络错误');
+    }
+  };
+
+  // 查看或隐藏完整密钥
+  const toggleReveal = async (keyId: string) => {
+    if (revealedKeys[keyId] !== undefined) {
+      setRevealedKeys(prev => withoutKey(prev, keyId));
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/providers/${providerId}/keys/${keyId}/key`);
+      if (response.ok) {
+        const data = await response.json();
+        setRevealedKeys(prev => ({ ...prev, [keyId]: data.key }));
+        setError('');
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || '获取密钥失败');
+      }
+    } catch (err) {
+      console.error('Reveal provider key error:', err);
+      setError('网络错误');
+    }
+  };
+
+  // 更换密钥，保留备注和统计数据
+  const replaceKey = async (keyInfo: ProviderKeyInfo) => {
+    const key = prompt(`请输入新的密钥，替换 "${keyInfo.name || keyInfo.maskedKey}"`)?.trim();
+    if (!key) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/providers/${providerId}/keys/${keyInfo.id}/key`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key }),
+      });
+
+      if (response.ok) {
+        const updated = await response.json();
+        setKeys(prev => prev.map(k => (k.id === keyInfo.id ? updated : k)));
+        setRevealedKeys(prev => withoutKey(prev, keyInfo.id));
+        setError('');
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || '更换密钥失败');
+      }
+    } catch (err) {
+      console.error('Replace provider key error:', err);
+      setError('网络错误');
+    }
+  };
+
+  // 删除密钥
+  const deleteKey = async (keyInfo: ProviderKeyInfo) => {
+    if (!confirm(`确定要删除密钥 "${keyInfo.name || keyInfo.maskedKey}" 吗？`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/providers/${providerId}/keys/${keyInfo.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        setKeys(prev => prev.filter(k => k.id !== keyInfo.id));
+        setError('');
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || '删除密钥失败');
+      }
+    } catch (err) {
+      console.error('Delete provider key error:', err);
+      setError('网络错误');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          密钥池中有启用的密钥时，请求会在这些密钥之间分配；限流或认证失败的密钥会自动暂停一段时间
+        </p>
+        <button
+          type="button"
+          onClick={loadKeys}
+          disabled={isLoading}
+          className="ml-2 flex-shrink-0 text-xs text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+        >
+          刷新
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {keys.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {isLoading ? '加载中...' : '密钥池为空，将使用上面的默认 API Key'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-md">
+          <table className="min-w-full text-xs divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-2 py-2 text-left font-medium text-gray-500 dark:text-gray-300">密钥</th>
+                <th className="px-2 py-2 text-left font-medium text-gray-500 dark:text-gray-300">状态</th>
+                <th className="px-2 py-2 text-right font-medium text-gray-500 dark:text-gray-300">请求</th>
+                <th className="px-2 py-2 text-right font-medium text-gray-500 dark:text-gray-300">失败</th>
+                <th className="px-2 py-2 text-left font-medium text-gray-500 dark:text-gray-300">最近错误</th>
+                <th className="px-2 py-2 text-left font-medium text-gray-500 dark:text-gray-300">操作</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {keys.map((keyInfo) => (
+                <tr key={keyInfo.id}>
+                  <td className="px-2 py-2 text-gray-900 dark:text-white">
+                    <div>{keyInfo.name || '-'}</div>
+                    <div className="font-mono text-gray-500 dark:text-gray-400 break-all">
+                      {revealedKeys[keyInfo.id] ?? keyInfo.maskedKey}
+                    </div>
+                    <div className="text-gray-400">最近使用：{formatTime(keyInfo.lastUsedAt)}</div>
+                  </td>
+                  <td className="px-2 py-2 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full font-semibold ${STATUS_LABELS[keyInfo.status].className}`}>
+                      {STATUS_LABELS[keyInfo.status].label}
+                    </span>
+                    {keyInfo.status === 'cooldown' && (
+                      <div className="text-gray-400 mt-1">至 {formatTime(keyInfo.cooldownUntil)}</div>
+                    )}
+                  </td>
+                  <td className="px-2 py-2 text-right text-gray-900 dark:text-white">{keyInfo.requestCount}</td>
+                  <td className="px-2 py-2 text-right text-gray-900 dark:text-white">{keyInfo.errorCount}</td>
+                  <td className="px-2 py-2 text-gray-500 dark:text-gray-400 max-w-[12rem]">
+                    {keyInfo.lastError ? (
+                      <div title={keyInfo.lastError}>
+                        <div className="truncate">{keyInfo.lastError}</div>
+                        <div className="text-gray-400">{formatTime(keyInfo.lastErrorAt)}</div>
+                      </div>
+                    ) : '-'}
+                  </td>
+                  <td className="px-2 py-2 whitespace-nowrap space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => updateKey(keyInfo.id, { isEnabled: !keyInfo.isEnabled })}
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+                    >
+                      {keyInfo.isEnabled ? '禁用' : '启用'}
+                    </button>
+                    {keyInfo.status === 'cooldown' && (
+                      <button
+                        type="button"
+                        onClick={() => updateKey(keyInfo.id, { resetCooldown: true })}
+                        className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+                      >
+                        解除冷却
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => toggleReveal(keyInfo.id)}
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+                    >
+                      {revealedKeys[keyInfo.id] !== undefined ? '隐藏' : '显示'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => replaceKey(keyInfo)}
+                      className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+                    >
+                      更换
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteKey(keyInfo)}
+                      className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={newKeyName}
+          onChange={(e) => setNewKeyName(e.target.value)}
+          className="w-1/3 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+          placeholder="备注（可选）"
+        />
+        <input
+          type="password"
+          value={newKey}
+          onChange={(e) => setNewKey(e.target.value)}
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+          placeholder="sk-..."
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="px-3 py-2 text-sm bg-gray-800 text-white rounded-md hover:bg-gray-900"
+        >
+          添加
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,17 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { useToast } from '@/hooks/useToast';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/components/Toast';
+import ProviderKeyPool from '@/components/ProviderKeyPool';
+import ProviderApiKeyField from '@/components/ProviderApiKeyField';
 
 interface Provider {
   id: string;
   name: string;
   displayName: string;
   baseUrl?: string;
-  apiKey?: string;
+  maskedApiKey?: string | null;
+  keySelection?: string;
   isEnabled: boolean;
   order: number;
   icon?: string;
@@ -33,6 +36,7 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingProvider, setEditingProvider] = useState<Provider | null>(null);
+  const [keyPoolProvider, setKeyPoolProvider] = useState<Provider | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     displayName: '',
@@ -42,30 +46,31 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
     description: '',
   });
   const toast = useToast();
+  const { error: toastError } = toast;
 
   // 加载提供商列表
-  const loadProviders = async () => {
+  const loadProviders = useCallback(async () => {
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/admin/providers?adminUserId=${adminUserId}`);
+      const response = await fetch('/api/admin/providers');
       if (response.ok) {
         const data = await response.json();
         setProviders(data);
       } else {
         const errorData = await response.json().catch(() => ({}));
-        toast.error(errorData.error || '加载提供商失败');
+        toastError(errorData.error || '加载提供商失败');
       }
     } catch (error) {
       console.error('Load providers error:', error);
-      toast.error('网络错误：无法加载提供商');
+      toastError('网络错误：无法加载提供商');
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [toastError]);
 
   useEffect(() => {
     loadProviders();
-  }, [adminUserId]);
+  }, [adminUserId, loadProviders]);
 
   // 处理表单输入
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -98,7 +103,7 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
       name: provider.name,
       displayName: provider.displayName,
       baseUrl: provider.baseUrl || '',
-      apiKey: provider.apiKey || '',
+      apiKey: '',
       icon: provider.icon || '',
       description: provider.description || '',
     });
@@ -123,12 +128,14 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
       
       const method = editingProvider ? 'PATCH' : 'POST';
       
+      // 编辑时密钥通过单独的更换操作修改
+      const { apiKey, ...rest } = formData;
       const response = await fetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId,
-          ...formData,
+          ...rest,
+          ...(!editingProvider && { apiKey }),
         }),
       });
 
@@ -157,7 +164,7 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
 
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/admin/providers/${provider.id}?adminUserId=${adminUserId}`, {
+      const response = await fetch(`/api/admin/providers/${provider.id}`, {
         method: 'DELETE',
       });
 
@@ -197,7 +204,6 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          adminUserId,
           isEnabled: !provider.isEnabled,
         }),
       });
@@ -247,6 +253,29 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
     }
   };
 
+  // 修改密钥池的选择策略
+  const updateKeySelection = async (provider: Provider, keySelection: string) => {
+    try {
+      const response = await fetch(`/api/admin/providers/${provider.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keySelection }),
+      });
+
+      if (response.ok) {
+        setProviders(prev => prev.map(p => (p.id === provider.id ? { ...p, keySelection } : p)));
+        setKeyPoolProvider(prev => (prev ? { ...prev, keySelection } : prev));
+        toast.success('密钥选择策略已更新');
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.error || '更新失败');
+      }
+    } catch (error) {
+      console.error('Update key selection error:', error);
+      toast.error('网络错误');
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* 头部 */}
@@ -343,6 +372,12 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
                       >
                         编辑
                       </button>
+                      <button
+                        onClick={() => setKeyPoolProvider(provider)}
+                        className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-300"
+                      >
+                        密钥池
+                      </button>
                       <button
                         onClick={() => toggleProvider(provider)}
                         className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
@@ -364,6 +399,45 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
         )}
       </div>
 
+      {/* 密钥池模态框 */}
+      {keyPoolProvider && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black bg-opacity-50" onClick={() => setKeyPoolProvider(null)} />
+          <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {keyPoolProvider.displayName} 密钥池
+                </h3>
+                <button
+                  onClick={() => setKeyPoolProvider(null)}
+                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                  关闭
+                </button>
+              </div>
+
+              <div>
+                <label htmlFor="keySelection" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  选择策略
+                </label>
+                <select
+                  id="keySelection"
+                  value={keyPoolProvider.keySelection || 'round_robin'}
+                  onChange={(e) => updateKeySelection(keyPoolProvider, e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="round_robin">轮询</option>
+                  <option value="least_used">最少使用</option>
+                </select>
+              </div>
+
+              <ProviderKeyPool providerId={keyPoolProvider.id} />
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* 添加/编辑模态框 */}
       {showAddModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -430,15 +504,22 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
                   <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     API密钥
                   </label>
-                  <input
-                    type="password"
-                    id="apiKey"
-                    name="apiKey"
-                    value={formData.apiKey}
-                    onChange={handleInputChange}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
-                    placeholder="输入API密钥"
-                  />
+                  {editingProvider ? (
+                    <ProviderApiKeyField
+                      providerId={editingProvider.id}
+                      maskedApiKey={editingProvider.maskedApiKey ?? null}
+                    />
+                  ) : (
+                    <input
+                      type="password"
+                      id="apiKey"
+                      name="apiKey"
+                      value={formData.apiKey}
+                      onChange={handleInputChange}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                      placeholder="输入API密钥"
+                    />
+                  )}
                 </div>
 
                 {/* 图标URL */}
@@ -496,3 +577,5 @@ export default function ProviderManager({ adminUserId }: ProviderManagerProps) {
         </div>
       )}
     </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  SAMPLING_PARAM_KEYS,
+  SAMPLING_PARAM_LABELS,
+  SAMPLING_RANGES,
+  getSamplingBounds,
+  type SamplingLimits,
+  type SamplingParamKey,
+  type SamplingParams
+} from '@/lib/sampling';
+
+interface SamplingSettingsDialogProps {
+  open: boolean;
+  value: SamplingParams; // 对话当前的采样参数
+  contextStrategy: 'truncate' | 'summarize'; // 超出模型上下文长度时的处理方式
+  canSummarize: boolean; // 摘要保存在对话上，未保存的对话只能丢弃较早的消息
+  defaults: SamplingParams; // 未设置时使用的值（预设或模型的默认配置）
+  limits: SamplingLimits; // 当前模型允许的范围
+  modelName?: string;
+  onClose: () => void;
+  onSave: (params: SamplingParams, contextStrategy: 'truncate' | 'summarize') => void;
+}
+
+type FormValues = Record<SamplingParamKey, string>;
+
+const toFormValues = (params: SamplingParams): FormValues =>
+  Object.fromEntries(
+    SAMPLING_PARAM_KEYS.map(key => [key, params[key]?.toString() ?? ''])
+  ) as FormValues;
+
+export function SamplingSettingsDialog({
+  open,
+  value,
+  contextStrategy,
+  canSummarize,
+  defaults,
+  limits,
+  modelName,
+  onClose,
+  onSave
+}: SamplingSettingsDialogProps) {
+  const [form, setForm] = useState<FormValues>(() => toFormValues(value));
+  const [strategy, setStrategy] = useState(contextStrategy);
+
+  // 每次打开时显示对话当前的设置
+  useEffect(() => {
+    if (open) {
+      setForm(toFormValues(value));
+      setStrategy(contextStrategy);
+    }
+  }, [open, value, contextStrategy]);
+
+  // 超出模型允许范围的参数
+  const getError = (key: SamplingParamKey): string => {
+    if (form[key] === '') return '';
+    const number = Number(form[key]);
+    const { min, max } = getSamplingBounds(key, limits);
+    if (!Number.isFinite(number) || (SAMPLING_RANGES[key].integer && !Number.isInteger(number))) {
+      return SAMPLING_RANGES[key].integer ? '请输入整数' : '请输入数字';
+    }
+    if (number < min || (max !== undefined && number > max)) {
+      return max !== undefined ? `超出范围 ${min} - ${max}` : `不能小于 ${min}`;
+    }
+    return '';
+  };
+
+  const hasError = SAMPLING_PARAM_KEYS.some(key => getError(key));
+
+  const handleSave = () => {
+    const params: SamplingParams = {};
+    for (const key of SAMPLING_PARAM_KEYS) {
+      if (form[key] !== '') {
+        params[key] = Number(form[key]);
+      }
+    }
+    onSave(params, strategy);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>高级设置</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          仅对当前对话生效，留空则使用预设或模型的默认配置
+          {modelName ? `。范围由管理员为 ${modelName} 设置` : ''}
+        </Typography>
+        <Stack spacing={2}>
+          {SAMPLING_PARAM_KEYS.map(key => {
+            const { min, max } = getSamplingBounds(key, limits);
+            const error = getError(key);
+            return (
+              <TextField
+                key={key}
+                size="small"
+                type="number"
+                label={SAMPLING_PARAM_LABELS[key]}
+                value={form[key]}
+                placeholder={defaults[key] !== undefined ? `默认 ${defaults[key]}` : '默认'}
+                onChange={(e) => setForm(prev => ({ ...prev, [key]: e.target.value }))}
+                error={!!error}
+                helperText={error || (max !== undefined ? `范围 ${min} - ${max}` : `最小 ${min}`)}
+                inputProps={{ min, max, step: SAMPLING_RANGES[key].integer ? 1 : 0.1 }}
+                InputLabelProps={{ shrink: true }}
+              />
+            );
+          })}
+          <TextField
+            select
+            size="small"
+            label="超出上下文长度时"
+            value={canSummarize ? strategy : 'truncate'}
+            onChange={(e) => setStrategy(e.target.value as 'truncate' | 'summarize')}
+            disabled={!canSummarize}
+            helperText={canSummarize ? '总结会额外消耗 Token' : '登录后可以总结较早的消息'}
+          >
+            <MenuItem value="truncate">丢弃较早的消息</MenuItem>
+            <MenuItem value="summarize">总结较早的消息</MenuItem>
+          </TextField>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => { setForm(toFormValues({})); setStrategy('truncate'); }}>恢复默认</Button>
+        <Button onClick={onClose}>取消</Button>
+        <Button variant="contained" onClick={handleSave} disabled={hasError}>
+          保存
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { Refresh as RefreshIcon } from '@mui/icons-material'
+import { ConfirmDialog } from './ConfirmDialog'
+
+// 有效的分享链接（接口不返回快照和密码）
+interface ShareItem {
+  id: string
+  token: string
+  title: string
+  conversationId: string
+  hasPassword: boolean
+  expiresAt: string | null
+  viewCount: number
+  createdAt: string
+  user: { id: string; username: string }
+}
+
+/**
+ * 管理员查看所有有效的对话分享链接，可以撤销任意链接
+ */
+export default function ShareAdmin() {
+  const [shares, setShares] = useState<ShareItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(0)
+  const [rowsPerPage, setRowsPerPage] = useState(20)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [revokeTarget, setRevokeTarget] = useState<ShareItem | null>(null)
+  const [isRevoking, setIsRevoking] = useState(false)
+
+  const loadShares = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/shares?limit=${rowsPerPage}&offset=${page * rowsPerPage}`)
+      if (!response.ok) {
+        throw new Error(`${response.status}`)
+      }
+      const data = await response.json()
+      setShares(data.shares)
+      setTotal(data.total)
+    } catch {
+      setError('加载分享链接失败')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [page, rowsPerPage])
+
+  useEffect(() => {
+    loadShares()
+  }, [loadShares])
+
+  const handleRevoke = async () => {
+    if (!revokeTarget) return
+    setIsRevoking(true)
+    try {
+      const response = await fetch(`/api/admin/shares/${revokeTarget.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error(`${response.status}`)
+      }
+      setRevokeTarget(null)
+      await loadShares()
+    } catch {
+      setError('撤销分享链接失败')
+    } finally {
+      setIsRevoking(false)
+    }
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">分享链接 ({total})</Typography>
+        <Button startIcon={<RefreshIcon />} onClick={loadShares} disabled={isLoading}>
+          刷新
+        </Button>
+      </Box>
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>对话</TableCell>
+              <TableCell>创建者</TableCell>
+              <TableCell>链接</TableCell>
+              <TableCell>创建时间</TableCell>
+              <TableCell>过期时间</TableCell>
+              <TableCell>查看次数</TableCell>
+              <TableCell align="right">操作</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            ) : shares.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} align="center">暂无有效的分享链接</TableCell>
+              </TableRow>
+            ) : shares.map(share => (
+              <TableRow key={share.id}>
+                <TableCell sx={{ maxWidth: 240 }}>
+                  <Typography variant="body2" noWrap>{share.title}</Typography>
+                </TableCell>
+                <TableCell>{share.user.username}</TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <a
+                      href={`/share/${share.token}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      style={{ fontFamily: 'monospace', textDecoration: 'underline' }}
+                    >
+                      {share.token.slice(0, 8)}…
+                    </a>
+                    {share.hasPassword && <Chip size="small" label="有密码" />}
+                  </Box>
+                </TableCell>
+                <TableCell>{new Date(share.createdAt).toLocaleString('zh-CN')}</TableCell>
+                <TableCell>{share.expiresAt ? new Date(share.expiresAt).toLocaleString('zh-CN') : '永不过期'}</TableCell>
+                <TableCell>{share.viewCount}</TableCell>
+                <TableCell align="right">
+                  <Button size="small" color="error" onClick={() => setRevokeTarget(share)}>
+                    撤销
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <TablePagination
+          component="div"
+          count={total}
+          page={page}
+          rowsPerPage={rowsPerPage}
+          rowsPerPageOptions={[20, 50, 100]}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10))
+            setPage(0)
+          }}
+          labelRowsPerPage="每页"
+        />
+      </TableContainer>
+
+      <ConfirmDialog
+        isOpen={!!revokeTarget}
+        title="撤销分享链接"
+        message={`撤销后任何人都无法再通过该链接查看「${revokeTarget?.title ?? ''}」。`}
+        confirmText="撤销"
+        type="danger"
+        isLoading={isRevoking}
+        onConfirm={handleRevoke}
+        onCancel={() => setRevokeTarget(null)}
+      />
+    </Box>
+  )
+}
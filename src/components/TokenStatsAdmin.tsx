@@ -22,6 +22,9 @@ import {
   DialogContent,
   DialogTitle,
   FormControlLabel,
+  FormGroup,
+  FormLabel,
+  Checkbox,
   Radio,
   RadioGroup,
   InputAdornment,
@@ -45,6 +48,7 @@ import {
 import { toast } from 'react-hot-toast'
 import { useAuth } from '@/contexts/AuthContext'
 import { getAutoPricing } from '@/utils/aiModelUtils'
+import { BUILTIN_TOOL_LABELS, BUILTIN_TOOL_NAMES, type ToolName } from '@/lib/tools/catalog'
 
 interface ModelPricing {
   id: string
@@ -75,6 +79,7 @@ interface UserLimit {
   costLimit: number | null
   tokenUsed: number
   lastResetAt: string
+  enabledTools?: ToolName[]
   user: {
     id: string
     username: string
@@ -144,6 +149,7 @@ export default function TokenStatsAdmin() {
     tokenLimit: 0,
     costLimit: 0,
     resetUsage: false,
+    enabledTools: [] as ToolName[],
   })
 
   // 分页
@@ -202,7 +208,7 @@ export default function TokenStatsAdmin() {
     
     try {
       console.log('TokenStatsAdmin: Loading pricing data...')
-      const response = await fetch(`/api/admin/token-stats?adminUserId=${currentUser.id}&action=pricing`)
+      const response = await fetch('/api/admin/token-stats?action=pricing')
       
       if (response.ok) {
         const data = await response.json()
@@ -227,7 +233,7 @@ export default function TokenStatsAdmin() {
     
     try {
       console.log('TokenStatsAdmin: Loading user limits data...')
-      const response = await fetch(`/api/admin/token-stats?adminUserId=${currentUser.id}&action=user-limits`)
+      const response = await fetch('/api/admin/token-stats?action=user-limits')
       
       if (response.ok) {
         const data = await response.json()
@@ -254,7 +260,7 @@ export default function TokenStatsAdmin() {
       if (endDate) dateParams.append('endDate', endDate.toISOString())
       
       const action = activeTab === 'models' ? 'models' : 'users'
-      const url = `/api/admin/token-stats?adminUserId=${currentUser.id}&action=${action}&${dateParams.toString()}`
+      const url = `/api/admin/token-stats?action=${action}&${dateParams.toString()}`
       console.log('TokenStatsAdmin: Fetching from URL:', url)
       
       const response = await fetch(url)
@@ -283,7 +289,7 @@ export default function TokenStatsAdmin() {
     if (!currentUser || !currentUser.id) return
     
     try {
-      const response = await fetch(`/api/admin/system-settings?adminUserId=${currentUser.id}`)
+      const response = await fetch('/api/admin/system-settings')
       
       if (response.ok) {
         const data = await response.json()
@@ -312,7 +318,6 @@ export default function TokenStatsAdmin() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           settings: {
             default_user_token_limit: systemTokenSettings.defaultTokenLimit,
             default_limit_type: systemTokenSettings.defaultLimitType,
@@ -360,7 +365,6 @@ export default function TokenStatsAdmin() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           ...pricingForm,
         }),
       })
@@ -390,6 +394,7 @@ export default function TokenStatsAdmin() {
         tokenLimit: user.tokenLimit || 0,
         costLimit: user.costLimit || 0,
         resetUsage: false,
+        enabledTools: user.enabledTools || [],
       })
     } else if (userId) {
       setSelectedUser({ userId } as UserLimit)
@@ -399,6 +404,7 @@ export default function TokenStatsAdmin() {
         tokenLimit: 0,
         costLimit: 0,
         resetUsage: false,
+        enabledTools: [],
       })
     }
     setEditLimitDialog(true)
@@ -415,7 +421,6 @@ export default function TokenStatsAdmin() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          adminUserId: currentUser.id,
           ...limitForm,
         }),
       });
@@ -480,7 +485,6 @@ export default function TokenStatsAdmin() {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({
-                adminUserId: currentUser.id,
                 pricingType: 'token',
                 inputPrice: pricing.inputPrice,
                 outputPrice: pricing.outputPrice,
@@ -1035,6 +1039,32 @@ export default function TokenStatsAdmin() {
                 }
                 label="立即重置使用量计数"
               />
+
+              <FormControl component="fieldset" fullWidth sx={{ mt: 2 }}>
+                <FormLabel component="legend">额外启用的工具</FormLabel>
+                <FormGroup row>
+                  {BUILTIN_TOOL_NAMES.map(name => (
+                    <FormControlLabel
+                      key={name}
+                      control={
+                        <Checkbox
+                          checked={limitForm.enabledTools.includes(name)}
+                          onChange={(e) => setLimitForm({
+                            ...limitForm,
+                            enabledTools: e.target.checked
+                              ? [...limitForm.enabledTools, name]
+                              : limitForm.enabledTools.filter(tool => tool !== name)
+                          })}
+                        />
+                      }
+                      label={BUILTIN_TOOL_LABELS[name]}
+                    />
+                  ))}
+                </FormGroup>
+                <Typography variant="caption" color="text.secondary">
+                  在所有支持工具调用的模型上可用，模型本身启用的工具对所有用户可用
+                </Typography>
+              </FormControl>
             </Box>
           </DialogContent>
           <DialogActions>
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { Box, CircularProgress, Collapse, Typography } from '@mui/material';
+import {
+  Build as BuildIcon,
+  ErrorOutline as ErrorIcon,
+  ExpandLess as ExpandLessIcon,
+  ExpandMore as ExpandMoreIcon
+} from '@mui/icons-material';
+import { BUILTIN_TOOL_LABELS, isToolName, type ToolCallRecord } from '@/lib/tools/catalog';
+
+interface ToolCallListProps {
+  toolCalls: ToolCallRecord[];
+}
+
+// 参数为 JSON 时格式化显示
+function formatArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2);
+  } catch {
+    return args;
+  }
+}
+
+function ToolCallBlock({ call }: { call: ToolCallRecord }) {
+  const [open, setOpen] = useState(false);
+  const label = isToolName(call.name) ? BUILTIN_TOOL_LABELS[call.name] : call.name;
+
+  const preSx = {
+    m: 0,
+    p: 1,
+    borderRadius: 1,
+    bgcolor: 'action.hover',
+    fontFamily: 'monospace',
+    fontSize: '0.75rem',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+    maxHeight: 240,
+    overflow: 'auto'
+  } as const;
+
+  return (
+    <Box sx={{ border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+      <Box
+        component="button"
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          width: '100%',
+          px: 1,
+          py: 0.5,
+          border: 'none',
+          bgcolor: 'transparent',
+          color: 'text.secondary',
+          cursor: 'pointer',
+          textAlign: 'left'
+        }}
+      >
+        {call.status === 'running'
+          ? <CircularProgress size={14} />
+          : call.status === 'error'
+            ? <ErrorIcon fontSize="small" color="error" />
+            : <BuildIcon fontSize="small" />}
+        <Typography variant="caption" sx={{ flex: 1 }}>
+          {call.status === 'running' ? `正在调用工具：${label}` : `调用工具：${label}`}
+          {call.status === 'error' && '（失败）'}
+        </Typography>
+        {open ? <ExpandLessIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+      </Box>
+      <Collapse in={open} unmountOnExit>
+        <Box sx={{ px: 1, pb: 1, display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          <Typography variant="caption" color="text.secondary">参数</Typography>
+          <Box component="pre" sx={preSx}>{formatArguments(call.arguments) || '{}'}</Box>
+          {call.result !== undefined && (
+            <>
+              <Typography variant="caption" color="text.secondary">结果</Typography>
+              <Box component="pre" sx={preSx}>{call.result}</Box>
+            </>
+          )}
+        </Box>
+      </Collapse>
+    </Box>
+  );
+}
+
+/**
+ * 助手回复中的工具调用，默认折叠，展开后显示参数和结果
+ */
+export function ToolCallList({ toolCalls }: ToolCallListProps) {
+  if (toolCalls.length === 0) return null;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5, mb: 1 }}>
+      {toolCalls.map(call => (
+        <ToolCallBlock key={call.id} call={call} />
+      ))}
+    </Box>
+  );
+}
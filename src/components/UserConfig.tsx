@@ -44,7 +44,9 @@ import {
   SmartToy as SmartToyIcon,
   Delete as DeleteIcon,
   Add as AddIcon,
-  ContentCopy as CopyIcon
+  ContentCopy as CopyIcon,
+  VpnKey as VpnKeyIcon,
+  Block as BlockIcon
 } from '@mui/icons-material';
 import { useTheme } from '@/contexts/ThemeContext';
 
@@ -78,6 +80,24 @@ interface InviteCode {
   createdAt: string;
 }
 
+interface ApiKeyItem {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  allowedModelIds: string[];
+  expiresAt?: string | null;
+  revokedAt?: string | null;
+  lastUsedAt?: string | null;
+  createdAt: string;
+}
+
+// API 密钥授权范围说明
+const API_KEY_SCOPE_LABELS: Record<string, string> = {
+  chat: '聊天接口',
+  models: '模型列表',
+};
+
 interface Model {
   id: string;
   name: string;
@@ -132,6 +152,14 @@ export default function UserConfig() {
   // 邀请码删除相关状态
   const [showDeleteInviteDialog, setShowDeleteInviteDialog] = useState(false);
   const [deletingInvite, setDeletingInvite] = useState<{ id: string; code: string } | null>(null);
+  // API 密钥相关状态
+  const [apiKeys, setApiKeys] = useState<ApiKeyItem[]>([]);
+  const [apiKeyDialogOpen, setApiKeyDialogOpen] = useState(false);
+  const [apiKeyName, setApiKeyName] = useState('');
+  const [apiKeyScopes, setApiKeyScopes] = useState<string[]>([]);
+  const [apiKeyModelIds, setApiKeyModelIds] = useState<string[]>([]);
+  const [apiKeyExpiresInDays, setApiKeyExpiresInDays] = useState<string>('90');
+  const [createdApiKey, setCreatedApiKey] = useState<string | null>(null);
 
   // 加载用户仪表板
   const loadDashboard = async () => {
@@ -139,7 +167,7 @@ export default function UserConfig() {
     
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/user/dashboard?userId=${user.id}`);
+      const response = await fetch('/api/user/dashboard');
       if (response.ok) {
         const data = await response.json();
         setTokenStats(data.tokenStats);
@@ -179,7 +207,6 @@ export default function UserConfig() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId: user.id,
           type: 'access',
           allowedModelIds: selectedModelIds,
           maxUses: 10, // 默认10次使用
@@ -207,7 +234,6 @@ export default function UserConfig() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId: user.id,
           type: 'invite',
           maxUses: 1,
         }),
@@ -241,7 +267,6 @@ export default function UserConfig() {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId: user.id,
           codeId,
           type: 'invite',
         }),
@@ -268,7 +293,6 @@ export default function UserConfig() {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId: user.id,
           codeId,
           type: 'access',
         }),
@@ -285,6 +309,85 @@ export default function UserConfig() {
     }
   };
 
+  // 加载 API 密钥
+  const loadApiKeys = async () => {
+    if (!user) return;
+
+    try {
+      const response = await fetch('/api/user/api-keys');
+      if (response.ok) {
+        const data = await response.json();
+        setApiKeys(data.apiKeys);
+      } else {
+        toast.error('加载API密钥失败');
+      }
+    } catch (error) {
+      console.error('Failed to load API keys:', error);
+      toast.error('加载API密钥失败');
+    }
+  };
+
+  // 创建 API 密钥
+  const createApiKey = async () => {
+    if (!user) return;
+
+    const expiresAt = apiKeyExpiresInDays
+      ? new Date(Date.now() + parseInt(apiKeyExpiresInDays) * 24 * 60 * 60 * 1000).toISOString()
+      : undefined;
+
+    try {
+      const response = await fetch('/api/user/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: apiKeyName,
+          scopes: apiKeyScopes,
+          allowedModelIds: apiKeyModelIds,
+          expiresAt,
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setCreatedApiKey(data.key);
+        setApiKeyDialogOpen(false);
+        setApiKeyName('');
+        setApiKeyScopes([]);
+        setApiKeyModelIds([]);
+        setApiKeyExpiresInDays('90');
+        loadApiKeys();
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.error || '创建API密钥失败');
+      }
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+      toast.error('创建API密钥失败');
+    }
+  };
+
+  // 吊销 API 密钥
+  const revokeApiKey = async (keyId: string) => {
+    if (!user) return;
+    if (!confirm('确定要吊销该API密钥吗？使用该密钥的脚本将立即失效。')) return;
+
+    try {
+      const response = await fetch(`/api/user/api-keys/${keyId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        toast.success('API密钥已吊销');
+        loadApiKeys();
+      } else {
+        toast.error('吊销API密钥失败');
+      }
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+      toast.error('吊销API密钥失败');
+    }
+  };
+
   // 复制代码到剪贴板
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -300,7 +403,6 @@ export default function UserConfig() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId: user.id,
           defaultModelId: modelId
         }),
       });
@@ -324,6 +426,7 @@ export default function UserConfig() {
 
   useEffect(() => {
     loadDashboard();
+    loadApiKeys();
   }, [user]);
 
   if (!user || user.role === 'GUEST') {
@@ -352,6 +455,7 @@ export default function UserConfig() {
           <Tab icon={<KeyIcon />} label="访问码管理" />
           <Tab icon={<SmartToyIcon />} label="模型权限" />
           <Tab icon={<SmartToyIcon />} label="默认模型" />
+          <Tab icon={<VpnKeyIcon />} label="API 密钥" />
         </Tabs>
       </Box>
 
@@ -785,6 +889,237 @@ export default function UserConfig() {
         </Box>
       </TabPanel>
 
+      {/* API 密钥标签页 */}
+      <TabPanel value={tabValue} index={4}>
+        <Box sx={{ px: 3 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+            <Typography variant="h6">
+              API 密钥
+            </Typography>
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => setApiKeyDialogOpen(true)}
+            >
+              创建密钥
+            </Button>
+          </Box>
+
+          <Alert severity="info" sx={{ mb: 3 }}>
+            在脚本或 CI 中调用 <code>/api/chat</code> 时，通过请求头 <code>Authorization: Bearer &lt;密钥&gt;</code> 认证。
+            使用量与网页聊天一样计入您的 Token 配额。
+          </Alert>
+
+          <Paper elevation={1} sx={{ borderRadius: 2, overflow: 'hidden' }}>
+            <List>
+              {apiKeys.length > 0 ? (
+                apiKeys.map((apiKey) => {
+                  const isExpired = !!apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date();
+                  const isInactive = !!apiKey.revokedAt || isExpired;
+                  return (
+                    <React.Fragment key={apiKey.id}>
+                      <ListItem>
+                        <ListItemText
+                          primary={
+                            <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+                              <Typography variant="body1">
+                                {apiKey.name}
+                              </Typography>
+                              <Typography variant="body2" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                                {apiKey.keyPrefix}…
+                              </Typography>
+                              {apiKey.revokedAt && <Chip label="已吊销" size="small" />}
+                              {!apiKey.revokedAt && isExpired && <Chip label="已过期" size="small" />}
+                            </Box>
+                          }
+                          secondary={
+                            <Box sx={{ mt: 1 }}>
+                              <Typography variant="body2" color="text.secondary">
+                                创建时间: {new Date(apiKey.createdAt).toLocaleString()}
+                                {' · '}
+                                过期时间: {apiKey.expiresAt ? new Date(apiKey.expiresAt).toLocaleString() : '永不过期'}
+                                {' · '}
+                                最后使用: {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : '从未使用'}
+                              </Typography>
+                              <Stack direction="row" spacing={1} flexWrap="wrap" sx={{ mt: 1 }}>
+                                {apiKey.scopes.length > 0 ? (
+                                  apiKey.scopes.map(scope => (
+                                    <Chip key={scope} label={API_KEY_SCOPE_LABELS[scope] || scope} size="small" color="primary" variant="outlined" sx={{ mb: 1 }} />
+                                  ))
+                                ) : (
+                                  <Chip label="全部权限" size="small" color="primary" variant="outlined" sx={{ mb: 1 }} />
+                                )}
+                                {apiKey.allowedModelIds.length > 0 ? (
+                                  apiKey.allowedModelIds.map(modelId => {
+                                    const model = availableModels.find(m => m.id === modelId);
+                                    return (
+                                      <Chip key={modelId} label={model?.name || modelId} size="small" sx={{ mb: 1 }} />
+                                    );
+                                  })
+                                ) : (
+                                  <Chip label="允许所有模型" size="small" sx={{ mb: 1 }} />
+                                )}
+                              </Stack>
+                            </Box>
+                          }
+                        />
+                        {!isInactive && (
+                          <ListItemSecondaryAction>
+                            <IconButton
+                              edge="end"
+                              onClick={() => revokeApiKey(apiKey.id)}
+                              color="error"
+                              title="吊销"
+                            >
+                              <BlockIcon />
+                            </IconButton>
+                          </ListItemSecondaryAction>
+                        )}
+                      </ListItem>
+                      <Divider />
+                    </React.Fragment>
+                  );
+                })
+              ) : (
+                <ListItem>
+                  <ListItemText
+                    primary="暂无API密钥"
+                    secondary="点击右上角按钮创建新的API密钥"
+                  />
+                </ListItem>
+              )}
+            </List>
+          </Paper>
+        </Box>
+      </TabPanel>
+
+      {/* 创建 API 密钥对话框 */}
+      <Dialog
+        open={apiKeyDialogOpen}
+        onClose={() => setApiKeyDialogOpen(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>创建 API 密钥</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            label="名称"
+            placeholder="例如：CI 流水线"
+            value={apiKeyName}
+            onChange={(e) => setApiKeyName(e.target.value)}
+            sx={{ mt: 1, mb: 3 }}
+          />
+
+          <FormControl fullWidth sx={{ mb: 3 }}>
+            <InputLabel>有效期</InputLabel>
+            <Select
+              value={apiKeyExpiresInDays}
+              onChange={(e) => setApiKeyExpiresInDays(e.target.value)}
+              label="有效期"
+            >
+              <MenuItem value="7">7 天</MenuItem>
+              <MenuItem value="30">30 天</MenuItem>
+              <MenuItem value="90">90 天</MenuItem>
+              <MenuItem value="365">1 年</MenuItem>
+              <MenuItem value="">永不过期</MenuItem>
+            </Select>
+          </FormControl>
+
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            授权范围（不选择则允许全部）
+          </Typography>
+          <Box sx={{ mb: 3 }}>
+            {Object.entries(API_KEY_SCOPE_LABELS).map(([scope, label]) => (
+              <FormControlLabel
+                key={scope}
+                control={
+                  <Checkbox
+                    checked={apiKeyScopes.includes(scope)}
+                    onChange={(e) => {
+                      if (e.target.checked) {
+                        setApiKeyScopes([...apiKeyScopes, scope]);
+                      } else {
+                        setApiKeyScopes(apiKeyScopes.filter(s => s !== scope));
+                      }
+                    }}
+                  />
+                }
+                label={label}
+              />
+            ))}
+          </Box>
+
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            允许使用的模型（不选择则允许所有可用模型）
+          </Typography>
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 1 }}>
+            {availableModels.map((model) => (
+              <FormControlLabel
+                key={model.id}
+                control={
+                  <Checkbox
+                    checked={apiKeyModelIds.includes(model.id)}
+                    onChange={(e) => {
+                      if (e.target.checked) {
+                        setApiKeyModelIds([...apiKeyModelIds, model.id]);
+                      } else {
+                        setApiKeyModelIds(apiKeyModelIds.filter(id => id !== model.id));
+                      }
+                    }}
+                  />
+                }
+                label={`${model.name} (${model.provider.name})`}
+              />
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setApiKeyDialogOpen(false)}>
+            取消
+          </Button>
+          <Button
+            variant="contained"
+            onClick={createApiKey}
+            disabled={!apiKeyName.trim()}
+          >
+            创建
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* 新建 API 密钥展示对话框（明文只显示一次） */}
+      <Dialog
+        open={!!createdApiKey}
+        onClose={() => setCreatedApiKey(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>API 密钥已创建</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            请立即复制并妥善保存该密钥，关闭后将无法再次查看。
+          </Alert>
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mr: 1 }}>
+              {createdApiKey}
+            </Typography>
+            <IconButton
+              size="small"
+              onClick={() => createdApiKey && copyToClipboard(createdApiKey)}
+            >
+              <CopyIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={() => setCreatedApiKey(null)}>
+            完成
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* 邀请码删除确认对话框 */}
       <Dialog
         open={showDeleteInviteDialog}
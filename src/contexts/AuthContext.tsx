@@ -10,7 +10,7 @@ interface AuthContextType {
   login: (username: string) => Promise<{ success: boolean; error?: string }>
   loginWithAccessCode: (username: string, accessCode: string) => Promise<{ success: boolean; error?: string }>
   register: (data: RegisterData) => Promise<{ success: boolean; error?: string }>
-  logout: () => void
+  logout: () => Promise<void>
   refreshChatConfig: () => Promise<void>
 }
 
@@ -23,7 +23,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [chatConfig, setChatConfig] = useState<ChatConfig | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
-  // 从localStorage恢复用户状态
+  // 从服务端会话恢复用户状态
   useEffect(() => {
     let isMounted = true;
 
@@ -46,19 +46,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       if (!isMounted) return;
 
-      const savedUser = localStorage.getItem('fimai_user');
-      if (savedUser) {
-        try {
-          const userData = JSON.parse(savedUser);
-          if (isMounted) {
-            setUser(userData);
-            // 获取聊天配置
-            fetchChatConfig(userData.id);
+      // 旧版本把用户信息保存在 localStorage，登录状态改由 HTTP-only Cookie 维护
+      localStorage.removeItem('fimai_user');
+
+      try {
+        const response = await fetch('/api/auth/session');
+        if (response.ok) {
+          const data = await response.json();
+          if (isMounted && data.success && data.user) {
+            setUser(data.user);
+            setChatConfig(data.chatConfig);
           }
-        } catch (error) {
-          console.error('Failed to parse saved user:', error);
-          localStorage.removeItem('fimai_user');
         }
+      } catch (error) {
+        console.error('Failed to restore session:', error);
       }
 
       if (isMounted) {
@@ -73,16 +74,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     };
   }, [])
 
-  const fetchChatConfig = async (userId: string) => {
+  const fetchChatConfig = async () => {
     try {
-      const response = await fetch(`/api/chat/permissions?userId=${userId}&action=config`)
+      const response = await fetch('/api/chat/permissions?action=config')
       if (response.ok) {
         const config = await response.json()
         setChatConfig(config)
-      } else if (response.status === 500) {
-        // 如果用户不存在，清除本地存储的用户数据
-        console.warn('User not found in database, clearing local storage')
-        localStorage.removeItem('fimai_user')
+      } else if (response.status === 401) {
+        // 会话已失效（过期、被吊销或用户被禁用）
+        console.warn('Session is no longer valid')
         setUser(null)
         setChatConfig(null)
       }
@@ -104,7 +104,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (data.success && data.user) {
         setUser(data.user)
         setChatConfig(data.chatConfig)
-        localStorage.setItem('fimai_user', JSON.stringify(data.user))
         return { success: true }
       } else {
         return { success: false, error: data.error || 'Login failed' }
@@ -126,8 +125,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       if (data.success && data.user) {
         setUser(data.user)
-        await fetchChatConfig(data.user.id)
-        localStorage.setItem('fimai_user', JSON.stringify(data.user))
+        await fetchChatConfig()
         return { success: true }
       } else {
         return { success: false, error: data.error || 'Access code login failed' }
@@ -149,8 +147,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       if (result.success && result.user) {
         setUser(result.user)
-        await fetchChatConfig(result.user.id)
-        localStorage.setItem('fimai_user', JSON.stringify(result.user))
+        await fetchChatConfig()
         return { success: true }
       } else {
         return { success: false, error: result.error || 'Registration failed' }
@@ -160,15 +157,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }
 
-  const logout = () => {
+  const logout = async () => {
     setUser(null)
     setChatConfig(null)
-    localStorage.removeItem('fimai_user')
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+    } catch (error) {
+      console.error('Failed to logout:', error)
+    }
   }
 
   const refreshChatConfig = async () => {
     if (user) {
-      await fetchChatConfig(user.id)
+      await fetchChatConfig()
     }
   }
 
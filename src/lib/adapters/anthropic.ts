@@ -0,0 +1,374 @@
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionUsage,
+  ChatContentPart,
+  ChatMessage,
+  ChatToolCall,
+  ChatToolDefinition,
+  ProviderAdapter,
+  ProviderConfig,
+} from './types'
+import { readSSEData } from './sse'
+import { getContentText, parseDataUrl } from './content'
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+// Anthropic 要求必须指定 max_tokens
+const DEFAULT_MAX_TOKENS = 4096
+
+// 扩展思考的最小预算；思考预算计入 max_tokens，默认取 max_tokens 的一半
+const MIN_THINKING_BUDGET_TOKENS = 1024
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string } }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string }
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: AnthropicContentBlock[]
+}
+
+interface AnthropicUsage {
+  input_tokens?: number
+  output_tokens?: number
+  cache_creation_input_tokens?: number
+  cache_read_input_tokens?: number
+}
+
+interface AnthropicResponse {
+  id: string
+  content?: { type: string; text?: string; thinking?: string; id?: string; name?: string; input?: unknown }[]
+  stop_reason?: string | null
+  usage?: AnthropicUsage
+}
+
+// 流式事件，只声明用到的字段
+interface AnthropicStreamEvent {
+  type: string
+  message?: { id?: string; usage?: AnthropicUsage }
+  index?: number
+  content_block?: { type: string; id?: string; name?: string }
+  delta?: { type?: string; text?: string; thinking?: string; partial_json?: string; stop_reason?: string | null }
+  usage?: AnthropicUsage
+  error?: { type?: string; message?: string }
+}
+
+/**
+ * Anthropic 的停止原因映射为 OpenAI 的 finish_reason
+ */
+function mapStopReason(stopReason: string | null | undefined): string | null {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop'
+    case 'max_tokens':
+      return 'length'
+    case 'tool_use':
+      return 'tool_calls'
+    case 'refusal':
+      return 'content_filter'
+    default:
+      return stopReason || null
+  }
+}
+
+/**
+ * Anthropic 的用量字段转换为 OpenAI 格式（缓存读写的 Token 计入输入）
+ */
+function mapUsage(inputUsage: AnthropicUsage | undefined, outputTokens: number): ChatCompletionUsage {
+  const promptTokens =
+    (inputUsage?.input_tokens || 0) +
+    (inputUsage?.cache_creation_input_tokens || 0) +
+    (inputUsage?.cache_read_input_tokens || 0)
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: outputTokens,
+    total_tokens: promptTokens + outputTokens,
+  }
+}
+
+function toContentBlocks(content: string | ChatContentPart[]): AnthropicContentBlock[] {
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : []
+  }
+
+  return content.map((part): AnthropicContentBlock => {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text }
+    }
+
+    // data:image/png;base64,xxxx 形式的图片转为 base64 来源，其余按 URL 处理
+    const inline = parseDataUrl(part.image_url.url)
+    if (inline) {
+      return { type: 'image', source: { type: 'base64', media_type: inline.mimeType, data: inline.data } }
+    }
+    return { type: 'image', source: { type: 'url', url: part.image_url.url } }
+  })
+}
+
+/**
+ * 工具调用的参数转换为对象，模型生成的参数不是合法 JSON 时传空对象
+ */
+function parseToolInput(args: string): unknown {
+  try {
+    return JSON.parse(args || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function toToolCalls(content: NonNullable<AnthropicResponse['content']>): ChatToolCall[] {
+  return content
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id || '',
+      type: 'function',
+      function: { name: block.name || '', arguments: JSON.stringify(block.input ?? {}) },
+    }))
+}
+
+function toAnthropicTools(tools: ChatToolDefinition[]) {
+  return tools.map(tool => ({
+    name: tool.function.name,
+    description: tool.function.description,
+    input_schema: tool.function.parameters,
+  }))
+}
+
+/**
+ * 转换消息格式：system 消息提取为顶层 system 字段，相邻的同角色消息合并
+ * 工具调用转为 tool_use 块，工具结果转为用户消息中的 tool_result 块
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): {
+  system?: string
+  messages: AnthropicMessage[]
+} {
+  const systemParts: string[] = []
+  const result: AnthropicMessage[] = []
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      const text = getContentText(message.content)
+      if (text) systemParts.push(text)
+      continue
+    }
+
+    const role = message.role === 'assistant' ? 'assistant' : 'user'
+    const blocks: AnthropicContentBlock[] = message.role === 'tool'
+      ? [{ type: 'tool_result', tool_use_id: message.tool_call_id || '', content: getContentText(message.content) }]
+      : toContentBlocks(message.content)
+    for (const call of message.tool_calls ?? []) {
+      blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: parseToolInput(call.function.arguments) })
+    }
+    if (blocks.length === 0) continue
+
+    const last = result[result.length - 1]
+    if (last && last.role === role) {
+      last.content.push(...blocks)
+    } else {
+      result.push({ role, content: blocks })
+    }
+  }
+
+  // Anthropic 要求第一条消息必须来自用户
+  if (result.length > 0 && result[0].role !== 'user') {
+    result.unshift({ role: 'user', content: [{ type: 'text', text: '...' }] })
+  }
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+    messages: result,
+  }
+}
+
+/**
+ * 计算扩展思考的预算，不开启思考时返回 null
+ * 工具调用的后续请求必须回传带签名的思考块，统一格式中没有保留，这类请求不开启思考
+ */
+function getThinkingBudget(request: ChatCompletionRequest, maxTokens: number): number | null {
+  if (!request.reasoning || request.messages[request.messages.length - 1]?.role === 'tool') {
+    return null
+  }
+  const budget = Math.max(MIN_THINKING_BUDGET_TOKENS, Math.floor(maxTokens / 2))
+  return budget < maxTokens ? budget : null
+}
+
+/**
+ * Anthropic Messages API 适配器（/v1/messages）
+ */
+export const anthropicAdapter: ProviderAdapter = {
+  type: 'anthropic',
+
+  async sendChatRequest(provider: ProviderConfig, request: ChatCompletionRequest, signal?: AbortSignal): Promise<Response> {
+    const { system, messages } = toAnthropicMessages(request.messages)
+    const maxTokens = request.max_tokens ?? DEFAULT_MAX_TOKENS
+    const thinkingBudget = getThinkingBudget(request, maxTokens)
+
+    // Anthropic 不支持 frequency_penalty 和 presence_penalty，直接忽略
+    // 开启思考时不能修改 temperature，top_p 也有限制，都使用默认值
+    return fetch(`${provider.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': provider.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages,
+        ...(system && { system }),
+        max_tokens: maxTokens,
+        stream: request.stream,
+        ...(thinkingBudget !== null
+          ? { thinking: { type: 'enabled', budget_tokens: thinkingBudget } }
+          : {
+              ...(request.temperature !== undefined && { temperature: Math.min(request.temperature, 1) }),
+              ...(request.top_p !== undefined && { top_p: request.top_p }),
+            }),
+        ...(request.tools?.length && { tools: toAnthropicTools(request.tools) }),
+      }),
+      signal,
+    })
+  },
+
+  parseCompletion(data: unknown, model: string): ChatCompletion {
+    const json = data as AnthropicResponse
+    const toolCalls = toToolCalls(json.content || [])
+    const text = (json.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('')
+    // 开启扩展思考时，思考过程在 thinking 块中
+    const reasoning = (json.content || [])
+      .filter(block => block.type === 'thinking')
+      .map(block => block.thinking || '')
+      .join('')
+
+    return {
+      id: json.id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: text,
+          ...(reasoning && { reasoning_content: reasoning }),
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        },
+        finish_reason: mapStopReason(json.stop_reason),
+      }],
+      usage: json.usage ? mapUsage(json.usage, json.usage.output_tokens || 0) : undefined,
+    }
+  },
+
+  async *streamChunks(response: Response, model: string): AsyncGenerator<ChatCompletionChunk> {
+    let id = ''
+    let inputUsage: AnthropicUsage | undefined
+    let outputTokens = 0
+    // 内容块序号到工具调用序号的映射
+    const toolIndexes = new Map<number, number>()
+    const created = Math.floor(Date.now() / 1000)
+
+    const chunk = (
+      delta: ChatCompletionChunk['choices'][number]['delta'],
+      finishReason: string | null = null
+    ): ChatCompletionChunk => ({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    })
+
+    for await (const data of readSSEData(response)) {
+      let event: AnthropicStreamEvent
+      try {
+        event = JSON.parse(data)
+      } catch {
+        console.error('无效的JSON数据:', data)
+        continue
+      }
+
+      switch (event.type) {
+        case 'message_start':
+          id = event.message?.id || ''
+          inputUsage = event.message?.usage
+          outputTokens = event.message?.usage?.output_tokens || 0
+          yield chunk({ role: 'assistant', content: '' })
+          break
+
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            const index = toolIndexes.size
+            toolIndexes.set(event.index ?? 0, index)
+            yield chunk({
+              tool_calls: [{
+                index,
+                id: event.content_block.id,
+                type: 'function',
+                function: { name: event.content_block.name, arguments: '' },
+              }],
+            })
+          }
+          break
+
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            yield chunk({ content: event.delta.text })
+          } else if (event.delta?.type === 'thinking_delta' && event.delta.thinking) {
+            yield chunk({ reasoning_content: event.delta.thinking })
+          } else if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+            const index = toolIndexes.get(event.index ?? 0)
+            if (index !== undefined) {
+              yield chunk({ tool_calls: [{ index, function: { arguments: event.delta.partial_json } }] })
+            }
+          }
+          break
+
+        case 'message_delta':
+          if (event.usage?.output_tokens !== undefined) {
+            outputTokens = event.usage.output_tokens
+          }
+          if (event.delta?.stop_reason) {
+            yield chunk({}, mapStopReason(event.delta.stop_reason))
+          }
+          break
+
+        case 'message_stop':
+          yield {
+            ...chunk({}),
+            choices: [],
+            usage: mapUsage(inputUsage, outputTokens),
+          }
+          break
+
+        case 'error':
+          throw new Error(event.error?.message || 'Anthropic stream error')
+      }
+    }
+  },
+
+  async listModels(provider: ProviderConfig): Promise<string[]> {
+    const response = await fetch(`${provider.baseUrl}/models?limit=1000`, {
+      method: 'GET',
+      headers: {
+        'x-api-key': provider.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(await response.text())
+    }
+
+    const data = await response.json()
+    return data.data?.map((model: { id: string }) => model.id) || []
+  },
+}
@@ -0,0 +1,29 @@
+import type { ChatContentPart } from './types'
+
+/**
+ * 提取消息内容中的纯文本（忽略图片等非文本部分）
+ */
+export function getContentText(content: string | ChatContentPart[]): string {
+  if (typeof content === 'string') {
+    return content
+  }
+  return content.map(part => (part.type === 'text' ? part.text : '')).join('')
+}
+
+/**
+ * 解析 data:image/png;base64,xxxx 形式的内联数据，非 data URL 返回 null
+ */
+export function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  const match = url.match(/^data:([^;]+);base64,(.*)$/)
+  return match ? { mimeType: match[1], data: match[2] } : null
+}
+
+/**
+ * 去掉消息内容中的图片，用于不支持图片输入的模型
+ */
+export function removeImageParts(content: string | ChatContentPart[]): string | ChatContentPart[] {
+  if (typeof content === 'string') {
+    return content
+  }
+  return content.filter(part => part.type !== 'image_url')
+}
@@ -0,0 +1,359 @@
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionUsage,
+  ChatContentPart,
+  ChatMessage,
+  ChatToolCall,
+  ChatToolDefinition,
+  ProviderAdapter,
+  ProviderConfig,
+} from './types'
+import { readSSEData } from './sse'
+import { getContentText, parseDataUrl } from './content'
+
+type GeminiPart =
+  | { text: string; thought?: boolean }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { name: string; args: unknown } }
+  | { functionResponse: { name: string; response: unknown } }
+
+interface GeminiContent {
+  role: 'user' | 'model'
+  parts: GeminiPart[]
+}
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number
+  candidatesTokenCount?: number
+  thoughtsTokenCount?: number
+  totalTokenCount?: number
+}
+
+interface GeminiResponse {
+  responseId?: string
+  candidates?: {
+    content?: { parts?: { text?: string; thought?: boolean; functionCall?: { name: string; args?: unknown } }[] }
+    finishReason?: string
+  }[]
+  promptFeedback?: { blockReason?: string }
+  usageMetadata?: GeminiUsageMetadata
+}
+
+// 因安全策略被拦截的结束原因
+const SAFETY_FINISH_REASONS = [
+  'SAFETY',
+  'RECITATION',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+]
+
+/**
+ * Gemini 的结束原因映射为 OpenAI 的 finish_reason
+ */
+function mapFinishReason(finishReason: string | undefined): string | null {
+  if (!finishReason || finishReason === 'FINISH_REASON_UNSPECIFIED') {
+    return null
+  }
+  if (finishReason === 'STOP') {
+    return 'stop'
+  }
+  if (finishReason === 'MAX_TOKENS') {
+    return 'length'
+  }
+  if (SAFETY_FINISH_REASONS.includes(finishReason)) {
+    return 'content_filter'
+  }
+  return finishReason.toLowerCase()
+}
+
+/**
+ * usageMetadata 转换为 OpenAI 格式（思考 Token 按输出计费，计入 completion）
+ */
+function mapUsage(usage: GeminiUsageMetadata): ChatCompletionUsage {
+  const promptTokens = usage.promptTokenCount || 0
+  const completionTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0)
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: usage.totalTokenCount || promptTokens + completionTokens,
+    ...(usage.thoughtsTokenCount && { completion_tokens_details: { reasoning_tokens: usage.thoughtsTokenCount } }),
+  }
+}
+
+/**
+ * 提取候选回复中的文本，thought 为 true 时提取思考摘要
+ */
+function getCandidateText(json: GeminiResponse, thought = false): string {
+  return (json.candidates?.[0]?.content?.parts || [])
+    .filter(part => !!part.thought === thought)
+    .map(part => part.text || '')
+    .join('')
+}
+
+/**
+ * 提取候选回复中的工具调用，Gemini 不返回调用ID，由适配器生成
+ */
+function getCandidateToolCalls(json: GeminiResponse): ChatToolCall[] {
+  return (json.candidates?.[0]?.content?.parts || [])
+    .filter(part => part.functionCall)
+    .map(part => ({
+      id: `call_${crypto.randomUUID()}`,
+      type: 'function',
+      function: { name: part.functionCall!.name, arguments: JSON.stringify(part.functionCall!.args ?? {}) },
+    }))
+}
+
+function toGeminiTools(tools: ChatToolDefinition[]) {
+  return [{
+    functionDeclarations: tools.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters,
+    })),
+  }]
+}
+
+/**
+ * 获取回复的结束原因，提示词本身被拦截时没有候选回复
+ */
+function getFinishReason(json: GeminiResponse): string | null {
+  if (json.promptFeedback?.blockReason) {
+    return 'content_filter'
+  }
+  return mapFinishReason(json.candidates?.[0]?.finishReason)
+}
+
+function toParts(content: string | ChatContentPart[]): GeminiPart[] {
+  if (typeof content === 'string') {
+    return content ? [{ text: content }] : []
+  }
+
+  return content.map((part): GeminiPart => {
+    if (part.type === 'text') {
+      return { text: part.text }
+    }
+
+    // Gemini 只接受内联数据或 File API 上传的文件，普通图片链接以文本形式附带
+    const inline = parseDataUrl(part.image_url.url)
+    if (inline) {
+      return { inlineData: inline }
+    }
+    return { text: part.image_url.url }
+  })
+}
+
+/**
+ * 转换消息格式：system 消息提取为 systemInstruction，assistant 角色改为 model，相邻的同角色消息合并
+ * 工具调用转为 functionCall，工具结果转为用户消息中的 functionResponse（按调用ID找回函数名）
+ */
+export function toGeminiContents(messages: ChatMessage[]): {
+  systemInstruction?: { parts: { text: string }[] }
+  contents: GeminiContent[]
+} {
+  const systemParts: string[] = []
+  const contents: GeminiContent[] = []
+  const toolNames = new Map<string, string>()
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      const text = getContentText(message.content)
+      if (text) systemParts.push(text)
+      continue
+    }
+
+    const parts: GeminiPart[] = message.role === 'tool'
+      ? [{
+          functionResponse: {
+            name: toolNames.get(message.tool_call_id || '') || '',
+            response: { content: getContentText(message.content) },
+          },
+        }]
+      : toParts(message.content)
+    for (const call of message.tool_calls ?? []) {
+      toolNames.set(call.id, call.function.name)
+      let args: unknown = {}
+      try {
+        args = JSON.parse(call.function.arguments || '{}')
+      } catch {
+        // 模型生成的参数不是合法 JSON 时传空对象
+      }
+      parts.push({ functionCall: { name: call.function.name, args } })
+    }
+    if (parts.length === 0) continue
+
+    const role = message.role === 'assistant' ? 'model' : 'user'
+    const last = contents[contents.length - 1]
+    if (last && last.role === role) {
+      last.parts.push(...parts)
+    } else {
+      contents.push({ role, parts })
+    }
+  }
+
+  return {
+    systemInstruction: systemParts.length > 0
+      ? { parts: [{ text: systemParts.join('\n\n') }] }
+      : undefined,
+    contents,
+  }
+}
+
+/**
+ * 模型列表返回的名称带有 models/ 前缀，请求路径中不需要重复
+ */
+function getModelPath(model: string): string {
+  return model.startsWith('models/') ? model : `models/${model}`
+}
+
+/**
+ * Google Gemini 适配器（generateContent / streamGenerateContent）
+ */
+export const geminiAdapter: ProviderAdapter = {
+  type: 'gemini',
+
+  async sendChatRequest(provider: ProviderConfig, request: ChatCompletionRequest, signal?: AbortSignal): Promise<Response> {
+    const { systemInstruction, contents } = toGeminiContents(request.messages)
+    const url = request.stream
+      ? `${provider.baseUrl}/${getModelPath(request.model)}:streamGenerateContent?alt=sse`
+      : `${provider.baseUrl}/${getModelPath(request.model)}:generateContent`
+
+    // 部分 Gemini 模型不支持 frequency_penalty 和 presence_penalty，直接忽略
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': provider.apiKey,
+      },
+      body: JSON.stringify({
+        contents,
+        ...(systemInstruction && { systemInstruction }),
+        ...(request.tools?.length && { tools: toGeminiTools(request.tools) }),
+        generationConfig: {
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.max_tokens !== undefined && { maxOutputTokens: request.max_tokens }),
+          ...(request.top_p !== undefined && { topP: request.top_p }),
+          // 返回思考摘要（带 thought 标记的部分），作为 reasoning_content
+          ...(request.reasoning && { thinkingConfig: { includeThoughts: true } }),
+        },
+      }),
+      signal,
+    })
+  },
+
+  parseCompletion(data: unknown, model: string): ChatCompletion {
+    const json = data as GeminiResponse
+    const toolCalls = getCandidateToolCalls(json)
+    const reasoning = getCandidateText(json, true)
+
+    return {
+      id: json.responseId || '',
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: getCandidateText(json),
+          ...(reasoning && { reasoning_content: reasoning }),
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        },
+        finish_reason: getFinishReason(json),
+      }],
+      usage: json.usageMetadata ? mapUsage(json.usageMetadata) : undefined,
+    }
+  },
+
+  async *streamChunks(response: Response, model: string): AsyncGenerator<ChatCompletionChunk> {
+    let id = ''
+    let usageMetadata: GeminiUsageMetadata | undefined
+    let toolCallCount = 0
+    const created = Math.floor(Date.now() / 1000)
+
+    const chunk = (
+      delta: ChatCompletionChunk['choices'][number]['delta'],
+      finishReason: string | null = null
+    ): ChatCompletionChunk => ({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    })
+
+    for await (const data of readSSEData(response)) {
+      let json: GeminiResponse & { error?: { message?: string } }
+      try {
+        json = JSON.parse(data)
+      } catch {
+        console.error('无效的JSON数据:', data)
+        continue
+      }
+
+      if (json.error) {
+        throw new Error(json.error.message || 'Gemini stream error')
+      }
+
+      id = json.responseId || id
+      // 每个数据块都带有累计的 usageMetadata，只保留最新的一份，结束后统一发送
+      if (json.usageMetadata) {
+        usageMetadata = json.usageMetadata
+      }
+
+      const reasoning = getCandidateText(json, true)
+      if (reasoning) {
+        yield chunk({ reasoning_content: reasoning })
+      }
+
+      const text = getCandidateText(json)
+      if (text) {
+        yield chunk({ content: text })
+      }
+
+      // 工具调用在一个数据块中完整返回
+      const toolCalls = getCandidateToolCalls(json)
+      if (toolCalls.length > 0) {
+        yield chunk({ tool_calls: toolCalls.map(call => ({ ...call, index: toolCallCount++ })) })
+      }
+
+      const finishReason = getFinishReason(json)
+      if (finishReason) {
+        yield chunk({}, finishReason)
+      }
+    }
+
+    if (usageMetadata) {
+      yield {
+        ...chunk({}),
+        choices: [],
+        usage: mapUsage(usageMetadata),
+      }
+    }
+  },
+
+  async listModels(provider: ProviderConfig): Promise<string[]> {
+    const response = await fetch(`${provider.baseUrl}/models?pageSize=1000`, {
+      method: 'GET',
+      headers: {
+        'x-goog-api-key': provider.apiKey,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(await response.text())
+    }
+
+    const data = await response.json()
+    // 只保留支持对话生成的模型，并去掉 models/ 前缀
+    return (data.models || [])
+      .filter((model: { supportedGenerationMethods?: string[] }) =>
+        !model.supportedGenerationMethods || model.supportedGenerationMethods.includes('generateContent')
+      )
+      .map((model: { name: string }) => model.name.replace(/^models\//, ''))
+  },
+}
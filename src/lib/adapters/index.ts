@@ -0,0 +1,29 @@
+import type { ProviderAdapter, ProviderType } from './types'
+import { openaiAdapter } from './openai'
+import { anthropicAdapter } from './anthropic'
+import { geminiAdapter } from './gemini'
+
+export type * from './types'
+
+// 支持的提供商接口类型
+export const PROVIDER_TYPES: ProviderType[] = ['openai', 'anthropic', 'gemini']
+
+const adapters: Record<ProviderType, ProviderAdapter> = {
+  openai: openaiAdapter,
+  anthropic: anthropicAdapter,
+  gemini: geminiAdapter,
+}
+
+/**
+ * 检查是否为支持的提供商类型
+ */
+export function isProviderType(type: unknown): type is ProviderType {
+  return typeof type === 'string' && (PROVIDER_TYPES as string[]).includes(type)
+}
+
+/**
+ * 根据提供商类型获取适配器，未知类型按 OpenAI 兼容接口处理
+ */
+export function getProviderAdapter(type?: string | null): ProviderAdapter {
+  return isProviderType(type) ? adapters[type] : openaiAdapter
+}
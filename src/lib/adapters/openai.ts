@@ -0,0 +1,85 @@
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ProviderAdapter,
+  ProviderConfig,
+} from './types'
+import { readSSEData } from './sse'
+
+/**
+ * 部分上游（如 OpenRouter）把思考过程放在 reasoning 字段，统一改为 reasoning_content
+ */
+function normalizeReasoning<T extends { reasoning_content?: string }>(value: T): T {
+  const { reasoning, ...rest } = value as T & { reasoning?: unknown }
+  if (typeof reasoning === 'string' && value.reasoning_content === undefined) {
+    return { ...rest, reasoning_content: reasoning } as T
+  }
+  return value
+}
+
+/**
+ * OpenAI 兼容接口适配器（/chat/completions）
+ * 上游格式与内部统一格式一致，只做透传
+ */
+export const openaiAdapter: ProviderAdapter = {
+  type: 'openai',
+
+  async sendChatRequest(provider: ProviderConfig, request: ChatCompletionRequest, signal?: AbortSignal): Promise<Response> {
+    const { extra, ...params } = request
+
+    return fetch(`${provider.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${provider.apiKey}`,
+      },
+      body: JSON.stringify({
+        ...extra,
+        ...Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined)),
+      }),
+      signal,
+    })
+  },
+
+  parseCompletion(json: unknown): ChatCompletion {
+    const completion = json as ChatCompletion
+    return {
+      ...completion,
+      choices: (completion.choices || []).map(choice => ({ ...choice, message: choice.message && normalizeReasoning(choice.message) })),
+    }
+  },
+
+  async *streamChunks(response: Response): AsyncGenerator<ChatCompletionChunk> {
+    for await (const data of readSSEData(response)) {
+      let chunk: ChatCompletionChunk
+      try {
+        chunk = JSON.parse(data)
+      } catch {
+        // 不向客户端发送错误的数据，只在日志中记录
+        console.error('无效的JSON数据:', data)
+        continue
+      }
+      yield {
+        ...chunk,
+        choices: chunk.choices?.map(choice => ({ ...choice, delta: choice.delta && normalizeReasoning(choice.delta) })),
+      }
+    }
+  },
+
+  async listModels(provider: ProviderConfig): Promise<string[]> {
+    const response = await fetch(`${provider.baseUrl}/models`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${provider.apiKey}`,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(await response.text())
+    }
+
+    const data = await response.json()
+    return data.data?.map((model: { id: string }) => model.id) || []
+  },
+}
@@ -0,0 +1,41 @@
+/**
+ * 逐条读取 SSE 响应中的 data 字段
+ * 处理被分割到多个网络包中的行，遇到 [DONE] 时结束
+ */
+export async function* readSSEData(response: Response): AsyncGenerator<string> {
+  const reader = response.body?.getReader()
+  if (!reader) {
+    return
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      while (buffer.includes('\n')) {
+        const lineEndIndex = buffer.indexOf('\n')
+        const line = buffer.substring(0, lineEndIndex).trim()
+        buffer = buffer.substring(lineEndIndex + 1)
+
+        if (!line.startsWith('data:')) continue
+
+        const data = line.slice(5).trim()
+        if (data === '[DONE]') {
+          return
+        }
+
+        if (data) {
+          yield data
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * 提供商适配层的类型定义
+ * 所有适配器对内统一使用 OpenAI Chat Completions 的消息和响应格式
+ */
+
+// 提供商接口类型
+export type ProviderType = 'openai' | 'anthropic' | 'gemini'
+
+// 多段内容（文本、图片）
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: string } }
+
+// 工具定义（JSON Schema 描述参数）
+export interface ChatToolDefinition {
+  type: 'function'
+  function: {
+    name: string
+    description: string
+    parameters: Record<string, unknown>
+  }
+}
+
+// 模型发起的工具调用，arguments 为 JSON 字符串
+export interface ChatToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+// 流式响应中的工具调用片段，按 index 拼接
+export interface ChatToolCallDelta {
+  index: number
+  id?: string
+  type?: 'function'
+  function?: { name?: string; arguments?: string }
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string | ChatContentPart[]
+  tool_calls?: ChatToolCall[] // assistant 消息发起的工具调用
+  tool_call_id?: string // tool 消息对应的工具调用
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+  // 推理模型的思考 Token，已计入 completion_tokens，上游返回时才有
+  completion_tokens_details?: { reasoning_tokens?: number }
+}
+
+// 统一的流式数据块（OpenAI chat.completion.chunk 格式）
+// 推理模型的思考过程放在 reasoning_content 中（DeepSeek 的格式），与回复正文分开
+export interface ChatCompletionChunk {
+  id: string
+  object: 'chat.completion.chunk'
+  created: number
+  model: string
+  choices: {
+    index: number
+    delta: { role?: 'assistant'; content?: string; reasoning_content?: string; tool_calls?: ChatToolCallDelta[] }
+    finish_reason: string | null
+  }[]
+  usage?: ChatCompletionUsage
+}
+
+// 统一的非流式响应（OpenAI chat.completion 格式）
+export interface ChatCompletion {
+  id: string
+  object: 'chat.completion'
+  created: number
+  model: string
+  choices: {
+    index: number
+    message: { role: 'assistant'; content: string; reasoning_content?: string; tool_calls?: ChatToolCall[] }
+    finish_reason: string | null
+  }[]
+  usage?: ChatCompletionUsage
+}
+
+export interface ProviderConfig {
+  baseUrl: string
+  apiKey: string
+}
+
+export interface ChatCompletionRequest {
+  model: string // 上游的模型ID
+  messages: ChatMessage[]
+  stream: boolean
+  temperature?: number
+  max_tokens?: number
+  top_p?: number
+  frequency_penalty?: number
+  presence_penalty?: number
+  tools?: ChatToolDefinition[]
+  // 请求返回思考过程，只对支持推理的模型开启；OpenAI 兼容的上游忽略此项，由模型自行决定
+  reasoning?: boolean
+  // 其他透传给 OpenAI 兼容上游的参数
+  extra?: Record<string, unknown>
+}
+
+export interface ProviderAdapter {
+  type: ProviderType
+  /**
+   * 发送聊天请求，返回上游的原始响应
+   * signal 中止时取消上游请求（包括正在读取的流）
+   */
+  sendChatRequest(provider: ProviderConfig, request: ChatCompletionRequest, signal?: AbortSignal): Promise<Response>
+  /**
+   * 把上游的非流式响应转换为统一格式
+   */
+  parseCompletion(json: unknown, model: string): ChatCompletion
+  /**
+   * 把上游的流式响应转换为统一格式的数据块
+   */
+  streamChunks(response: Response, model: string): AsyncGenerator<ChatCompletionChunk>
+  /**
+   * 获取上游可用的模型ID列表
+   */
+  listModels(provider: ProviderConfig): Promise<string[]>
+}
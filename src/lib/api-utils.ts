@@ -1,36 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getActiveSession } from '@/lib/db/sessions';
+import { verifyApiKey } from '@/lib/db/api-keys';
+import type { ApiKey } from '@prisma/client';
+import { SESSION_ID_HEADER } from '@/lib/session';
+
+/**
+ * 获取当前请求的会话ID（由 middleware 校验会话 Cookie 后写入请求头）
+ */
+export function getSessionIdFromRequest(request: NextRequest): string | null {
+  return request.headers.get(SESSION_ID_HEADER);
+}
 
 /**
  * 从请求中获取用户ID
+ * 会话必须存在、未被吊销且未过期，用户必须处于活跃状态
  */
 export async function getUserFromRequest(request: NextRequest): Promise<string | null> {
   try {
-    // 从查询参数中获取userId（临时方案，实际项目应该使用JWT或session）
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId') || searchParams.get('adminUserId');
+    const sessionId = getSessionIdFromRequest(request);
 
-    if (!userId) {
+    if (!sessionId) {
       return null;
     }
 
-    // 验证用户是否存在且活跃
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { id: true, isActive: true, role: true },
-    });
+    const session = await getActiveSession(sessionId);
 
-    if (!user || !user.isActive) {
+    if (!session) {
       return null;
     }
 
-    return user.id;
+    return session.userId;
   } catch (error) {
     console.error('Error getting user from request:', error);
     return null;
   }
 }
 
+/**
+ * 从 Authorization: Bearer 请求头中获取有效的 API 密钥
+ */
+export async function getApiKeyFromRequest(request: NextRequest): Promise<ApiKey | null> {
+  try {
+    const authorization = request.headers.get('authorization');
+
+    if (!authorization?.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const key = authorization.slice('Bearer '.length).trim();
+    if (!key) {
+      return null;
+    }
+
+    return await verifyApiKey(key);
+  } catch (error) {
+    console.error('Error getting API key from request:', error);
+    return null;
+  }
+}
+
 /**
  * 验证用户权限
  */
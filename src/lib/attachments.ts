@@ -0,0 +1,78 @@
+/**
+ * 消息附件的类型和限制：上传接口和聊天页面共用，不依赖数据库
+ * 图片作为多模态内容发送给支持图片的模型；PDF、文本和代码文件提取文本后内联到消息中
+ */
+
+export type AttachmentKind = 'image' | 'document'
+
+// 返回给客户端的附件信息
+export interface AttachmentInfo {
+  id: string
+  fileName: string
+  mimeType: string
+  size: number
+  kind: AttachmentKind
+  tokenCount: number
+}
+
+// 单个文件的最大大小
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+// 每条消息的最大附件数
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5
+// 文档提取的文本超过该长度时截断
+export const MAX_EXTRACTED_TEXT_LENGTH = 100000
+// 图片的估算 token 数（按 1024x1024 的高清图片计算），上游没有返回用量时用于计费
+export const IMAGE_TOKEN_ESTIMATE = 765
+
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+
+// 按扩展名识别的文本和代码文件（浏览器上传这些文件时常常没有 MIME 类型）
+export const TEXT_FILE_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'xml', 'yaml', 'yml', 'toml', 'ini', 'log',
+  'html', 'htm', 'css', 'scss', 'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java',
+  'kt', 'swift', 'c', 'h', 'cpp', 'hpp', 'cc', 'cs', 'php', 'sh', 'bash', 'sql', 'vue', 'svelte', 'prisma',
+]
+
+// 文件选择框的 accept 属性
+export const ATTACHMENT_ACCEPT = [
+  ...IMAGE_MIME_TYPES,
+  'application/pdf',
+  'text/*',
+  ...TEXT_FILE_EXTENSIONS.map(ext => `.${ext}`),
+].join(',')
+
+function getExtension(fileName: string): string {
+  const index = fileName.lastIndexOf('.')
+  return index === -1 ? '' : fileName.slice(index + 1).toLowerCase()
+}
+
+/**
+ * 判断上传的文件类型
+ * @returns 不支持的文件返回 null
+ */
+export function getAttachmentType(
+  fileName: string,
+  mimeType: string
+): { kind: AttachmentKind; format: 'image' | 'pdf' | 'text' } | null {
+  if (IMAGE_MIME_TYPES.includes(mimeType)) {
+    return { kind: 'image', format: 'image' }
+  }
+
+  const extension = getExtension(fileName)
+  if (mimeType === 'application/pdf' || extension === 'pdf') {
+    return { kind: 'document', format: 'pdf' }
+  }
+  if (mimeType.startsWith('text/') || mimeType === 'application/json' || TEXT_FILE_EXTENSIONS.includes(extension)) {
+    return { kind: 'document', format: 'text' }
+  }
+  return null
+}
+
+/**
+ * 格式化文件大小
+ */
+export function formatFileSize(size: number): string {
+  if (size < 1024) return `${size} B`
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`
+  return `${(size / 1024 / 1024).toFixed(1)} MB`
+}
@@ -233,7 +233,7 @@ export async function loginUser(username: string, password: string): Promise<Aut
  */
 export async function checkUserPermission(
   userId: string, 
-  action: 'chat' | 'create_invite' | 'create_access' | 'admin_panel'
+  action: 'chat' | 'create_invite' | 'create_access' | 'create_api_key' | 'manage_presets' | 'admin_panel'
 ): Promise<boolean> {
   try {
     const user = await prisma.user.findUnique({
@@ -255,6 +255,12 @@ export async function checkUserPermission(
       case 'create_access':
         return (user.role === 'USER' && user.canShareAccessCode) || user.role === 'ADMIN'
 
+      case 'create_api_key':
+        return user.role === 'ADMIN' || user.role === 'USER'
+
+      case 'manage_presets':
+        return user.role === 'ADMIN' || user.role === 'USER'
+
       case 'admin_panel':
         return user.role === 'ADMIN'
 
@@ -0,0 +1,78 @@
+import type { ChatCompletionUsage } from '@/lib/adapters'
+import type { ToolCallRecord } from '@/lib/tools/catalog'
+
+/**
+ * 多模型对比
+ * 同一个问题同时发送给多个模型（每个模型一个 /api/chat 请求，带相同的对比ID），回复不直接保存，
+ * 而是在当前进程内存中保留一段时间，用户选择保留其中一个回复后作为对话的下一轮保存
+ */
+
+export const MIN_COMPARE_MODELS = 2
+export const MAX_COMPARE_MODELS = 4
+
+// 对比ID的最大长度（由客户端生成）
+export const MAX_COMPARE_ID_LENGTH = 100
+
+// 对比的回复在内存中保留的时间
+const RETAIN_MS = 30 * 60 * 1000
+
+// 一个模型的对比回复，以及保留时保存为对话下一轮所需的信息
+export interface CompareCandidate {
+  userId: string
+  conversationId?: string // 在已保存的对话中对比时的对话
+  parentMessageId: string | null // 本轮新消息所在的父消息
+  userContent: string | null // 本轮的用户消息，为已有的用户消息生成回复时为空
+  userAttachmentIds?: string[]
+  sentAt: Date
+  providerId: string // 实际回答的提供商和模型
+  modelId: string
+  content: string
+  reasoning: string
+  toolCalls: ToolCallRecord[]
+  finishReason: string | null
+  tokenUsage: ChatCompletionUsage & { is_estimated?: boolean }
+}
+
+const globalForComparisons = globalThis as unknown as {
+  chatComparisons: Map<string, Map<string, CompareCandidate>> | undefined
+}
+
+// 用户ID和对比ID -> 模型ID -> 回复
+const comparisons = globalForComparisons.chatComparisons ?? new Map<string, Map<string, CompareCandidate>>()
+globalForComparisons.chatComparisons = comparisons
+
+function getKey(userId: string, compareId: string) {
+  return `${userId}:${compareId}`
+}
+
+export function isValidCompareId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_COMPARE_ID_LENGTH
+}
+
+/**
+ * 保存一个模型的对比回复，一次对比的所有回复在第一个回复保存后的一段时间内有效
+ */
+export function saveCompareCandidate(compareId: string, candidate: CompareCandidate) {
+  const key = getKey(candidate.userId, compareId)
+  let group = comparisons.get(key)
+  if (!group) {
+    group = new Map()
+    comparisons.set(key, group)
+    setTimeout(() => comparisons.delete(key), RETAIN_MS)
+  }
+  group.set(candidate.modelId, candidate)
+}
+
+/**
+ * 获取用户的对比回复，已过期或不在当前进程中时返回 null
+ */
+export function getCompareCandidate(userId: string, compareId: string, modelId: string): CompareCandidate | null {
+  return comparisons.get(getKey(userId, compareId))?.get(modelId) ?? null
+}
+
+/**
+ * 保留其中一个回复后丢弃本次对比的所有回复
+ */
+export function clearComparison(userId: string, compareId: string) {
+  comparisons.delete(getKey(userId, compareId))
+}
@@ -0,0 +1,253 @@
+import { createHash } from 'crypto'
+import type { ChatMessage } from '@/lib/adapters'
+import { estimateTokens } from '@/lib/token-counter'
+import { recordTokenUsage } from '@/lib/db/token-usage'
+import { sendChatWithFallback, type ChatModel } from '@/lib/chat-fallback'
+import { getMessageText } from '@/lib/openai-gateway'
+import { IMAGE_TOKEN_ESTIMATE } from '@/lib/attachments'
+
+/**
+ * 上下文窗口管理
+ * 模型配置了上下文长度时，发送前裁剪较早的消息，保证提示词和回复不超过上下文长度。
+ * 对话选择总结时，被裁剪的消息由模型总结为摘要，摘要保存在对话上，之后只需要总结新裁剪的消息（滚动摘要）
+ */
+
+// 超出上下文长度时的处理方式：truncate 丢弃较早的消息，summarize 把较早的消息总结为摘要
+export const CONTEXT_STRATEGIES = ['truncate', 'summarize'] as const
+
+export type ContextStrategy = typeof CONTEXT_STRATEGIES[number]
+
+// 保存在对话上的摘要：覆盖当前分支开头的 count 条消息，hash 用于判断这些消息是否变化（编辑、切换分支）
+export interface ContextSummary {
+  content: string
+  count: number
+  hash: string
+}
+
+export interface ChatContextResult {
+  messages: ChatMessage[]
+  excluded: number // 未发送给模型的较早消息数
+  summary: ContextSummary | null // 本次使用的摘要
+}
+
+// 每条消息的格式开销（角色、分隔符）
+const MESSAGE_OVERHEAD_TOKENS = 4
+// 摘要的最大长度
+const SUMMARY_MAX_TOKENS = 500
+// 从头总结时最多分批请求的次数，更早的消息直接丢弃
+const MAX_SUMMARY_BATCHES = 4
+
+const SUMMARY_INSTRUCTION = '你负责总结对话。请用简洁的语言总结下面的对话内容，保留关键事实、用户的要求和已经得出的结论，'
+  + '使用对话的语言，不要添加对话中没有的内容。只输出摘要。'
+
+export function countMessageTokens(message: ChatMessage): number {
+  const images = Array.isArray(message.content)
+    ? message.content.filter(part => part.type === 'image_url').length
+    : 0
+  return estimateTokens(getMessageText(message.content)) + images * IMAGE_TOKEN_ESTIMATE + MESSAGE_OVERHEAD_TOKENS
+}
+
+function hashMessages(messages: ChatMessage[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify(messages.map(m => [m.role, getMessageText(m.content)])))
+    .digest('hex')
+}
+
+/**
+ * 从最新的消息往前保留，直到超出预算；至少保留最后一条消息，保留的部分从用户消息开始
+ * @returns 第一条保留的消息的位置
+ */
+function findFirstKeptIndex(messages: ChatMessage[], budget: number): number {
+  let used = 0
+  let index = messages.length
+  while (index > 0) {
+    const tokens = countMessageTokens(messages[index - 1])
+    if (index < messages.length && used + tokens > budget) break
+    used += tokens
+    index--
+  }
+
+  while (index < messages.length - 1 && messages[index].role !== 'user') {
+    index++
+  }
+  return index
+}
+
+/**
+ * 把消息分成不超过预算的批次
+ */
+function splitIntoBatches(messages: ChatMessage[], budget: number): ChatMessage[][] {
+  const batches: ChatMessage[][] = []
+  let current: ChatMessage[] = []
+  let used = 0
+  for (const message of messages) {
+    const tokens = countMessageTokens(message)
+    if (current.length > 0 && used + tokens > budget) {
+      batches.push(current)
+      current = []
+      used = 0
+    }
+    current.push(message)
+    used += tokens
+  }
+  if (current.length > 0) {
+    batches.push(current)
+  }
+  return batches
+}
+
+/**
+ * 用于总结的模型请求，返回 null 表示总结失败
+ */
+export type Summarizer = (previousSummary: string | null, messages: ChatMessage[]) => Promise<string | null>
+
+/**
+ * 构建发送给模型的上下文
+ * @param messages 对话中当前分支的消息，最后一条为本轮的用户消息
+ * @param options.systemMessages 添加在开头的系统消息（如预设的系统提示词），始终保留
+ * @param options.reservedTokens 为回复预留的 token 数
+ * @param options.summarizer 传入时把裁剪的消息总结为摘要，总结失败时只裁剪
+ */
+export async function buildChatContext(
+  messages: ChatMessage[],
+  options: {
+    systemMessages?: ChatMessage[]
+    contextLength?: number | null
+    reservedTokens?: number
+    summarizer?: Summarizer
+    previousSummary?: ContextSummary | null
+  }
+): Promise<ChatContextResult> {
+  const systemMessages = options.systemMessages ?? []
+  if (!options.contextLength) {
+    return { messages: [...systemMessages, ...messages], excluded: 0, summary: null }
+  }
+
+  const summaryReserve = options.summarizer
+    ? Math.min(SUMMARY_MAX_TOKENS, Math.floor(options.contextLength / 5))
+    : 0
+  const budget = options.contextLength
+    - (options.reservedTokens ?? 0)
+    - systemMessages.reduce((sum, m) => sum + countMessageTokens(m), 0)
+    - summaryReserve
+
+  const excluded = findFirstKeptIndex(messages, budget)
+  const kept = messages.slice(excluded)
+  if (excluded === 0) {
+    return { messages: [...systemMessages, ...kept], excluded, summary: null }
+  }
+
+  let summary: ContextSummary | null = null
+  if (options.summarizer) {
+    summary = await summarizeMessages(messages.slice(0, excluded), {
+      summarizer: options.summarizer,
+      previous: options.previousSummary ?? null,
+      batchBudget: options.contextLength - SUMMARY_MAX_TOKENS * 2,
+    })
+  }
+
+  const summaryMessages: ChatMessage[] = summary
+    ? [{ role: 'system', content: `以下是之前对话的摘要：\n${summary.content}` }]
+    : []
+
+  return {
+    messages: [...systemMessages, ...summaryMessages, ...kept],
+    excluded,
+    summary,
+  }
+}
+
+/**
+ * 总结被裁剪的消息：之前的摘要仍然有效时只总结之后新裁剪的消息
+ */
+async function summarizeMessages(
+  messages: ChatMessage[],
+  options: { summarizer: Summarizer; previous: ContextSummary | null; batchBudget: number }
+): Promise<ContextSummary | null> {
+  const { previous } = options
+  const reusable = !!previous
+    && previous.count <= messages.length
+    && previous.hash === hashMessages(messages.slice(0, previous.count))
+
+  let content = reusable ? previous.content : null
+  const pending = messages.slice(reusable ? previous.count : 0)
+  if (pending.length === 0) {
+    return previous
+  }
+
+  let batches = splitIntoBatches(pending, Math.max(options.batchBudget, SUMMARY_MAX_TOKENS))
+  if (batches.length > MAX_SUMMARY_BATCHES) {
+    content = null
+    batches = batches.slice(-MAX_SUMMARY_BATCHES)
+  }
+
+  for (const batch of batches) {
+    const result = await options.summarizer(content, batch)
+    if (!result) {
+      return null
+    }
+    content = result
+  }
+
+  return content
+    ? { content, count: messages.length, hash: hashMessages(messages) }
+    : null
+}
+
+/**
+ * 使用对话的模型（及其备用模型）总结消息，并记录 Token 使用量
+ */
+export function createSummarizer(
+  chain: ChatModel[],
+  usage: { userId: string; conversationId?: string },
+  signal?: AbortSignal
+): Summarizer {
+  return async (previousSummary, messages) => {
+    const transcript = messages
+      .map(m => `${m.role === 'user' ? '用户' : m.role === 'assistant' ? '助手' : '系统'}：${getMessageText(m.content)}`)
+      .join('\n\n')
+    const input = previousSummary
+      ? `之前的摘要：\n${previousSummary}\n\n之后的对话：\n${transcript}`
+      : transcript
+
+    try {
+      const result = await sendChatWithFallback(chain, (candidate) => ({
+        model: candidate.modelId,
+        messages: [
+          { role: 'system', content: SUMMARY_INSTRUCTION },
+          { role: 'user', content: input },
+        ],
+        stream: false,
+        temperature: 0.3,
+        max_tokens: SUMMARY_MAX_TOKENS,
+      }), signal)
+
+      if (!result?.response.ok) {
+        console.error('Context summary request failed:', result ? await result.response.text() : 'no available key')
+        return null
+      }
+
+      const completion = result.adapter.parseCompletion(await result.response.json(), result.model.modelId)
+      const content = completion.choices?.[0]?.message?.content?.trim() || null
+
+      await recordTokenUsage({
+        userId: usage.userId,
+        conversationId: usage.conversationId,
+        providerId: result.model.provider.id,
+        modelId: result.model.id,
+        promptTokens: completion.usage?.prompt_tokens,
+        completionTokens: completion.usage?.completion_tokens,
+        totalTokens: completion.usage?.total_tokens,
+        inputText: SUMMARY_INSTRUCTION + input,
+        outputText: content || '',
+      }).catch((error) => {
+        console.error('Error recording summary token usage:', error)
+      })
+
+      return content
+    } catch (error) {
+      console.error('Context summary error:', error)
+      return null
+    }
+  }
+}
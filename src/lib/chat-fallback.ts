@@ -0,0 +1,183 @@
+import { prisma } from '@/lib/prisma'
+import type { Model, Provider } from '@prisma/client'
+import { getProviderAdapter } from '@/lib/adapters'
+import type { ChatCompletionRequest, ProviderAdapter } from '@/lib/adapters'
+import { isKeyFailureStatus, recordProviderKeyFailure, selectProviderKey } from '@/lib/db/provider-keys'
+
+// 聊天请求需要的提供商字段
+export const CHAT_PROVIDER_SELECT = {
+  id: true,
+  name: true,
+  displayName: true,
+  type: true,
+  baseUrl: true,
+  apiKey: true,
+  keySelection: true,
+  isEnabled: true,
+} as const
+
+export type ChatModel = Model & {
+  provider: Pick<Provider, 'id' | 'name' | 'displayName' | 'type' | 'baseUrl' | 'apiKey' | 'keySelection' | 'isEnabled'>
+}
+
+export interface FallbackResult {
+  response: Response
+  model: ChatModel
+  adapter: ProviderAdapter
+}
+
+// 每个模型的最大尝试次数（含首次请求）
+const MAX_ATTEMPTS_PER_MODEL = 2
+// 退避的基础等待时间和上限（毫秒）
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 5000
+
+/**
+ * 解析备用模型ID列表（逗号分隔）
+ */
+export function parseFallbackModelIds(value: string | null | undefined): string[] {
+  return value ? value.split(',').map(id => id.trim()).filter(Boolean) : []
+}
+
+/**
+ * 限流和上游故障时可以重试或切换到备用模型
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * 计算退避等待时间，优先使用上游返回的 Retry-After
+ */
+function getBackoffDelay(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get('retry-after'))
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_BACKOFF_MS)
+  }
+  return Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS)
+}
+
+// 密钥是否可用在发送请求时由密钥池判断
+function isUsable(model: ChatModel): boolean {
+  return model.isEnabled && model.provider.isEnabled && !!model.provider.baseUrl
+}
+
+/**
+ * 获取模型的回退链：主模型在前，随后是管理员配置的备用模型
+ * 只保留已启用、配置完整且用户有权使用的模型
+ */
+export async function getFallbackChain(
+  model: ChatModel,
+  isAllowed: (modelId: string) => boolean
+): Promise<ChatModel[]> {
+  const fallbackIds = parseFallbackModelIds(model.fallbackModelIds)
+    .filter(id => id !== model.id && isAllowed(id))
+
+  if (fallbackIds.length === 0) {
+    return [model]
+  }
+
+  const fallbackModels: ChatModel[] = await prisma.model.findMany({
+    where: { id: { in: fallbackIds } },
+    include: {
+      provider: {
+        select: CHAT_PROVIDER_SELECT,
+      },
+    },
+  })
+
+  // 按管理员配置的顺序排列
+  const ordered = fallbackIds
+    .map(id => fallbackModels.find(m => m.id === id))
+    .filter((m): m is ChatModel => !!m && isUsable(m))
+
+  return [model, ...ordered]
+}
+
+/**
+ * 按回退链依次发送聊天请求，每次尝试都从提供商的密钥池中选取密钥
+ * 遇到 429/5xx 或网络错误时先退避重试当前模型，仍失败则切换到下一个模型；
+ * 密钥限流或认证失败时暂停该密钥并换用其他密钥；
+ * 其他错误（如请求参数错误）直接返回，不再尝试；signal 中止（客户端断开）时不再重试
+ * @returns 没有任何可用密钥时返回 null
+ */
+export async function sendChatWithFallback(
+  chain: ChatModel[],
+  buildRequest: (model: ChatModel) => ChatCompletionRequest,
+  signal?: AbortSignal
+): Promise<FallbackResult | null> {
+  let lastResult: FallbackResult | null = null
+  let lastError: unknown = null
+
+  for (const model of chain) {
+    const adapter = getProviderAdapter(model.provider.type)
+    // 已经限流或认证失败的密钥，冷却很短时也不会在本次请求中再次选中，池中的密钥都失败后切换到下一个模型
+    const failedKeyIds: string[] = []
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS_PER_MODEL; attempt++) {
+      const providerKey = await selectProviderKey(model.provider, failedKeyIds)
+      if (!providerKey) {
+        console.warn(`No available API key for provider ${model.provider.name}`)
+        break
+      }
+
+      let response: Response | undefined
+      try {
+        response = await adapter.sendChatRequest(
+          { baseUrl: model.provider.baseUrl!, apiKey: providerKey.key },
+          buildRequest(model),
+          signal
+        )
+
+        // 丢弃上一次失败响应的内容，释放连接
+        await lastResult?.response.body?.cancel().catch(() => {})
+
+        // 密钥池中的密钥失效时换用其他密钥，默认密钥的认证错误直接返回
+        const keyFailed = !!providerKey.id && isKeyFailureStatus(response.status)
+        if (response.ok || (!isRetryableStatus(response.status) && !keyFailed)) {
+          return { response, model, adapter }
+        }
+
+        if (providerKey.id) {
+          await recordProviderKeyFailure(providerKey.id, {
+            status: response.status,
+            message: await response.clone().text().catch(() => response!.statusText),
+            retryAfterSeconds: Number(response.headers.get('retry-after')) || undefined,
+          })
+        }
+
+        lastResult = { response, model, adapter }
+        console.warn(`Upstream ${model.provider.name}/${model.modelId} returned ${response.status} (attempt ${attempt + 1})`)
+
+        // 失效的密钥已进入冷却，换用其他密钥时不计入重试次数，也不需要等待
+        if (keyFailed) {
+          failedKeyIds.push(providerKey.id!)
+          attempt--
+          continue
+        }
+      } catch (error) {
+        // 客户端已断开，不是上游或密钥的问题
+        if (signal?.aborted) {
+          throw error
+        }
+
+        lastError = error
+        console.warn(`Upstream ${model.provider.name}/${model.modelId} request failed (attempt ${attempt + 1}):`, error)
+        if (providerKey.id) {
+          await recordProviderKeyFailure(providerKey.id, {
+            message: error instanceof Error ? error.message : 'Network error',
+          }).catch(() => {})
+        }
+      }
+
+      if (attempt < MAX_ATTEMPTS_PER_MODEL - 1) {
+        await new Promise(resolve => setTimeout(resolve, getBackoffDelay(attempt, response)))
+      }
+    }
+  }
+
+  if (lastResult || !lastError) {
+    return lastResult
+  }
+  throw lastError
+}
@@ -0,0 +1,478 @@
+import type { Generation } from '@prisma/client'
+import type { ChatCompletionChunk, ChatCompletionUsage } from '@/lib/adapters'
+import type { ChatStreamEvent } from '@/lib/chat-tools'
+import type { ToolCallRecord } from '@/lib/tools/catalog'
+import { estimateTokens } from '@/lib/token-counter'
+import { saveChatTurn } from '@/lib/db/conversations'
+import {
+  createGeneration,
+  finishGeneration,
+  getGeneration,
+  markGenerationInterrupted,
+  updateGenerationContent,
+} from '@/lib/db/generations'
+
+/**
+ * 可恢复的流式生成
+ * 上游的回复由服务端读取到结束并保存为助手消息，客户端只是订阅者：
+ * 断开（刷新页面、网络中断）不会中止生成，重新连接时从已收到的位置继续接收。
+ * 进行中的生成保存在运行它的进程内存中，并定期写入数据库；
+ * 其他进程（多实例部署、热重载后）从数据库读取进度，超过一段时间没有写入才视为已中断
+ */
+
+interface GenerationState {
+  id: string
+  content: string
+  reasoning: string
+  toolCalls: ToolCallRecord[]
+  usage: ChatCompletionUsage | null
+  finishReason: string | null
+  done: boolean
+  abort: AbortController
+  listeners: Set<() => void>
+}
+
+export interface StartGenerationOptions {
+  conversationId: string
+  userId: string
+  providerId: string
+  modelId: string // 数据库中的模型ID
+  events: AsyncIterable<ChatStreamEvent> // 上游回复（含工具调用循环）
+  abort: AbortController
+  promptContent: string
+  imageTokens?: number // 输入中图片的估算 token 数
+  userContent?: string | null // 本轮的用户消息，与回复一起保存
+  userAttachmentIds?: string[]
+  parentMessageId?: string | null // 本轮新消息所在的父消息
+}
+
+// 生成进度写入数据库的间隔
+const FLUSH_INTERVAL_MS = 1000
+// 上游没有输出（思考、执行工具）时也定期写入，表示生成仍在运行
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+// 超过这个时间没有写入的生成视为已中断
+const STALE_AFTER_MS = 60 * 1000
+// 生成结束后在内存中保留的时间，供断开的客户端取回结尾
+const RETAIN_AFTER_DONE_MS = 60 * 1000
+
+const globalForGenerations = globalThis as unknown as {
+  chatGenerations: Map<string, GenerationState> | undefined
+}
+
+const generations = globalForGenerations.chatGenerations ?? new Map<string, GenerationState>()
+globalForGenerations.chatGenerations = generations
+
+function notify(state: GenerationState) {
+  for (const listener of state.listeners) {
+    listener()
+  }
+  state.listeners.clear()
+}
+
+/**
+ * 开始生成：创建生成记录，并在后台读取上游响应直到结束
+ */
+export async function startGeneration(options: StartGenerationOptions): Promise<Generation> {
+  const generation = await createGeneration({
+    conversationId: options.conversationId,
+    userId: options.userId,
+    providerId: options.providerId,
+    modelId: options.modelId,
+    userContent: options.userContent,
+    userAttachmentIds: options.userAttachmentIds,
+    parentMessageId: options.parentMessageId,
+  })
+
+  const state: GenerationState = {
+    id: generation.id,
+    content: '',
+    reasoning: '',
+    toolCalls: [],
+    usage: null,
+    finishReason: null,
+    done: false,
+    abort: options.abort,
+    listeners: new Set(),
+  }
+  generations.set(state.id, state)
+
+  void runGeneration(state, generation.createdAt, options)
+
+  return generation
+}
+
+async function runGeneration(state: GenerationState, startedAt: Date, options: StartGenerationOptions) {
+  let error: string | undefined
+  let lastFlush = Date.now()
+
+  const heartbeat = setInterval(() => {
+    if (Date.now() - lastFlush >= HEARTBEAT_INTERVAL_MS) {
+      lastFlush = Date.now()
+      updateGenerationContent(state.id, state.content, state.reasoning, state.toolCalls).catch((err) => {
+        console.error('Error saving generation progress:', err)
+      })
+    }
+  }, HEARTBEAT_INTERVAL_MS)
+
+  try {
+    for await (const event of options.events) {
+      // 工具调用的状态变化立即保存，执行工具期间断开的客户端重新连接时也能看到
+      let flush = false
+      if (event.type === 'tool') {
+        const index = state.toolCalls.findIndex(call => call.id === event.call.id)
+        if (index === -1) {
+          state.toolCalls.push(event.call)
+        } else {
+          state.toolCalls[index] = event.call
+        }
+        flush = true
+      } else if (event.type === 'reasoning') {
+        state.reasoning += event.content
+      } else {
+        const { chunk } = event
+        if (chunk.usage) {
+          state.usage = chunk.usage
+        }
+        state.content += chunk.choices?.[0]?.delta?.content || ''
+        state.finishReason = chunk.choices?.[0]?.finish_reason || state.finishReason
+      }
+      notify(state)
+
+      if (flush || Date.now() - lastFlush >= FLUSH_INTERVAL_MS) {
+        lastFlush = Date.now()
+        await updateGenerationContent(state.id, state.content, state.reasoning, state.toolCalls).catch((err) => {
+          console.error('Error saving generation progress:', err)
+        })
+      }
+    }
+  } catch (err) {
+    if (!state.abort.signal.aborted) {
+      console.error('Generation stream error:', err)
+      error = err instanceof Error ? err.message : 'Stream error'
+    }
+  } finally {
+    clearInterval(heartbeat)
+  }
+
+  const cancelled = state.abort.signal.aborted
+  if (cancelled) {
+    state.finishReason = 'cancelled'
+  } else if (error) {
+    state.finishReason = 'error'
+  }
+
+  try {
+    await saveGenerationResult(state.id, {
+      conversationId: options.conversationId,
+      userContent: options.userContent,
+      userAttachmentIds: options.userAttachmentIds,
+      parentMessageId: options.parentMessageId,
+      sentAt: startedAt,
+      userId: options.userId,
+      providerId: options.providerId,
+      modelId: options.modelId,
+      promptContent: options.promptContent,
+      imageTokens: options.imageTokens,
+      status: cancelled ? 'cancelled' : error ? 'failed' : 'completed',
+      content: state.content,
+      reasoning: state.reasoning,
+      toolCalls: state.toolCalls,
+      finishReason: state.finishReason || 'stop',
+      usage: state.usage,
+      error,
+    })
+  } catch (err) {
+    console.error('Error finishing generation:', err)
+  }
+
+  state.done = true
+  notify(state)
+  setTimeout(() => generations.delete(state.id), RETAIN_AFTER_DONE_MS)
+}
+
+/**
+ * 保存生成结果：本轮的用户消息、已生成的助手回复和关联到回复的 Token 使用量在同一事务中保存
+ * 上游没有返回用量（如中途取消）时按实际生成的内容（包括思考过程）估算
+ */
+async function saveGenerationResult(
+  id: string,
+  result: {
+    conversationId: string
+    userId: string
+    providerId: string
+    modelId: string
+    userContent?: string | null
+    userAttachmentIds?: string[]
+    parentMessageId?: string | null
+    sentAt: Date
+    status: 'completed' | 'cancelled' | 'failed'
+    content: string
+    reasoning: string
+    toolCalls: ToolCallRecord[]
+    finishReason: string
+    usage: ChatCompletionUsage | null
+    promptContent?: string
+    imageTokens?: number
+    error?: string
+  }
+) {
+  const promptTokens = (result.promptContent ? estimateTokens(result.promptContent) : 0) + (result.imageTokens ?? 0)
+  const outputText = result.reasoning + result.content
+  const completionTokens = estimateTokens(outputText)
+
+  const { assistantMessage } = await saveChatTurn({
+    conversationId: result.conversationId,
+    userId: result.userId,
+    providerId: result.providerId,
+    modelId: result.modelId,
+    parentId: result.parentMessageId,
+    userContent: result.userContent,
+    userAttachmentIds: result.userAttachmentIds,
+    sentAt: result.sentAt,
+    assistant: result.content || result.reasoning || result.toolCalls.length > 0 ? {
+      content: result.content,
+      reasoning: result.reasoning,
+      toolCalls: result.toolCalls,
+      finishReason: result.finishReason,
+      tokenUsage: result.usage || {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+        is_estimated: true,
+      },
+    } : undefined,
+    usage: result.usage || outputText ? {
+      promptTokens: result.usage?.prompt_tokens,
+      completionTokens: result.usage?.completion_tokens,
+      totalTokens: result.usage?.total_tokens,
+      reasoningTokens: result.usage?.completion_tokens_details?.reasoning_tokens,
+      inputText: result.promptContent,
+      imageTokens: result.imageTokens,
+      outputText,
+    } : undefined,
+  })
+
+  await finishGeneration(id, {
+    status: result.status,
+    content: result.content,
+    reasoning: result.reasoning,
+    toolCalls: result.toolCalls,
+    finishReason: result.finishReason,
+    error: result.error,
+    messageId: assistantMessage?.id,
+  })
+}
+
+/**
+ * 取消进行中的生成，已生成的部分会被保存
+ * @returns 生成不在当前进程中运行时返回 false
+ */
+export function cancelGeneration(id: string): boolean {
+  const state = generations.get(id)
+  if (!state || state.done) {
+    return false
+  }
+  state.abort.abort()
+  return true
+}
+
+/**
+ * 等待生成结束并保存结果，生成不在当前进程中运行时立即返回
+ */
+export async function waitForGeneration(id: string): Promise<void> {
+  const state = generations.get(id)
+  while (state && !state.done) {
+    await new Promise<void>((resolve) => state.listeners.add(resolve))
+  }
+}
+
+/**
+ * 处理已经不在运行的生成（服务重启等情况下中断）：把已保存的进度作为助手消息保存
+ * 不在当前进程中、但最近仍有写入的生成可能在其他进程中运行，原样返回
+ */
+export async function recoverGeneration(generation: Generation): Promise<Generation> {
+  if (generation.status !== 'streaming' || generations.has(generation.id)) {
+    return generation
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_AFTER_MS)
+  if (generation.updatedAt >= staleBefore) {
+    return generation
+  }
+
+  // 多个请求同时恢复时只处理一次
+  if (!(await markGenerationInterrupted(generation.id, staleBefore))) {
+    return (await getGeneration(generation.id, generation.userId)) ?? generation
+  }
+
+  await saveGenerationResult(generation.id, {
+    conversationId: generation.conversationId,
+    userId: generation.userId,
+    providerId: generation.providerId,
+    modelId: generation.modelId,
+    userContent: generation.userContent,
+    userAttachmentIds: generation.userAttachmentIds,
+    parentMessageId: generation.parentMessageId,
+    sentAt: generation.createdAt,
+    content: generation.content,
+    reasoning: generation.reasoning,
+    toolCalls: getGenerationToolCalls(generation, true),
+    status: 'failed',
+    finishReason: 'error',
+    usage: null,
+    error: 'Generation was interrupted',
+  })
+
+  return { ...generation, status: 'failed', finishReason: 'error', error: 'Generation was interrupted' }
+}
+
+// 数据库中保存的工具调用，中断时仍在执行的调用标记为失败
+function getGenerationToolCalls(generation: Generation, interrupted = generation.status !== 'streaming'): ToolCallRecord[] {
+  const toolCalls = Array.isArray(generation.toolCalls) ? generation.toolCalls as unknown as ToolCallRecord[] : []
+  if (!interrupted) {
+    return toolCalls
+  }
+  return toolCalls.map(call => call.status === 'running' ? { ...call, status: 'error', result: 'Error: Generation was interrupted' } : call)
+}
+
+function toChunk(id: string, content: string, finishReason: string | null, usage?: ChatCompletionUsage | null) {
+  const chunk: ChatCompletionChunk = {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model: '',
+    choices: [{ index: 0, delta: content ? { content } : {}, finish_reason: finishReason }],
+    ...(usage && { usage }),
+  }
+  return `data: ${JSON.stringify(chunk)}\n\n`
+}
+
+function toToolEvent(call: ToolCallRecord) {
+  return `[TOOL_CALL]${JSON.stringify(call)}\n\n`
+}
+
+export function toReasoningEvent(content: string) {
+  return `[REASONING]${JSON.stringify({ content })}\n\n`
+}
+
+/**
+ * 订阅生成内容，从 offset（已收到的字符数）开始发送，格式与 /api/chat 的流式响应相同
+ * 思考过程从 reasoningOffset 开始发送；工具调用没有偏移，重新连接时全部重新发送，客户端按调用ID更新
+ * 客户端断开只会取消订阅，不影响生成
+ */
+export function createGenerationStream(
+  generation: Generation,
+  offset: number,
+  reasoningOffset = 0,
+  prefix = ''
+): ReadableStream {
+  const encoder = new TextEncoder()
+  let closed = false
+  let wake: (() => void) | null = null
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (text: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(text))
+        }
+      }
+
+      let sent = Math.max(0, offset)
+      let reasoningSent = Math.max(0, reasoningOffset)
+      const sendReasoning = (reasoning: string) => {
+        if (reasoning.length > reasoningSent) {
+          send(toReasoningEvent(reasoning.slice(reasoningSent)))
+          reasoningSent = reasoning.length
+        }
+      }
+      // 已发送的工具调用状态
+      const sentTools = new Map<string, string>()
+      const sendToolCalls = (toolCalls: ToolCallRecord[]) => {
+        for (const call of toolCalls) {
+          if (sentTools.get(call.id) !== call.status) {
+            sentTools.set(call.id, call.status)
+            send(toToolEvent(call))
+          }
+        }
+      }
+      let content = generation.content
+      let reasoning = generation.reasoning
+      let toolCalls = getGenerationToolCalls(generation)
+      let finishReason = generation.finishReason
+      let usage: ChatCompletionUsage | null = null
+
+      if (prefix) {
+        send(prefix)
+      }
+
+      const state = generations.get(generation.id)
+      if (state) {
+        while (!closed) {
+          sendReasoning(state.reasoning)
+          sendToolCalls(state.toolCalls)
+          if (state.content.length > sent) {
+            send(toChunk(state.id, state.content.slice(sent), null))
+            sent = state.content.length
+          }
+          if (state.done) break
+
+          await new Promise<void>((resolve) => {
+            wake = resolve
+            state.listeners.add(resolve)
+          })
+        }
+        content = state.content
+        reasoning = state.reasoning
+        toolCalls = state.toolCalls
+        finishReason = state.finishReason
+        usage = state.usage
+      } else {
+        // 生成在其他进程中运行：轮询数据库中保存的进度，直到结束或被视为中断
+        let current: Generation | null = generation
+        while (!closed && current?.status === 'streaming') {
+          sendReasoning(current.reasoning)
+          sendToolCalls(getGenerationToolCalls(current))
+          if (current.content.length > sent) {
+            send(toChunk(current.id, current.content.slice(sent), null))
+            sent = current.content.length
+          }
+
+          await new Promise<void>((resolve) => {
+            wake = resolve
+            setTimeout(resolve, FLUSH_INTERVAL_MS)
+          })
+          current = await getGeneration(generation.id, generation.userId)
+          if (current) {
+            current = await recoverGeneration(current)
+          }
+        }
+        if (current) {
+          content = current.content
+          reasoning = current.reasoning
+          toolCalls = getGenerationToolCalls(current)
+          finishReason = current.finishReason
+        }
+      }
+
+      if (closed) return
+
+      // 已结束的生成直接发送剩余内容
+      sendReasoning(reasoning)
+      sendToolCalls(toolCalls)
+      if (content.length > sent) {
+        send(toChunk(generation.id, content.slice(sent), null))
+      }
+      send(toChunk(generation.id, '', finishReason || 'stop', usage))
+      send('data: [DONE]\n\n')
+      if (usage) {
+        send(`[TOKEN_USAGE]${JSON.stringify(usage)}\n\n`)
+      }
+      controller.close()
+    },
+    cancel() {
+      closed = true
+      wake?.()
+    },
+  })
+}
@@ -7,6 +7,7 @@ export interface ChatPermissionCheck {
   canChat: boolean
   canSaveToDatabase: boolean
   allowedModels: string[]
+  enabledTools?: string[] // 管理员为该用户额外启用的内置工具
   error?: string
 }
 
@@ -103,6 +104,7 @@ export async function checkChatPermissions(
       canChat: true,
       canSaveToDatabase,
       allowedModels,
+      enabledTools: user.permissions?.enabledTools ?? [],
     }
 
   } catch (error) {
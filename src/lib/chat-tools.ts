@@ -0,0 +1,248 @@
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionUsage,
+  ChatMessage,
+  ChatToolCall,
+  ChatToolCallDelta,
+} from '@/lib/adapters'
+import { sendChatWithFallback, type ChatModel, type FallbackResult } from '@/lib/chat-fallback'
+import { executeToolCall, type ToolCallRecord, type ToolContext } from '@/lib/tools'
+
+/**
+ * 工具调用循环
+ * 模型回复中包含工具调用时，在服务端执行工具并把结果发送给同一个模型，直到模型给出不含工具调用的回复。
+ * 各步骤的文本依次拼接为一条助手回复，Token 用量合计后统一发送
+ */
+
+// 一轮回复中最多执行工具的步骤数，超出后不再执行模型发起的工具调用
+export const MAX_TOOL_STEPS = 5
+
+// 流式回复的事件：统一格式的数据块（不含工具调用片段和思考过程）、思考过程片段，或工具调用的状态变化
+export type ChatStreamEvent =
+  | { type: 'chunk'; chunk: ChatCompletionChunk }
+  | { type: 'reasoning'; content: string }
+  | { type: 'tool'; call: ToolCallRecord }
+
+export interface ToolLoopOptions {
+  // 与首次请求相同的请求构造函数，后续步骤在其消息之后追加工具调用和结果
+  buildRequest: (model: ChatModel) => ChatCompletionRequest
+  context: ToolContext
+}
+
+function addUsage(total: ChatCompletionUsage | null, usage: ChatCompletionUsage): ChatCompletionUsage {
+  const reasoningTokens = total?.completion_tokens_details?.reasoning_tokens
+  const stepReasoningTokens = usage.completion_tokens_details?.reasoning_tokens
+
+  return {
+    prompt_tokens: (total?.prompt_tokens ?? 0) + usage.prompt_tokens,
+    completion_tokens: (total?.completion_tokens ?? 0) + usage.completion_tokens,
+    total_tokens: (total?.total_tokens ?? 0) + usage.total_tokens,
+    ...((reasoningTokens !== undefined || stepReasoningTokens !== undefined) && {
+      completion_tokens_details: { reasoning_tokens: (reasoningTokens ?? 0) + (stepReasoningTokens ?? 0) },
+    }),
+  }
+}
+
+/**
+ * 按 index 拼接流式响应中的工具调用片段
+ */
+function mergeToolCallDeltas(calls: ChatToolCall[], deltas: ChatToolCallDelta[]) {
+  for (const delta of deltas) {
+    const call = calls[delta.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } }
+    if (delta.id) call.id = delta.id
+    if (delta.function?.name) call.function.name += delta.function.name
+    if (delta.function?.arguments) call.function.arguments += delta.function.arguments
+  }
+}
+
+/**
+ * 发送下一步请求：使用已经回答的模型，不再回退到其他模型
+ */
+async function sendNextStep(
+  previous: FallbackResult,
+  toolMessages: ChatMessage[],
+  options: ToolLoopOptions
+): Promise<FallbackResult> {
+  const result = await sendChatWithFallback([previous.model], (model) => {
+    const request = options.buildRequest(model)
+    return { ...request, messages: [...request.messages, ...toolMessages] }
+  }, options.context.signal)
+
+  if (!result) {
+    throw new Error('No available API key for this model')
+  }
+  if (!result.response.ok) {
+    throw new Error(`AI API request failed: ${result.response.status} ${await result.response.text()}`)
+  }
+  return result
+}
+
+/**
+ * 依次执行工具调用，返回追加到请求中的消息
+ */
+async function* runToolCalls(
+  content: string,
+  calls: ChatToolCall[],
+  allowed: string[],
+  context: ToolContext
+): AsyncGenerator<ToolCallRecord, ChatMessage[]> {
+  const messages: ChatMessage[] = [{ role: 'assistant', content, tool_calls: calls }]
+
+  for (const call of calls) {
+    yield { id: call.id, name: call.function.name, arguments: call.function.arguments, status: 'running' }
+    const record = await executeToolCall(call, allowed, context)
+    yield record
+    messages.push({ role: 'tool', content: record.result ?? '', tool_call_id: call.id })
+  }
+  return messages
+}
+
+function getToolNames(result: FallbackResult, options: ToolLoopOptions): string[] {
+  return options.buildRequest(result.model).tools?.map(tool => tool.function.name) ?? []
+}
+
+/**
+ * 读取流式回复并执行工具调用循环
+ * 转发文本和结束原因，思考过程以 reasoning 事件、工具调用以 tool 事件发送；上游返回了用量时在最后发送合计的用量
+ */
+export async function* streamChatWithTools(
+  first: FallbackResult,
+  options: ToolLoopOptions
+): AsyncGenerator<ChatStreamEvent> {
+  const allowed = getToolNames(first, options)
+  const toolMessages: ChatMessage[] = []
+  let result = first
+  let usage: ChatCompletionUsage | null = null
+  let last: ChatCompletionChunk | null = null
+  // 已经发送过文本时，与下一步的文本之间空一行
+  let hasText = false
+  let separator = ''
+
+  for (let step = 0; ; step++) {
+    const calls: ChatToolCall[] = []
+    let content = ''
+
+    for await (const chunk of result.adapter.streamChunks(result.response, result.model.modelId)) {
+      last = chunk
+      if (chunk.usage) {
+        usage = addUsage(usage, chunk.usage)
+      }
+
+      const choice = chunk.choices?.[0]
+      if (!choice) continue
+      if (choice.delta?.tool_calls) {
+        mergeToolCallDeltas(calls, choice.delta.tool_calls)
+      }
+      if (choice.delta?.reasoning_content) {
+        yield { type: 'reasoning', content: choice.delta.reasoning_content }
+      }
+
+      let text = choice.delta?.content || ''
+      if (text) {
+        content += text
+        text = separator + text
+        separator = ''
+        hasText = true
+      }
+      if (text || choice.finish_reason) {
+        yield {
+          type: 'chunk',
+          chunk: {
+            id: chunk.id,
+            object: chunk.object,
+            created: chunk.created,
+            model: chunk.model,
+            choices: [{ index: choice.index, delta: text ? { content: text } : {}, finish_reason: choice.finish_reason }],
+          },
+        }
+      }
+    }
+
+    const toolCalls = calls.filter(Boolean).map(call => ({ ...call, id: call.id || `call_${crypto.randomUUID()}` }))
+    if (toolCalls.length === 0 || allowed.length === 0 || step >= MAX_TOOL_STEPS) break
+
+    const steps = runToolCalls(content, toolCalls, allowed, options.context)
+    let next = await steps.next()
+    while (!next.done) {
+      yield { type: 'tool', call: next.value }
+      next = await steps.next()
+    }
+    toolMessages.push(...next.value)
+    separator = hasText ? '\n\n' : ''
+
+    result = await sendNextStep(result, toolMessages, options)
+  }
+
+  if (usage && last) {
+    yield {
+      type: 'chunk',
+      chunk: { id: last.id, object: 'chat.completion.chunk', created: last.created, model: last.model, choices: [], usage },
+    }
+  }
+}
+
+/**
+ * 非流式回复的工具调用循环
+ * @returns 最后一步的回复（文本和思考过程为各步骤的拼接，用量为合计），以及执行过的工具调用
+ */
+export async function completeChatWithTools(
+  first: FallbackResult,
+  options: ToolLoopOptions
+): Promise<{ completion: ChatCompletion; toolCalls: ToolCallRecord[] }> {
+  const allowed = getToolNames(first, options)
+  const toolMessages: ChatMessage[] = []
+  const records: ToolCallRecord[] = []
+  const texts: string[] = []
+  const reasonings: string[] = []
+  let result = first
+  let usage: ChatCompletionUsage | null = null
+
+  for (let step = 0; ; step++) {
+    const completion = result.adapter.parseCompletion(await result.response.json(), result.model.modelId)
+    const message = completion.choices?.[0]?.message
+    if (completion.usage) {
+      usage = addUsage(usage, completion.usage)
+    }
+    if (message?.content) {
+      texts.push(message.content)
+    }
+    if (message?.reasoning_content) {
+      reasonings.push(message.reasoning_content)
+    }
+
+    const toolCalls = (message?.tool_calls ?? []).map(call => ({ ...call, id: call.id || `call_${crypto.randomUUID()}` }))
+    if (toolCalls.length === 0 || allowed.length === 0 || step >= MAX_TOOL_STEPS) {
+      return {
+        completion: {
+          ...completion,
+          choices: completion.choices.map((choice, index) => index === 0
+            ? {
+                ...choice,
+                message: {
+                  role: 'assistant',
+                  content: texts.join('\n\n'),
+                  ...(reasonings.length > 0 && { reasoning_content: reasonings.join('\n\n') }),
+                },
+              }
+            : choice),
+          usage: usage ?? undefined,
+        },
+        toolCalls: records,
+      }
+    }
+
+    const steps = runToolCalls(message?.content ?? '', toolCalls, allowed, options.context)
+    let next = await steps.next()
+    while (!next.done) {
+      if (next.value.status !== 'running') {
+        records.push(next.value)
+      }
+      next = await steps.next()
+    }
+    toolMessages.push(...next.value)
+
+    result = await sendNextStep(result, toolMessages, options)
+  }
+}
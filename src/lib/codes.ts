@@ -39,6 +39,14 @@ export function generateAccessCode(): string {
   return generateCode(16)
 }
 
+/**
+ * 生成 API 密钥
+ * @returns 格式为 fimai_sk_xxxx 的字符串（48位随机十六进制）
+ */
+export function generateApiKey(): string {
+  return `fimai_sk_${randomBytes(24).toString('hex')}`
+}
+
 /**
  * 硬编码的管理员邀请码（仅一次使用）
  */
@@ -0,0 +1,296 @@
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import remarkRehype from 'remark-rehype'
+import rehypeKatex from 'rehype-katex'
+import rehypeHighlight from 'rehype-highlight'
+import { toHtml } from 'hast-util-to-html'
+import { version as katexVersion } from 'katex'
+import type { ChatCompletionUsage } from '@/lib/adapters'
+import type { ToolCallRecord } from '@/lib/tools/catalog'
+
+/**
+ * 对话导出：导出接口和聊天页面（访客的本地聊天记录）共用，不依赖数据库
+ * PDF 导出为带打印样式的 HTML 页面，打开后调用浏览器的打印（另存为 PDF）
+ */
+
+export const EXPORT_FORMATS = ['markdown', 'json', 'html', 'pdf'] as const
+
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  json: 'JSON',
+  html: 'HTML',
+  pdf: 'PDF',
+}
+
+// 批量导出时一次最多导出的对话数
+export const MAX_EXPORT_CONVERSATIONS = 500
+
+export interface ExportMessage {
+  role: string
+  content: string
+  reasoning?: string | null
+  toolCalls?: ToolCallRecord[] | null
+  attachments?: string[] // 附件的文件名
+  model?: { provider: string; name: string; modelId: string } | null
+  createdAt?: string | null
+  finishReason?: string | null
+  tokenUsage?: (ChatCompletionUsage & { is_estimated?: boolean }) | null
+}
+
+export interface ExportConversation {
+  id: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  model?: { provider: string; name: string; modelId: string } | null
+  messages: ExportMessage[] // 对话当前分支上的消息
+}
+
+export interface ExportFile {
+  fileName: string
+  contentType: string
+  body: string
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
+function formatTime(value?: string | null) {
+  return value ? new Date(value).toLocaleString('zh-CN', { hour12: false }) : ''
+}
+
+function getRoleLabel(role: string) {
+  return role === 'user' ? '用户' : role === 'assistant' ? '助手' : '系统'
+}
+
+function getModelLabel(model?: ExportMessage['model']) {
+  return model ? `${model.provider} / ${model.name}` : ''
+}
+
+function getUsageLabel(usage?: ExportMessage['tokenUsage']) {
+  if (!usage?.total_tokens) return ''
+  const reasoning = usage.completion_tokens_details?.reasoning_tokens
+  return `${usage.is_estimated ? '约 ' : ''}${usage.total_tokens} tokens`
+    + ` (输入 ${usage.prompt_tokens}, 输出 ${usage.completion_tokens}${reasoning ? `, 其中思考 ${reasoning}` : ''})`
+}
+
+// 内容中的代码块没有结束时（如生成被中断）补上结束标记，避免后面的内容被当作代码
+function closeOpenFence(content: string) {
+  const fences = content.match(/^\s{0,3}(```|~~~)/gm) || []
+  return fences.length % 2 === 1 ? `${content}\n${fences[fences.length - 1].trim()}` : content
+}
+
+function toMarkdown(conversations: ExportConversation[]) {
+  return conversations.map(conversation => {
+    const lines = [
+      `# ${conversation.title}`,
+      '',
+      `- 创建时间: ${formatTime(conversation.createdAt)}`,
+      `- 更新时间: ${formatTime(conversation.updatedAt)}`,
+    ]
+    if (conversation.model) {
+      lines.push(`- 模型: ${getModelLabel(conversation.model)}`)
+    }
+
+    for (const message of conversation.messages) {
+      const meta = [getModelLabel(message.model), formatTime(message.createdAt)].filter(Boolean).join(' · ')
+      lines.push('', '---', '', `### ${getRoleLabel(message.role)}${meta ? ` · ${meta}` : ''}`, '')
+
+      if (message.attachments?.length) {
+        lines.push(`附件: ${message.attachments.join(', ')}`, '')
+      }
+      if (message.reasoning) {
+        lines.push('<details>', '<summary>思考过程</summary>', '', closeOpenFence(message.reasoning), '', '</details>', '')
+      }
+      for (const call of message.toolCalls || []) {
+        lines.push(`> 工具调用 \`${call.name}\`: \`${call.arguments}\``)
+        if (call.result !== undefined) {
+          lines.push('>', ...call.result.split('\n').map(line => `> ${line}`))
+        }
+        lines.push('')
+      }
+      lines.push(closeOpenFence(message.content))
+
+      const usage = getUsageLabel(message.tokenUsage)
+      if (usage) {
+        lines.push('', `*${usage}*`)
+      }
+    }
+    return lines.join('\n')
+  }).join('\n\n')
+}
+
+function toJson(conversations: ExportConversation[]) {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), conversations }, null, 2)
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// 公式由 KaTeX 渲染（与聊天页面一致），标明语言的代码块按语法高亮；消息中的原始 HTML 不会输出
+const markdownProcessor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkMath)
+  .use(remarkRehype)
+  .use(rehypeKatex)
+  .use(rehypeHighlight)
+
+type HtmlNode = { type: string; properties?: Record<string, unknown>; children?: HtmlNode[] }
+
+// 去掉 javascript: 等可以执行脚本的链接（与聊天页面中的 Markdown 渲染一致）
+function removeUnsafeUrls(node: HtmlNode) {
+  for (const name of ['href', 'src']) {
+    const value = node.properties?.[name]
+    if (typeof value === 'string' && /^\s*(javascript|vbscript|data):/i.test(value)) {
+      delete node.properties![name]
+    }
+  }
+  node.children?.forEach(removeUnsafeUrls)
+}
+
+function renderMarkdown(content: string) {
+  const tree = markdownProcessor.runSync(markdownProcessor.parse(content))
+  removeUnsafeUrls(tree as HtmlNode)
+  return toHtml(tree)
+}
+
+// KaTeX 的样式和字体较大，从 CDN 加载与渲染时相同版本的样式表
+const KATEX_STYLESHEET = `https://cdn.jsdelivr.net/npm/katex@${katexVersion}/dist/katex.min.css`
+
+const HTML_STYLE = `
+  body { margin: 0; background: #f5f5f5; color: #1f2328; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 24px 16px; }
+  .conversation { margin-bottom: 48px; }
+  .conversation > h1 { font-size: 24px; margin: 0 0 4px; }
+  .meta { color: #656d76; font-size: 13px; }
+  .message { background: #fff; border: 1px solid #d0d7de; border-radius: 8px; padding: 12px 16px; margin-top: 16px; }
+  .message.user { background: #eef6ff; border-color: #b6d7ff; }
+  .message > header { display: flex; flex-wrap: wrap; gap: 8px; align-items: baseline; margin-bottom: 4px; }
+  .message > header strong { font-size: 14px; }
+  .content > :first-child { margin-top: 0; }
+  .content > :last-child { margin-bottom: 0; }
+  pre { background: #282c34; color: #abb2bf; border-radius: 6px; padding: 12px 16px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+  code { font: 13px/1.5 SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace; }
+  :not(pre) > code { background: rgba(175, 184, 193, 0.2); border-radius: 4px; padding: 0.1em 0.4em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d0d7de; padding: 4px 10px; }
+  blockquote { margin: 0; padding: 0 12px; border-left: 4px solid #d0d7de; color: #656d76; }
+  img { max-width: 100%; }
+  .katex-display { overflow-x: auto; overflow-y: hidden; }
+  details { margin: 8px 0; border-left: 3px solid #d0d7de; padding-left: 12px; color: #656d76; }
+  summary { cursor: pointer; font-size: 13px; }
+  .tool-result { white-space: pre-wrap; font-size: 13px; }
+  .hljs-comment, .hljs-quote { color: #5c6370; font-style: italic; }
+  .hljs-keyword, .hljs-selector-tag, .hljs-doctag, .hljs-formula { color: #c678dd; }
+  .hljs-section, .hljs-name, .hljs-selector-id, .hljs-deletion, .hljs-subst { color: #e06c75; }
+  .hljs-literal { color: #56b6c2; }
+  .hljs-string, .hljs-regexp, .hljs-addition, .hljs-attribute, .hljs-meta .hljs-string { color: #98c379; }
+  .hljs-attr, .hljs-variable, .hljs-template-variable, .hljs-type, .hljs-selector-class, .hljs-number { color: #d19a66; }
+  .hljs-symbol, .hljs-bullet, .hljs-link, .hljs-meta, .hljs-selector-pseudo, .hljs-title { color: #61aeee; }
+  .hljs-built_in, .hljs-title.class_, .hljs-class .hljs-title { color: #e6c07b; }
+  .hljs-emphasis { font-style: italic; }
+  .hljs-strong { font-weight: bold; }
+  @media print {
+    body { background: #fff; }
+    main { max-width: none; padding: 0; }
+    .conversation + .conversation { page-break-before: always; }
+    .message { page-break-inside: avoid; }
+  }
+`
+
+// 打印时展开思考过程和工具调用
+function renderMessageHtml(message: ExportMessage, print: boolean) {
+  const details = print ? '<details open>' : '<details>'
+  const meta = [getModelLabel(message.model), formatTime(message.createdAt), getUsageLabel(message.tokenUsage)]
+    .filter(Boolean)
+    .map(item => `<span class="meta">${escapeHtml(item)}</span>`)
+    .join('')
+
+  const parts = [`<header><strong>${getRoleLabel(message.role)}</strong>${meta}</header>`]
+  if (message.attachments?.length) {
+    parts.push(`<div class="meta">附件: ${escapeHtml(message.attachments.join(', '))}</div>`)
+  }
+  if (message.reasoning) {
+    parts.push(`${details}<summary>思考过程</summary>${renderMarkdown(message.reasoning)}</details>`)
+  }
+  for (const call of message.toolCalls || []) {
+    parts.push(
+      `${details}<summary>工具调用 ${escapeHtml(call.name)}</summary>`
+      + `<pre><code>${escapeHtml(call.arguments)}</code></pre>`
+      + (call.result !== undefined ? `<div class="tool-result">${escapeHtml(call.result)}</div>` : '')
+      + '</details>'
+    )
+  }
+  parts.push(`<div class="content">${renderMarkdown(message.content)}</div>`)
+
+  return `<article class="message ${message.role === 'user' ? 'user' : 'assistant'}">${parts.join('')}</article>`
+}
+
+function toHtmlDocument(conversations: ExportConversation[], print: boolean) {
+  const title = conversations.length === 1 ? conversations[0].title : `FimAI Chat 对话导出（${conversations.length}）`
+  const body = conversations.map(conversation => {
+    const meta = [
+      `创建于 ${formatTime(conversation.createdAt)}`,
+      conversation.model ? getModelLabel(conversation.model) : '',
+    ].filter(Boolean).join(' · ')
+    return `<section class="conversation"><h1>${escapeHtml(conversation.title)}</h1>`
+      + `<div class="meta">${escapeHtml(meta)}</div>`
+      + conversation.messages.map(message => renderMessageHtml(message, print)).join('')
+      + '</section>'
+  }).join('')
+
+  // 打印版本在页面和公式字体加载后打开打印对话框，由用户选择“另存为 PDF”
+  const script = print
+    ? '<script>window.addEventListener("load", function () { document.fonts.ready.then(function () { window.print() }) })</script>'
+    : ''
+
+  return '<!DOCTYPE html>\n'
+    + `<html lang="zh-CN"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">`
+    + `<title>${escapeHtml(title)}</title><link rel="stylesheet" href="${KATEX_STYLESHEET}"><style>${HTML_STYLE}</style></head>`
+    + `<body><main>${body}</main>${script}</body></html>\n`
+}
+
+function getFileName(conversations: ExportConversation[], extension: string) {
+  const name = conversations.length === 1
+    ? conversations[0].title.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').trim().slice(0, 80)
+    : ''
+  return `${name || `fimai-chat-${new Date().toISOString().slice(0, 10)}`}.${extension}`
+}
+
+/**
+ * 按指定格式导出对话
+ */
+export function exportConversations(conversations: ExportConversation[], format: ExportFormat): ExportFile {
+  switch (format) {
+    case 'markdown':
+      return {
+        fileName: getFileName(conversations, 'md'),
+        contentType: 'text/markdown; charset=utf-8',
+        body: toMarkdown(conversations),
+      }
+    case 'json':
+      return {
+        fileName: getFileName(conversations, 'json'),
+        contentType: 'application/json; charset=utf-8',
+        body: toJson(conversations),
+      }
+    case 'html':
+    case 'pdf':
+      return {
+        fileName: getFileName(conversations, 'html'),
+        contentType: 'text/html; charset=utf-8',
+        body: toHtmlDocument(conversations, format === 'pdf'),
+      }
+  }
+}
@@ -0,0 +1,85 @@
+import { ARCHIVED_FILTERS, type ArchivedFilter } from '@/lib/conversation-search'
+
+// 对话的标签和侧边栏筛选条件，客户端和服务端共用
+
+export interface ConversationFilters {
+  tags: string[] // 只显示包含所有这些标签的对话
+  archived: ArchivedFilter
+  pinnedOnly: boolean
+}
+
+export const DEFAULT_CONVERSATION_FILTERS: ConversationFilters = {
+  tags: [],
+  archived: 'exclude',
+  pinnedOnly: false,
+}
+
+// 每个对话的标签数量和标签长度上限
+export const MAX_TAGS = 20
+export const MAX_TAG_LENGTH = 30
+
+// 文件夹名称的最大长度
+export const MAX_FOLDER_NAME_LENGTH = 50
+
+export const BULK_ACTIONS = ['move', 'archive', 'unarchive', 'delete'] as const
+export type BulkAction = typeof BULK_ACTIONS[number]
+
+// 一次批量操作的对话数量上限
+export const MAX_BULK_CONVERSATIONS = 500
+
+/**
+ * 校验并整理标签：去掉首尾空白和开头的 #，忽略空标签和重复的标签
+ */
+export function parseTags(value: unknown): { data: string[] } | { error: string } {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    return { error: 'tags must be an array of strings' }
+  }
+
+  const tags = [...new Set(value.map(tag => (tag as string).trim().replace(/^#+/, '').trim()).filter(Boolean))]
+  if (tags.length > MAX_TAGS) {
+    return { error: `A conversation can have at most ${MAX_TAGS} tags` }
+  }
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    return { error: `tags must be at most ${MAX_TAG_LENGTH} characters` }
+  }
+  return { data: tags }
+}
+
+/**
+ * 校验保存到用户设置的筛选条件
+ */
+export function parseConversationFilters(value: unknown): { data: ConversationFilters } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'conversationFilters must be an object' }
+  }
+
+  const filters = value as Record<string, unknown>
+  const tags = parseTags(filters.tags ?? [])
+  if ('error' in tags) {
+    return tags
+  }
+
+  const archived = filters.archived ?? DEFAULT_CONVERSATION_FILTERS.archived
+  if (!ARCHIVED_FILTERS.includes(archived as ArchivedFilter)) {
+    return { error: `archived must be one of: ${ARCHIVED_FILTERS.join(', ')}` }
+  }
+
+  return {
+    data: {
+      tags: tags.data,
+      archived: archived as ArchivedFilter,
+      pinnedOnly: filters.pinnedOnly === true,
+    },
+  }
+}
+
+/**
+ * 读取用户设置中保存的筛选条件，无效时使用默认值
+ */
+export function toConversationFilters(value: unknown): ConversationFilters {
+  if (value === null || value === undefined) {
+    return DEFAULT_CONVERSATION_FILTERS
+  }
+  const parsed = parseConversationFilters(value)
+  return 'error' in parsed ? DEFAULT_CONVERSATION_FILTERS : parsed.data
+}
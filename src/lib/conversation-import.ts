@@ -0,0 +1,304 @@
+import { createHash } from 'crypto'
+
+/**
+ * 对话导入：解析 ChatGPT 的 conversations.json、Claude.ai 的导出和通用的 OpenAI 消息 JSON
+ * 解析结果只包含用户和助手的文本消息，系统提示词、图片、附件、工具调用等无法导入的内容在预览中列出
+ */
+
+export const IMPORT_FORMATS = ['chatgpt', 'claude', 'openai'] as const
+
+export type ImportFormat = typeof IMPORT_FORMATS[number]
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  openai: 'OpenAI 消息 JSON',
+}
+
+// 一次最多导入的对话数
+export const MAX_IMPORT_CONVERSATIONS = 1000
+
+export interface ImportedMessage {
+  role: 'user' | 'assistant'
+  content: string
+  createdAt: Date | null
+}
+
+export interface ImportedConversation {
+  sourceId: string // 格式和原对话ID（没有ID时为内容的哈希），用于识别重复导入
+  title: string
+  createdAt: Date | null
+  updatedAt: Date | null
+  messages: ImportedMessage[]
+  unsupported: Record<string, number> // 无法导入的内容及数量
+}
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// 时间戳可以是秒、毫秒或日期字符串
+function toDate(value: unknown): Date | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value < 1e12 ? value * 1000 : value)
+  }
+  if (typeof value === 'string' && value) {
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+  return null
+}
+
+function addUnsupported(unsupported: Record<string, number>, label: string) {
+  unsupported[label] = (unsupported[label] || 0) + 1
+}
+
+function getTitle(value: unknown, messages: ImportedMessage[]) {
+  if (typeof value === 'string' && value.trim()) {
+    return value.trim().slice(0, 200)
+  }
+  const firstUserMessage = messages.find(message => message.role === 'user')
+  return firstUserMessage?.content.trim().split('\n')[0].slice(0, 50) || '导入的对话'
+}
+
+// ChatGPT 会把一次回复中工具调用前后的内容拆成多条消息，相邻的同角色消息合并为一条
+function mergeAdjacentMessages(messages: ImportedMessage[]) {
+  const merged: ImportedMessage[] = []
+  for (const message of messages) {
+    const previous = merged[merged.length - 1]
+    if (previous && previous.role === message.role) {
+      previous.content += `\n\n${message.content}`
+    } else {
+      merged.push({ ...message })
+    }
+  }
+  return merged
+}
+
+function parseChatGptConversation(item: JsonObject, index: number): ImportedConversation {
+  const mapping = isObject(item.mapping) ? item.mapping : {}
+  const unsupported: Record<string, number> = {}
+
+  // current_node 是原对话中显示的分支，其他分支不导入
+  const nodes = Object.values(mapping).filter(isObject)
+  let nodeId = typeof item.current_node === 'string'
+    ? item.current_node
+    : (nodes.find(node => !Array.isArray(node.children) || node.children.length === 0)?.id as string | undefined)
+  const path: JsonObject[] = []
+  while (nodeId && isObject(mapping[nodeId]) && path.length < nodes.length) {
+    const node = mapping[nodeId] as JsonObject
+    path.unshift(node)
+    nodeId = typeof node.parent === 'string' ? node.parent : undefined
+  }
+
+  const messages: ImportedMessage[] = []
+  for (const node of path) {
+    const message = node.message
+    if (!isObject(message)) continue
+    const metadata = isObject(message.metadata) ? message.metadata : {}
+    if (metadata.is_visually_hidden_from_conversation) continue
+
+    const role = isObject(message.author) ? message.author.role : undefined
+    const content = isObject(message.content) ? message.content : {}
+    if (role === 'tool') {
+      addUnsupported(unsupported, '工具调用结果')
+      continue
+    }
+    if (role !== 'user' && role !== 'assistant') {
+      if (role === 'system' && Array.isArray(content.parts) && content.parts.join('').trim()) {
+        addUnsupported(unsupported, '系统提示词')
+      }
+      continue
+    }
+
+    let text = ''
+    if (content.content_type === 'text' || content.content_type === 'multimodal_text') {
+      for (const part of Array.isArray(content.parts) ? content.parts : []) {
+        if (typeof part === 'string') {
+          text += part
+        } else if (isObject(part) && part.content_type === 'image_asset_pointer') {
+          addUnsupported(unsupported, '图片')
+        } else {
+          addUnsupported(unsupported, '附件')
+        }
+      }
+    } else if (content.content_type === 'code') {
+      addUnsupported(unsupported, '工具调用')
+      continue
+    } else {
+      addUnsupported(unsupported, `其他内容（${String(content.content_type ?? '未知')}）`)
+      continue
+    }
+
+    if (!text.trim()) continue
+    messages.push({ role, content: text, createdAt: toDate(message.create_time) })
+  }
+
+  const merged = mergeAdjacentMessages(messages)
+  const id = item.conversation_id ?? item.id
+  return {
+    sourceId: `chatgpt:${typeof id === 'string' ? id : hashMessages(merged, index)}`,
+    title: getTitle(item.title, merged),
+    createdAt: toDate(item.create_time),
+    updatedAt: toDate(item.update_time),
+    messages: merged,
+    unsupported,
+  }
+}
+
+function parseClaudeConversation(item: JsonObject, index: number): ImportedConversation {
+  const unsupported: Record<string, number> = {}
+  const messages: ImportedMessage[] = []
+
+  for (const message of Array.isArray(item.chat_messages) ? item.chat_messages : []) {
+    if (!isObject(message)) continue
+
+    let text = ''
+    if (Array.isArray(message.content) && message.content.length > 0) {
+      for (const block of message.content) {
+        if (isObject(block) && block.type === 'text' && typeof block.text === 'string') {
+          text += (text ? '\n\n' : '') + block.text
+        } else if (isObject(block) && (block.type === 'tool_use' || block.type === 'tool_result')) {
+          addUnsupported(unsupported, '工具调用')
+        } else if (isObject(block) && block.type === 'thinking') {
+          addUnsupported(unsupported, '思考过程')
+        } else {
+          addUnsupported(unsupported, '其他内容')
+        }
+      }
+    } else if (typeof message.text === 'string') {
+      text = message.text
+    }
+
+    const files = [message.attachments, message.files].filter(Array.isArray).flat()
+    for (let i = 0; i < files.length; i++) {
+      addUnsupported(unsupported, '附件')
+    }
+
+    if (!text.trim()) continue
+    messages.push({
+      role: message.sender === 'human' ? 'user' : 'assistant',
+      content: text,
+      createdAt: toDate(message.created_at),
+    })
+  }
+
+  return {
+    sourceId: `claude:${typeof item.uuid === 'string' ? item.uuid : hashMessages(messages, index)}`,
+    title: getTitle(item.name, messages),
+    createdAt: toDate(item.created_at),
+    updatedAt: toDate(item.updated_at),
+    messages,
+    unsupported,
+  }
+}
+
+function parseOpenAIConversation(item: JsonObject, index: number): ImportedConversation {
+  const unsupported: Record<string, number> = {}
+  const messages: ImportedMessage[] = []
+
+  for (const message of Array.isArray(item.messages) ? item.messages : []) {
+    if (!isObject(message)) continue
+
+    const role = message.role
+    if (role === 'tool' || role === 'function') {
+      addUnsupported(unsupported, '工具调用结果')
+      continue
+    }
+    if (role === 'system' || role === 'developer') {
+      addUnsupported(unsupported, '系统提示词')
+      continue
+    }
+    if (role !== 'user' && role !== 'assistant') continue
+    if (Array.isArray(message.tool_calls) && message.tool_calls.length > 0) {
+      addUnsupported(unsupported, '工具调用')
+    }
+
+    let text = ''
+    if (typeof message.content === 'string') {
+      text = message.content
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        if (isObject(part) && part.type === 'text' && typeof part.text === 'string') {
+          text += (text ? '\n\n' : '') + part.text
+        } else if (isObject(part) && part.type === 'image_url') {
+          addUnsupported(unsupported, '图片')
+        } else {
+          addUnsupported(unsupported, '其他内容')
+        }
+      }
+    }
+
+    if (!text.trim()) continue
+    messages.push({
+      role,
+      content: text,
+      createdAt: toDate(message.createdAt ?? message.created_at ?? message.timestamp),
+    })
+  }
+
+  return {
+    sourceId: `openai:${typeof item.id === 'string' ? item.id : hashMessages(messages, index)}`,
+    title: getTitle(item.title ?? item.name, messages),
+    createdAt: toDate(item.createdAt ?? item.created_at ?? messages[0]?.createdAt?.getTime()),
+    updatedAt: toDate(item.updatedAt ?? item.updated_at ?? messages[messages.length - 1]?.createdAt?.getTime()),
+    messages,
+    unsupported,
+  }
+}
+
+// 没有原对话ID时用消息内容识别重复导入，没有消息时用在文件中的位置
+function hashMessages(messages: ImportedMessage[], index: number) {
+  const source = messages.length > 0
+    ? JSON.stringify(messages.map(message => [message.role, message.content]))
+    : `empty:${index}`
+  return createHash('sha256').update(source).digest('hex').slice(0, 32)
+}
+
+function detectFormat(items: unknown[]): ImportFormat | null {
+  const first = items.find(isObject)
+  if (!first) return null
+  if (isObject(first.mapping)) return 'chatgpt'
+  if (Array.isArray(first.chat_messages)) return 'claude'
+  if (Array.isArray(first.messages)) return 'openai'
+  return null
+}
+
+/**
+ * 解析导出文件的内容，不指定格式时自动识别
+ * 通用格式支持 {messages: [...]}、消息数组、对话数组和本应用导出的 JSON（{conversations: [...]}）
+ */
+export function parseImportData(
+  data: unknown,
+  format?: ImportFormat
+): { data: { format: ImportFormat; conversations: ImportedConversation[] } } | { error: string } {
+  let items: unknown[]
+  if (Array.isArray(data)) {
+    // 消息数组作为一个对话
+    items = data.length > 0 && data.every(item => isObject(item) && typeof item.role === 'string')
+      ? [{ messages: data }]
+      : data
+  } else if (isObject(data) && Array.isArray(data.conversations)) {
+    items = data.conversations
+  } else if (isObject(data)) {
+    items = [data]
+  } else {
+    return { error: 'Import data must be a JSON object or array' }
+  }
+
+  const detected = format ?? detectFormat(items)
+  if (!detected) {
+    return { error: 'Unrecognized export format' }
+  }
+  if (items.length > MAX_IMPORT_CONVERSATIONS) {
+    return { error: `At most ${MAX_IMPORT_CONVERSATIONS} conversations can be imported at once` }
+  }
+
+  const parse = detected === 'chatgpt'
+    ? parseChatGptConversation
+    : detected === 'claude' ? parseClaudeConversation : parseOpenAIConversation
+  const conversations = items.filter(isObject).map((item, index) => parse(item, index))
+  return { data: { format: detected, conversations } }
+}
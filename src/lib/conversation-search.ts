@@ -0,0 +1,118 @@
+// 对话全文搜索的参数解析和摘要高亮，客户端和服务端共用
+
+export const ARCHIVED_FILTERS = ['exclude', 'include', 'only'] as const
+export type ArchivedFilter = typeof ARCHIVED_FILTERS[number]
+
+export interface SearchFilters {
+  modelId?: string
+  from?: Date
+  to?: Date
+  archived?: ArchivedFilter // 默认不搜索已归档的对话
+  pinnedOnly?: boolean
+  limit?: number
+  offset?: number
+}
+
+export interface ConversationSearchHit {
+  conversationId: string
+  title: string
+  messageId: string | null // 标题匹配时为 null
+  role: string | null
+  snippet: string // 匹配位置附近的消息内容
+  modelName: string | null
+  isPinned: boolean
+  isArchived: boolean
+  createdAt: Date // 消息时间，标题匹配时为对话的更新时间
+}
+
+// 搜索词数量和每次返回结果数的上限
+export const MAX_SEARCH_TERMS = 8
+export const MAX_SEARCH_RESULTS = 100
+
+const SNIPPET_BEFORE = 30
+const SNIPPET_LENGTH = 120
+
+/**
+ * 按空白拆分搜索词，去掉重复的词
+ */
+export function parseSearchTerms(query: string): string[] {
+  const terms = query.trim().split(/\s+/).filter(Boolean)
+  return [...new Set(terms.map(term => term.toLowerCase()))].slice(0, MAX_SEARCH_TERMS)
+}
+
+const parseDate = (value: string | null, endOfDay = false): Date | null | undefined => {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  // 只有日期时结束日期包含当天
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1)
+    date.setUTCMilliseconds(-1)
+  }
+  return date
+}
+
+/**
+ * 解析搜索接口的筛选参数：modelId、from、to、archived、pinned、limit、offset
+ */
+export function parseSearchFilters(params: URLSearchParams): { data: SearchFilters } | { error: string } {
+  const data: SearchFilters = {}
+
+  const modelId = params.get('modelId')
+  if (modelId) data.modelId = modelId
+
+  const from = parseDate(params.get('from'))
+  const to = parseDate(params.get('to'), true)
+  if (from === null || to === null) {
+    return { error: 'from and to must be valid dates' }
+  }
+  if (from && to && from > to) {
+    return { error: 'from must be before to' }
+  }
+  data.from = from
+  data.to = to
+
+  const archived = params.get('archived')
+  if (archived) {
+    if (!ARCHIVED_FILTERS.includes(archived as ArchivedFilter)) {
+      return { error: `archived must be one of: ${ARCHIVED_FILTERS.join(', ')}` }
+    }
+    data.archived = archived as ArchivedFilter
+  }
+
+  data.pinnedOnly = params.get('pinned') === 'true'
+
+  const limit = parseInt(params.get('limit') || '50')
+  const offset = parseInt(params.get('offset') || '0')
+  data.limit = Number.isNaN(limit) ? 50 : Math.min(Math.max(limit, 1), MAX_SEARCH_RESULTS)
+  data.offset = Number.isNaN(offset) ? 0 : Math.max(offset, 0)
+
+  return { data }
+}
+
+/**
+ * 截取第一个搜索词附近的内容作为摘要
+ */
+export function buildSearchSnippet(content: string, terms: string[]): string {
+  const text = content.replace(/\s+/g, ' ').trim()
+  const lower = text.toLowerCase()
+  const positions = terms.map(term => lower.indexOf(term)).filter(index => index >= 0)
+  const first = positions.length > 0 ? Math.min(...positions) : 0
+
+  const start = Math.max(0, first - SNIPPET_BEFORE)
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+}
+
+/**
+ * 把文本拆成普通片段和匹配搜索词的片段，用于高亮显示
+ */
+export function highlightSearchTerms(text: string, terms: string[]): Array<{ text: string; match: boolean }> {
+  if (terms.length === 0) return [{ text, match: false }]
+
+  const pattern = new RegExp(`(${[...terms].sort((a, b) => b.length - a.length).map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi')
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }))
+}
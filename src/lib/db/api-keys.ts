@@ -0,0 +1,152 @@
+import { createHash } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import type { ApiKey } from '@prisma/client'
+import { generateApiKey } from '@/lib/codes'
+
+/**
+ * API 密钥的授权范围
+ * chat: 调用聊天接口
+ * models: 查询可用模型列表
+ */
+export const API_KEY_SCOPES = ['chat', 'models'] as const
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number]
+
+export interface CreateApiKeyData {
+  userId: string
+  name: string
+  scopes?: string[]
+  allowedModelIds?: string[]
+  expiresAt?: Date
+}
+
+// lastUsedAt 的更新间隔，避免每个请求都写数据库
+const TOUCH_INTERVAL_MS = 60 * 1000
+
+/**
+ * 计算密钥哈希，数据库中只保存哈希值
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * 创建 API 密钥
+ * @returns 密钥记录及明文密钥（明文只在创建时返回一次）
+ */
+export async function createApiKey(
+  data: CreateApiKeyData
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = generateApiKey()
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId: data.userId,
+      name: data.name,
+      keyHash: hashApiKey(key),
+      keyPrefix: key.slice(0, 16),
+      scopes: data.scopes?.length ? data.scopes.join(',') : null,
+      allowedModelIds: data.allowedModelIds?.length ? data.allowedModelIds.join(',') : null,
+      expiresAt: data.expiresAt,
+    },
+  })
+
+  return { apiKey, key }
+}
+
+/**
+ * 获取用户的 API 密钥列表（包含已吊销和已过期的密钥）
+ */
+export async function getUserApiKeys(userId: string): Promise<ApiKey[]> {
+  return prisma.apiKey.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+/**
+ * 吊销用户的 API 密钥
+ * @returns 是否吊销成功（密钥不存在或不属于该用户时返回 false）
+ */
+export async function revokeApiKey(id: string, userId: string): Promise<boolean> {
+  const result = await prisma.apiKey.updateMany({
+    where: { id, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+
+  return result.count > 0
+}
+
+/**
+ * 校验明文密钥，返回有效的密钥记录（未吊销、未过期且用户未被封禁）
+ */
+export async function verifyApiKey(key: string): Promise<ApiKey | null> {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: {
+      user: {
+        select: { id: true, isActive: true },
+      },
+    },
+  })
+
+  if (!apiKey || apiKey.revokedAt) {
+    return null
+  }
+
+  if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+    return null
+  }
+
+  if (!apiKey.user.isActive) {
+    return null
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    })
+  }
+
+  return apiKey
+}
+
+/**
+ * 检查密钥是否拥有指定授权范围
+ */
+export function apiKeyHasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  if (!apiKey.scopes) {
+    return true
+  }
+
+  return apiKey.scopes.split(',').includes(scope)
+}
+
+/**
+ * 检查密钥是否允许使用指定模型
+ */
+export function apiKeyAllowsModel(apiKey: ApiKey, modelId: string): boolean {
+  if (!apiKey.allowedModelIds) {
+    return true
+  }
+
+  return apiKey.allowedModelIds.split(',').includes(modelId)
+}
+
+/**
+ * 转换为可返回给客户端的结构（不包含密钥哈希）
+ */
+export function serializeApiKey(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    scopes: apiKey.scopes ? apiKey.scopes.split(',') : [],
+    allowedModelIds: apiKey.allowedModelIds ? apiKey.allowedModelIds.split(',') : [],
+    expiresAt: apiKey.expiresAt,
+    revokedAt: apiKey.revokedAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    createdAt: apiKey.createdAt,
+  }
+}
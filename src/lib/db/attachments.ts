@@ -0,0 +1,177 @@
+import { randomUUID } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import type { Attachment } from '@prisma/client'
+import { extractText, getDocumentProxy } from 'unpdf'
+import type { ChatContentPart } from '@/lib/adapters'
+import { estimateTokens } from '@/lib/token-counter'
+import { deleteObject, getObject, getStorageDriver, putObject, type StorageDriver } from '@/lib/storage'
+import {
+  IMAGE_TOKEN_ESTIMATE,
+  MAX_EXTRACTED_TEXT_LENGTH,
+  getAttachmentType,
+  type AttachmentInfo,
+  type AttachmentKind,
+} from '@/lib/attachments'
+
+// 返回给客户端的字段
+export const ATTACHMENT_SELECT = {
+  id: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  kind: true,
+  tokenCount: true,
+} as const
+
+/**
+ * 提取文档的文本，超出长度时截断
+ */
+async function extractDocumentText(format: 'pdf' | 'text', data: Buffer): Promise<string> {
+  let text: string
+  if (format === 'pdf') {
+    const pdf = await getDocumentProxy(new Uint8Array(data))
+    text = (await extractText(pdf, { mergePages: true })).text
+  } else {
+    text = data.toString('utf8')
+    // 包含空字符的文件不是文本文件
+    if (text.includes('\u0000')) {
+      throw new Error('File is not a text file')
+    }
+  }
+
+  text = text.trim()
+  return text.length > MAX_EXTRACTED_TEXT_LENGTH
+    ? `${text.slice(0, MAX_EXTRACTED_TEXT_LENGTH)}\n…（内容过长，已截断）`
+    : text
+}
+
+/**
+ * 保存上传的文件：文档提取文本，图片和文档都估算 token 数
+ * @returns 不支持的文件类型或无法提取文本时返回错误信息
+ */
+export async function createAttachment(
+  userId: string,
+  file: { fileName: string; mimeType: string; data: Buffer }
+): Promise<{ attachment: AttachmentInfo } | { error: string }> {
+  const type = getAttachmentType(file.fileName, file.mimeType)
+  if (!type) {
+    return { error: 'Unsupported file type' }
+  }
+
+  let extractedText: string | null = null
+  if (type.format !== 'image') {
+    try {
+      extractedText = await extractDocumentText(type.format, file.data)
+    } catch (error) {
+      console.error('Error extracting attachment text:', error)
+      return { error: 'Failed to read file content' }
+    }
+    if (!extractedText) {
+      return { error: 'No text could be extracted from the file' }
+    }
+  }
+
+  const storage = getStorageDriver()
+  const extension = file.fileName.includes('.') ? file.fileName.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '') : ''
+  const storageKey = `${userId}/${randomUUID()}${extension ? `.${extension}` : ''}`
+  await putObject(storage, storageKey, file.data, file.mimeType || 'application/octet-stream')
+
+  const attachment = await prisma.attachment.create({
+    data: {
+      userId,
+      fileName: file.fileName,
+      mimeType: file.mimeType || (type.format === 'pdf' ? 'application/pdf' : 'text/plain'),
+      size: file.data.length,
+      kind: type.kind,
+      storage,
+      storageKey,
+      extractedText,
+      tokenCount: extractedText ? estimateTokens(extractedText) : IMAGE_TOKEN_ESTIMATE,
+    },
+    select: ATTACHMENT_SELECT,
+  })
+
+  return { attachment: { ...attachment, kind: attachment.kind as AttachmentKind } }
+}
+
+/**
+ * 根据 ID 获取附件
+ */
+export async function getAttachmentById(id: string): Promise<Attachment | null> {
+  return prisma.attachment.findUnique({
+    where: { id },
+  })
+}
+
+/**
+ * 获取用户自己上传的附件，忽略不存在或不属于该用户的 ID
+ */
+export async function getUserAttachments(ids: string[], userId: string): Promise<Attachment[]> {
+  if (ids.length === 0) {
+    return []
+  }
+  return prisma.attachment.findMany({
+    where: { id: { in: ids }, userId },
+  })
+}
+
+/**
+ * 读取附件的文件内容
+ */
+export async function getAttachmentData(attachment: Attachment): Promise<Buffer> {
+  return getObject(attachment.storage as StorageDriver, attachment.storageKey)
+}
+
+/**
+ * 删除还没有发送的附件，已发送的附件随消息保留
+ * @returns 附件已被消息使用时返回 false
+ */
+export async function deleteUnsentAttachment(attachment: Attachment): Promise<boolean> {
+  const usage = await prisma.message.count({
+    where: { attachments: { some: { id: attachment.id } } },
+  })
+  if (usage > 0) {
+    return false
+  }
+
+  await prisma.attachment.delete({
+    where: { id: attachment.id },
+  })
+  await deleteObject(attachment.storage as StorageDriver, attachment.storageKey).catch((error) => {
+    console.error('Error deleting attachment file:', error)
+  })
+  return true
+}
+
+/**
+ * 把附件加入消息内容：文档的文本内联在消息之后，图片作为多模态内容
+ * 每张图片前添加文件名，模型不支持图片时去掉图片仍能知道用户发送了哪些图片
+ */
+export async function buildAttachmentContent(
+  text: string,
+  attachments: Attachment[]
+): Promise<string | ChatContentPart[]> {
+  if (attachments.length === 0) {
+    return text
+  }
+
+  const documents = attachments
+    .filter(attachment => attachment.kind === 'document')
+    .map(attachment => `\n\n[文件：${attachment.fileName}]\n\`\`\`\n${attachment.extractedText ?? ''}\n\`\`\``)
+    .join('')
+
+  const images = attachments.filter(attachment => attachment.kind === 'image')
+  if (images.length === 0) {
+    return text + documents
+  }
+
+  const parts: ChatContentPart[] = [{ type: 'text', text: text + documents }]
+  for (const image of images) {
+    const data = await getAttachmentData(image)
+    parts.push(
+      { type: 'text', text: `\n[图片：${image.fileName}]` },
+      { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${data.toString('base64')}` } }
+    )
+  }
+  return parts
+}
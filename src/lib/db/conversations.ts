@@ -1,17 +1,42 @@
 import { prisma } from '@/lib/prisma'
-import type { Conversation, Message } from '@prisma/client'
+import { Prisma, type Conversation, type Message, type PromptPreset } from '@prisma/client'
+import { PROVIDER_WITHOUT_KEY } from '@/lib/db/providers'
+import { recordTokenUsage, type CreateTokenUsageData } from '@/lib/db/token-usage'
+import { toSamplingParams, type SamplingParams } from '@/lib/sampling'
+import type { ContextStrategy, ContextSummary } from '@/lib/chat-context'
+import { ATTACHMENT_SELECT } from '@/lib/db/attachments'
+import type { ToolCallRecord } from '@/lib/tools/catalog'
+import type { ChatCompletionUsage } from '@/lib/adapters'
+import type { ExportConversation } from '@/lib/conversation-export'
+import type { ImportedConversation } from '@/lib/conversation-import'
+import {
+  buildSearchSnippet,
+  parseSearchTerms,
+  type ArchivedFilter,
+  type ConversationSearchHit,
+  type SearchFilters,
+} from '@/lib/conversation-search'
+import { getBranchPath } from '@/utils/messageTree'
 
 export interface CreateConversationData {
   userId: string
   providerId: string
   modelId: string
   title: string
+  presetId?: string | null // 使用的提示词预设
+  samplingParams?: SamplingParams
+  contextStrategy?: ContextStrategy
 }
 
 export interface UpdateConversationData {
   title?: string
   isArchived?: boolean
   isPinned?: boolean
+  folderId?: string | null // 为 null 时移出文件夹
+  tags?: string[]
+  activeLeafId?: string | null
+  samplingParams?: SamplingParams // 空对象表示使用预设和模型的默认配置
+  contextStrategy?: ContextStrategy
 }
 
 export interface CreateMessageData {
@@ -24,6 +49,30 @@ export interface CreateMessageData {
   rawContent?: string
   finishReason?: string
   tokenUsage?: any
+  parentId?: string | null // 不传时接在当前分支的最后一条消息之后
+}
+
+// 一轮对话的结果：用户消息、助手回复和 Token 使用量
+export interface SaveChatTurnData {
+  conversationId: string
+  userId: string
+  providerId: string // 实际回答的提供商和模型
+  modelId: string
+  parentId?: string | null // 新消息所在的父消息；没有用户消息时即回复的用户消息
+  userContent?: string | null
+  userAttachmentIds?: string[] // 用户消息的附件
+  sentAt?: Date // 用户发送消息的时间，保证用户消息排在回复之前
+  assistant?: {
+    content: string
+    finishReason: string | null
+    tokenUsage?: (ChatCompletionUsage & { is_estimated?: boolean }) | null // 上游返回的用量，没有时为估算值
+    toolCalls?: ToolCallRecord[] // 生成回复时执行的工具调用
+    reasoning?: string // 推理模型的思考过程
+  }
+  usage?: Pick<
+    CreateTokenUsageData,
+    'promptTokens' | 'completionTokens' | 'totalTokens' | 'reasoningTokens' | 'inputText' | 'outputText' | 'imageTokens'
+  >
 }
 
 export interface UpdateMessageData {
@@ -52,7 +101,7 @@ export async function createConversation(data: CreateConversationData): Promise<
     data,
     include: {
       user: true,
-      provider: true,
+      provider: PROVIDER_WITHOUT_KEY,
       model: true,
     },
   })
@@ -65,19 +114,25 @@ export async function getUserConversations(
   userId: string,
   options: {
     includeArchived?: boolean
+    archived?: ArchivedFilter // 优先于 includeArchived
+    tags?: string[] // 只返回包含所有这些标签的对话
+    pinnedOnly?: boolean
     limit?: number
     offset?: number
   } = {}
 ): Promise<Conversation[]> {
-  const { includeArchived = false, limit = 50, offset = 0 } = options
+  const { includeArchived = false, tags = [], pinnedOnly = false, limit = 50, offset = 0 } = options
+  const archived = options.archived ?? (includeArchived ? 'include' : 'exclude')
 
   return prisma.conversation.findMany({
     where: {
       userId,
-      ...(includeArchived ? {} : { isArchived: false }),
+      ...(archived !== 'include' && { isArchived: archived === 'only' }),
+      ...(tags.length > 0 && { tags: { hasEvery: tags } }),
+      ...(pinnedOnly && { isPinned: true }),
     },
     include: {
-      provider: true,
+      provider: PROVIDER_WITHOUT_KEY,
       model: true,
       messages: {
         take: 1,
@@ -110,21 +165,67 @@ export async function getConversationById(id: string): Promise<Conversation | nu
     where: { id },
     include: {
       user: true,
-      provider: true,
+      provider: PROVIDER_WITHOUT_KEY,
       model: true,
+      preset: { select: { id: true, name: true } },
       messages: {
         where: { isDeleted: false },
         orderBy: { createdAt: 'asc' },
         include: {
           user: true,
-          provider: true,
+          provider: PROVIDER_WITHOUT_KEY,
           model: true,
+          attachments: { select: ATTACHMENT_SELECT },
         },
       },
     },
   })
 }
 
+/**
+ * 检查对话是否属于指定用户
+ */
+export async function isConversationOwner(conversationId: string, userId: string): Promise<boolean> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { userId: true },
+  })
+
+  return conversation?.userId === userId
+}
+
+/**
+ * 获取对话发送请求时使用的设置：提示词预设、采样参数和上下文管理
+ */
+export async function getConversationChatSettings(conversationId: string): Promise<{
+  preset: PromptPreset | null
+  samplingParams: SamplingParams
+  contextStrategy: ContextStrategy
+  contextSummary: ContextSummary | null
+}> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { preset: true, samplingParams: true, contextStrategy: true, contextSummary: true },
+  })
+
+  return {
+    preset: conversation?.preset ?? null,
+    samplingParams: toSamplingParams(conversation?.samplingParams),
+    contextStrategy: conversation?.contextStrategy === 'summarize' ? 'summarize' : 'truncate',
+    contextSummary: (conversation?.contextSummary as ContextSummary | null | undefined) ?? null,
+  }
+}
+
+/**
+ * 保存对话的滚动摘要
+ */
+export async function saveContextSummary(conversationId: string, summary: ContextSummary): Promise<void> {
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { contextSummary: { ...summary } },
+  })
+}
+
 /**
  * 更新对话
  */
@@ -138,6 +239,53 @@ export async function updateConversation(
   })
 }
 
+/**
+ * 批量移动或归档用户的对话，不属于用户的对话会被忽略
+ * @returns 更新的对话数量
+ */
+export async function bulkUpdateConversations(
+  userId: string,
+  ids: string[],
+  data: Pick<UpdateConversationData, 'folderId' | 'isArchived'>
+): Promise<number> {
+  const result = await prisma.conversation.updateMany({
+    where: { id: { in: ids }, userId },
+    data,
+  })
+  return result.count
+}
+
+/**
+ * 批量删除用户的对话，不属于用户的对话会被忽略
+ * @returns 删除的对话数量
+ */
+export async function bulkDeleteConversations(userId: string, ids: string[]): Promise<number> {
+  const result = await prisma.conversation.deleteMany({
+    where: { id: { in: ids }, userId },
+  })
+  return result.count
+}
+
+/**
+ * 获取用户使用过的所有标签及使用次数，按使用次数排序
+ */
+export async function getUserConversationTags(userId: string): Promise<Array<{ tag: string; count: number }>> {
+  const conversations = await prisma.conversation.findMany({
+    where: { userId, NOT: { tags: { isEmpty: true } } },
+    select: { tags: true },
+  })
+
+  const counts = new Map<string, number>()
+  for (const conversation of conversations) {
+    for (const tag of conversation.tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1)
+    }
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
+
 /**
  * 删除对话
  */
@@ -162,24 +310,109 @@ export async function createMessage(data: CreateMessageData): Promise<Message> {
     throw new Error('Guest messages should not be stored in database')
   }
 
+  await linkLegacyMessages(data.conversationId)
+
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: data.conversationId },
+    select: { activeLeafId: true },
+  })
+  const parentId = data.parentId !== undefined ? data.parentId : conversation?.activeLeafId ?? null
+  const siblingIndex = await prisma.message.count({
+    where: { conversationId: data.conversationId, parentId },
+  })
+
   const message = await prisma.message.create({
-    data,
+    data: { ...data, parentId, siblingIndex },
     include: {
       user: true,
-      provider: true,
+      provider: PROVIDER_WITHOUT_KEY,
       model: true,
     },
   })
 
-  // 更新对话的 updatedAt 时间
+  // 更新对话的 updatedAt 时间，新消息成为当前分支
   await prisma.conversation.update({
     where: { id: data.conversationId },
-    data: { updatedAt: new Date() },
+    data: { updatedAt: new Date(), activeLeafId: message.id },
   })
 
   return message
 }
 
+/**
+ * 在同一事务中保存一轮对话：用户消息、助手回复（含结束原因），以及关联到回复的 Token 使用量
+ */
+export async function saveChatTurn(
+  data: SaveChatTurnData
+): Promise<{ userMessage: Message | null; assistantMessage: Message | null }> {
+  const { conversationId, userId, providerId, modelId } = data
+
+  return prisma.$transaction(async (tx) => {
+    const parentId = data.parentId ?? null
+    const userMessage = typeof data.userContent === 'string'
+      ? await tx.message.create({
+          data: {
+            conversationId,
+            userId,
+            providerId,
+            modelId,
+            role: 'user',
+            content: data.userContent,
+            parentId,
+            ...(data.userAttachmentIds?.length && {
+              attachments: { connect: data.userAttachmentIds.map(id => ({ id })) },
+            }),
+            siblingIndex: await tx.message.count({ where: { conversationId, parentId } }),
+            createdAt: data.sentAt,
+          },
+        })
+      : null
+
+    const replyParentId = userMessage?.id ?? parentId
+    const assistantMessage = data.assistant
+      ? await tx.message.create({
+          data: {
+            conversationId,
+            userId,
+            providerId,
+            modelId,
+            role: 'assistant',
+            content: data.assistant.content,
+            finishReason: data.assistant.finishReason,
+            ...(data.assistant.tokenUsage && { tokenUsage: { ...data.assistant.tokenUsage } }),
+            ...(data.assistant.toolCalls?.length && {
+              toolCalls: data.assistant.toolCalls.map(call => ({ ...call })),
+            }),
+            ...(data.assistant.reasoning && { reasoning: data.assistant.reasoning }),
+            parentId: replyParentId,
+            siblingIndex: await tx.message.count({ where: { conversationId, parentId: replyParentId } }),
+            createdAt: new Date(),
+          },
+        })
+      : null
+
+    if (data.usage) {
+      await recordTokenUsage({
+        ...data.usage,
+        userId,
+        conversationId,
+        messageId: assistantMessage?.id,
+        providerId,
+        modelId,
+      }, tx)
+    }
+
+    // 本轮的最后一条消息成为当前分支
+    const leafId = assistantMessage?.id ?? userMessage?.id
+    await tx.conversation.update({
+      where: { id: conversationId },
+      data: { updatedAt: new Date(), ...(leafId && { activeLeafId: leafId }) },
+    })
+
+    return { userMessage, assistantMessage }
+  })
+}
+
 /**
  * 获取对话的消息列表
  */
@@ -200,7 +433,7 @@ export async function getConversationMessages(
     },
     include: {
       user: true,
-      provider: true,
+      provider: PROVIDER_WITHOUT_KEY,
       model: true,
     },
     orderBy: { createdAt: 'asc' },
@@ -217,7 +450,7 @@ export async function getMessageById(id: string): Promise<Message | null> {
     where: { id },
     include: {
       user: true,
-      provider: true,
+      provider: PROVIDER_WITHOUT_KEY,
       model: true,
       conversation: true,
     },
@@ -235,47 +468,343 @@ export async function updateMessage(id: string, data: UpdateMessageData): Promis
 }
 
 /**
- * 软删除消息
+ * 软删除消息及其之后的所有消息（整个子树）
+ * 当前分支被删除时切换到父消息所在的分支
  */
 export async function deleteMessage(id: string): Promise<Message> {
-  return prisma.message.update({
-    where: { id },
-    data: { isDeleted: true },
+  const message = await prisma.message.findUniqueOrThrow({ where: { id } })
+  const nodes = await prisma.message.findMany({
+    where: { conversationId: message.conversationId, isDeleted: false },
+    select: { id: true, parentId: true },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const removed = new Set([id])
+  for (const node of nodes) {
+    if (node.parentId && removed.has(node.parentId)) {
+      removed.add(node.id)
+    }
+  }
+
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: message.conversationId },
+    select: { activeLeafId: true },
+  })
+  const switchBranch = !!conversation?.activeLeafId && removed.has(conversation.activeLeafId)
+  const fallbackLeafId = message.parentId ?? nodes.filter(node => !removed.has(node.id)).pop()?.id ?? null
+
+  const [deleted] = await prisma.$transaction([
+    prisma.message.update({
+      where: { id },
+      data: { isDeleted: true },
+    }),
+    prisma.message.updateMany({
+      where: { id: { in: [...removed].filter(nodeId => nodeId !== id) } },
+      data: { isDeleted: true },
+    }),
+    ...(switchBranch
+      ? [prisma.conversation.update({
+          where: { id: message.conversationId },
+          data: { activeLeafId: fallbackLeafId },
+        })]
+      : []),
+  ])
+
+  return deleted
+}
+
+/**
+ * 获取对话中未删除的消息，不属于该对话时返回 null
+ */
+export async function findConversationMessage(conversationId: string, id: string): Promise<Message | null> {
+  return prisma.message.findFirst({
+    where: { id, conversationId, isDeleted: false },
+  })
+}
+
+/**
+ * 确定新消息的父消息：null 表示作为对话的第一条消息（编辑第一条消息时），
+ * 不传或消息不存在时接在当前分支的最后一条消息之后
+ */
+export async function resolveParentMessageId(
+  conversationId: string,
+  parentMessageId: string | null | undefined
+): Promise<string | null> {
+  if (parentMessageId === null) {
+    return null
+  }
+
+  if (parentMessageId && (await findConversationMessage(conversationId, parentMessageId))) {
+    return parentMessageId
+  }
+
+  await linkLegacyMessages(conversationId)
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { activeLeafId: true },
+  })
+  return conversation?.activeLeafId ?? null
+}
+
+/**
+ * 把分支功能之前保存的线性消息按时间顺序串成一个分支，并设为当前分支
+ */
+export async function linkLegacyMessages(conversationId: string): Promise<void> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { activeLeafId: true, updatedAt: true },
+  })
+  if (!conversation || conversation.activeLeafId) {
+    return
+  }
+
+  const messages = await prisma.message.findMany({
+    where: { conversationId, isDeleted: false },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
   })
+  if (messages.length === 0) {
+    return
+  }
+
+  await prisma.$transaction([
+    ...messages.slice(1).map((message, index) =>
+      prisma.message.update({
+        where: { id: message.id },
+        data: { parentId: messages[index].id, siblingIndex: 0 },
+      })
+    ),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      // 保留原来的更新时间，不影响对话列表的排序
+      data: { activeLeafId: messages[messages.length - 1].id, updatedAt: conversation.updatedAt },
+    }),
+  ])
 }
 
+// 全文搜索的文本搜索配置，由 npm run db:setup-search 创建
+const SEARCH_CONFIG = Prisma.sql`'fimai_cjk'::regconfig`
+
+// 数据库还没有创建全文搜索函数时退回到逐行匹配，创建后需要重启服务
+let fullTextSearchAvailable = true
+
+const isSearchSetupMissing = (error: unknown) =>
+  error instanceof Error && /fimai_search_text|fimai_cjk/.test(error.message)
+
 /**
- * 搜索对话
+ * 构造搜索 SQL：匹配消息内容和对话标题，按相关度和时间排序
+ */
+function buildSearchQuery(userId: string, terms: string[], filters: SearchFilters, useFullText: boolean): Prisma.Sql {
+  // 每个搜索词按短语匹配，多个搜索词需要同时匹配
+  const tsQuery = Prisma.join(
+    terms.map(term => Prisma.sql`phraseto_tsquery(${SEARCH_CONFIG}, fimai_search_text(${term}))`),
+    ' && '
+  )
+  const patterns = terms.map(term => `%${term.replace(/[\\%_]/g, '\\$&')}%`)
+
+  const match = (column: Prisma.Sql) => useFullText
+    ? Prisma.sql`to_tsvector(${SEARCH_CONFIG}, fimai_search_text(${column})) @@ (${tsQuery})`
+    : Prisma.sql`${column} ILIKE ALL(${patterns})`
+  const rank = (column: Prisma.Sql) => useFullText
+    ? Prisma.sql`ts_rank(to_tsvector(${SEARCH_CONFIG}, fimai_search_text(${column})), ${tsQuery})`
+    : Prisma.sql`0`
+
+  const conditions = (modelColumn: Prisma.Sql, timeColumn: Prisma.Sql) => {
+    const where = [Prisma.sql`c."userId" = ${userId}`]
+    if (filters.archived !== 'include') {
+      where.push(Prisma.sql`c."isArchived" = ${filters.archived === 'only'}`)
+    }
+    if (filters.pinnedOnly) where.push(Prisma.sql`c."isPinned" = true`)
+    if (filters.modelId) where.push(Prisma.sql`${modelColumn} = ${filters.modelId}`)
+    if (filters.from) where.push(Prisma.sql`${timeColumn} >= ${filters.from}`)
+    if (filters.to) where.push(Prisma.sql`${timeColumn} <= ${filters.to}`)
+    return Prisma.join(where, ' AND ')
+  }
+
+  // 标题匹配的相关度加倍，排在同等匹配的消息前面
+  return Prisma.sql`
+    SELECT * FROM (
+      SELECT c.id AS "conversationId", c.title, m.id AS "messageId", m.role, m.content,
+        md.name AS "modelName", c."isPinned", c."isArchived", m."createdAt",
+        ${rank(Prisma.sql`m.content`)} AS rank
+      FROM messages m
+      JOIN conversations c ON c.id = m."conversationId"
+      JOIN models md ON md.id = m."modelId"
+      WHERE ${conditions(Prisma.sql`m."modelId"`, Prisma.sql`m."createdAt"`)}
+        AND m."isDeleted" = false AND m.role <> 'system'
+        AND ${match(Prisma.sql`m.content`)}
+      UNION ALL
+      SELECT c.id, c.title, NULL, NULL, NULL,
+        md.name, c."isPinned", c."isArchived", c."updatedAt",
+        ${rank(Prisma.sql`c.title`)} * 2
+      FROM conversations c
+      JOIN models md ON md.id = c."modelId"
+      WHERE ${conditions(Prisma.sql`c."modelId"`, Prisma.sql`c."updatedAt"`)}
+        AND ${match(Prisma.sql`c.title`)}
+    ) hits
+    ORDER BY rank DESC, "createdAt" DESC
+    LIMIT ${filters.limit ?? 50} OFFSET ${filters.offset ?? 0}
+  `
+}
+
+/**
+ * 全文搜索对话标题和消息内容，返回匹配的消息及其附近内容的摘要
+ * 已删除的消息和系统消息不参与搜索，默认不搜索已归档的对话
  */
 export async function searchConversations(
   userId: string,
   query: string,
-  limit = 20
-): Promise<Conversation[]> {
-  return prisma.conversation.findMany({
+  filters: SearchFilters = {}
+): Promise<ConversationSearchHit[]> {
+  const terms = parseSearchTerms(query)
+  if (terms.length === 0) {
+    return []
+  }
+
+  type SearchRow = Omit<ConversationSearchHit, 'snippet'> & { content: string | null }
+  let rows: SearchRow[]
+  try {
+    rows = await prisma.$queryRaw<SearchRow[]>(buildSearchQuery(userId, terms, filters, fullTextSearchAvailable))
+  } catch (error) {
+    if (!fullTextSearchAvailable || !isSearchSetupMissing(error)) {
+      throw error
+    }
+    console.warn('Full-text search is not set up, run `npm run db:setup-search`. Falling back to ILIKE search.')
+    fullTextSearchAvailable = false
+    rows = await prisma.$queryRaw<SearchRow[]>(buildSearchQuery(userId, terms, filters, false))
+  }
+
+  return rows.map(row => ({
+    conversationId: row.conversationId,
+    title: row.title,
+    messageId: row.messageId,
+    role: row.role,
+    snippet: row.content ? buildSearchSnippet(row.content, terms) : '',
+    modelName: row.modelName,
+    isPinned: row.isPinned,
+    isArchived: row.isArchived,
+    createdAt: row.createdAt,
+  }))
+}
+
+/**
+ * 获取用户要导出的对话（不传 ids 时为用户的所有对话），每个对话只包含当前分支上的消息
+ */
+export async function getConversationsForExport(
+  userId: string,
+  ids?: string[],
+  limit?: number
+): Promise<ExportConversation[]> {
+  const conversations = await prisma.conversation.findMany({
     where: {
       userId,
-      isArchived: false,
-      OR: [
-        { title: { contains: query, mode: 'insensitive' } },
-        {
-          messages: {
-            some: {
-              content: { contains: query, mode: 'insensitive' },
-              isDeleted: false,
-            },
-          },
-        },
-      ],
+      ...(ids ? { id: { in: ids } } : {}),
     },
     include: {
-      provider: true,
+      provider: PROVIDER_WITHOUT_KEY,
       model: true,
-      _count: {
-        select: { messages: true },
+      messages: {
+        where: { isDeleted: false },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          provider: PROVIDER_WITHOUT_KEY,
+          model: true,
+          attachments: { select: { fileName: true } },
+        },
       },
     },
     orderBy: { updatedAt: 'desc' },
     take: limit,
   })
+
+  const toModelInfo = (
+    provider: { name: string; displayName: string } | null,
+    model: { name: string; modelId: string } | null
+  ) => model ? { provider: provider?.displayName || provider?.name || '', name: model.name, modelId: model.modelId } : null
+
+  return conversations.map(conversation => {
+    // 还没有消息树的旧对话按时间顺序导出所有消息
+    const messages = conversation.activeLeafId
+      ? getBranchPath(conversation.messages, conversation.activeLeafId)
+      : conversation.messages
+
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
+      model: toModelInfo(conversation.provider, conversation.model),
+      messages: messages.map(message => ({
+        role: message.role,
+        content: message.content,
+        reasoning: message.reasoning,
+        toolCalls: message.toolCalls as ToolCallRecord[] | null,
+        attachments: message.attachments.map(attachment => attachment.fileName),
+        model: message.role === 'assistant' ? toModelInfo(message.provider, message.model) : null,
+        createdAt: message.createdAt.toISOString(),
+        finishReason: message.finishReason,
+        tokenUsage: message.tokenUsage as ExportConversation['messages'][number]['tokenUsage'],
+      })),
+    }
+  })
+}
+
+/**
+ * 查找用户已经导入过的来源，用于导入时识别重复的对话
+ */
+export async function findImportedSourceIds(userId: string, sourceIds: string[]): Promise<Set<string>> {
+  const conversations = await prisma.conversation.findMany({
+    where: { userId, importSourceId: { in: sourceIds } },
+    select: { importSourceId: true },
+  })
+  return new Set(conversations.map(conversation => conversation.importSourceId as string))
+}
+
+/**
+ * 保存导入的对话：消息按原来的顺序组成一条分支，保留原来的时间（没有时间的消息沿用上一条消息的时间）
+ */
+export async function importConversation(
+  userId: string,
+  providerId: string,
+  modelId: string,
+  data: ImportedConversation
+): Promise<Conversation> {
+  const createdAt = data.createdAt ?? data.messages.find(message => message.createdAt)?.createdAt ?? new Date()
+
+  return prisma.$transaction(async (tx) => {
+    const conversation = await tx.conversation.create({
+      data: {
+        userId,
+        providerId,
+        modelId,
+        title: data.title,
+        importSourceId: data.sourceId,
+        createdAt,
+      },
+    })
+
+    let parentId: string | null = null
+    let sentAt = createdAt
+    for (const message of data.messages) {
+      sentAt = message.createdAt ?? sentAt
+      const created: Message = await tx.message.create({
+        data: {
+          conversationId: conversation.id,
+          userId,
+          providerId,
+          modelId,
+          role: message.role,
+          content: message.content,
+          parentId,
+          createdAt: sentAt,
+        },
+      })
+      parentId = created.id
+    }
+
+    return tx.conversation.update({
+      where: { id: conversation.id },
+      data: { activeLeafId: parentId, updatedAt: data.updatedAt ?? sentAt },
+    })
+  })
 }
@@ -0,0 +1,112 @@
+import { prisma } from '@/lib/prisma'
+import type { ConversationFolder } from '@prisma/client'
+import { MAX_FOLDER_NAME_LENGTH } from '@/lib/conversation-filters'
+
+export interface FolderData {
+  name: string
+  parentId?: string | null
+}
+
+/**
+ * 校验并整理请求中的文件夹字段
+ * @param partial 为 true 时只校验传入的字段（用于更新）
+ */
+export function parseFolderInput(
+  body: Record<string, unknown>,
+  partial = false
+): { data: Partial<FolderData> } | { error: string } {
+  const data: Partial<FolderData> = {}
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'name is required' }
+    }
+    if (body.name.trim().length > MAX_FOLDER_NAME_LENGTH) {
+      return { error: `name must be at most ${MAX_FOLDER_NAME_LENGTH} characters` }
+    }
+    data.name = body.name.trim()
+  }
+
+  if (body.parentId !== undefined) {
+    if (body.parentId !== null && typeof body.parentId !== 'string') {
+      return { error: 'parentId must be a string' }
+    }
+    data.parentId = body.parentId || null
+  }
+
+  return { data }
+}
+
+/**
+ * 获取用户的所有文件夹
+ */
+export async function getUserFolders(userId: string): Promise<ConversationFolder[]> {
+  return prisma.conversationFolder.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+  })
+}
+
+/**
+ * 获取用户的单个文件夹，不属于用户时返回 null
+ */
+export async function getUserFolder(id: string, userId: string): Promise<ConversationFolder | null> {
+  return prisma.conversationFolder.findFirst({
+    where: { id, userId },
+  })
+}
+
+/**
+ * 检查文件夹能否放到上级文件夹中：只允许嵌套一层，上级文件夹必须是用户自己的顶层文件夹
+ * @param folderId 移动已有文件夹时传入，新建时为 null
+ * @returns 错误信息，可以放入时返回 null
+ */
+export async function checkFolderParent(
+  userId: string,
+  folderId: string | null,
+  parentId: string
+): Promise<string | null> {
+  if (parentId === folderId) {
+    return 'A folder cannot be its own parent'
+  }
+
+  const parent = await getUserFolder(parentId, userId)
+  if (!parent) {
+    return 'Parent folder not found'
+  }
+  if (parent.parentId) {
+    return 'Folders can only be nested one level deep'
+  }
+  if (folderId && (await prisma.conversationFolder.count({ where: { parentId: folderId } })) > 0) {
+    return 'A folder with subfolders cannot be nested'
+  }
+  return null
+}
+
+/**
+ * 创建文件夹
+ */
+export async function createFolder(userId: string, data: FolderData): Promise<ConversationFolder> {
+  return prisma.conversationFolder.create({
+    data: { ...data, userId },
+  })
+}
+
+/**
+ * 更新文件夹的名称或上级文件夹
+ */
+export async function updateFolder(id: string, data: Partial<FolderData>): Promise<ConversationFolder> {
+  return prisma.conversationFolder.update({
+    where: { id },
+    data,
+  })
+}
+
+/**
+ * 删除文件夹，其中的对话移出文件夹，子文件夹一并删除
+ */
+export async function deleteFolder(id: string): Promise<void> {
+  await prisma.conversationFolder.delete({
+    where: { id },
+  })
+}
@@ -0,0 +1,92 @@
+import { prisma } from '@/lib/prisma'
+import type { Generation } from '@prisma/client'
+import type { ToolCallRecord } from '@/lib/tools/catalog'
+
+export type GenerationStatus = 'streaming' | 'completed' | 'cancelled' | 'failed'
+
+export interface CreateGenerationData {
+  conversationId: string
+  userId: string
+  providerId: string
+  modelId: string
+  userContent?: string | null
+  userAttachmentIds?: string[]
+  parentMessageId?: string | null
+}
+
+export interface FinishGenerationData {
+  status: Exclude<GenerationStatus, 'streaming'>
+  content: string
+  reasoning?: string
+  toolCalls?: ToolCallRecord[]
+  finishReason: string | null
+  error?: string
+  messageId?: string
+}
+
+/**
+ * 创建生成记录
+ */
+export async function createGeneration(data: CreateGenerationData): Promise<Generation> {
+  return prisma.generation.create({
+    data,
+  })
+}
+
+/**
+ * 保存生成进度
+ */
+export async function updateGenerationContent(
+  id: string,
+  content: string,
+  reasoning: string,
+  toolCalls?: ToolCallRecord[]
+): Promise<void> {
+  await prisma.generation.updateMany({
+    where: { id, status: 'streaming' },
+    data: { content, reasoning, ...(toolCalls?.length && { toolCalls: toolCalls.map(call => ({ ...call })) }) },
+  })
+}
+
+/**
+ * 把中断的生成标记为失败
+ * @param staleBefore 只处理在此时间之前最后一次保存进度的生成，仍在其他进程中运行的生成不受影响
+ * @returns 生成已经结束、仍在运行或已被其他请求处理时返回 false
+ */
+export async function markGenerationInterrupted(id: string, staleBefore: Date): Promise<boolean> {
+  const result = await prisma.generation.updateMany({
+    where: { id, status: 'streaming', updatedAt: { lt: staleBefore } },
+    data: { status: 'failed', error: 'Generation was interrupted' },
+  })
+  return result.count > 0
+}
+
+/**
+ * 结束生成，保存最终内容和结果
+ */
+export async function finishGeneration(id: string, data: FinishGenerationData): Promise<void> {
+  const { toolCalls, ...rest } = data
+  await prisma.generation.update({
+    where: { id },
+    data: { ...rest, ...(toolCalls?.length && { toolCalls: toolCalls.map(call => ({ ...call })) }) },
+  })
+}
+
+/**
+ * 获取用户的生成记录
+ */
+export async function getGeneration(id: string, userId: string): Promise<Generation | null> {
+  return prisma.generation.findFirst({
+    where: { id, userId },
+  })
+}
+
+/**
+ * 获取对话中正在进行的生成
+ */
+export async function getActiveGeneration(conversationId: string, userId: string): Promise<Generation | null> {
+  return prisma.generation.findFirst({
+    where: { conversationId, userId, status: 'streaming' },
+    orderBy: { createdAt: 'desc' },
+  })
+}
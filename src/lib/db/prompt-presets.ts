@@ -0,0 +1,142 @@
+import { prisma } from '@/lib/prisma'
+import type { PromptPreset } from '@prisma/client'
+import { SAMPLING_PARAM_KEYS, validateSamplingValue } from '@/lib/sampling'
+
+export interface PromptPresetData {
+  name: string
+  systemPrompt: string
+  modelId?: string | null
+  isShared?: boolean
+  temperature?: number | null
+  maxTokens?: number | null
+  topP?: number | null
+  frequencyPenalty?: number | null
+  presencePenalty?: number | null
+}
+
+// 名称和系统提示词的最大长度
+const MAX_NAME_LENGTH = 100
+const MAX_SYSTEM_PROMPT_LENGTH = 20000
+
+/**
+ * 校验并整理请求中的预设字段
+ * @param partial 为 true 时只校验传入的字段（用于更新）
+ */
+export function parsePromptPresetInput(
+  body: Record<string, unknown>,
+  partial = false
+): { data: Partial<PromptPresetData> } | { error: string } {
+  const data: Partial<PromptPresetData> = {}
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'name is required' }
+    }
+    if (body.name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `name must be at most ${MAX_NAME_LENGTH} characters` }
+    }
+    data.name = body.name.trim()
+  }
+
+  if (body.systemPrompt !== undefined || !partial) {
+    if (typeof body.systemPrompt !== 'string' || !body.systemPrompt.trim()) {
+      return { error: 'systemPrompt is required' }
+    }
+    if (body.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+      return { error: `systemPrompt must be at most ${MAX_SYSTEM_PROMPT_LENGTH} characters` }
+    }
+    data.systemPrompt = body.systemPrompt
+  }
+
+  if (body.modelId !== undefined) {
+    if (body.modelId !== null && typeof body.modelId !== 'string') {
+      return { error: 'modelId must be a string' }
+    }
+    data.modelId = body.modelId || null
+  }
+
+  if (body.isShared !== undefined) {
+    data.isShared = body.isShared === true
+  }
+
+  // 采样参数为空时使用模型的默认配置
+  for (const key of SAMPLING_PARAM_KEYS) {
+    const value = body[key]
+    if (value === undefined) continue
+    if (value === null || value === '') {
+      data[key] = null
+      continue
+    }
+    const error = validateSamplingValue(key, value)
+    if (error) {
+      return { error }
+    }
+    data[key] = value as number
+  }
+
+  return { data }
+}
+
+/**
+ * 获取用户可用的预设：自己的预设和管理员共享的预设
+ */
+export async function getAvailablePromptPresets(userId: string): Promise<PromptPreset[]> {
+  return prisma.promptPreset.findMany({
+    where: {
+      OR: [{ userId }, { isShared: true }],
+    },
+    orderBy: [
+      { isShared: 'desc' },
+      { createdAt: 'asc' },
+    ],
+  })
+}
+
+/**
+ * 获取用户可用的单个预设
+ */
+export async function getAvailablePromptPreset(id: string, userId: string): Promise<PromptPreset | null> {
+  return prisma.promptPreset.findFirst({
+    where: {
+      id,
+      OR: [{ userId }, { isShared: true }],
+    },
+  })
+}
+
+/**
+ * 根据 ID 获取预设
+ */
+export async function getPromptPresetById(id: string): Promise<PromptPreset | null> {
+  return prisma.promptPreset.findUnique({
+    where: { id },
+  })
+}
+
+/**
+ * 创建预设
+ */
+export async function createPromptPreset(userId: string, data: PromptPresetData): Promise<PromptPreset> {
+  return prisma.promptPreset.create({
+    data: { ...data, userId },
+  })
+}
+
+/**
+ * 更新预设
+ */
+export async function updatePromptPreset(id: string, data: Partial<PromptPresetData>): Promise<PromptPreset> {
+  return prisma.promptPreset.update({
+    where: { id },
+    data,
+  })
+}
+
+/**
+ * 删除预设，使用该预设的对话不再添加系统提示词
+ */
+export async function deletePromptPreset(id: string): Promise<void> {
+  await prisma.promptPreset.delete({
+    where: { id },
+  })
+}
@@ -0,0 +1,211 @@
+import { prisma } from '@/lib/prisma'
+import type { ProviderKey } from '@prisma/client'
+import { decryptSecret, encryptSecret, maskStoredSecret } from '@/lib/encryption'
+
+/**
+ * 密钥池选择策略
+ * round_robin: 轮询，优先使用最久未使用的密钥
+ * least_used: 优先使用累计请求次数最少的密钥
+ */
+export const KEY_SELECTION_STRATEGIES = ['round_robin', 'least_used'] as const
+
+export type KeySelectionStrategy = typeof KEY_SELECTION_STRATEGIES[number]
+
+export interface CreateProviderKeyData {
+  providerId: string
+  key: string
+  name?: string
+}
+
+export interface UpdateProviderKeyData {
+  key?: string
+  name?: string | null
+  isEnabled?: boolean
+  cooldownUntil?: Date | null
+}
+
+// 选中的上游密钥，id 为空表示使用提供商的默认 apiKey
+export interface SelectedProviderKey {
+  id: string | null
+  key: string
+}
+
+// 选择密钥时需要的字段
+interface PoolKey {
+  id: string
+  key: string
+  requestCount: number
+  lastUsedAt: Date | null
+  cooldownUntil: Date | null
+}
+
+// 限流后的默认冷却时间（上游未返回 Retry-After 时使用）
+const RATE_LIMIT_COOLDOWN_MS = 60 * 1000
+// 认证失败（密钥失效、额度用尽等）后的冷却时间
+const AUTH_ERROR_COOLDOWN_MS = 10 * 60 * 1000
+// 错误信息的最大保存长度
+const MAX_ERROR_LENGTH = 500
+
+/**
+ * 创建提供商密钥
+ */
+export async function createProviderKey(data: CreateProviderKeyData): Promise<ProviderKey> {
+  return prisma.providerKey.create({
+    data: {
+      providerId: data.providerId,
+      key: encryptSecret(data.key),
+      name: data.name || null,
+    },
+  })
+}
+
+/**
+ * 获取提供商的密钥池
+ */
+export async function getProviderKeys(providerId: string): Promise<ProviderKey[]> {
+  return prisma.providerKey.findMany({
+    where: { providerId },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+/**
+ * 获取单个提供商密钥
+ */
+export async function getProviderKey(id: string, providerId: string): Promise<ProviderKey | null> {
+  return prisma.providerKey.findFirst({
+    where: { id, providerId },
+  })
+}
+
+/**
+ * 更新提供商密钥，传入 key 时替换密钥
+ */
+export async function updateProviderKey(
+  id: string,
+  providerId: string,
+  data: UpdateProviderKeyData
+): Promise<ProviderKey | null> {
+  const { key, ...rest } = data
+  const result = await prisma.providerKey.updateMany({
+    where: { id, providerId },
+    data: {
+      ...rest,
+      ...(key !== undefined && { key: encryptSecret(key) }),
+    },
+  })
+
+  if (result.count === 0) {
+    return null
+  }
+
+  return prisma.providerKey.findUnique({ where: { id } })
+}
+
+/**
+ * 删除提供商密钥
+ */
+export async function deleteProviderKey(id: string, providerId: string): Promise<boolean> {
+  const result = await prisma.providerKey.deleteMany({
+    where: { id, providerId },
+  })
+
+  return result.count > 0
+}
+
+/**
+ * 从密钥池中选择一个可用密钥，并计入请求次数
+ * 密钥池中没有启用的密钥时使用提供商的默认 apiKey；密钥都在冷却中或已排除时返回 null
+ * @param excludeKeyIds 本次请求中已经失败的密钥，不再选择
+ */
+export async function selectProviderKey(
+  provider: {
+    id: string
+    apiKey: string | null
+    keySelection?: string | null
+  },
+  excludeKeyIds: string[] = []
+): Promise<SelectedProviderKey | null> {
+  const keys: PoolKey[] = await prisma.providerKey.findMany({
+    where: { providerId: provider.id, isEnabled: true },
+    select: { id: true, key: true, requestCount: true, lastUsedAt: true, cooldownUntil: true },
+  })
+
+  if (keys.length === 0) {
+    return provider.apiKey ? { id: null, key: decryptSecret(provider.apiKey) } : null
+  }
+
+  const now = Date.now()
+  const available = keys.filter(k =>
+    (!k.cooldownUntil || k.cooldownUntil.getTime() <= now) && !excludeKeyIds.includes(k.id)
+  )
+  if (available.length === 0) {
+    return null
+  }
+
+  const lastUsed = (k: PoolKey) => k.lastUsedAt?.getTime() ?? 0
+  const selected = available.reduce((best, k) => {
+    if (provider.keySelection === 'least_used' && k.requestCount !== best.requestCount) {
+      return k.requestCount < best.requestCount ? k : best
+    }
+    return lastUsed(k) < lastUsed(best) ? k : best
+  })
+
+  await prisma.providerKey.update({
+    where: { id: selected.id },
+    data: {
+      requestCount: { increment: 1 },
+      lastUsedAt: new Date(),
+    },
+  })
+
+  return { id: selected.id, key: decryptSecret(selected.key) }
+}
+
+/**
+ * 限流和认证失败说明密钥本身不可用，需要换用其他密钥
+ */
+export function isKeyFailureStatus(status: number): boolean {
+  return status === 401 || status === 403 || status === 429
+}
+
+/**
+ * 记录密钥的请求失败，限流或认证失败时暂停使用该密钥一段时间
+ */
+export async function recordProviderKeyFailure(
+  id: string,
+  error: { status?: number; message: string; retryAfterSeconds?: number }
+): Promise<void> {
+  let cooldownMs = 0
+  if (error.status === 429) {
+    cooldownMs = error.retryAfterSeconds ? error.retryAfterSeconds * 1000 : RATE_LIMIT_COOLDOWN_MS
+  } else if (error.status === 401 || error.status === 403) {
+    cooldownMs = AUTH_ERROR_COOLDOWN_MS
+  }
+
+  const message = error.status ? `HTTP ${error.status}: ${error.message}` : error.message
+
+  await prisma.providerKey.update({
+    where: { id },
+    data: {
+      errorCount: { increment: 1 },
+      lastError: message.slice(0, MAX_ERROR_LENGTH),
+      lastErrorAt: new Date(),
+      ...(cooldownMs > 0 && { cooldownUntil: new Date(Date.now() + cooldownMs) }),
+    },
+  })
+}
+
+/**
+ * 转换为接口返回的格式（不包含完整密钥）
+ */
+export function serializeProviderKey(providerKey: ProviderKey) {
+  const { key, ...rest } = providerKey
+  const coolingDown = !!providerKey.cooldownUntil && providerKey.cooldownUntil.getTime() > Date.now()
+
+  return {
+    ...rest,
+    maskedKey: maskStoredSecret(key),
+    status: !providerKey.isEnabled ? 'disabled' : coolingDown ? 'cooldown' : 'active',
+  }
+}
@@ -1,10 +1,17 @@
 import { prisma } from '@/lib/prisma'
 import type { Provider, Model } from '@prisma/client'
 import { withCache, cacheKeys, invalidateCache } from '@/lib/cache'
+import { encryptSecret, maskStoredSecret } from '@/lib/encryption'
+import type { ChatModel } from '@/lib/chat-fallback'
+
+// 关联查询提供商时不读取密钥，避免随对话、模型等数据返回给客户端
+export const PROVIDER_WITHOUT_KEY = { omit: { apiKey: true } } as const
 
 export interface CreateProviderData {
   name: string
   displayName: string
+  type?: string
+  keySelection?: string
   baseUrl?: string
   apiKey?: string
   isEnabled?: boolean
@@ -15,6 +22,8 @@ export interface CreateProviderData {
 
 export interface UpdateProviderData {
   displayName?: string
+  type?: string
+  keySelection?: string
   baseUrl?: string
   apiKey?: string
   isEnabled?: boolean
@@ -26,6 +35,7 @@ export interface UpdateProviderData {
 export interface CreateModelData {
   providerId: string
   modelId: string
+  alias?: string
   name: string
   description?: string
   isEnabled?: boolean
@@ -40,6 +50,8 @@ export interface CreateModelData {
 
 export interface UpdateModelData {
   name?: string
+  alias?: string | null
+  fallbackModelIds?: string | null
   description?: string
   isEnabled?: boolean
   order?: number
@@ -56,7 +68,10 @@ export interface UpdateModelData {
  */
 export async function createProvider(data: CreateProviderData): Promise<Provider> {
   return prisma.provider.create({
-    data,
+    data: {
+      ...data,
+      apiKey: data.apiKey ? encryptSecret(data.apiKey) : undefined,
+    },
   })
 }
 
@@ -98,12 +113,16 @@ export async function getProviderById(id: string): Promise<Provider | null> {
 }
 
 /**
- * 更新提供商
+ * 更新提供商，apiKey 为空字符串时清除密钥
  */
 export async function updateProvider(id: string, data: UpdateProviderData): Promise<Provider> {
+  const { apiKey, ...rest } = data
   const result = await prisma.provider.update({
     where: { id },
-    data,
+    data: {
+      ...rest,
+      ...(apiKey !== undefined && { apiKey: apiKey ? encryptSecret(apiKey) : null }),
+    },
   })
 
   // 清除相关缓存
@@ -112,6 +131,19 @@ export async function updateProvider(id: string, data: UpdateProviderData): Prom
   return result
 }
 
+/**
+ * 转换为接口返回的格式（不包含完整密钥）
+ */
+export function serializeProvider<T extends { apiKey?: string | null }>(provider: T) {
+  const { apiKey, ...rest } = provider
+
+  return {
+    ...rest,
+    hasApiKey: !!apiKey,
+    maskedApiKey: maskStoredSecret(apiKey),
+  }
+}
+
 /**
  * 删除提供商
  */
@@ -133,14 +165,14 @@ export async function createModel(data: CreateModelData): Promise<Model> {
 /**
  * 获取所有模型
  */
-export async function getModels(providerId?: string): Promise<Model[]> {
+export async function getModels(providerId?: string): Promise<Array<Model & { provider: Omit<Provider, 'apiKey'> }>> {
   return prisma.model.findMany({
     where: {
       isEnabled: true,
       ...(providerId && { providerId }),
     },
     include: {
-      provider: true,
+      provider: PROVIDER_WITHOUT_KEY,
     },
     orderBy: [
       { provider: { order: 'asc' } },
@@ -149,16 +181,69 @@ export async function getModels(providerId?: string): Promise<Model[]> {
   })
 }
 
+/**
+ * 获取导入的对话在没有选择模型时使用的占位模型（提供商和模型都是禁用的，不在模型列表中显示）
+ */
+export async function getImportPlaceholderModel(): Promise<Model> {
+  const provider = await prisma.provider.upsert({
+    where: { name: 'imported' },
+    update: {},
+    create: {
+      name: 'imported',
+      displayName: '导入的对话',
+      isEnabled: false,
+      description: '从其他应用导入的对话的占位提供商',
+    },
+  })
+
+  return prisma.model.upsert({
+    where: { providerId_modelId: { providerId: provider.id, modelId: 'imported' } },
+    update: {},
+    create: {
+      providerId: provider.id,
+      modelId: 'imported',
+      name: '导入的模型',
+      isEnabled: false,
+    },
+  })
+}
+
 /**
  * 根据 ID 获取模型
  */
 export async function getModelById(id: string): Promise<Model | null> {
   return prisma.model.findUnique({
     where: { id },
+    include: {
+      provider: PROVIDER_WITHOUT_KEY,
+    },
+  })
+}
+
+/**
+ * 根据别名或 modelId 查找启用的模型（别名匹配优先，其次按提供商和模型排序）
+ * 结果包含提供商的加密密钥，供网关选取上游密钥使用，不要直接返回给客户端
+ */
+export async function findModelsByName(name: string): Promise<ChatModel[]> {
+  const models = await prisma.model.findMany({
+    where: {
+      isEnabled: true,
+      provider: { isEnabled: true },
+      OR: [
+        { alias: name },
+        { modelId: name },
+      ],
+    },
     include: {
       provider: true,
     },
+    orderBy: [
+      { provider: { order: 'asc' } },
+      { order: 'asc' },
+    ],
   })
+
+  return models.sort((a: ChatModel, b: ChatModel) => Number(b.alias === name) - Number(a.alias === name))
 }
 
 /**
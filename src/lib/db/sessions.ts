@@ -0,0 +1,111 @@
+import { prisma } from '@/lib/prisma'
+import type { Session } from '@prisma/client'
+import { signSessionToken, SESSION_MAX_AGE_SECONDS } from '@/lib/session'
+
+export interface CreateSessionData {
+  userId: string
+  userAgent?: string | null
+  ipAddress?: string | null
+}
+
+// lastUsedAt 的更新间隔，避免每个请求都写数据库
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * 创建会话并返回签名后的令牌
+ */
+export async function createSession(
+  data: CreateSessionData
+): Promise<{ session: Session; token: string }> {
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000)
+
+  const session = await prisma.session.create({
+    data: {
+      userId: data.userId,
+      userAgent: data.userAgent || undefined,
+      ipAddress: data.ipAddress || undefined,
+      expiresAt,
+    },
+  })
+
+  const token = await signSessionToken({
+    sid: session.id,
+    uid: session.userId,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  })
+
+  return { session, token }
+}
+
+/**
+ * 获取有效会话（未吊销、未过期且用户未被封禁）
+ */
+export async function getActiveSession(sessionId: string): Promise<Session | null> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: {
+      user: {
+        select: { id: true, isActive: true },
+      },
+    },
+  })
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return null
+  }
+
+  if (!session.user.isActive) {
+    return null
+  }
+
+  if (Date.now() - session.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { lastUsedAt: new Date() },
+    })
+  }
+
+  return session
+}
+
+/**
+ * 获取用户的有效会话列表
+ */
+export async function getUserSessions(userId: string): Promise<Session[]> {
+  return prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  })
+}
+
+/**
+ * 吊销单个会话
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+}
+
+/**
+ * 吊销用户的所有会话
+ * @param exceptSessionId 保留的会话（如当前会话）
+ * @returns 吊销的会话数量
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date() },
+  })
+
+  return result.count
+}
@@ -0,0 +1,190 @@
+import { randomBytes } from 'crypto'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import type { ConversationShare } from '@prisma/client'
+import { getConversationsForExport } from '@/lib/db/conversations'
+
+// 分享的消息：只包含内容、思考过程、模型名称和时间
+export interface SharedMessage {
+  role: string
+  content: string
+  reasoning?: string | null
+  model?: string | null
+  createdAt?: string | null
+}
+
+export interface ShareSnapshot {
+  title: string
+  createdAt: string
+  messages: SharedMessage[]
+}
+
+export interface ShareInput {
+  password?: string | null
+  expiresAt?: Date | null
+}
+
+// 分享链接的列表信息：不包含快照和密码哈希，只标明是否设置了密码
+export type ShareSummary = Omit<ConversationShare, 'snapshot' | 'passwordHash'> & { hasPassword: boolean }
+
+// 访问密码的最大长度
+const MAX_PASSWORD_LENGTH = 100
+
+// 查询列表信息时不读取快照和密码哈希
+const SHARE_SUMMARY_OMIT = { snapshot: true, passwordHash: true } as const
+
+/**
+ * 校验创建分享的请求：密码可选，过期时间可选且必须晚于当前时间
+ */
+export function parseShareInput(body: Record<string, unknown>): { data: ShareInput } | { error: string } {
+  const data: ShareInput = {}
+
+  if (body.password !== undefined && body.password !== null && body.password !== '') {
+    if (typeof body.password !== 'string' || body.password.length > MAX_PASSWORD_LENGTH) {
+      return { error: `password must be a string of at most ${MAX_PASSWORD_LENGTH} characters` }
+    }
+    data.password = body.password
+  }
+
+  if (body.expiresAt !== undefined && body.expiresAt !== null) {
+    const expiresAt = typeof body.expiresAt === 'string' ? new Date(body.expiresAt) : null
+    if (!expiresAt || Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+      return { error: 'expiresAt must be a future date' }
+    }
+    data.expiresAt = expiresAt
+  }
+
+  return { data }
+}
+
+/**
+ * 创建对话的分享链接，保存对话当前分支的快照；对话不存在或不属于用户时返回 null
+ */
+export async function createConversationShare(
+  userId: string,
+  conversationId: string,
+  data: ShareInput
+): Promise<ShareSummary | null> {
+  const [conversation] = await getConversationsForExport(userId, [conversationId])
+  if (!conversation) {
+    return null
+  }
+
+  const snapshot: ShareSnapshot = {
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    messages: conversation.messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      reasoning: message.reasoning || null,
+      model: message.model?.name ?? null,
+      createdAt: message.createdAt,
+    })),
+  }
+
+  const share = await prisma.conversationShare.create({
+    data: {
+      token: randomBytes(24).toString('base64url'),
+      userId,
+      conversationId,
+      title: conversation.title,
+      snapshot: { ...snapshot },
+      passwordHash: data.password ? await bcrypt.hash(data.password, 10) : null,
+      expiresAt: data.expiresAt ?? null,
+    },
+    omit: SHARE_SUMMARY_OMIT,
+  })
+  return { ...share, hasPassword: !!data.password }
+}
+
+/**
+ * 为分享链接加上是否设置了密码：只查询设置了密码的分享ID，不读取密码哈希
+ */
+async function withPasswordFlag<T extends { id: string }>(shares: T[]): Promise<Array<T & { hasPassword: boolean }>> {
+  if (shares.length === 0) {
+    return []
+  }
+
+  const protectedShares: { id: string }[] = await prisma.conversationShare.findMany({
+    where: { id: { in: shares.map(share => share.id) }, passwordHash: { not: null } },
+    select: { id: true },
+  })
+  const protectedIds = new Set(protectedShares.map(share => share.id))
+  return shares.map(share => ({ ...share, hasPassword: protectedIds.has(share.id) }))
+}
+
+/**
+ * 获取对话还没有撤销的分享链接（包含已过期的）
+ */
+export async function getConversationShares(conversationId: string): Promise<ShareSummary[]> {
+  const shares = await prisma.conversationShare.findMany({
+    where: { conversationId, revokedAt: null },
+    omit: SHARE_SUMMARY_OMIT,
+    orderBy: { createdAt: 'desc' },
+  })
+  return withPasswordFlag(shares)
+}
+
+/**
+ * 获取所有有效的分享链接（管理员审计）
+ */
+export async function getActiveShares(options: { limit?: number; offset?: number } = {}) {
+  const { limit = 50, offset = 0 } = options
+
+  const where = {
+    revokedAt: null,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+  }
+  const [shares, total] = await Promise.all([
+    prisma.conversationShare.findMany({
+      where,
+      include: { user: { select: { id: true, username: true } } },
+      omit: SHARE_SUMMARY_OMIT,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.conversationShare.count({ where }),
+  ])
+
+  return { shares: await withPasswordFlag(shares), total }
+}
+
+export async function getShareById(id: string): Promise<ConversationShare | null> {
+  return prisma.conversationShare.findUnique({ where: { id } })
+}
+
+/**
+ * 根据令牌获取有效的分享链接，已撤销或已过期时返回 null
+ */
+export async function getActiveShareByToken(token: string): Promise<ConversationShare | null> {
+  const share = await prisma.conversationShare.findUnique({ where: { token } })
+  if (!share || share.revokedAt || (share.expiresAt && share.expiresAt.getTime() <= Date.now())) {
+    return null
+  }
+  return share
+}
+
+export async function verifySharePassword(share: ConversationShare, password: unknown): Promise<boolean> {
+  if (!share.passwordHash) {
+    return true
+  }
+  return typeof password === 'string' && bcrypt.compare(password, share.passwordHash)
+}
+
+export async function recordShareView(id: string): Promise<void> {
+  await prisma.conversationShare.update({
+    where: { id },
+    data: { viewCount: { increment: 1 } },
+  })
+}
+
+/**
+ * 撤销分享链接，撤销后链接无法再访问
+ */
+export async function revokeShare(id: string): Promise<ConversationShare> {
+  return prisma.conversationShare.update({
+    where: { id },
+    data: { revokedAt: new Date() },
+  })
+}
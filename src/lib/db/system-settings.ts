@@ -22,6 +22,12 @@ export const DEFAULT_SYSTEM_SETTINGS: SystemSettingValue[] = [
     type: 'number',
     description: '用户最大访问码创建数量'
   },
+  {
+    key: 'user_max_api_keys',
+    value: 10,
+    type: 'number',
+    description: '用户最大有效API密钥数量'
+  },
   {
     key: 'access_code_max_users',
     value: 10,
@@ -75,6 +81,12 @@ export const DEFAULT_SYSTEM_SETTINGS: SystemSettingValue[] = [
     value: true,
     type: 'boolean',
     description: '是否自动将上次使用的模型设为默认模型'
+  },
+  {
+    key: 'tool_fetch_allowed_hosts',
+    value: '',
+    type: 'string',
+    description: '网页读取工具允许访问的域名（逗号或换行分隔，*.example.com 匹配子域名）'
   }
 ]
 
@@ -1,6 +1,7 @@
 import { prisma } from '@/lib/prisma'
-import type { TokenUsage } from '@prisma/client'
+import type { Prisma, TokenUsage } from '@prisma/client'
 import { estimateTokens, calculateTokenCost } from '@/lib/token-counter'
+import { PROVIDER_WITHOUT_KEY } from '@/lib/db/providers'
 
 export interface CreateTokenUsageData {
   userId: string
@@ -11,8 +12,10 @@ export interface CreateTokenUsageData {
   promptTokens?: number
   completionTokens?: number
   totalTokens?: number
+  reasoningTokens?: number // 上游返回的思考 Token 数，已计入 completionTokens
   inputText?: string
   outputText?: string
+  imageTokens?: number // 输入中图片的估算 token 数，上游没有返回用量时计入输入
 }
 
 export interface TokenUsageStats {
@@ -26,8 +29,12 @@ export interface TokenUsageStats {
 
 /**
  * 记录token使用量
+ * @param db 在事务中记录时传入事务客户端
  */
-export async function recordTokenUsage(data: CreateTokenUsageData): Promise<TokenUsage> {
+export async function recordTokenUsage(
+  data: CreateTokenUsageData,
+  db: Prisma.TransactionClient = prisma
+): Promise<TokenUsage> {
   let { promptTokens, completionTokens, totalTokens } = data
   let isEstimated = false
   let inputChars: number | undefined
@@ -39,6 +46,9 @@ export async function recordTokenUsage(data: CreateTokenUsageData): Promise<Toke
       promptTokens = estimateTokens(data.inputText)
       inputChars = data.inputText.length
     }
+    if (data.imageTokens) {
+      promptTokens = (promptTokens || 0) + data.imageTokens
+    }
     if (data.outputText) {
       completionTokens = estimateTokens(data.outputText)
       outputChars = data.outputText.length
@@ -54,7 +64,7 @@ export async function recordTokenUsage(data: CreateTokenUsageData): Promise<Toke
     completionTokens || 0
   )
 
-  const tokenUsage = await prisma.tokenUsage.create({
+  const tokenUsage = await db.tokenUsage.create({
     data: {
       userId: data.userId,
       conversationId: data.conversationId,
@@ -64,6 +74,7 @@ export async function recordTokenUsage(data: CreateTokenUsageData): Promise<Toke
       promptTokens: promptTokens || 0,
       completionTokens: completionTokens || 0,
       totalTokens: totalTokens || 0,
+      reasoningTokens: isEstimated ? undefined : data.reasoningTokens,
       isEstimated,
       inputChars,
       outputChars,
@@ -72,17 +83,17 @@ export async function recordTokenUsage(data: CreateTokenUsageData): Promise<Toke
   })
 
   // 更新用户权限表中的token使用量
-  await updateUserTokenUsage(data.userId, totalTokens || 0, cost || 0)
+  await updateUserTokenUsage(data.userId, totalTokens || 0, cost || 0, db)
 
   // 如果是访客，需要将token使用量计入宿主用户
-  const user = await prisma.user.findUnique({
+  const user = await db.user.findUnique({
     where: { id: data.userId },
     select: { role: true, hostUserId: true },
   })
 
   if (user?.role === 'GUEST' && user.hostUserId) {
     // 为宿主用户也创建一条记录
-    await prisma.tokenUsage.create({
+    await db.tokenUsage.create({
       data: {
         userId: user.hostUserId,
         conversationId: data.conversationId,
@@ -92,6 +103,7 @@ export async function recordTokenUsage(data: CreateTokenUsageData): Promise<Toke
         promptTokens: promptTokens || 0,
         completionTokens: completionTokens || 0,
         totalTokens: totalTokens || 0,
+        reasoningTokens: isEstimated ? undefined : data.reasoningTokens,
         isEstimated,
         inputChars,
         outputChars,
@@ -100,7 +112,7 @@ export async function recordTokenUsage(data: CreateTokenUsageData): Promise<Toke
     })
 
     // 更新宿主用户的token使用量
-    await updateUserTokenUsage(user.hostUserId, totalTokens || 0, cost || 0)
+    await updateUserTokenUsage(user.hostUserId, totalTokens || 0, cost || 0, db)
   }
 
   return tokenUsage
@@ -111,15 +123,17 @@ export async function recordTokenUsage(data: CreateTokenUsageData): Promise<Toke
  * @param userId 用户ID
  * @param tokenCount 使用的token数量
  * @param cost 使用的成本
+ * @param db 在事务中更新时传入事务客户端
  * @returns 是否达到限制
  */
 export async function updateUserTokenUsage(
   userId: string,
   tokenCount: number,
-  cost: number
+  cost: number,
+  db: Prisma.TransactionClient = prisma
 ): Promise<{ reachedLimit: boolean; limitType?: string; limitMessage?: string }> {
   // 获取用户权限配置
-  const userPermission = await prisma.userPermission.findUnique({
+  const userPermission = await db.userPermission.findUnique({
     where: { userId }
   })
 
@@ -128,17 +142,17 @@ export async function updateUserTokenUsage(
   }
 
   // 更新token使用量
-  await prisma.userPermission.update({
+  await db.userPermission.update({
     where: { userId },
     data: { tokenUsed: { increment: tokenCount } }
   })
 
   // 检查是否需要重置限制
   if (userPermission.limitType !== 'none' && userPermission.limitPeriod) {
-    const shouldReset = await checkAndResetLimits(userId)
+    const shouldReset = await checkAndResetLimits(userId, db)
     if (shouldReset) {
       // 如果已重置，重新获取权限信息
-      const updatedPermission = await prisma.userPermission.findUnique({
+      const updatedPermission = await db.userPermission.findUnique({
         where: { userId }
       })
       if (updatedPermission) {
@@ -161,7 +175,7 @@ export async function updateUserTokenUsage(
     // 获取当前周期内的总成本
     const periodStart = userPermission.lastResetAt
     
-    const costStats = await prisma.tokenUsage.aggregate({
+    const costStats = await db.tokenUsage.aggregate({
       where: {
         userId,
         createdAt: { gte: periodStart }
@@ -186,10 +200,14 @@ export async function updateUserTokenUsage(
 /**
  * 检查并根据配置的时间周期重置用户的使用限制
  * @param userId 用户ID
+ * @param db 在事务中检查时传入事务客户端
  * @returns 是否已重置
  */
-export async function checkAndResetLimits(userId: string): Promise<boolean> {
-  const userPermission = await prisma.userPermission.findUnique({
+export async function checkAndResetLimits(
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<boolean> {
+  const userPermission = await db.userPermission.findUnique({
     where: { userId }
   })
 
@@ -229,7 +247,7 @@ export async function checkAndResetLimits(userId: string): Promise<boolean> {
 
   if (shouldReset) {
     // 重置用户的使用量并更新最后重置时间
-    await prisma.userPermission.update({
+    await db.userPermission.update({
       where: { userId },
       data: {
         tokenUsed: 0,
@@ -333,7 +351,7 @@ export async function getUserTokenHistory(
   return prisma.tokenUsage.findMany({
     where: whereClause,
     include: {
-      provider: true,
+      provider: PROVIDER_WITHOUT_KEY,
       model: true,
       conversation: {
         select: { title: true },
@@ -453,7 +471,7 @@ export async function getModelUsageStats(
   const modelIds = stats.map(s => s.modelId)
   const models = await prisma.model.findMany({
     where: { id: { in: modelIds } },
-    include: { provider: true },
+    include: { provider: PROVIDER_WITHOUT_KEY },
   })
 
   const modelMap = new Map(models.map(m => [m.id, m]))
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma'
 import type { User, UserSettings } from '@prisma/client'
+import type { ConversationFilters } from '@/lib/conversation-filters'
 
 export interface CreateUserData {
   email?: string
@@ -22,6 +23,7 @@ export interface CreateUserSettingsData {
   enableLatex?: boolean
   enableCodeHighlight?: boolean
   messagePageSize?: number
+  conversationFilters?: ConversationFilters // 侧边栏的对话筛选条件
 }
 
 /**
@@ -49,15 +51,21 @@ export async function upsertUserSettings(
   userId: string,
   data: CreateUserSettingsData
 ): Promise<UserSettings> {
+  const { conversationFilters, ...rest } = data
+  const settings = {
+    ...rest,
+    ...(conversationFilters && { conversationFilters: { ...conversationFilters } }),
+  }
+
   return prisma.userSettings.upsert({
     where: { userId },
     update: {
-      ...data,
+      ...settings,
       updatedAt: new Date(),
     },
     create: {
       userId,
-      ...data,
+      ...settings,
     },
   })
 }
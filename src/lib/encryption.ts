@@ -0,0 +1,142 @@
+/**
+ * 提供商 API Key 的信封加密
+ * 每个值使用随机的数据密钥（DEK）以 AES-256-GCM 加密，DEK 再由环境变量中的主密钥（KEK）加密后一起保存
+ *
+ * 存储格式：enc:v1:<主密钥ID>:<加密的DEK>:<密文>，各段为 base64（iv + tag + 数据）
+ * 轮换主密钥：把旧密钥移到 PROVIDER_KEY_SECRET_PREVIOUS，设置新的 PROVIDER_KEY_SECRET，再运行 npm run db:rotate-keys
+ */
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+const PREFIX = 'enc:v1:'
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+interface MasterKey {
+  id: string
+  key: Buffer
+}
+
+function deriveMasterKey(secret: string): MasterKey {
+  const key = createHash('sha256').update(secret).digest()
+  // 主密钥ID只用于解密时选择密钥，不泄露密钥本身
+  const id = createHash('sha256').update(key).digest('hex').slice(0, 8)
+  return { id, key }
+}
+
+function getCurrentMasterKey(): MasterKey {
+  const secret = process.env.PROVIDER_KEY_SECRET
+  if (secret) {
+    return deriveMasterKey(secret)
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('PROVIDER_KEY_SECRET is not configured')
+  }
+
+  // 开发环境使用固定密钥，生产环境必须配置 PROVIDER_KEY_SECRET
+  return deriveMasterKey('fimai-dev-provider-key-secret')
+}
+
+/**
+ * 所有可用于解密的主密钥：当前密钥和轮换前的旧密钥
+ */
+function getMasterKeys(): MasterKey[] {
+  const previous = (process.env.PROVIDER_KEY_SECRET_PREVIOUS || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean)
+    .map(deriveMasterKey)
+
+  return [getCurrentMasterKey(), ...previous]
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString('base64')
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const raw = Buffer.from(sealed, 'base64')
+  const iv = raw.subarray(0, IV_LENGTH)
+  const tag = raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH)
+  const decipher = createDecipheriv(ALGORITHM, key, iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()])
+}
+
+/**
+ * 是否为加密后的值（迁移前的旧数据为明文）
+ */
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX)
+}
+
+/**
+ * 加密密钥
+ */
+export function encryptSecret(plaintext: string): string {
+  const masterKey = getCurrentMasterKey()
+  const dataKey = randomBytes(32)
+
+  return [
+    PREFIX.slice(0, -1),
+    masterKey.id,
+    seal(masterKey.key, dataKey),
+    seal(dataKey, Buffer.from(plaintext, 'utf8')),
+  ].join(':')
+}
+
+/**
+ * 解密密钥，明文的旧数据原样返回
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) {
+    return value
+  }
+
+  const [masterKeyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(':')
+  const masterKey = getMasterKeys().find(k => k.id === masterKeyId)
+  if (!masterKey) {
+    throw new Error(`No master key available for encrypted secret (key id ${masterKeyId})`)
+  }
+
+  const dataKey = open(masterKey.key, wrappedKey)
+  return open(dataKey, ciphertext).toString('utf8')
+}
+
+/**
+ * 是否需要重新加密：明文，或使用旧主密钥加密
+ */
+export function needsReencryption(value: string): boolean {
+  if (!isEncryptedSecret(value)) {
+    return true
+  }
+  return value.slice(PREFIX.length).split(':')[0] !== getCurrentMasterKey().id
+}
+
+/**
+ * 遮盖密钥，只显示首尾几位
+ */
+export function maskSecret(plaintext: string): string {
+  if (plaintext.length <= 12) {
+    return '*'.repeat(plaintext.length)
+  }
+  return `${plaintext.slice(0, 6)}...${plaintext.slice(-4)}`
+}
+
+/**
+ * 解密后遮盖，用于接口返回；无法解密时不泄露任何内容
+ */
+export function maskStoredSecret(value: string | null | undefined): string | null {
+  if (!value) {
+    return null
+  }
+  try {
+    return maskSecret(decryptSecret(value))
+  } catch {
+    return '********'
+  }
+}
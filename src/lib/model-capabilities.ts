@@ -0,0 +1,97 @@
+/**
+ * 模型能力：图片输入、工具调用、JSON 模式、推理，以及上下文长度和最大输出长度
+ * 由管理员在模型配置中设置；聊天页面显示为标签并用于筛选，聊天接口据此拒绝或调整模型无法处理的请求
+ * 服务端和聊天页面共用，不依赖数据库
+ */
+import { toSamplingLimits, type SamplingLimits } from '@/lib/sampling'
+
+export const MODEL_CAPABILITY_KEYS = ['supportsVision', 'supportsTools', 'supportsJsonMode', 'supportsReasoning'] as const
+
+export type ModelCapabilityKey = typeof MODEL_CAPABILITY_KEYS[number]
+
+export type ModelCapabilities = Partial<Record<ModelCapabilityKey, boolean>> & {
+  contextLength?: number | null // 上下文长度（token）
+  maxOutputTokens?: number | null // 单次回复的最大 token 数
+}
+
+export const MODEL_CAPABILITY_LABELS: Record<ModelCapabilityKey, string> = {
+  supportsVision: '图片输入',
+  supportsTools: '工具调用',
+  supportsJsonMode: 'JSON 模式',
+  supportsReasoning: '推理',
+}
+
+/**
+ * 校验管理员提交的模型能力，只返回请求中包含的字段
+ */
+export function parseModelCapabilities(body: Record<string, unknown>): { data: ModelCapabilities } | { error: string } {
+  const data: ModelCapabilities = {}
+
+  for (const key of MODEL_CAPABILITY_KEYS) {
+    if (body[key] === undefined) continue
+    if (typeof body[key] !== 'boolean') {
+      return { error: `${key} must be a boolean` }
+    }
+    data[key] = body[key]
+  }
+
+  // 为空时表示不限制
+  for (const key of ['contextLength', 'maxOutputTokens'] as const) {
+    const value = body[key]
+    if (value === undefined) continue
+    if (value !== null && (typeof value !== 'number' || !Number.isInteger(value) || value <= 0)) {
+      return { error: `${key} must be a positive integer` }
+    }
+    data[key] = value as number | null
+  }
+
+  return { data }
+}
+
+/**
+ * 模型具备的能力，用于显示标签
+ */
+export function getModelCapabilityKeys(model: ModelCapabilities): ModelCapabilityKey[] {
+  return MODEL_CAPABILITY_KEYS.filter(key => model[key])
+}
+
+/**
+ * 请求需要但模型不具备的能力
+ */
+export function getMissingCapabilities(
+  model: ModelCapabilities,
+  required: ModelCapabilityKey[]
+): ModelCapabilityKey[] {
+  return required.filter(key => !model[key])
+}
+
+/**
+ * 模型实际可用的采样参数范围：管理员配置的范围，最大 token 数不超过模型的最大输出长度
+ */
+export function getModelSamplingLimits(
+  model: { samplingLimits?: unknown; maxOutputTokens?: number | null }
+): SamplingLimits {
+  const limits = toSamplingLimits(model.samplingLimits)
+  if (!model.maxOutputTokens) {
+    return limits
+  }
+
+  const max = Math.min(limits.maxTokens?.max ?? Infinity, model.maxOutputTokens)
+  return {
+    ...limits,
+    maxTokens: {
+      ...limits.maxTokens,
+      max,
+      ...(limits.maxTokens?.min !== undefined && { min: Math.min(limits.maxTokens.min, max) }),
+    },
+  }
+}
+
+/**
+ * 格式化 token 长度，如 128000 显示为 128K
+ */
+export function formatTokenLength(length: number): string {
+  if (length >= 1000000) return `${+(length / 1000000).toFixed(1)}M`
+  if (length >= 1000) return `${+(length / 1000).toFixed(1)}K`
+  return String(length)
+}
@@ -0,0 +1,177 @@
+/**
+ * OpenAI 兼容网关（/v1 接口）的公共工具
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import type { ApiKey, Model } from '@prisma/client'
+import type { ChatCompletionRequest, ChatContentPart, ChatMessage } from '@/lib/adapters'
+import type { ChatModel } from '@/lib/chat-fallback'
+import { getApiKeyFromRequest } from '@/lib/api-utils'
+import { apiKeyAllowsModel, apiKeyHasScope, type ApiKeyScope } from '@/lib/db/api-keys'
+import { findModelsByName } from '@/lib/db/providers'
+
+/**
+ * 以 OpenAI 的错误格式返回
+ */
+export function openAIError(
+  message: string,
+  status: number,
+  type: string = 'invalid_request_error',
+  code: string | null = null
+): NextResponse {
+  return NextResponse.json(
+    { error: { message, type, param: null, code } },
+    { status }
+  )
+}
+
+/**
+ * 校验 Bearer API 密钥及授权范围
+ * @returns 有效的密钥，或可直接返回的错误响应
+ */
+export async function authenticateGatewayRequest(
+  request: NextRequest,
+  scope: ApiKeyScope
+): Promise<{ apiKey: ApiKey; errorResponse?: never } | { apiKey?: never; errorResponse: NextResponse }> {
+  const apiKey = await getApiKeyFromRequest(request)
+
+  if (!apiKey) {
+    return {
+      errorResponse: openAIError('Invalid or expired API key', 401, 'invalid_request_error', 'invalid_api_key'),
+    }
+  }
+
+  if (!apiKeyHasScope(apiKey, scope)) {
+    return {
+      errorResponse: openAIError(`API key does not have the ${scope} scope`, 403, 'permission_error'),
+    }
+  }
+
+  return { apiKey }
+}
+
+/**
+ * 模型对外暴露的名称（优先使用别名）
+ */
+export function getGatewayModelName(model: Pick<Model, 'alias' | 'modelId'>): string {
+  return model.alias || model.modelId
+}
+
+/**
+ * 根据请求中的模型名称（别名或 modelId）解析出密钥和用户都有权使用的模型
+ */
+export async function resolveGatewayModel(
+  name: string,
+  apiKey: ApiKey,
+  allowedModelIds: string[]
+): Promise<ChatModel | null> {
+  const candidates = await findModelsByName(name)
+
+  return candidates.find(model =>
+    allowedModelIds.includes(model.id) && apiKeyAllowsModel(apiKey, model.id)
+  ) || null
+}
+
+/**
+ * 提取消息的文本内容（兼容字符串和多段内容数组）
+ */
+export function getMessageText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content
+  }
+
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (part && typeof part === 'object' && 'text' in part ? String(part.text) : ''))
+      .join('')
+  }
+
+  return ''
+}
+
+const MESSAGE_ROLES: ChatMessage['role'][] = ['system', 'user', 'assistant', 'tool']
+const SAMPLING_FIELDS = ['temperature', 'max_tokens', 'top_p', 'frequency_penalty', 'presence_penalty'] as const
+
+/**
+ * 校验多段内容，只支持文本和图片
+ */
+function isContentPart(part: unknown): part is ChatContentPart {
+  if (!part || typeof part !== 'object') {
+    return false
+  }
+  const { type, text, image_url } = part as Record<string, unknown>
+  if (type === 'text') {
+    return typeof text === 'string'
+  }
+  return type === 'image_url'
+    && !!image_url
+    && typeof image_url === 'object'
+    && typeof (image_url as Record<string, unknown>).url === 'string'
+}
+
+/**
+ * 校验并整理 Chat Completions 请求体
+ * 返回的 model 是请求中的模型名称（别名或 modelId），未识别的参数放入 extra 透传给上游
+ */
+export function parseGatewayChatRequest(body: unknown): { data: ChatCompletionRequest } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const { model, messages, stream = false, ...rest } = body as Record<string, unknown>
+  // 终端用户标识由密钥决定，不转发给上游
+  delete rest.user
+
+  if (!model || typeof model !== 'string') {
+    return { error: 'you must provide a model parameter' }
+  }
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return { error: 'messages must be a non-empty array' }
+  }
+  if (typeof stream !== 'boolean') {
+    return { error: 'stream must be a boolean' }
+  }
+
+  const parsedMessages: ChatMessage[] = []
+  for (const [index, message] of messages.entries()) {
+    if (!message || typeof message !== 'object') {
+      return { error: `messages[${index}] must be an object` }
+    }
+    const { role, content } = message as Record<string, unknown>
+    if (!MESSAGE_ROLES.includes(role as ChatMessage['role'])) {
+      return { error: `messages[${index}].role must be one of: ${MESSAGE_ROLES.join(', ')}` }
+    }
+    // 只有工具调用的 assistant 消息 content 可以为 null
+    if (content !== null && typeof content !== 'string' && !(Array.isArray(content) && content.every(isContentPart))) {
+      return { error: `messages[${index}].content must be a string or an array of text and image_url parts` }
+    }
+    parsedMessages.push({ ...(message as ChatMessage), content: content ?? '' })
+  }
+
+  const sampling: Partial<Record<typeof SAMPLING_FIELDS[number], number>> = {}
+  for (const field of SAMPLING_FIELDS) {
+    const value = rest[field]
+    delete rest[field]
+    if (value === undefined || value === null) continue
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return { error: `${field} must be a number` }
+    }
+    sampling[field] = value
+  }
+
+  if (rest.tools !== undefined && !Array.isArray(rest.tools)) {
+    return { error: 'tools must be an array' }
+  }
+  if (rest.response_format !== undefined && (!rest.response_format || typeof rest.response_format !== 'object')) {
+    return { error: 'response_format must be an object' }
+  }
+
+  return {
+    data: {
+      model,
+      messages: parsedMessages,
+      stream,
+      ...sampling,
+      extra: rest,
+    },
+  }
+}
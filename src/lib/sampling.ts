@@ -0,0 +1,168 @@
+/**
+ * 采样参数：对话的设置、提示词预设和模型默认配置共用的参数，以及管理员为每个模型配置的取值范围
+ * 服务端和聊天页面共用，不依赖数据库
+ */
+
+export const SAMPLING_PARAM_KEYS = ['temperature', 'maxTokens', 'topP', 'frequencyPenalty', 'presencePenalty'] as const
+
+export type SamplingParamKey = typeof SAMPLING_PARAM_KEYS[number]
+
+export type SamplingParams = Partial<Record<SamplingParamKey, number>>
+
+export interface SamplingRange {
+  min?: number
+  max?: number
+}
+
+// 模型的采样参数范围，未配置的参数只受接口允许的范围限制
+export type SamplingLimits = Partial<Record<SamplingParamKey, SamplingRange>>
+
+export const SAMPLING_PARAM_LABELS: Record<SamplingParamKey, string> = {
+  temperature: '温度',
+  maxTokens: '最大 Token 数',
+  topP: 'Top P',
+  frequencyPenalty: '频率惩罚',
+  presencePenalty: '存在惩罚',
+}
+
+// 接口允许的取值范围（与 OpenAI 接口一致），maxTokens 没有上限
+export const SAMPLING_RANGES: Record<SamplingParamKey, { min: number; max?: number; integer?: boolean }> = {
+  temperature: { min: 0, max: 2 },
+  maxTokens: { min: 1, integer: true },
+  topP: { min: 0, max: 1 },
+  frequencyPenalty: { min: -2, max: 2 },
+  presencePenalty: { min: -2, max: 2 },
+}
+
+/**
+ * 校验单个采样参数
+ * @returns 不合法时返回错误信息
+ */
+export function validateSamplingValue(key: SamplingParamKey, value: unknown): string | null {
+  const range = SAMPLING_RANGES[key]
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return `${key} must be a number`
+  }
+  if (range.integer && !Number.isInteger(value)) {
+    return `${key} must be an integer`
+  }
+  if (value < range.min || (range.max !== undefined && value > range.max)) {
+    return range.max !== undefined
+      ? `${key} must be between ${range.min} and ${range.max}`
+      : `${key} must be at least ${range.min}`
+  }
+  return null
+}
+
+/**
+ * 校验请求中的采样参数，值为 null 的参数表示使用默认配置
+ */
+export function parseSamplingParams(value: unknown): { data: SamplingParams } | { error: string } {
+  if (value === null || value === undefined) {
+    return { data: {} }
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'samplingParams must be an object' }
+  }
+
+  const data: SamplingParams = {}
+  for (const key of SAMPLING_PARAM_KEYS) {
+    const param = (value as Record<string, unknown>)[key]
+    if (param === undefined || param === null) continue
+
+    const error = validateSamplingValue(key, param)
+    if (error) {
+      return { error }
+    }
+    data[key] = param as number
+  }
+  return { data }
+}
+
+/**
+ * 校验管理员配置的采样参数范围
+ */
+export function parseSamplingLimits(value: unknown): { data: SamplingLimits | null } | { error: string } {
+  if (value === null || value === undefined) {
+    return { data: null }
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'samplingLimits must be an object' }
+  }
+
+  const data: SamplingLimits = {}
+  for (const key of SAMPLING_PARAM_KEYS) {
+    const range = (value as Record<string, unknown>)[key]
+    if (range === undefined || range === null) continue
+    if (typeof range !== 'object' || Array.isArray(range)) {
+      return { error: `samplingLimits.${key} must be an object` }
+    }
+
+    const { min, max } = range as Record<string, unknown>
+    for (const bound of [min, max]) {
+      if (bound === undefined || bound === null) continue
+      const error = validateSamplingValue(key, bound)
+      if (error) {
+        return { error: `samplingLimits.${error}` }
+      }
+    }
+    if (typeof min === 'number' && typeof max === 'number' && min > max) {
+      return { error: `samplingLimits.${key} min must not be greater than max` }
+    }
+
+    const parsed: SamplingRange = {
+      ...(typeof min === 'number' && { min }),
+      ...(typeof max === 'number' && { max }),
+    }
+    if (parsed.min !== undefined || parsed.max !== undefined) {
+      data[key] = parsed
+    }
+  }
+  return { data: Object.keys(data).length > 0 ? data : null }
+}
+
+/**
+ * 读取数据库中保存的采样参数（JSON），忽略不合法的值
+ */
+export function toSamplingParams(value: unknown): SamplingParams {
+  const parsed = parseSamplingParams(value)
+  return 'data' in parsed ? parsed.data : {}
+}
+
+/**
+ * 读取数据库中保存的采样参数范围（JSON），忽略不合法的值
+ */
+export function toSamplingLimits(value: unknown): SamplingLimits {
+  const parsed = parseSamplingLimits(value)
+  return 'data' in parsed ? parsed.data ?? {} : {}
+}
+
+/**
+ * 参数在模型上实际可用的范围：接口允许的范围和管理员配置的范围的交集
+ */
+export function getSamplingBounds(key: SamplingParamKey, limits?: SamplingLimits | null): { min: number; max?: number } {
+  const range = SAMPLING_RANGES[key]
+  const limit = limits?.[key]
+  const min = Math.max(range.min, limit?.min ?? range.min)
+  const max = limit?.max ?? range.max
+  return { min, max: max !== undefined ? Math.max(min, max) : undefined }
+}
+
+/**
+ * 确定请求使用的采样参数：按顺序取第一个配置了的值，再限制在模型允许的范围内
+ * @param sources 按优先级排列，如请求参数、对话设置、预设、模型默认配置
+ */
+export function resolveSamplingParams(
+  sources: Array<Partial<Record<SamplingParamKey, number | null | undefined>> | null | undefined>,
+  limits?: SamplingLimits | null
+): SamplingParams {
+  const result: SamplingParams = {}
+  for (const key of SAMPLING_PARAM_KEYS) {
+    const value = sources.map(source => source?.[key]).find(v => v !== undefined && v !== null)
+    if (value === undefined || value === null) continue
+
+    const { min, max } = getSamplingBounds(key, limits)
+    result[key] = Math.min(Math.max(value, min), max ?? Infinity)
+  }
+  return result
+}
@@ -0,0 +1,138 @@
+/**
+ * 会话令牌工具
+ * 仅依赖 Web Crypto，可同时在 middleware（Edge）和 API 路由（Node）中使用，不要在这里引入 prisma
+ */
+import type { NextResponse } from 'next/server'
+
+export const SESSION_COOKIE_NAME = 'fimai_session'
+
+// middleware 校验通过后写入的请求头，客户端传入的同名请求头会被丢弃
+export const SESSION_ID_HEADER = 'x-fimai-session-id'
+export const SESSION_USER_HEADER = 'x-fimai-user-id'
+
+// 会话有效期：7天
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60
+
+export interface SessionTokenPayload {
+  sid: string // 会话ID（对应 sessions 表）
+  uid: string // 用户ID
+  exp: number // 过期时间（Unix 秒）
+}
+
+const encoder = new TextEncoder()
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET
+  if (secret) {
+    return secret
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET is not configured')
+  }
+
+  // 开发环境使用固定密钥，生产环境必须配置 SESSION_SECRET
+  return 'fimai-dev-session-secret'
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  const binary = atob(padded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+/**
+ * 生成签名的会话令牌
+ */
+export async function signSessionToken(payload: SessionTokenPayload): Promise<string> {
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)))
+  const key = await getSigningKey()
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body))
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+/**
+ * 校验会话令牌的签名和有效期
+ * 不检查是否已被吊销（需要查询数据库，见 lib/db/sessions.ts）
+ */
+export async function verifySessionToken(token: string): Promise<SessionTokenPayload | null> {
+  try {
+    const [body, signature] = token.split('.')
+    if (!body || !signature) {
+      return null
+    }
+
+    const key = await getSigningKey()
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(signature),
+      encoder.encode(body)
+    )
+    if (!isValid) {
+      return null
+    }
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body))) as SessionTokenPayload
+    if (!payload.sid || !payload.uid || !payload.exp) {
+      return null
+    }
+
+    if (payload.exp * 1000 <= Date.now()) {
+      return null
+    }
+
+    return payload
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 在响应中写入会话 Cookie
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  })
+}
+
+/**
+ * 清除会话 Cookie
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  })
+}
@@ -0,0 +1,153 @@
+/**
+ * 附件的文件存储：保存在本地目录或 S3 兼容的对象存储（AWS S3、MinIO、Cloudflare R2 等）
+ *
+ * ATTACHMENT_STORAGE=local（默认）时保存在 ATTACHMENT_DIR（默认 ./uploads）；
+ * ATTACHMENT_STORAGE=s3 时使用 S3_ENDPOINT、S3_REGION、S3_BUCKET、S3_ACCESS_KEY_ID、S3_SECRET_ACCESS_KEY，
+ * 以路径形式访问存储桶并使用 Signature V4 签名
+ */
+import { createHash, createHmac } from 'crypto'
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import path from 'path'
+
+export type StorageDriver = 'local' | 's3'
+
+interface S3Config {
+  endpoint: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+/**
+ * 新上传的文件使用的存储，已保存的文件按记录的存储读取
+ */
+export function getStorageDriver(): StorageDriver {
+  return process.env.ATTACHMENT_STORAGE === 's3' ? 's3' : 'local'
+}
+
+function getLocalPath(key: string): string {
+  const root = path.resolve(process.env.ATTACHMENT_DIR || 'uploads')
+  const filePath = path.resolve(root, key)
+  // 防止路径穿越到存储目录之外
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error('Invalid storage key')
+  }
+  return filePath
+}
+
+function getS3Config(): S3Config {
+  const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+  if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error('S3 storage is not configured')
+  }
+  return {
+    endpoint: S3_ENDPOINT.replace(/\/+$/, ''),
+    region: S3_REGION || 'us-east-1',
+    bucket: S3_BUCKET,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+  }
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest()
+}
+
+/**
+ * 发送带 Signature V4 签名的 S3 请求
+ */
+async function s3Request(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string): Promise<Response> {
+  const config = getS3Config()
+  const url = new URL(`${config.endpoint}/${config.bucket}/${key.split('/').map(encodeURIComponent).join('/')}`)
+
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+  const date = amzDate.slice(0, 8)
+  const payloadHash = sha256Hex(body ?? '')
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    ...(contentType && { 'content-type': contentType }),
+  }
+
+  const signedHeaders = Object.keys(headers).sort()
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    ...signedHeaders.map(name => `${name}:${headers[name]}`),
+    '',
+    signedHeaders.join(';'),
+    payloadHash,
+  ].join('\n')
+
+  const scope = `${date}/${config.region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region)
+  )
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  // host 由 fetch 自动设置
+  return fetch(url, {
+    method,
+    headers: {
+      ...Object.fromEntries(Object.entries(headers).filter(([name]) => name !== 'host')),
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+    },
+    body: body ? new Uint8Array(body) : undefined,
+  })
+}
+
+/**
+ * 保存文件
+ */
+export async function putObject(driver: StorageDriver, key: string, data: Buffer, contentType: string): Promise<void> {
+  if (driver === 'local') {
+    const filePath = getLocalPath(key)
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, data)
+    return
+  }
+
+  const response = await s3Request('PUT', key, data, contentType)
+  if (!response.ok) {
+    throw new Error(`S3 upload failed: ${response.status} ${await response.text()}`)
+  }
+}
+
+/**
+ * 读取文件
+ */
+export async function getObject(driver: StorageDriver, key: string): Promise<Buffer> {
+  if (driver === 'local') {
+    return readFile(getLocalPath(key))
+  }
+
+  const response = await s3Request('GET', key)
+  if (!response.ok) {
+    throw new Error(`S3 download failed: ${response.status}`)
+  }
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * 删除文件，文件不存在时忽略
+ */
+export async function deleteObject(driver: StorageDriver, key: string): Promise<void> {
+  if (driver === 'local') {
+    await rm(getLocalPath(key), { force: true })
+    return
+  }
+
+  const response = await s3Request('DELETE', key)
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`S3 delete failed: ${response.status}`)
+  }
+}
@@ -0,0 +1,194 @@
+import type { BuiltinTool } from './types'
+
+// 表达式的最大长度
+const MAX_EXPRESSION_LENGTH = 1000
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log10: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+}
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+}
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string }
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/gy
+
+  let index = 0
+  while (index < expression.length) {
+    pattern.lastIndex = index
+    const match = pattern.exec(expression)
+    if (!match) {
+      if (!expression.slice(index).trim()) break
+      throw new Error(`Unexpected character at position ${index + 1}`)
+    }
+    index = pattern.lastIndex
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'number', value: Number(match[1]) })
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: 'name', value: match[2] })
+    } else if (match[3] !== undefined) {
+      tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3] })
+    }
+  }
+  return tokens
+}
+
+/**
+ * 计算数学表达式（递归下降解析，不使用 eval）
+ * 支持 + - * / % ^、括号、常用函数和常量 pi、e
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression.toLowerCase())
+  let position = 0
+
+  const peek = () => tokens[position]
+  const isOp = (value: string) => peek()?.type === 'op' && peek()!.value === value
+  const expect = (value: string) => {
+    if (!isOp(value)) {
+      throw new Error(`Expected "${value}"`)
+    }
+    position++
+  }
+
+  function parseExpression(): number {
+    let value = parseTerm()
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[position++].value
+      const right = parseTerm()
+      value = op === '+' ? value + right : value - right
+    }
+    return value
+  }
+
+  function parseTerm(): number {
+    let value = parseUnary()
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[position++].value
+      const right = parseUnary()
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right
+    }
+    return value
+  }
+
+  function parseUnary(): number {
+    if (isOp('-')) {
+      position++
+      return -parseUnary()
+    }
+    if (isOp('+')) {
+      position++
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  // 乘方为右结合，-2^2 = -4
+  function parsePower(): number {
+    const base = parsePrimary()
+    if (isOp('^')) {
+      position++
+      return Math.pow(base, parseUnary())
+    }
+    return base
+  }
+
+  function parsePrimary(): number {
+    const token = tokens[position++]
+    if (!token) {
+      throw new Error('Unexpected end of expression')
+    }
+    if (token.type === 'number') {
+      return token.value
+    }
+    if (token.type === 'op' && token.value === '(') {
+      const value = parseExpression()
+      expect(')')
+      return value
+    }
+    if (token.type === 'name') {
+      if (isOp('(')) {
+        const fn = FUNCTIONS[token.value]
+        if (!fn) {
+          throw new Error(`Unknown function: ${token.value}`)
+        }
+        position++
+        const args: number[] = []
+        if (!isOp(')')) {
+          args.push(parseExpression())
+          while (isOp(',')) {
+            position++
+            args.push(parseExpression())
+          }
+        }
+        expect(')')
+        return fn(...args)
+      }
+      if (token.value in CONSTANTS) {
+        return CONSTANTS[token.value]
+      }
+      throw new Error(`Unknown name: ${token.value}`)
+    }
+    throw new Error(`Unexpected "${token.value}"`)
+  }
+
+  const result = parseExpression()
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}"`)
+  }
+  return result
+}
+
+export const calculatorTool: BuiltinTool = {
+  name: 'calculator',
+  description: 'Evaluate a math expression exactly. Supports + - * / % ^, parentheses, '
+    + 'functions (sqrt, cbrt, abs, exp, ln, log, log2, sin, cos, tan, asin, acos, atan, floor, ceil, round, min, max, pow) '
+    + 'and constants pi, e. Trigonometric functions use radians.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression to evaluate, e.g. "(3 + 4) * sqrt(2)"' },
+    },
+    required: ['expression'],
+  },
+
+  async execute(args) {
+    const expression = args.expression
+    if (typeof expression !== 'string' || !expression.trim()) {
+      throw new Error('expression is required')
+    }
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw new Error('Expression is too long')
+    }
+
+    const result = evaluateExpression(expression)
+    if (!Number.isFinite(result)) {
+      throw new Error('Result is not a finite number')
+    }
+    // 去掉浮点误差，如 0.1 + 0.2 显示为 0.3
+    return String(Number(result.toPrecision(15)))
+  },
+}
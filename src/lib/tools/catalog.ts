@@ -0,0 +1,37 @@
+/**
+ * 内置工具的名称和调用记录：管理后台、聊天接口和聊天页面共用，不依赖数据库
+ * 管理员可以为模型（对所有用户）或为用户（在所有支持工具调用的模型上）启用工具
+ */
+
+export const BUILTIN_TOOL_NAMES = ['calculator', 'current_time', 'fetch_url'] as const
+
+export type ToolName = typeof BUILTIN_TOOL_NAMES[number]
+
+export const BUILTIN_TOOL_LABELS: Record<ToolName, string> = {
+  calculator: '计算器',
+  current_time: '当前时间',
+  fetch_url: '网页读取',
+}
+
+// 一次工具调用及其结果，保存在助手消息中并在聊天页面显示
+export interface ToolCallRecord {
+  id: string
+  name: string
+  arguments: string // 模型生成的参数（JSON 字符串）
+  status: 'running' | 'success' | 'error'
+  result?: string
+}
+
+export function isToolName(name: unknown): name is ToolName {
+  return typeof name === 'string' && (BUILTIN_TOOL_NAMES as readonly string[]).includes(name)
+}
+
+/**
+ * 校验管理员提交的工具列表
+ */
+export function parseToolNames(value: unknown): { data: ToolName[] } | { error: string } {
+  if (!Array.isArray(value) || !value.every(isToolName)) {
+    return { error: `enabledTools must be an array of: ${BUILTIN_TOOL_NAMES.join(', ')}` }
+  }
+  return { data: [...new Set(value)] }
+}
@@ -0,0 +1,48 @@
+import type { BuiltinTool } from './types'
+
+export const currentTimeTool: BuiltinTool = {
+  name: 'current_time',
+  description: 'Get the current date and time. Optionally specify an IANA time zone such as "Asia/Shanghai"; '
+    + 'defaults to the server time zone.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timezone: { type: 'string', description: 'IANA time zone name, e.g. "America/New_York"' },
+    },
+  },
+
+  async execute(args) {
+    const timeZone = typeof args.timezone === 'string' && args.timezone.trim()
+      ? args.timezone.trim()
+      : Intl.DateTimeFormat().resolvedOptions().timeZone
+
+    let formatter: Intl.DateTimeFormat
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        weekday: 'long',
+        hourCycle: 'h23',
+        timeZoneName: 'longOffset',
+      })
+    } catch {
+      throw new Error(`Invalid time zone: ${timeZone}`)
+    }
+
+    const now = new Date()
+    const parts = Object.fromEntries(formatter.formatToParts(now).map(part => [part.type, part.value]))
+
+    return JSON.stringify({
+      timezone: timeZone,
+      local: `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second}`,
+      weekday: parts.weekday,
+      utcOffset: parts.timeZoneName,
+      iso: now.toISOString(),
+    })
+  },
+}
@@ -0,0 +1,160 @@
+import type { BuiltinTool } from './types'
+import { getSystemSetting } from '@/lib/db/system-settings'
+
+// 请求超时时间
+const FETCH_TIMEOUT_MS = 10000
+// 最多跟随的重定向次数，每次重定向都重新检查域名
+const MAX_REDIRECTS = 3
+// 最多读取的响应大小
+const MAX_RESPONSE_BYTES = 1024 * 1024
+// 返回给模型的文本超过该长度时截断
+const MAX_TEXT_LENGTH = 20000
+
+const TEXT_CONTENT_TYPES = ['text/', 'application/json', 'application/xml', 'application/xhtml+xml', 'application/rss+xml']
+
+/**
+ * 管理员配置的允许访问的域名（系统设置 tool_fetch_allowed_hosts，逗号或换行分隔）
+ */
+export async function getAllowedFetchHosts(): Promise<string[]> {
+  const value = await getSystemSetting('tool_fetch_allowed_hosts')
+  return typeof value === 'string'
+    ? value.split(/[\s,]+/).map(host => host.trim().toLowerCase()).filter(Boolean)
+    : []
+}
+
+/**
+ * 检查域名是否在允许列表中，*.example.com 匹配 example.com 的所有子域名
+ */
+export function isHostAllowed(hostname: string, allowedHosts: string[]): boolean {
+  const host = hostname.toLowerCase()
+  return allowedHosts.some(entry =>
+    entry.startsWith('*.') ? host.endsWith(entry.slice(1)) : host === entry
+  )
+}
+
+/**
+ * 读取响应内容，超出大小限制的部分丢弃
+ */
+async function readLimitedText(response: Response): Promise<string> {
+  const reader = response.body?.getReader()
+  if (!reader) return ''
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (size < MAX_RESPONSE_BYTES) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    size += value.length
+  }
+  await reader.cancel().catch(() => {})
+
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, MAX_RESPONSE_BYTES))
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity
+    }
+    return named[code.toLowerCase()] ?? entity
+  })
+}
+
+/**
+ * 提取网页的标题和正文文本
+ */
+function htmlToText(html: string): { title: string; text: string } {
+  const title = decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? '').trim()
+  const text = decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|noscript|svg|head)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|tr|h[1-6]|section|article|header|footer|blockquote|pre)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+
+  return { title, text }
+}
+
+export const fetchUrlTool: BuiltinTool = {
+  name: 'fetch_url',
+  description: 'Fetch a web page or text resource over HTTP(S) and return its text content. '
+    + 'Only hosts on the administrator-configured allow-list can be fetched.',
+  parameters: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', description: 'The absolute http or https URL to fetch' },
+    },
+    required: ['url'],
+  },
+
+  async execute(args, context) {
+    if (typeof args.url !== 'string') {
+      throw new Error('url is required')
+    }
+
+    const allowedHosts = await getAllowedFetchHosts()
+    const signal = context.signal
+      ? AbortSignal.any([context.signal, AbortSignal.timeout(FETCH_TIMEOUT_MS)])
+      : AbortSignal.timeout(FETCH_TIMEOUT_MS)
+
+    let url: URL
+    try {
+      url = new URL(args.url)
+    } catch {
+      throw new Error('Invalid URL')
+    }
+
+    let response: Response
+    for (let redirects = 0; ; redirects++) {
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error('Only http and https URLs are supported')
+      }
+      if (!isHostAllowed(url.hostname, allowedHosts)) {
+        throw new Error(`Host ${url.hostname} is not on the allow-list`)
+      }
+
+      response = await fetch(url, {
+        redirect: 'manual',
+        headers: { 'Accept': 'text/html,text/plain,application/json;q=0.9,*/*;q=0.5' },
+        signal,
+      })
+
+      const location = response.headers.get('location')
+      if (response.status < 300 || response.status >= 400 || !location) break
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error('Too many redirects')
+      }
+      await response.body?.cancel().catch(() => {})
+      url = new URL(location, url)
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {})
+      throw new Error(`Request failed with status ${response.status}`)
+    }
+
+    const contentType = response.headers.get('content-type')?.toLowerCase() ?? ''
+    if (contentType && !TEXT_CONTENT_TYPES.some(type => contentType.startsWith(type))) {
+      await response.body?.cancel().catch(() => {})
+      throw new Error(`Unsupported content type: ${contentType.split(';')[0]}`)
+    }
+
+    const body = await readLimitedText(response)
+    const { title, text } = contentType.includes('html') ? htmlToText(body) : { title: '', text: body.trim() }
+    const content = text.length > MAX_TEXT_LENGTH
+      ? `${text.slice(0, MAX_TEXT_LENGTH)}\n…（内容过长，已截断）`
+      : text
+
+    const header = title ? [`URL: ${url.href}`, `Title: ${title}`] : [`URL: ${url.href}`]
+    return [...header, '', content].join('\n')
+  },
+}
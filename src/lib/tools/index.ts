@@ -0,0 +1,87 @@
+import type { ChatToolCall, ChatToolDefinition } from '@/lib/adapters'
+import { BUILTIN_TOOL_NAMES, isToolName, type ToolCallRecord, type ToolName } from './catalog'
+import type { BuiltinTool, ToolContext } from './types'
+import { calculatorTool } from './calculator'
+import { currentTimeTool } from './current-time'
+import { fetchUrlTool } from './fetch-url'
+
+export type * from './types'
+export * from './catalog'
+
+// 工具结果超过该长度时截断，避免占满模型的上下文
+const MAX_RESULT_LENGTH = 20000
+
+const tools: Record<ToolName, BuiltinTool> = {
+  calculator: calculatorTool,
+  current_time: currentTimeTool,
+  fetch_url: fetchUrlTool,
+}
+
+/**
+ * 模型可以使用的工具：模型支持工具调用时，管理员为模型启用的工具加上为用户启用的工具
+ */
+export function getEnabledToolNames(
+  model: { supportsTools?: boolean; enabledTools?: string[] },
+  userTools: string[] = []
+): ToolName[] {
+  if (!model.supportsTools) {
+    return []
+  }
+  const enabled = new Set([...(model.enabledTools ?? []), ...userTools])
+  return BUILTIN_TOOL_NAMES.filter(name => enabled.has(name))
+}
+
+/**
+ * 工具的定义，随聊天请求发送给模型
+ */
+export function getToolDefinitions(names: ToolName[]): ChatToolDefinition[] {
+  return names.map(name => ({
+    type: 'function',
+    function: {
+      name,
+      description: tools[name].description,
+      parameters: tools[name].parameters,
+    },
+  }))
+}
+
+/**
+ * 执行模型发起的工具调用，只执行本次请求中启用的工具
+ * 工具出错时不抛出错误，错误信息作为结果返回给模型
+ */
+export async function executeToolCall(
+  call: ChatToolCall,
+  allowed: string[],
+  context: ToolContext
+): Promise<ToolCallRecord> {
+  const record = { id: call.id, name: call.function.name, arguments: call.function.arguments }
+
+  try {
+    if (!isToolName(call.function.name) || !allowed.includes(call.function.name)) {
+      throw new Error(`Unknown tool: ${call.function.name}`)
+    }
+
+    let args: unknown
+    try {
+      args = JSON.parse(call.function.arguments || '{}')
+    } catch {
+      throw new Error('Arguments must be a JSON object')
+    }
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      throw new Error('Arguments must be a JSON object')
+    }
+
+    const result = await tools[call.function.name].execute(args as Record<string, unknown>, context)
+    return {
+      ...record,
+      status: 'success',
+      result: result.length > MAX_RESULT_LENGTH ? `${result.slice(0, MAX_RESULT_LENGTH)}\n…（结果过长，已截断）` : result,
+    }
+  } catch (error) {
+    // 客户端断开时不再继续
+    if (context.signal?.aborted) {
+      throw error
+    }
+    return { ...record, status: 'error', result: `Error: ${error instanceof Error ? error.message : 'Tool failed'}` }
+  }
+}
@@ -0,0 +1,17 @@
+import type { ToolName } from './catalog'
+
+export interface ToolContext {
+  userId: string
+  signal?: AbortSignal // 客户端断开或取消生成时中止
+}
+
+export interface BuiltinTool {
+  name: ToolName
+  description: string
+  parameters: Record<string, unknown> // 参数的 JSON Schema
+  /**
+   * 执行工具，返回发送给模型的文本
+   * 参数无效或执行失败时抛出错误，错误信息会作为结果告知模型
+   */
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<string>
+}
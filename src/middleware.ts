@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_ID_HEADER,
+  SESSION_USER_HEADER,
+  verifySessionToken,
+} from '@/lib/session'
+
+// 不需要登录即可访问的 API
+const PUBLIC_API_PATHS = [
+  '/api/auth/login',
+  '/api/auth/logout',
+  '/api/auth/register',
+  '/api/auth/forgot-password',
+  '/api/auth/reset-password',
+  '/api/auth/recover-username',
+  '/api/codes/invite',
+  '/api/codes/access',
+  '/api/init',
+  '/api/system/admin-exists',
+  '/api/share', // 公开的对话分享
+]
+
+// 允许使用 API 密钥（Authorization: Bearer）调用的 API，由路由自行校验密钥
+const API_KEY_PATHS = [
+  '/api/chat',
+]
+
+function isPublicApiPath(pathname: string): boolean {
+  return PUBLIC_API_PATHS.some(path => pathname === path || pathname.startsWith(`${path}/`))
+}
+
+function hasBearerToken(request: NextRequest): boolean {
+  return request.headers.get('authorization')?.startsWith('Bearer ') ?? false
+}
+
+/**
+ * 统一解析 API 请求的调用者
+ * 校验会话 Cookie 的签名后，把会话ID和用户ID写入请求头，路由通过 getUserFromRequest 读取
+ */
+export async function middleware(request: NextRequest) {
+  const requestHeaders = new Headers(request.headers)
+
+  // 丢弃客户端伪造的身份请求头
+  requestHeaders.delete(SESSION_ID_HEADER)
+  requestHeaders.delete(SESSION_USER_HEADER)
+
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value
+  const payload = token ? await verifySessionToken(token) : null
+
+  if (payload) {
+    requestHeaders.set(SESSION_ID_HEADER, payload.sid)
+    requestHeaders.set(SESSION_USER_HEADER, payload.uid)
+  } else if (
+    !isPublicApiPath(request.nextUrl.pathname) &&
+    !(API_KEY_PATHS.includes(request.nextUrl.pathname) && hasBearerToken(request))
+  ) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  return NextResponse.next({
+    request: { headers: requestHeaders },
+  })
+}
+
+export const config = {
+  matcher: '/api/:path*',
+}
@@ -0,0 +1,65 @@
+// 消息树工具：消息通过 parentId 组成树，编辑和重新生成会在同一父消息下创建新版本
+
+export interface TreeMessage {
+  id: string;
+  parentId?: string | null;
+  siblingIndex?: number;
+}
+
+// 从叶子消息向上找到对话开头，得到该分支上的消息
+export function getBranchPath<T extends TreeMessage>(nodes: T[], leafId: string | null | undefined): T[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const path: T[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && path.length < nodes.length) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+// 同一父消息下的所有版本，按版本顺序排列
+export function getSiblings<T extends TreeMessage>(nodes: T[], message: TreeMessage): T[] {
+  return nodes
+    .filter(node => (node.parentId ?? null) === (message.parentId ?? null))
+    .sort((a, b) => (a.siblingIndex ?? 0) - (b.siblingIndex ?? 0));
+}
+
+// 从指定消息向下找到叶子消息，每一层选择最新的版本
+export function getLatestLeaf<T extends TreeMessage>(nodes: T[], messageId: string): T | undefined {
+  let current = nodes.find(node => node.id === messageId);
+  while (current) {
+    const parentId = current.id;
+    const children = nodes.filter(node => node.parentId === parentId);
+    if (children.length === 0) break;
+    current = children[children.length - 1];
+  }
+  return current;
+}
+
+// 合并消息，已有的消息替换为新的内容，其余追加到末尾
+export function mergeMessages<T extends TreeMessage>(nodes: T[], messages: T[]): T[] {
+  const updated = new Map(messages.map(message => [message.id, message]));
+  const existing = new Set(nodes.map(node => node.id));
+  return [
+    ...nodes.map(node => updated.get(node.id) ?? node),
+    ...messages.filter(message => !existing.has(message.id)),
+  ];
+}
+
+// 移除消息及其之后的所有消息
+export function removeSubtree<T extends TreeMessage>(nodes: T[], messageId: string): T[] {
+  const removed = new Set([messageId]);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const node of nodes) {
+      if (node.parentId && removed.has(node.parentId) && !removed.has(node.id)) {
+        removed.add(node.id);
+        changed = true;
+      }
+    }
+  }
+  return nodes.filter(node => !removed.has(node.id));
+}